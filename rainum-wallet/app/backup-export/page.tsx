@@ -9,12 +9,15 @@
  * - Export cooldown timers
  * - Audit logging
  * - Security warnings
+ * - Private keys can also be saved as an encrypted keystore file
  */
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { useWalletStore } from '@/lib/wallet-store';
+import { useWalletStore, isWatchOnlyAccount } from '@/lib/wallet-store';
 import { verifyPassword } from '@/lib/auth-manager';
+import { createAccountKeystore } from '@/lib/imported-keys';
+import { securelyWipeMemory } from '@/lib/hd-wallet';
 import {
   canExport,
   recordExportAttempt,
@@ -34,6 +37,7 @@ import {
   Eye,
   EyeOff,
   History,
+  Download,
 } from 'lucide-react';
 
 type ExportStep = 'auth' | 'select' | 'export';
@@ -41,7 +45,7 @@ type ExportType = 'seed_phrase' | 'private_key';
 
 export default function BackupExportPage() {
   const router = useRouter();
-  const { mnemonic, accounts, activeAccountIndex } = useWalletStore();
+  const { mnemonic, accounts, activeAccountIndex, passphraseProtected } = useWalletStore();
 
   // Steps
   const [step, setStep] = useState<ExportStep>('auth');
@@ -49,6 +53,7 @@ export default function BackupExportPage() {
 
   // Auth
   const [password, setPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [authError, setAuthError] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
@@ -58,6 +63,9 @@ export default function BackupExportPage() {
   const [copied, setCopied] = useState(false);
   const [showSensitiveData, setShowSensitiveData] = useState(false);
   const [clipboardTimer, setClipboardTimer] = useState<number | null>(null);
+  const [keystorePassword, setKeystorePassword] = useState('');
+  const [keystoreError, setKeystoreError] = useState('');
+  const [isCreatingKeystore, setIsCreatingKeystore] = useState(false);
 
   // Security
   const [canExportNow, setCanExportNow] = useState(false);
@@ -102,7 +110,7 @@ export default function BackupExportPage() {
   }, [mnemonic, step, clipboardTimer]);
 
   // Handle password verification
-  const handleVerifyPassword = () => {
+  const handleVerifyPassword = async () => {
     if (!password) {
       setAuthError('Please enter your password');
       return;
@@ -111,29 +119,33 @@ export default function BackupExportPage() {
     setIsVerifying(true);
     setAuthError('');
 
-    // Small delay for UX
-    setTimeout(() => {
-      const isValid = verifyPassword(password);
+    try {
+      const isValid = await verifyPassword(password);
 
       if (isValid) {
         // Unlock mnemonic from encrypted storage
         const { unlockMnemonic } = useWalletStore.getState();
-        const unlocked = unlockMnemonic(password);
+        const unlocked = await unlockMnemonic(password, passphraseProtected ? passphrase : undefined);
 
         if (!unlocked) {
-          setAuthError('Failed to unlock wallet. Please try again.');
-          setIsVerifying(false);
+          setAuthError(passphraseProtected
+            ? 'Passphrase does not match this wallet'
+            : 'Failed to unlock wallet. Please try again.');
           return;
         }
 
         setStep('select');
         setPassword(''); // Clear password from memory
+        setPassphrase('');
       } else {
         setAuthError('Incorrect password');
       }
-
+    } catch (err) {
+      // Vault integrity failures are reported as-is, never as a wrong password
+      setAuthError(err instanceof Error ? err.message : 'Failed to unlock wallet');
+    } finally {
       setIsVerifying(false);
-    }, 300);
+    }
   };
 
   // Handle export
@@ -178,6 +190,38 @@ export default function BackupExportPage() {
     }, 60000);
   };
 
+  // Download the private key as an encrypted keystore (Import Account -> Keystore File)
+  const handleDownloadKeystore = async () => {
+    const { getPrivateKey } = useWalletStore.getState();
+    const privateKey = getPrivateKey(selectedAccountIndex);
+    if (!privateKey) return;
+
+    setIsCreatingKeystore(true);
+    setKeystoreError('');
+
+    try {
+      const keystoreJson = await createAccountKeystore(privateKey, keystorePassword);
+      const account = accounts.find((a) => a.index === selectedAccountIndex);
+
+      const blob = new Blob([keystoreJson], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `rainum-account-keystore-${(account?.address || '').slice(0, 10)}-${Date.now()}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setKeystorePassword(''); // Clear password from memory
+    } catch (err) {
+      setKeystoreError(err instanceof Error ? err.message : 'Failed to create keystore');
+    } finally {
+      securelyWipeMemory(privateKey);
+      setIsCreatingKeystore(false);
+    }
+  };
+
   // Get export data
   const getExportData = (): string => {
     if (!mnemonic) return '';
@@ -250,6 +294,19 @@ export default function BackupExportPage() {
               </button>
             </div>
 
+            {/* Hidden wallets need their BIP39 passphrase to re-derive the same keys */}
+            {passphraseProtected && (
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleVerifyPassword()}
+                placeholder="Enter your passphrase (25th word)"
+                autoComplete="off"
+                className="w-full bg-white/5 border-2 border-white/10 rounded-xl px-5 py-4 mb-6 text-white text-lg placeholder-white/40 focus:border-blue-500 focus:outline-none"
+              />
+            )}
+
             {authError && (
               <div className="bg-red-500/20 border-2 border-red-500/50 rounded-xl p-4 mb-6">
                 <p className="text-red-300">{authError}</p>
@@ -373,7 +430,7 @@ export default function BackupExportPage() {
             <div className="bg-gradient-to-br from-gray-800/50 to-gray-900/50 border-2 border-white/10 rounded-2xl p-6 mb-8">
               <h3 className="text-xl font-bold mb-4">Select Account</h3>
               <div className="space-y-3">
-                {accounts.map((account) => (
+                {accounts.filter((account) => !isWatchOnlyAccount(account)).map((account) => (
                   <button
                     key={account.index}
                     onClick={() => setSelectedAccountIndex(account.index)}
@@ -559,6 +616,33 @@ export default function BackupExportPage() {
           )}
         </div>
 
+        {/* Keystore File */}
+        {exportType === 'private_key' && (
+          <div className="bg-gradient-to-br from-gray-800/50 to-gray-900/50 border-2 border-white/10 rounded-2xl p-6 mb-8">
+            <h3 className="text-lg font-bold mb-1">Encrypted Keystore File</h3>
+            <p className="text-sm text-white/60 mb-4">
+              Save this key as a password-protected file instead. Import it in any Rainum wallet with Import Account.
+            </p>
+            <input
+              type="password"
+              value={keystorePassword}
+              onChange={(e) => setKeystorePassword(e.target.value)}
+              onKeyPress={(e) => e.key === 'Enter' && handleDownloadKeystore()}
+              placeholder="Keystore password (at least 8 characters)"
+              className="w-full bg-white/5 border-2 border-white/10 rounded-xl px-5 py-3 text-white placeholder-white/40 focus:border-blue-500 focus:outline-none mb-3"
+            />
+            {keystoreError && <p className="text-sm text-red-400 mb-3">{keystoreError}</p>}
+            <button
+              onClick={handleDownloadKeystore}
+              disabled={!keystorePassword || isCreatingKeystore}
+              className="w-full bg-white/10 hover:bg-white/20 border-2 border-white/20 text-white font-bold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={20} />
+              {isCreatingKeystore ? 'Encrypting...' : 'Download Keystore'}
+            </button>
+          </div>
+        )}
+
         {/* Done Button */}
         <button
           onClick={() => router.push('/dashboard')}
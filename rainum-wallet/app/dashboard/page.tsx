@@ -2,29 +2,57 @@
 
 export const dynamic = 'force-dynamic';
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { useWalletStore } from "@/lib/wallet-store";
-import { useAddressBookStore } from "@/lib/address-book-store";
-import { useNetworkStore, NETWORKS, type Network } from "@/lib/network-store";
+import { useWalletStore, isWatchOnlyAccount, isImportedAccount, matchesStoredAccounts } from "@/lib/wallet-store";
+import { useAddressBookStore, isSavedForOtherNetwork, parseTags } from "@/lib/address-book-store";
+import { checkRecipient, type RecipientRisk } from "@/lib/address-poisoning";
+import { useNetworkStore, NETWORKS, getAllNetworks, type Network } from "@/lib/network-store";
 import { toast } from "@/lib/toast-store";
-import { getTransactions, sendTransaction, requestFromFaucet, getBlockchainStatus, deployEVMContract, publishMoveModule } from "@/lib/rainum-api";
+import { sendTransaction, cancelNonce, speedUpTransaction, prepareOfflineTransaction, requestFromFaucet, getBlockchainStatus, deployEVMContract, publishMoveModule } from "@/lib/rainum-api";
+import type { UnsignedEnvelope } from "@/lib/transaction-envelope";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { sessionManager } from "@/lib/session-manager";
 import { handleAutoLogout, handleLogout } from "@/lib/auth-flow";
 import { logAuditEvent, getRecentAuditLog, getAuditLogStats, formatAuditTimestamp, getRelativeTime, type AuditLogEntry } from "@/lib/audit-log";
 import { formatTransactionAmount, getTransactionAddresses, getPrivacyBadge, formatCommitment, getZKPSummary, hasZKPProof } from "@/lib/transaction-display";
 import { formatBalance } from "@/lib/format-balance";
-import { getWalletSettings, saveWalletSettings, getTransactionLimitSettings, getSessionTimeoutMs, getLoginRateLimitSettings, type WalletSettings } from "@/lib/wallet-settings";
+import { getWalletSettings, saveWalletSettings, getTransactionLimitSettings, getSessionTimeoutMs, getLoginRateLimitSettings, updateAdvancedSetting, type WalletSettings } from "@/lib/wallet-settings";
 import { useWebSocket, useNotificationPermission } from "@/hooks/useWebSocket";
 import { useBlockchainStatus } from "@/hooks/useBlockchainStatus";
+import { useRpcHealthMonitor } from "@/hooks/useRpcHealthMonitor";
+import { getCachedTransactions, syncTransactionHistory } from "@/lib/transaction-cache";
+import { useTransactionHistory } from "@/hooks/useTransactionHistory";
+import { usePendingTransactions } from "@/hooks/usePendingTransactions";
+import PendingTransactions from "@/components/PendingTransactions";
+import ReplaceTransactionModal from "@/components/modals/ReplaceTransactionModal";
+import { usePaymentScheduler } from "@/hooks/usePaymentScheduler";
+import PaymentSchedulerModal from "@/components/modals/PaymentSchedulerModal";
+import { authorizePresignedBatch, authorizeSpendingCap, signPaymentQueue, type PaymentAuthorization } from "@/lib/payment-scheduler";
+import BatchPayoutModal from "@/components/modals/BatchPayoutModal";
+import AddressBookModal from "@/components/modals/AddressBookModal";
+import RecipientRiskModal from "@/components/modals/RecipientRiskModal";
+import { runPayoutBatch } from "@/lib/batch-payouts";
+import type { ReplacementKind, TrackedTransaction } from "@/lib/pending-transactions";
+import type { TransactionFilters as HistoryFilters } from "@/lib/transaction-query";
+import type { TransactionCategory } from "@/lib/transaction-labels-store";
+import TransactionFilters, { countActiveFilters } from "@/components/TransactionFilters";
+import TransactionLabelEditor from "@/components/TransactionLabelEditor";
+import TransactionExportModal from "@/components/modals/TransactionExportModal";
 import { useCryptoPrices } from "@/hooks/useCryptoPrices";
 import { useExtensionDetection } from "@/hooks/useExtensionDetection";
 import { getExtensionDownloadUrl, requestWalletConnection, openExtensionsPage } from "@/lib/extension-bridge";
 import { TransactionCardSkeleton, BalanceSkeleton, AddressSkeleton } from "@/components/Skeleton";
 import { QRScanner } from "@/components/QRScanner";
 import SecuritySettings from "@/components/SecuritySettings";
+import DerivationSettings from "@/components/DerivationSettings";
+import SigningSettings from "@/components/SigningSettings";
+import NetworkSharingSettings from "@/components/NetworkSharingSettings";
+import DiscoveryReportModal from "@/components/modals/DiscoveryReportModal";
+import { normalizeGapLimit, MAX_GAP_LIMIT, MIN_GAP_LIMIT, type DiscoveryEntry, type DiscoveryReport } from "@/lib/account-discovery";
+import OfflineSigningModal, { type OfflineSigningMode } from "@/components/modals/OfflineSigningModal";
+import ImportSeedModal from "@/components/modals/ImportSeedModal";
 import StakingDashboard from "@/components/StakingDashboard";
 import AIChatWidget from "@/components/AIChatWidget";
 import { GasEstimator } from "@/components/GasEstimator";
@@ -82,7 +110,6 @@ import {
   ShieldAlert,
   Info,
   Download,
-  ChevronLeft,
   ChevronRight,
   Book,
   QrCode,
@@ -98,6 +125,9 @@ import {
   Key,
   Plug,
   Image,
+  WifiOff,
+  CalendarClock,
+  Users,
 } from "lucide-react";
 import Preloader from "@/components/Preloader";
 
@@ -144,12 +174,16 @@ export default function DashboardPage() {
     getActiveAccount,
     renameAccount,
     discoverAccounts,
-    getAccountType
+    getAccountType,
+    addWatchOnlyAccount,
+    removeAccount,
+    canSign,
+    importPrivateKey,
+    passphraseProtected
   } = useWalletStore();
   const {
     addAddress,
-    updateAddress,
-    deleteAddress,
+    markUsed,
     searchAddresses,
     getAddressesForWallet
   } = useAddressBookStore();
@@ -174,6 +208,7 @@ export default function DashboardPage() {
 
   // Get live blockchain status (block height, network, connection)
   const blockchainStatus = useBlockchainStatus(10000); // Update every 10 seconds
+  useRpcHealthMonitor(); // Keeps requests on a healthy, in-sync RPC endpoint
 
   // Get live crypto prices for trading pairs marquee (WebSocket - instant updates)
   const { pairs: cryptoPairs, loading: loadingCryptoPrices } = useCryptoPrices();
@@ -187,15 +222,14 @@ export default function DashboardPage() {
 
   // Address book modal
   const [showAddressBook, setShowAddressBook] = useState(false);
-  const [addressBookSearch, setAddressBookSearch] = useState("");
-  const [editingAddress, setEditingAddress] = useState<string | null>(null);
-  const [editName, setEditName] = useState("");
-  const [editAddr, setEditAddr] = useState("");
 
   // Save address modal
   const [showSaveAddress, setShowSaveAddress] = useState(false);
   const [saveAddressName, setSaveAddressName] = useState("");
   const [addressToSave, setAddressToSave] = useState("");
+  const [saveAddressTags, setSaveAddressTags] = useState("");
+  const [saveAddressNotes, setSaveAddressNotes] = useState("");
+  const [saveAddressForNetwork, setSaveAddressForNetwork] = useState(true);
 
   // Rename account modal
   const [showRenameAccount, setShowRenameAccount] = useState(false);
@@ -208,10 +242,15 @@ export default function DashboardPage() {
 
   const [renameAccountIndex, setRenameAccountIndex] = useState<number | null>(null);
   const [newAccountName, setNewAccountName] = useState("");
+  const [showAddWatchOnly, setShowAddWatchOnly] = useState(false);
+  const [watchOnlyAddress, setWatchOnlyAddress] = useState("");
+  const [watchOnlyLabel, setWatchOnlyLabel] = useState("");
+  const [showImportPrivateKey, setShowImportPrivateKey] = useState(false);
 
   // Re-authentication modal (for when mnemonic is missing after page refresh)
   const [showReauthModal, setShowReauthModal] = useState(false);
   const [reauthPassword, setReauthPassword] = useState("");
+  const [reauthPassphrase, setReauthPassphrase] = useState("");
   const [reauthError, setReauthError] = useState("");
   const [pendingTransaction, setPendingTransaction] = useState<(() => Promise<void>) | null>(null);
 
@@ -226,6 +265,12 @@ export default function DashboardPage() {
 
   // Account discovery state
   const [isDiscovering, setIsDiscovering] = useState(false);
+  const [showDiscoveryReport, setShowDiscoveryReport] = useState(false);
+  const [discoveryEntries, setDiscoveryEntries] = useState<DiscoveryEntry[]>([]);
+  const [discoveryEmptyStreak, setDiscoveryEmptyStreak] = useState(0);
+  const [discoveryReport, setDiscoveryReport] = useState<DiscoveryReport | null>(null);
+  const [discoveryGapLimit, setDiscoveryGapLimit] = useState(20);
+  const discoveryAbortRef = useRef<AbortController | null>(null);
 
   // Audit log state
   const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
@@ -275,6 +320,11 @@ export default function DashboardPage() {
 
   // Deploy EVM Contract
   const handleDeployEVMContract = async () => {
+    if (!canSign()) {
+      toast.error('Watch-only account', 'This account has no keys and cannot sign');
+      return;
+    }
+
     if (!address || !mnemonic) {
       toast.error('Please unlock your wallet first');
       return;
@@ -294,7 +344,7 @@ export default function DashboardPage() {
         3000000, // gas limit
         1, // gas price
         mnemonic,
-        0 // account index
+        activeAccountIndex // account index
       );
 
       if (result.success) {
@@ -324,6 +374,11 @@ export default function DashboardPage() {
 
   // Publish Move Module
   const handlePublishMoveModule = async () => {
+    if (!canSign()) {
+      toast.error('Watch-only account', 'This account has no keys and cannot sign');
+      return;
+    }
+
     if (!address || !mnemonic) {
       toast.error('Please unlock your wallet first');
       return;
@@ -345,7 +400,7 @@ export default function DashboardPage() {
         bytecode,
         3000000, // gas limit
         mnemonic,
-        0 // account index
+        activeAccountIndex // account index
       );
 
       if (result.success) {
@@ -442,7 +497,7 @@ export default function DashboardPage() {
   useEffect(() => {
     const handleNetworkChange = (event: any) => {
       const network = event.detail.network;
-      toast.success(`Switched to ${network.name}`, `Now using ${network.rpcUrl}`);
+      toast.success(`Switched to ${network.name}`, `Now using ${useNetworkStore.getState().getCurrentRpcUrl()}`);
       // Refresh data after network change
       if (isConnected) {
         updateBalance();
@@ -455,6 +510,17 @@ export default function DashboardPage() {
     }
   }, [isConnected, updateBalance]);
 
+  // 🔒 The selected network's node no longer reports its pinned genesis hash
+  useEffect(() => {
+    const handleIdentityMismatch = (event: Event) => {
+      const { network, message } = (event as CustomEvent<{ network: Network; message: string }>).detail;
+      toast.error(`${network.name} identity changed`, `${message}. Signing is disabled on this network.`);
+    };
+
+    window.addEventListener('rainum:network-identity-mismatch', handleIdentityMismatch);
+    return () => window.removeEventListener('rainum:network-identity-mismatch', handleIdentityMismatch);
+  }, []);
+
   // Priority options - defined early so functions can use it
   const priorityOptions = [
     {
@@ -529,6 +595,11 @@ export default function DashboardPage() {
     } finally {
       setIsValidatingAddress(false);
     }
+
+    // 🔒 Compare against contacts and history (address poisoning)
+    if (address) {
+      setRecipientRisk(await checkRecipient(addr, address));
+    }
   };
 
   // Handle MAX button click
@@ -636,6 +707,8 @@ export default function DashboardPage() {
   const [amount, setAmount] = useState("");
   const [priority, setPriority] = useState("standard");
   const [vmType, setVmType] = useState<VMType>("evm");  // ⭐ NEW: VM selection
+  const [offlineSigningMode, setOfflineSigningMode] = useState<OfflineSigningMode | null>(null);
+  const [offlineEnvelope, setOfflineEnvelope] = useState<UnsignedEnvelope | null>(null);
   const [enableZKP, setEnableZKP] = useState(false);
   const [privacyLevel, setPrivacyLevel] = useState("partial");
   const [showSecurityDialog, setShowSecurityDialog] = useState(false);
@@ -651,6 +724,9 @@ export default function DashboardPage() {
   const [addressExists, setAddressExists] = useState<boolean | null>(null);
   const [addressError, setAddressError] = useState<string>("");
   const [addressIsNew, setAddressIsNew] = useState(false); // Track if address is new/unused
+  const [recipientRisk, setRecipientRisk] = useState<RecipientRisk | null>(null); // Address poisoning check
+  const [showRecipientRisk, setShowRecipientRisk] = useState(false);
+  const [acceptedRiskAddress, setAcceptedRiskAddress] = useState<string | null>(null);
 
   // Balance validation
   const [balanceError, setBalanceError] = useState<string>("");
@@ -664,12 +740,16 @@ export default function DashboardPage() {
   // Transaction history
   const [transactions, setTransactions] = useState<any[]>([]);
   const [loadingTransactions, setLoadingTransactions] = useState(false);
+  const [historyOffline, setHistoryOffline] = useState(false); // Showing cached history - node unreachable
+  const [historySyncedAt, setHistorySyncedAt] = useState<number | null>(null);
   const [selectedTransaction, setSelectedTransaction] = useState<any | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<"all" | "confirmed" | "pending">("all");
   const [sortBy, setSortBy] = useState<"newest" | "oldest" | "amount">("newest");
-  const [currentPage, setCurrentPage] = useState(1);
-  const ITEMS_PER_PAGE = 25;
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>({});
+  const [categoryFilters, setCategoryFilters] = useState<TransactionCategory[]>([]);
+  const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [showTransactionDetail, setShowTransactionDetail] = useState(false);
   const [isRefreshingBalance, setIsRefreshingBalance] = useState(false);
   const [totalBalance, setTotalBalance] = useState(0);
@@ -694,6 +774,9 @@ export default function DashboardPage() {
         loadTransactions();
       }
 
+      // Advance our own broadcasts (pending -> confirmed / failed)
+      pendingTransactions.handleNewTransaction(event);
+
       // Reload balance after incoming transaction
       if (event.direction === 'incoming') {
         loadBalance();
@@ -710,6 +793,9 @@ export default function DashboardPage() {
       if (address) {
         loadTransactions();
       }
+
+      // Count confirmations and detect dropped broadcasts
+      pendingTransactions.handleNewBlock(event);
     },
     onConnected: (event) => {
       console.log('🎉 WebSocket connected:', event.message);
@@ -718,6 +804,34 @@ export default function DashboardPage() {
     showNotifications: true,
   });
 
+  // Lifecycle of our own broadcasts (falls back to polling without the WebSocket)
+  const pendingTransactions = usePendingTransactions({ address, wsConnected });
+  const [cancellingNonce, setCancellingNonce] = useState<number | null>(null);
+  const [replaceTarget, setReplaceTarget] = useState<{ transaction: TrackedTransaction; kind: ReplacementKind } | null>(null);
+  const [replacing, setReplacing] = useState(false);
+
+  // Pre-authorized scheduled payments (run while the wallet is open, locked or not)
+  const paymentScheduler = usePaymentScheduler({ address, mnemonic });
+  const [showScheduler, setShowScheduler] = useState(false);
+  const [authorizingSchedule, setAuthorizingSchedule] = useState(false);
+
+  // Batch payouts from CSV (payroll)
+  const [showBatchPayouts, setShowBatchPayouts] = useState(false);
+
+  // Outcome of speed-ups and cancellations, shown on the matching history entries
+  const replacementBadges = useMemo(() => {
+    const badges = new Map<string, string>();
+    pendingTransactions.tracked.forEach((tx) => {
+      if (!tx.hash) return;
+      if (tx.replacement) {
+        badges.set(tx.hash.toLowerCase(), tx.replacement === 'cancel' ? 'CANCELLATION' : 'SPED UP');
+      } else if (tx.replacedBy) {
+        badges.set(tx.hash.toLowerCase(), tx.error === 'Cancelled' ? 'CANCELLED' : 'REPLACED');
+      }
+    });
+    return badges;
+  }, [pendingTransactions.tracked]);
+
   // Request browser notification permission
   const { permission, requestPermission } = useNotificationPermission();
 
@@ -731,33 +845,11 @@ export default function DashboardPage() {
   const loadTransactions = async () => {
     if (!address) return;
 
-    try {
-      const txData = await getTransactions(address);
-      // getTransactions already returns a sorted array
-      if (Array.isArray(txData)) {
-        // ✅ FIX: Merge with existing transactions to prevent duplicates
-        // When a block is mined, update pending transactions to confirmed
-        setTransactions((prev) => {
-          // Create a map of existing transactions by hash
-          const txMap = new Map(prev.map(tx => [tx.hash, tx]));
-
-          // Update/add transactions from API (these are confirmed)
-          txData.forEach(tx => {
-            txMap.set(tx.hash, tx);
-          });
-
-          // Convert back to array and sort by timestamp (newest first)
-          return Array.from(txMap.values()).sort((a, b) =>
-            (b.timestamp || 0) - (a.timestamp || 0)
-          );
-        });
-      } else {
-        setTransactions([]);
-      }
-    } catch (error) {
-      console.error('Failed to load transactions:', error);
-      setTransactions([]);
-    }
+    // The local cache is keyed by hash, so pending transactions are updated in place (no duplicates)
+    const result = await syncTransactionHistory(address);
+    setTransactions(result.transactions);
+    setHistoryOffline(result.offline);
+    setHistorySyncedAt(result.lastSyncedAt);
   };
 
   useEffect(() => {
@@ -843,6 +935,7 @@ export default function DashboardPage() {
     if (activeTab === "Settings") {
       const settings = getWalletSettings();
       setWalletSettings(settings);
+      setDiscoveryGapLimit(settings.advanced.discoveryGapLimit);
     }
   }, [activeTab]);
 
@@ -859,20 +952,28 @@ export default function DashboardPage() {
     try {
       // Load and decrypt wallet from localStorage
       const { loadWallet } = await import('@/lib/auth-manager');
-      const wallet = loadWallet(reauthPassword);
+      const wallet = await loadWallet(reauthPassword);
 
       if (!wallet) {
         setReauthError("Invalid password");
         return;
       }
 
+      // 🔒 Hidden wallets: a wrong passphrase must not replace this wallet's accounts
+      const passphrase = passphraseProtected ? reauthPassphrase : undefined;
+      if (!matchesStoredAccounts(accounts, wallet.mnemonic, passphrase ?? useWalletStore.getState().passphrase ?? '')) {
+        setReauthError(passphraseProtected ? "Passphrase does not match this wallet" : "Wallet does not match these accounts");
+        return;
+      }
+
       // Update wallet store with decrypted mnemonic
       const { connect } = useWalletStore.getState();
-      connect(wallet.address, wallet.mnemonic);
+      await connect(wallet.address, wallet.mnemonic, reauthPassword, passphrase);
 
       // Close modal and clear password
       setShowReauthModal(false);
       setReauthPassword("");
+      setReauthPassphrase("");
       setReauthError("");
 
       toast.success("Re-authenticated", "Wallet unlocked successfully");
@@ -938,44 +1039,28 @@ export default function DashboardPage() {
     const minLoadingTime = 500; // 500ms minimum
 
     try {
-      const txs = await getTransactions(address);
-      console.log('📊 Fetched transactions for', address, ':', txs);
-      console.log('📊 Transaction count:', Array.isArray(txs) ? txs.length : 'NOT AN ARRAY');
+      // Show the cached history immediately - large accounts don't wait for the node
+      const cached = await getCachedTransactions(address);
+      if (cached.length > 0) {
+        setTransactions(cached);
+      }
+
+      // Then fetch only what changed since the last sync
+      const result = await syncTransactionHistory(address);
+      console.log('📊 Synced transactions for', address, ':', result.updated, 'new or changed,', result.transactions.length, 'total');
 
       // Calculate remaining time to show loader
       const elapsed = Date.now() - startTime;
       const remainingTime = Math.max(0, minLoadingTime - elapsed);
 
       // Wait for remaining time if needed
-      if (remainingTime > 0) {
+      if (remainingTime > 0 && cached.length === 0) {
         await new Promise(resolve => setTimeout(resolve, remainingTime));
       }
 
-      // Handle different response formats
-      if (Array.isArray(txs)) {
-        // Already an array (from rainum-api.ts processing)
-        console.log('✅ Setting transactions (array):', txs.length, 'items');
-
-        // ✅ FIX: Merge with existing transactions to prevent duplicates
-        // This ensures pending transactions update to confirmed instead of duplicating
-        setTransactions((prev) => {
-          // Create a map of existing transactions by hash
-          const txMap = new Map(prev.map(tx => [tx.hash, tx]));
-
-          // Update/add transactions from API (these are confirmed)
-          txs.forEach(tx => {
-            txMap.set(tx.hash, tx);
-          });
-
-          // Convert back to array and sort by timestamp (newest first)
-          return Array.from(txMap.values()).sort((a, b) =>
-            (b.timestamp || 0) - (a.timestamp || 0)
-          );
-        });
-      } else {
-        console.log("⚠️ API returned non-array, likely an error:", txs);
-        setTransactions([]);
-      }
+      setTransactions(result.transactions);
+      setHistoryOffline(result.offline);
+      setHistorySyncedAt(result.lastSyncedAt);
     } catch (error) {
       console.error("Failed to fetch transactions:", error);
       setTransactions([]);
@@ -1020,117 +1105,19 @@ export default function DashboardPage() {
     }
   };
 
-  // Filter and sort transactions
-  const getFilteredAndSortedTransactions = () => {
-    let filtered = [...transactions];
-
-    // Filter by search query
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (tx) =>
-          tx.hash?.toLowerCase().includes(query) ||
-          tx.from?.toLowerCase().includes(query) ||
-          tx.to?.toLowerCase().includes(query)
-      );
-    }
-
-    // Filter by status
-    if (filterStatus !== "all") {
-      filtered = filtered.filter((tx) => tx.status === filterStatus);
-    }
-
-    // Sort transactions
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "newest":
-          return b.timestamp - a.timestamp;
-        case "oldest":
-          return a.timestamp - b.timestamp;
-        case "amount":
-          return b.amount - a.amount;
-        default:
-          return 0;
-      }
-    });
-
-    return filtered;
-  };
-
-  // Get paginated transactions
-  const getPaginatedTransactions = () => {
-    const filtered = getFilteredAndSortedTransactions();
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    const endIndex = startIndex + ITEMS_PER_PAGE;
-    return filtered.slice(startIndex, endIndex);
-  };
-
-  // Calculate total pages
-  const getTotalPages = () => {
-    const filtered = getFilteredAndSortedTransactions();
-    return Math.ceil(filtered.length / ITEMS_PER_PAGE);
-  };
-
-  // Export transactions to CSV
-  const exportToCSV = () => {
-    const filtered = getFilteredAndSortedTransactions();
-
-    if (filtered.length === 0) {
-      toast.error("No transactions to export", "Apply filters to see transactions");
-      return;
-    }
-
-    // CSV headers
-    const headers = [
-      "Date",
-      "Hash",
-      "From",
-      "To",
-      "Amount (RAIN)",
-      "Status",
-      "Gas Used",
-      "Fee Paid (RAIN)",
-      "Privacy Level"
-    ];
-
-    // CSV rows
-    const rows = filtered.map((tx) => {
-      const date = tx.timestamp ? new Date(tx.timestamp * 1000).toLocaleString() : "Pending";
-      const amount = (tx.amount / 1000000).toFixed(6);
-      const feePaid = tx.fee_paid ? (tx.fee_paid / 1000000).toFixed(6) : "0";
-
-      return [
-        date,
-        tx.hash || "",
-        tx.from || "",
-        tx.to || "",
-        amount,
-        tx.status || "pending",
-        tx.gas_used || "0",
-        feePaid,
-        tx.privacy_level || "none"
-      ];
-    });
-
-    // Build CSV content
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(","))
-    ].join("\n");
-
-    // Download CSV
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute("download", `rainum-transactions-${Date.now()}.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    toast.success("Export successful!", `Exported ${filtered.length} transactions to CSV`);
-  };
+  // Filtered, searchable history - pages through the cached history as the list is scrolled
+  const activeHistoryFilters = useMemo<HistoryFilters>(
+    () => ({ ...historyFilters, status: filterStatus === "all" ? undefined : filterStatus }),
+    [historyFilters, filterStatus]
+  );
+  const transactionHistory = useTransactionHistory({
+    transactions,
+    address,
+    filters: activeHistoryFilters,
+    sort: sortBy,
+    search: searchQuery,
+    categories: categoryFilters,
+  });
 
   const handleCopyAddress = () => {
     if (address) {
@@ -1219,28 +1206,70 @@ export default function DashboardPage() {
       return;
     }
 
+    const gapLimit = normalizeGapLimit(discoveryGapLimit);
+    const controller = new AbortController();
+    discoveryAbortRef.current = controller;
+
     setIsDiscovering(true);
-    toast.info("Scanning blockchain...", "Looking for all your accounts", 10000);
+    setDiscoveryEntries([]);
+    setDiscoveryEmptyStreak(0);
+    setDiscoveryReport(null);
+    setShowDiscoveryReport(true);
 
     try {
-      await discoverAccounts();
-      const { accounts } = useWalletStore.getState();
-      toast.success(
-        "Discovery complete!",
-        `Found ${accounts.length} account${accounts.length === 1 ? '' : 's'} with activity`,
-        5000
-      );
+      const report = await discoverAccounts({
+        gapLimit,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setDiscoveryEntries((prev) => [...prev, ...progress.entries]);
+          setDiscoveryEmptyStreak(progress.emptyStreak);
+        },
+      });
+
+      if (report) {
+        setDiscoveryEntries(report.entries);
+        setDiscoveryReport(report);
+        if (report.interrupted) {
+          toast.error(
+            "Discovery stopped",
+            `The node could not be reached - found ${report.found} account${report.found === 1 ? '' : 's'} with activity so far`,
+            5000
+          );
+        } else {
+          toast.success(
+            report.cancelled ? "Discovery cancelled" : "Discovery complete!",
+            `Found ${report.found} account${report.found === 1 ? '' : 's'} with activity, ${report.added} added`,
+            5000
+          );
+        }
+      } else {
+        setShowDiscoveryReport(false);
+      }
     } catch (error: any) {
       console.error('Account discovery failed:', error);
+      setShowDiscoveryReport(false);
       toast.error("Discovery failed", error.message || "Failed to scan blockchain for accounts", 5000);
     } finally {
+      discoveryAbortRef.current = null;
       setIsDiscovering(false);
     }
   };
 
-  const handleSubmitTransaction = (e: React.FormEvent) => {
+  const handleGapLimitChange = (value: number) => {
+    const gapLimit = normalizeGapLimit(value);
+    setDiscoveryGapLimit(gapLimit);
+    updateAdvancedSetting('discoveryGapLimit', gapLimit);
+  };
+
+  const handleSubmitTransaction = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Watch-only accounts cannot sign - hand the transfer to an offline signer instead
+    if (!canSign()) {
+      handleExportUnsigned();
+      return;
+    }
+
     // Check balance first
     const cleanAmount = parseFloat(amount.replace(/,/g, ''));
     const selectedPriority = priorityOptions.find((p) => p.id === priority);
@@ -1262,6 +1291,20 @@ export default function DashboardPage() {
       return;
     }
 
+    // 🔒 Lookalike or dust-only recipients need an explicit confirmation
+    const target = recipient.toLowerCase();
+    const risk = recipientRisk?.address === target ? recipientRisk : address ? await checkRecipient(recipient, address) : null;
+    if (risk) setRecipientRisk(risk);
+    if (risk?.level === "danger" && acceptedRiskAddress !== target) {
+      setShowRecipientRisk(true);
+      return;
+    }
+
+    openSendConfirmation(cleanAmount);
+  };
+
+  // Amount limits first, then the security dialog
+  const openSendConfirmation = (cleanAmount: number) => {
     // Check amount thresholds for extra security (configurable)
     const limitSettings = getTransactionLimitSettings();
 
@@ -1277,6 +1320,70 @@ export default function DashboardPage() {
     setShowSecurityDialog(true);
   };
 
+  // Air-gapped signing: export the Send form as an unsigned envelope
+  const handleExportUnsigned = async () => {
+    if (!address) {
+      toast.error("Error", "Wallet address not found");
+      return;
+    }
+
+    if (!recipient || !amount) {
+      toast.error("Missing Details", "Enter a recipient and amount first");
+      return;
+    }
+
+    try {
+      const envelope = await prepareOfflineTransaction(
+        address,
+        recipient,
+        amount.replace(/,/g, ''),
+        priority,
+        enableZKP,
+        privacyLevel,
+        vmType
+      );
+      setOfflineEnvelope(envelope);
+      setOfflineSigningMode("export");
+    } catch (error: any) {
+      toast.error("Export failed", error.message || "Unable to prepare unsigned transaction");
+    }
+  };
+
+  const handleAddWatchOnly = async () => {
+    try {
+      const account = await addWatchOnlyAccount(watchOnlyAddress, watchOnlyLabel);
+      toast.success("Watch-only address added", account.name);
+      setShowAddWatchOnly(false);
+      setWatchOnlyAddress("");
+      setWatchOnlyLabel("");
+    } catch (error: any) {
+      toast.error("Cannot add address", error.message || "Invalid address");
+    }
+  };
+
+  const handleImportPrivateKey = async (secretKey: Uint8Array, password: string, name: string) => {
+    const account = await importPrivateKey(secretKey, password, name);
+    logAuditEvent(
+      'account_imported',
+      'account',
+      `Imported private key account ${account.name}`,
+      { address: account.address }
+    );
+    toast.success("Account imported", `${account.name} (${account.address.slice(0, 8)}...${account.address.slice(-6)})`);
+    setShowImportPrivateKey(false);
+  };
+
+  const handleRemoveAccount = (index: number) => {
+    const account = accounts.find((a) => a.index === index);
+    if (!account) return;
+
+    // Imported keys only exist in this wallet - removing one deletes the key
+    if (isImportedAccount(account) && !confirm(`Remove ${account.name}? Make sure you have a backup of its private key.`)) {
+      return;
+    }
+    removeAccount(index);
+  };
+
   const handleSecurityConfirm = () => {
     setShowSecurityDialog(false);
     // Open summary dialog
@@ -1310,6 +1417,11 @@ export default function DashboardPage() {
       return;
     }
 
+    if (!canSign()) {
+      toast.error("Watch-only account", "This account has no keys. Export an unsigned transaction instead.");
+      return;
+    }
+
     // ✅ Auto-unlock: If mnemonic is missing, prompt for password instead of error
     if (!mnemonic) {
       toast.info("Unlock Required", "Please enter your password to continue");
@@ -1351,11 +1463,12 @@ export default function DashboardPage() {
             transactionHash: result.hash,
           }
         );
+        markUsed(recipient, address);
 
-        // Show success toast
-        toast.success(
-          "Transaction sent successfully!",
-          `${amount} RAIN sent to ${recipient.slice(0, 8)}...${recipient.slice(-6)} (Shard ${result.shard_id || 'N/A'})`,
+        // Accepted by the node - the pending tracker reports inclusion
+        toast.info(
+          "Transaction submitted",
+          `${amount} RAIN to ${recipient.slice(0, 8)}...${recipient.slice(-6)} (Shard ${result.shard_id || 'N/A'}) - waiting for confirmation`,
           7000
         );
 
@@ -1398,6 +1511,185 @@ export default function DashboardPage() {
     }
   };
 
+  // Fill a nonce gap / cancel a stuck nonce with a zero-value transfer to ourselves
+  const handleCancelNonce = async (nonce: number) => {
+    if (!address) {
+      toast.error("Error", "Wallet address not found");
+      return;
+    }
+
+    if (!canSign()) {
+      toast.error("Watch-only account", "This account has no keys to sign with");
+      return;
+    }
+
+    if (!mnemonic) {
+      toast.info("Unlock Required", "Please enter your password to continue");
+      setPendingTransaction(() => () => handleCancelNonce(nonce));
+      setShowReauthModal(true);
+      return;
+    }
+
+    setCancellingNonce(nonce);
+    try {
+      const result = await cancelNonce(address, nonce, mnemonic, activeAccountIndex);
+      if (result.success) {
+        toast.success("Replacement Sent", `Nonce ${nonce} is now used by an empty transfer to your own address`);
+      } else {
+        toast.error("Replacement Failed", result.message || "The node did not accept the replacement");
+      }
+    } catch (error) {
+      toast.error("Replacement Failed", error instanceof Error ? error.message : "Unable to replace the nonce");
+    } finally {
+      setCancellingNonce(null);
+    }
+  };
+
+  // Speed up / cancel a pending transaction at the gas price picked in the fee preview
+  const handleReplaceTransaction = async (gasPrice: number) => {
+    if (!replaceTarget || !address) return;
+
+    if (!canSign()) {
+      toast.error("Watch-only account", "This account has no keys to sign with");
+      return;
+    }
+
+    if (!mnemonic) {
+      toast.info("Unlock Required", "Please enter your password to continue");
+      setPendingTransaction(() => () => handleReplaceTransaction(gasPrice));
+      setShowReauthModal(true);
+      return;
+    }
+
+    const { transaction, kind } = replaceTarget;
+    setReplacing(true);
+    try {
+      const result = kind === 'cancel'
+        ? await cancelNonce(address, transaction.nonce, mnemonic, activeAccountIndex, gasPrice)
+        : await speedUpTransaction(transaction, gasPrice, mnemonic, activeAccountIndex);
+
+      if (result.success) {
+        logAuditEvent(
+          'transaction_sent',
+          'transaction',
+          kind === 'cancel'
+            ? `Cancelled nonce ${transaction.nonce} at ${gasPrice} RAIN/gas`
+            : `Sped up nonce ${transaction.nonce} to ${gasPrice} RAIN/gas`,
+          { address, nonce: transaction.nonce, gasPrice, transactionHash: result.hash }
+        );
+        toast.info(
+          kind === 'cancel' ? "Cancellation submitted" : "Speed-up submitted",
+          `Nonce ${transaction.nonce} - whichever transaction is included first wins`,
+          7000
+        );
+        setReplaceTarget(null);
+      } else {
+        toast.error("Replacement Failed", result.message || "The node did not accept the replacement");
+      }
+    } catch (error) {
+      toast.error("Replacement Failed", error instanceof Error ? error.message : "Unable to replace the transaction");
+    } finally {
+      setReplacing(false);
+    }
+  };
+
+  // Pre-sign or grant a spending cap for a scheduled payment
+  const handleAuthorizeSchedule = async (authorization: PaymentAuthorization) => {
+    if (!address) return;
+
+    if (!canSign()) {
+      toast.error("Watch-only account", "This account has no keys to sign with");
+      return;
+    }
+
+    if (!mnemonic) {
+      toast.info("Unlock Required", "Please enter your password to continue");
+      setPendingTransaction(() => () => handleAuthorizeSchedule(authorization));
+      setShowReauthModal(true);
+      return;
+    }
+
+    setAuthorizingSchedule(true);
+    try {
+      const signing = { source: authorization.source, address, accountIndex: activeAccountIndex, mnemonic };
+      const job = authorization.kind === 'presigned'
+        ? await authorizePresignedBatch({ ...signing, count: authorization.count })
+        : await authorizeSpendingCap({ ...signing, cap: authorization.cap, expiresAt: authorization.expiresAt });
+
+      logAuditEvent(
+        'scheduled_payment_authorized',
+        'transaction',
+        authorization.kind === 'presigned'
+          ? `Pre-signed ${authorization.count} payment(s) of ${job.amount} RAIN`
+          : `Granted a ${authorization.cap} RAIN spending cap for payments of ${job.amount} RAIN`,
+        { address, recipient: job.to, amount: Number(job.amount) }
+      );
+      toast.success(
+        "Payment Authorized",
+        authorization.kind === 'presigned'
+          ? `${authorization.count} payment(s) signed - they run even while the wallet is locked`
+          : "The payment runs on its own until the cap is used up or it expires"
+      );
+    } catch (error) {
+      toast.error("Authorization Failed", error instanceof Error ? error.message : "Unable to authorize the payment");
+    } finally {
+      setAuthorizingSchedule(false);
+    }
+  };
+
+  // Re-sign pre-signed payments whose nonces another transaction took
+  const handleResignSchedule = async () => {
+    if (!address) return;
+
+    if (!mnemonic) {
+      toast.info("Unlock Required", "Please enter your password to continue");
+      setPendingTransaction(() => handleResignSchedule);
+      setShowReauthModal(true);
+      return;
+    }
+
+    setAuthorizingSchedule(true);
+    try {
+      await signPaymentQueue(address, mnemonic);
+      toast.success("Payments Re-signed", "Pre-signed payments have fresh nonces");
+    } catch (error) {
+      toast.error("Re-signing Failed", error instanceof Error ? error.message : "Unable to re-sign the payments");
+    } finally {
+      setAuthorizingSchedule(false);
+    }
+  };
+
+  // Send (or resume) a batch payout - rows go out one by one with consecutive nonces
+  const handleSendPayoutBatch = async (batchId: string) => {
+    if (!address) return;
+
+    if (!canSign()) {
+      toast.error("Watch-only account", "This account has no keys to sign with");
+      return;
+    }
+
+    if (!mnemonic) {
+      toast.info("Unlock Required", "Please enter your password to continue");
+      setPendingTransaction(() => () => handleSendPayoutBatch(batchId));
+      setShowReauthModal(true);
+      return;
+    }
+
+    try {
+      const sent = await runPayoutBatch(batchId, mnemonic);
+      if (sent > 0) {
+        logAuditEvent('batch_payout_sent', 'transaction', `Sent ${sent} batch payout(s)`, { address, batchId, count: sent });
+        toast.success("Batch Sent", `${sent} payment(s) broadcast - the pending list follows their confirmations`);
+        setTimeout(() => {
+          updateBalance();
+          fetchTransactions();
+        }, 1000);
+      }
+    } catch (error) {
+      toast.error("Batch Failed", error instanceof Error ? error.message : "Unable to send the batch");
+    }
+  };
+
   if (!isHydrated) {
     return (
       <div className="w-full h-screen flex items-center justify-center bg-white">
@@ -1649,6 +1941,55 @@ export default function DashboardPage() {
         </div>
       </Dialog>
 
+      {/* Account Discovery Report */}
+      {showDiscoveryReport && (
+        <DiscoveryReportModal
+          entries={discoveryEntries}
+          emptyStreak={discoveryEmptyStreak}
+          gapLimit={normalizeGapLimit(discoveryGapLimit)}
+          report={discoveryReport}
+          onCancel={() => discoveryAbortRef.current?.abort()}
+          onClose={() => setShowDiscoveryReport(false)}
+        />
+      )}
+
+      {/* Transaction Export */}
+      {showExportModal && <TransactionExportModal onClose={() => setShowExportModal(false)} />}
+
+      {/* Speed up / cancel - fee preview */}
+      {replaceTarget && (
+        <ReplaceTransactionModal
+          transaction={replaceTarget.transaction}
+          kind={replaceTarget.kind}
+          submitting={replacing}
+          onConfirm={handleReplaceTransaction}
+          onClose={() => setReplaceTarget(null)}
+        />
+      )}
+
+      {/* Scheduled payments */}
+      {showScheduler && address && (
+        <PaymentSchedulerModal
+          address={address}
+          jobs={paymentScheduler.jobs}
+          runs={paymentScheduler.runs}
+          authorizing={authorizingSchedule}
+          onAuthorize={handleAuthorizeSchedule}
+          onResign={handleResignSchedule}
+          onClose={() => setShowScheduler(false)}
+        />
+      )}
+
+      {/* Batch payouts */}
+      {showBatchPayouts && address && (
+        <BatchPayoutModal
+          address={address}
+          accountIndex={activeAccountIndex}
+          onSend={handleSendPayoutBatch}
+          onClose={() => setShowBatchPayouts(false)}
+        />
+      )}
+
       {/* Re-authentication Modal (security: mnemonic not persisted) */}
       <Dialog open={showReauthModal} onClose={() => {}} className="relative z-50">
         <DialogBackdrop className="fixed inset-0 bg-gray-900/90 transition-opacity" />
@@ -1680,6 +2021,22 @@ export default function DashboardPage() {
                   </div>
                 </div>
 
+                {passphraseProtected && (
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-800 mb-2">
+                      Passphrase
+                    </label>
+                    <input
+                      type="password"
+                      value={reauthPassphrase}
+                      onChange={(e) => setReauthPassphrase(e.target.value)}
+                      placeholder="Enter your passphrase (25th word)"
+                      autoComplete="off"
+                      className="w-full px-4 py-3 border-2 border-gray-200 rounded-lg focus:ring-2 focus:ring-[#0019ff]/20 focus:border-[#0019ff] outline-none transition-all text-gray-900 bg-white"
+                    />
+                  </div>
+                )}
+
                 {reauthError && (
                   <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 flex items-start gap-3">
                     <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
@@ -2121,7 +2478,11 @@ export default function DashboardPage() {
                                       className="w-8 h-8 rounded-full flex-shrink-0"
                                     />
                                     <div className="text-left overflow-hidden">
-                                      <p className="font-medium truncate">{account.name}</p>
+                                      <p className="font-medium truncate flex items-center gap-1">
+                                        {account.name}
+                                        {isWatchOnlyAccount(account) && <Eye className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                                        {isImportedAccount(account) && <Key className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                                      </p>
                                       <p className="text-xs text-gray-500 truncate font-mono">
                                         {account.address.slice(0, 6)}...{account.address.slice(-4)}
                                       </p>
@@ -2143,6 +2504,18 @@ export default function DashboardPage() {
                                     >
                                       <Edit className="w-3.5 h-3.5 text-gray-600" />
                                     </button>
+                                    {(isWatchOnlyAccount(account) || isImportedAccount(account)) && (
+                                      <button
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          handleRemoveAccount(account.index);
+                                        }}
+                                        className="p-1.5 hover:bg-red-50 rounded transition-colors"
+                                        title="Remove account"
+                                      >
+                                        <Trash2 className="w-3.5 h-3.5 text-gray-600" />
+                                      </button>
+                                    )}
                                   </div>
                                 </div>
                               </MenuItem>
@@ -2159,6 +2532,28 @@ export default function DashboardPage() {
                                 <span>Create New Account</span>
                               </button>
                             </MenuItem>
+                            <MenuItem>
+                              <button
+                                onClick={() => setShowAddWatchOnly(true)}
+                                className="group flex items-center gap-3 px-4 py-3 text-sm w-full hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+                              >
+                                <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                                  <Eye className="w-4 h-4" />
+                                </div>
+                                <span>Add Watch-Only Address</span>
+                              </button>
+                            </MenuItem>
+                            <MenuItem>
+                              <button
+                                onClick={() => setShowImportPrivateKey(true)}
+                                className="group flex items-center gap-3 px-4 py-3 text-sm w-full hover:bg-gray-50 transition-colors text-gray-700 font-medium"
+                              >
+                                <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+                                  <Key className="w-4 h-4" />
+                                </div>
+                                <span>Import Private Key</span>
+                              </button>
+                            </MenuItem>
                           </div>
                         </MenuItems>
                       </Menu>
@@ -2596,6 +2991,13 @@ export default function DashboardPage() {
                     </div>
                   )}
 
+                  {/* Label (note + category) */}
+                  {selectedTransaction.hash && (
+                    <div className="mb-6">
+                      <TransactionLabelEditor txHash={selectedTransaction.hash} />
+                    </div>
+                  )}
+
                   {/* Raw Transaction Data */}
                   <div className="bg-gray-900 border border-gray-700 rounded-lg p-4 mb-6">
                     <div className="flex items-center justify-between mb-3">
@@ -2945,7 +3347,11 @@ export default function DashboardPage() {
                                   className="w-8 h-8 rounded-full flex-shrink-0"
                                 />
                                 <div className="text-left overflow-hidden flex-1">
-                                  <p className="font-semibold truncate">{account.name}</p>
+                                  <p className="font-semibold truncate flex items-center gap-1">
+                                    {account.name}
+                                    {isWatchOnlyAccount(account) && <Eye className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                                    {isImportedAccount(account) && <Key className="w-3 h-3 text-gray-400 flex-shrink-0" />}
+                                  </p>
                                   <p className="text-xs text-gray-500 truncate font-mono">
                                     {account.address.slice(0, 6)}...{account.address.slice(-4)}
                                   </p>
@@ -2967,6 +3373,18 @@ export default function DashboardPage() {
                                 >
                                   <Edit className="w-3.5 h-3.5 text-gray-500 hover:text-gray-700" />
                                 </button>
+                                {(isWatchOnlyAccount(account) || isImportedAccount(account)) && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleRemoveAccount(account.index);
+                                    }}
+                                    className="p-1.5 hover:bg-red-50 rounded-[4px] transition-colors"
+                                    title="Remove account"
+                                  >
+                                    <Trash2 className="w-3.5 h-3.5 text-gray-500 hover:text-red-600" />
+                                  </button>
+                                )}
                               </div>
                             </div>
                           </MenuItem>
@@ -2983,6 +3401,28 @@ export default function DashboardPage() {
                             <span>Create New Account</span>
                           </button>
                         </MenuItem>
+                        <MenuItem>
+                          <button
+                            onClick={() => setShowAddWatchOnly(true)}
+                            className="group flex items-center gap-3 px-4 py-3 text-sm w-full hover:bg-blue-50 transition-colors text-gray-700 font-semibold"
+                          >
+                            <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                              <Eye className="w-4 h-4 text-gray-600" />
+                            </div>
+                            <span>Add Watch-Only Address</span>
+                          </button>
+                        </MenuItem>
+                        <MenuItem>
+                          <button
+                            onClick={() => setShowImportPrivateKey(true)}
+                            className="group flex items-center gap-3 px-4 py-3 text-sm w-full hover:bg-blue-50 transition-colors text-gray-700 font-semibold"
+                          >
+                            <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+                              <Key className="w-4 h-4 text-gray-600" />
+                            </div>
+                            <span>Import Private Key</span>
+                          </button>
+                        </MenuItem>
                       </div>
                     </MenuItems>
                   </Menu>
@@ -3338,7 +3778,7 @@ export default function DashboardPage() {
                 {/* Quick Actions */}
                 <div className="bg-white border border-gray-300 rounded-[4px] p-5">
                   <h3 className="text-base font-bold text-black mb-3">Quick Actions</h3>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
                     {/* Send */}
                     <button
                       onClick={() => handleTabChange("Transactions")}
@@ -3368,24 +3808,52 @@ export default function DashboardPage() {
                       <GitBranch className="w-5 h-5 text-gray-700 group-hover:text-[#0019ff] transition-colors" />
                       <span className="text-xs font-medium text-gray-700 group-hover:text-[#0019ff] transition-colors">Bridge</span>
                     </button>
+                    {/* Schedule */}
+                    <button
+                      onClick={() => setShowScheduler(true)}
+                      className="flex flex-col items-center gap-2 p-3 rounded-[4px] bg-white border border-gray-200 hover:border-[#0019ff] hover:bg-blue-50/30 transition-all duration-200 group"
+                    >
+                      <CalendarClock className="w-5 h-5 text-gray-700 group-hover:text-[#0019ff] transition-colors" />
+                      <span className="text-xs font-medium text-gray-700 group-hover:text-[#0019ff] transition-colors">Schedule</span>
+                    </button>
                   </div>
                 </div>
 
+                {/* Recent broadcasts - pending until the chain settles them */}
+                <PendingTransactions
+                  tracked={pendingTransactions.tracked}
+                  nonceStatus={pendingTransactions.nonceStatus}
+                  wsConnected={wsConnected}
+                  cancellingNonce={cancellingNonce}
+                  onCancelNonce={handleCancelNonce}
+                  onReplace={(transaction, kind) => setReplaceTarget({ transaction, kind })}
+                  onRefresh={() => void pendingTransactions.refresh()}
+                  onDismiss={pendingTransactions.dismiss}
+                  onClearSettled={pendingTransactions.clearSettled}
+                />
+
                 {/* Transaction History */}
                 <div className="bg-white border border-gray-200 rounded-[4px] shadow-lg">
                   <div className="bg-gradient-to-r from-gray-50 to-white px-5 py-4 border-b border-gray-200 flex items-center justify-between">
                     <div>
                       <h2 className="text-xl font-bold text-black tracking-tight">Transaction History</h2>
-                      <p className="text-xs text-gray-500 mt-0.5">View and manage your transactions</p>
+                      {historyOffline ? (
+                        <p className="text-xs text-yellow-700 mt-0.5 flex items-center gap-1">
+                          <WifiOff className="w-3 h-3" />
+                          Offline - showing saved history{historySyncedAt ? ` from ${new Date(historySyncedAt).toLocaleString()}` : ''}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-0.5">View and manage your transactions</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <button
-                        onClick={exportToCSV}
+                        onClick={() => setShowExportModal(true)}
                         disabled={transactions.length === 0}
                         className="px-3 py-2 bg-green-600 text-white rounded-[4px] text-xs font-semibold hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-1.5 shadow-sm"
                       >
                         <Download className="w-3.5 h-3.5" />
-                        Export CSV
+                        Export
                       </button>
                       <button
                         onClick={fetchTransactions}
@@ -3407,7 +3875,7 @@ export default function DashboardPage() {
                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
                         <input
                           type="text"
-                          placeholder="Search transactions..."
+                          placeholder="Search hashes, addresses, contacts and notes..."
                           value={searchQuery}
                           onChange={(e) => setSearchQuery(e.target.value)}
                           className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-[4px] focus:ring-2 focus:ring-[#0019ff] focus:border-[#0019ff] focus:border-2 outline-none transition-all text-xs text-gray-900 font-mono bg-white shadow-sm"
@@ -3497,7 +3965,33 @@ export default function DashboardPage() {
                             </button>
                           </div>
                         </div>
+
+                        <div className="w-px h-6 bg-gray-300"></div>
+
+                        <button
+                          onClick={() => setShowAdvancedFilters(!showAdvancedFilters)}
+                          className={classNames(
+                            "px-2.5 py-1 text-[11px] font-bold rounded-[4px] transition-all duration-200 shadow-sm flex items-center gap-1",
+                            showAdvancedFilters
+                              ? "bg-[#0019ff] text-white shadow-md"
+                              : "bg-white border border-gray-300 text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff]"
+                          )}
+                        >
+                          <Search className="w-3 h-3" />
+                          Filters
+                          {countActiveFilters(historyFilters, categoryFilters) > 0 && (
+                            <span className="ml-0.5">({countActiveFilters(historyFilters, categoryFilters)})</span>
+                          )}
+                        </button>
                       </div>
+
+                      <TransactionFilters
+                        filters={historyFilters}
+                        onFiltersChange={setHistoryFilters}
+                        categories={categoryFilters}
+                        onCategoriesChange={setCategoryFilters}
+                        showAdvanced={showAdvancedFilters}
+                      />
                     </div>
                   )}
 
@@ -3515,7 +4009,7 @@ export default function DashboardPage() {
                       <p className="text-gray-900 font-semibold mb-1">No transactions yet</p>
                       <p className="text-sm text-gray-500">Your transaction history will appear here</p>
                     </div>
-                  ) : getFilteredAndSortedTransactions().length === 0 && !loadingTransactions ? (
+                  ) : transactionHistory.total === 0 && !loadingTransactions ? (
                     <div className="text-center py-16">
                       <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                         <Search className="w-8 h-8 text-gray-400" />
@@ -3537,11 +4031,11 @@ export default function DashboardPage() {
                         )}
 
                         <div className="space-y-2">
-                          {getPaginatedTransactions().map((tx, index) => {
+                          {transactionHistory.items.map((tx, index) => {
                         const isOutgoing = tx.from?.toLowerCase() === address?.toLowerCase();
                         return (
                           <button
-                            key={index}
+                            key={tx.hash || index}
                             onClick={() => {
                               setSelectedTransaction(tx);
                               setShowTransactionDetail(true);
@@ -3593,6 +4087,11 @@ export default function DashboardPage() {
                                       </span>
                                     );
                                   })()}
+                                  {tx.hash && replacementBadges.has(tx.hash.toLowerCase()) && (
+                                    <span className="text-[9px] px-1.5 py-0.5 bg-gray-100 text-gray-700 rounded font-bold border border-gray-200">
+                                      {replacementBadges.get(tx.hash.toLowerCase())}
+                                    </span>
+                                  )}
                                 </p>
                                 <p className="text-xs text-gray-500">
                                   {(() => {
@@ -3655,74 +4154,21 @@ export default function DashboardPage() {
                       })}
                     </div>
 
-                    {/* Pagination Controls */}
-                    {getTotalPages() > 1 && (
-                      <div className="mt-4 flex items-center justify-between border-t border-gray-200 pt-3">
-                        <div className="text-[10px] text-gray-500 font-medium">
-                          Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1}-{Math.min(currentPage * ITEMS_PER_PAGE, getFilteredAndSortedTransactions().length)} of {getFilteredAndSortedTransactions().length}
-                        </div>
-                        <div className="flex items-center gap-1">
-                          <button
-                            onClick={() => setCurrentPage(currentPage - 1)}
-                            disabled={currentPage === 1}
-                            className={classNames(
-                              "px-2 py-1 rounded-[4px] border transition-all duration-200 flex items-center gap-0.5 shadow-sm",
-                              currentPage === 1
-                                ? "border-gray-200 text-gray-400 cursor-not-allowed"
-                                : "border-gray-300 text-gray-700 hover:bg-[#0019ff] hover:text-white hover:border-[#0019ff]"
-                            )}
-                          >
-                            <ChevronLeft className="w-3 h-3" />
-                            <span className="text-[10px] font-semibold">Prev</span>
-                          </button>
-
-                          <div className="flex items-center gap-1">
-                            {Array.from({ length: getTotalPages() }, (_, i) => i + 1).map((page) => {
-                              // Show first page, last page, current page, and pages around current
-                              const showPage = page === 1 ||
-                                             page === getTotalPages() ||
-                                             Math.abs(page - currentPage) <= 1;
-
-                              if (!showPage) {
-                                // Show ellipsis
-                                if (page === 2 && currentPage > 3) return <span key={page} className="px-1 text-gray-400 text-xs">...</span>;
-                                if (page === getTotalPages() - 1 && currentPage < getTotalPages() - 2) return <span key={page} className="px-1 text-gray-400 text-xs">...</span>;
-                                return null;
-                              }
-
-                              return (
-                                <button
-                                  key={page}
-                                  onClick={() => setCurrentPage(page)}
-                                  className={classNames(
-                                    "w-7 h-7 rounded-[4px] border transition-all duration-200 text-[11px] font-bold shadow-sm",
-                                    currentPage === page
-                                      ? "bg-[#0019ff] text-white border-[#0019ff] scale-110 shadow-md"
-                                      : "border-gray-300 text-gray-700 hover:bg-[#0019ff] hover:text-white hover:border-[#0019ff]"
-                                  )}
-                                >
-                                  {page}
-                                </button>
-                              );
-                            })}
-                          </div>
-
-                          <button
-                            onClick={() => setCurrentPage(currentPage + 1)}
-                            disabled={currentPage === getTotalPages()}
-                            className={classNames(
-                              "px-2 py-1 rounded-[4px] border transition-all duration-200 flex items-center gap-0.5 shadow-sm",
-                              currentPage === getTotalPages()
-                                ? "border-gray-200 text-gray-400 cursor-not-allowed"
-                                : "border-gray-300 text-gray-700 hover:bg-[#0019ff] hover:text-white hover:border-[#0019ff]"
-                            )}
-                          >
-                            <span className="text-[10px] font-semibold">Next</span>
-                            <ChevronRight className="w-3 h-3" />
-                          </button>
-                        </div>
+                    {/* Infinite Scroll */}
+                    <div className="mt-4 flex items-center justify-between border-t border-gray-200 pt-3">
+                      <div className="text-[10px] text-gray-500 font-medium">
+                        Showing {transactionHistory.items.length} of {transactionHistory.total}
                       </div>
-                    )}
+                      {transactionHistory.hasMore && (
+                        <button
+                          onClick={transactionHistory.loadMore}
+                          className="px-3 py-1 rounded-[4px] border border-gray-300 text-gray-700 hover:bg-[#0019ff] hover:text-white hover:border-[#0019ff] transition-all duration-200 text-[10px] font-semibold shadow-sm"
+                        >
+                          Load more
+                        </button>
+                      )}
+                    </div>
+                    {transactionHistory.hasMore && <div ref={transactionHistory.sentinelRef} className="h-px" />}
                     </div>
                     </>
                   )}
@@ -3760,6 +4206,16 @@ export default function DashboardPage() {
                           <ArrowRightLeft className="w-4 h-4 text-white" />
                         </div>
                         <h3 className="text-lg font-bold text-black">Send RAIN</h3>
+                        {canSign() && (
+                          <button
+                            type="button"
+                            onClick={() => setShowBatchPayouts(true)}
+                            className="ml-auto flex items-center gap-1.5 px-2.5 py-1.5 border border-gray-300 rounded-[4px] text-[11px] font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+                          >
+                            <Users className="w-3.5 h-3.5" />
+                            Batch (CSV)
+                          </button>
+                        )}
                       </div>
                       <form onSubmit={handleSubmitTransaction} className="space-y-5">
                         {/* ⭐ NEW: VM Selector */}
@@ -3771,7 +4227,7 @@ export default function DashboardPage() {
                             <div className="relative flex-1">
                               <input
                                 type="text"
-                                placeholder="0x..."
+                                placeholder="0x... or a saved name"
                                 value={recipient}
                                 onChange={(e) => {
                                   const addr = e.target.value;
@@ -3789,6 +4245,10 @@ export default function DashboardPage() {
                                   if (addr.length === 42) {
                                     console.log('Address is 42 chars, calling validateRecipientAddress');
                                     validateRecipientAddress(addr);
+                                  } else if (!addr.toLowerCase().startsWith("0x")) {
+                                    // Typing a name - suggestions come from the address book
+                                    setAddressError("");
+                                    setAddressExists(null);
                                   } else if (addr.length > 2) {
                                     // Show format error if user is typing but not 42 chars yet
                                     setAddressError("Address must be exactly 42 characters (0x + 40 hex digits)");
@@ -3825,6 +4285,36 @@ export default function DashboardPage() {
                                   <AlertTriangle className="w-5 h-5 text-red-600" />
                                 )}
                               </div>
+                              {/* Address book suggestions */}
+                              {(() => {
+                                if (!address || !recipient.trim() || recipient.length === 42) return null;
+                                const suggestions = searchAddresses(recipient.trim(), address).slice(0, 5);
+                                if (suggestions.length === 0) return null;
+                                return (
+                                  <div className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border border-gray-200 rounded-[4px] shadow-lg overflow-hidden">
+                                    {suggestions.map((entry) => (
+                                      <button
+                                        key={entry.id}
+                                        type="button"
+                                        onClick={() => {
+                                          setRecipient(entry.address);
+                                          validateRecipientAddress(entry.address);
+                                        }}
+                                        className="w-full px-3 py-2 text-left hover:bg-blue-50 transition-colors flex items-center gap-2"
+                                      >
+                                        <User className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                                        <span className="text-xs font-semibold text-gray-900 truncate">{entry.name}</span>
+                                        {entry.tags?.slice(0, 2).map((tag) => (
+                                          <span key={tag} className="px-1 text-[10px] rounded bg-gray-100 text-gray-600">#{tag}</span>
+                                        ))}
+                                        <span className="ml-auto text-[11px] font-mono text-gray-500">
+                                          {entry.address.slice(0, 6)}...{entry.address.slice(-4)}
+                                        </span>
+                                      </button>
+                                    ))}
+                                  </div>
+                                );
+                              })()}
                             </div>
                             {/* QR Scanner Button */}
                             <button
@@ -3893,6 +4383,9 @@ export default function DashboardPage() {
                               onClick={() => {
                                 setAddressToSave(recipient);
                                 setSaveAddressName("");
+                                setSaveAddressTags("");
+                                setSaveAddressNotes("");
+                                setSaveAddressForNetwork(true);
                                 setShowSaveAddress(true);
                               }}
                               className="mt-2 text-xs text-[#0019ff] hover:text-blue-700 font-semibold flex items-center gap-1"
@@ -3916,6 +4409,51 @@ export default function DashboardPage() {
                           ) : (
                             <p className="text-xs text-gray-500 mt-1.5">Enter the recipient's wallet address</p>
                           )}
+                          {/* Address poisoning check */}
+                          {recipientRisk && recipientRisk.address === recipient.toLowerCase() && recipientRisk.level !== "none" && (
+                            recipientRisk.level === "danger" ? (
+                              <div className="mt-2 p-3 bg-red-50 border-2 border-red-300 rounded-[4px] space-y-1.5">
+                                {recipientRisk.warnings.filter(w => w.severity === "danger").map((warning) => (
+                                  <div key={warning.reason} className="flex items-start gap-2">
+                                    <ShieldAlert className="w-4 h-4 flex-shrink-0 text-red-600 mt-0.5" />
+                                    <p className="text-xs text-red-800">
+                                      <strong>{warning.title}:</strong> {warning.message}
+                                    </p>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-yellow-700 mt-1.5 font-medium flex items-center gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                {recipientRisk.warnings[0].title} - check the full address with the recipient
+                              </p>
+                            )
+                          )}
+                          {/* Saved for another network / VM */}
+                          {(() => {
+                            if (recipient.length !== 42) return null;
+                            const saved = savedAddresses.filter(a => a.address === recipient.toLowerCase());
+                            if (saved.length === 0) return null;
+                            const sameNetwork = saved.filter(a => !isSavedForOtherNetwork(a, currentNetwork));
+                            if (sameNetwork.length > 0) {
+                              return sameNetwork.every(a => a.vmType && a.vmType !== vmType) ? (
+                                <p className="text-xs text-yellow-700 mt-1.5 font-medium flex items-center gap-1">
+                                  <AlertTriangle className="w-3 h-3" />
+                                  {sameNetwork[0].name} was saved as a {sameNetwork[0].vmType === "evm" ? "EVM" : "Move"} address
+                                </p>
+                              ) : null;
+                            }
+                            return (
+                              <div className="mt-2 p-2.5 bg-yellow-50 border border-yellow-200 rounded-[4px] text-xs text-yellow-800 flex items-start gap-2">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0 text-yellow-600" />
+                                <span>
+                                  <strong>{saved[0].name}</strong> was saved for{" "}
+                                  {getAllNetworks().find(n => n.id === saved[0].networkId)?.name || `chain ${saved[0].chainId}`}, not {currentNetwork.name}.
+                                  Make sure the recipient can receive funds on this network.
+                                </span>
+                              </div>
+                            );
+                          })()}
                         </div>
                         <div>
                           <div className="flex items-center justify-between mb-2">
@@ -4122,9 +4660,34 @@ export default function DashboardPage() {
                           type="submit"
                           className="w-full bg-black text-white font-semibold py-3 px-6 rounded-[4px] hover:bg-gray-800 transition-all duration-200 shadow-sm hover:shadow flex items-center justify-center gap-2 group"
                         >
-                          <span>Send Transaction{enableZKP && " (Private)"}</span>
+                          <span>{canSign() ? "Send Transaction" : "Export Unsigned Transaction"}{enableZKP && " (Private)"}</span>
                           {enableZKP ? <Shield className="w-4 h-4 group-hover:scale-110 transition-transform" /> : <ArrowRightLeft className="w-4 h-4 group-hover:translate-x-1 transition-transform" />}
                         </button>
+
+                        {/* Offline (air-gapped) signing */}
+                        <div className="grid grid-cols-3 gap-2">
+                          <button
+                            type="button"
+                            onClick={handleExportUnsigned}
+                            className="px-2 py-2 border border-gray-300 rounded-[4px] text-[11px] font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+                          >
+                            Export Unsigned
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setOfflineSigningMode("sign")}
+                            className="px-2 py-2 border border-gray-300 rounded-[4px] text-[11px] font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+                          >
+                            Sign Offline
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setOfflineSigningMode("broadcast")}
+                            className="px-2 py-2 border border-gray-300 rounded-[4px] text-[11px] font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+                          >
+                            Broadcast Signed
+                          </button>
+                        </div>
                       </form>
                     </div>
 
@@ -4935,6 +5498,25 @@ export default function DashboardPage() {
                               </p>
                             </div>
 
+                            <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-[4px] p-4 mb-4">
+                              <div>
+                                <p className="text-sm font-semibold text-black">Gap limit</p>
+                                <p className="text-xs text-gray-600 mt-1">
+                                  Stop after this many consecutive empty accounts ({MIN_GAP_LIMIT}-{MAX_GAP_LIMIT})
+                                </p>
+                              </div>
+                              <input
+                                type="number"
+                                min={MIN_GAP_LIMIT}
+                                max={MAX_GAP_LIMIT}
+                                value={discoveryGapLimit}
+                                onChange={(e) => setDiscoveryGapLimit(Number(e.target.value))}
+                                onBlur={(e) => handleGapLimitChange(Number(e.target.value))}
+                                disabled={isDiscovering}
+                                className="w-20 px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm text-black focus:border-[#0019ff] outline-none"
+                              />
+                            </div>
+
                             <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-[4px] p-4">
                               <div>
                                 <p className="text-sm font-semibold text-black">Current accounts</p>
@@ -4962,6 +5544,15 @@ export default function DashboardPage() {
                             </div>
                           </div>
 
+                          {/* Derivation Scheme */}
+                          <DerivationSettings />
+
+                          {/* Transaction Signing */}
+                          <SigningSettings />
+
+                          {/* Shared Networks */}
+                          <NetworkSharingSettings />
+
                         </motion.div>
                       )}
 
@@ -5045,6 +5636,39 @@ export default function DashboardPage() {
       }}
     />
 
+    {/* Offline Signing Modal */}
+    {offlineSigningMode && (
+      <OfflineSigningModal
+        mode={offlineSigningMode}
+        envelope={offlineEnvelope}
+        onClose={() => {
+          setOfflineSigningMode(null);
+          setOfflineEnvelope(null);
+        }}
+        onBroadcast={(result, envelope) => {
+          logAuditEvent(
+            'transaction_sent',
+            'transaction',
+            `Broadcast offline-signed transfer of ${envelope.amount} RAIN to ${envelope.to}`,
+            {
+              address: envelope.from,
+              amount: parseFloat(envelope.amount),
+              recipient: envelope.to,
+            }
+          );
+          toast.success(
+            "Transaction sent successfully!",
+            `${envelope.amount} RAIN sent to ${envelope.to.slice(0, 8)}...${envelope.to.slice(-6)} (Shard ${result.shard_id || 'N/A'})`,
+            7000
+          );
+          setTimeout(() => {
+            updateBalance();
+            fetchTransactions();
+          }, 1000);
+        }}
+      />
+    )}
+
     {/* Account Balances Modal */}
     {showAccountBalances && (
       <Dialog open={showAccountBalances} onClose={() => setShowAccountBalances(false)} className="relative z-50">
@@ -5103,6 +5727,11 @@ export default function DashboardPage() {
                                 Active
                               </span>
                             )}
+                            {isWatchOnlyAccount(account) && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                                Watch-Only
+                              </span>
+                            )}
                           </div>
                           <p className="text-xs text-gray-500 font-mono truncate mt-0.5">
                             {account.address.slice(0, 10)}...{account.address.slice(-8)}
@@ -5139,130 +5768,124 @@ export default function DashboardPage() {
     )}
 
     {/* Address Book Modal */}
-    {showAddressBook && (
-      <Dialog open={showAddressBook} onClose={() => setShowAddressBook(false)} className="relative z-50">
+    {showAddressBook && address && (
+      <AddressBookModal
+        walletAddress={address}
+        onSelect={(entry) => {
+          setRecipient(entry.address);
+          validateRecipientAddress(entry.address);
+          setShowAddressBook(false);
+          toast.success("Address selected!", entry.name);
+        }}
+        onClose={() => setShowAddressBook(false)}
+      />
+    )}
+
+    {/* Recipient Risk Modal */}
+    {showRecipientRisk && recipientRisk && (
+      <RecipientRiskModal
+        risk={recipientRisk}
+        onUseAddress={(addr) => {
+          setShowRecipientRisk(false);
+          setRecipient(addr);
+          validateRecipientAddress(addr);
+          toast.info("Recipient Replaced", "Review the transfer and send again");
+        }}
+        onContinue={() => {
+          setShowRecipientRisk(false);
+          setAcceptedRiskAddress(recipientRisk.address);
+          logAuditEvent(
+            'recipient_warning_overridden',
+            'security',
+            `Sending to flagged address ${recipientRisk.address}`,
+            {
+              address: address || undefined,
+              recipient: recipientRisk.address,
+              reasons: recipientRisk.warnings.map(w => w.reason),
+            }
+          );
+          openSendConfirmation(parseFloat(amount.replace(/,/g, '')));
+        }}
+        onClose={() => setShowRecipientRisk(false)}
+      />
+    )}
+
+    {/* Import Private Key Modal */}
+    {showImportPrivateKey && (
+      <ImportSeedModal
+        onClose={() => setShowImportPrivateKey(false)}
+        onImportPrivateKey={handleImportPrivateKey}
+      />
+    )}
+
+    {/* Add Watch-Only Address Modal */}
+    {showAddWatchOnly && (
+      <Dialog open={showAddWatchOnly} onClose={() => setShowAddWatchOnly(false)} className="relative z-50">
         <DialogBackdrop className="fixed inset-0 bg-gray-900/80 transition-opacity" />
         <div className="fixed inset-0 z-10 overflow-y-auto">
           <div className="flex min-h-full items-center justify-center p-4">
-            <DialogPanel className="relative transform overflow-hidden rounded bg-white px-6 py-8 shadow-xl transition-all w-full max-w-2xl">
+            <DialogPanel className="relative transform overflow-hidden rounded bg-white px-6 py-8 shadow-xl transition-all w-full max-w-md">
               <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-2">
-                  <Book className="w-6 h-6 text-[#0019ff]" />
-                  <h3 className="text-2xl font-bold text-gray-900">Address Book</h3>
+                  <Eye className="w-6 h-6 text-[#0019ff]" />
+                  <h3 className="text-xl font-bold text-gray-900">Add Watch-Only Address</h3>
                 </div>
                 <button
-                  onClick={() => setShowAddressBook(false)}
+                  onClick={() => setShowAddWatchOnly(false)}
                   className="p-2 rounded hover:bg-gray-100 transition-colors"
                 >
                   <X className="w-5 h-5 text-gray-500" />
                 </button>
               </div>
 
-              {/* Search */}
-              <div className="mb-4">
-                <input
-                  type="text"
-                  placeholder="Search addresses..."
-                  value={addressBookSearch}
-                  onChange={(e) => setAddressBookSearch(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900"
-                />
-              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                Monitor balance, history and staking of any address. Watch-only accounts hold no keys and
+                can only export unsigned transactions for signing elsewhere.
+              </p>
 
-              {/* Address List */}
-              <div className="max-h-96 overflow-y-auto space-y-2">
-                {address && searchAddresses(addressBookSearch, address).length === 0 ? (
-                  <p className="text-center text-gray-500 py-8">No saved addresses yet</p>
-                ) : (
-                  address && searchAddresses(addressBookSearch, address).map((addr) => (
-                    <div
-                      key={addr.id}
-                      className="flex items-center justify-between p-4 border border-gray-200 rounded hover:bg-gray-50 transition-colors"
-                    >
-                      {editingAddress === addr.id ? (
-                        // Edit mode
-                        <div className="flex-1 flex gap-2">
-                          <input
-                            type="text"
-                            value={editName}
-                            onChange={(e) => setEditName(e.target.value)}
-                            className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm text-gray-900"
-                            placeholder="Name"
-                          />
-                          <input
-                            type="text"
-                            value={editAddr}
-                            onChange={(e) => setEditAddr(e.target.value)}
-                            className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm font-mono text-gray-900"
-                            placeholder="Address"
-                          />
-                          <button
-                            onClick={() => {
-                              updateAddress(addr.id, editName, editAddr);
-                              setEditingAddress(null);
-                              toast.success("Address updated!", "");
-                            }}
-                            className="px-3 py-2 bg-[#0019ff] text-white rounded hover:bg-blue-700 transition-colors"
-                          >
-                            <Check className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => setEditingAddress(null)}
-                            className="px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
-                          >
-                            <X className="w-4 h-4" />
-                          </button>
-                        </div>
-                      ) : (
-                        // View mode
-                        <>
-                          <div className="flex-1 cursor-pointer" onClick={() => {
-                            setRecipient(addr.address);
-                            validateRecipientAddress(addr.address);
-                            setShowAddressBook(false);
-                            toast.success("Address selected!", addr.name);
-                          }}>
-                            <p className="font-semibold text-gray-900">{addr.name}</p>
-                            <p className="text-sm text-gray-500 font-mono">{addr.address}</p>
-                          </div>
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => {
-                                setEditingAddress(addr.id);
-                                setEditName(addr.name);
-                                setEditAddr(addr.address);
-                              }}
-                              className="p-2 hover:bg-gray-200 rounded transition-colors"
-                              title="Edit"
-                            >
-                              <Edit className="w-4 h-4 text-gray-600" />
-                            </button>
-                            <button
-                              onClick={() => {
-                                if (confirm(`Delete ${addr.name}?`)) {
-                                  deleteAddress(addr.id);
-                                  toast.success("Address deleted!", "");
-                                }
-                              }}
-                              className="p-2 hover:bg-red-100 rounded transition-colors"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-4 h-4 text-red-600" />
-                            </button>
-                          </div>
-                        </>
-                      )}
-                    </div>
-                  ))
-                )}
+              <div className="space-y-4 mb-6">
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Label</label>
+                  <input
+                    type="text"
+                    value={watchOnlyLabel}
+                    onChange={(e) => setWatchOnlyLabel(e.target.value)}
+                    className="w-full px-4 py-3 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900"
+                    placeholder="e.g. Treasury Cold Wallet"
+                    autoFocus
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Address</label>
+                  <input
+                    type="text"
+                    value={watchOnlyAddress}
+                    onChange={(e) => setWatchOnlyAddress(e.target.value.trim())}
+                    className="w-full px-4 py-3 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900 font-mono text-sm"
+                    placeholder="0x..."
+                  />
+                </div>
               </div>
 
-              <button
-                onClick={() => setShowAddressBook(false)}
-                className="mt-6 w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded font-medium text-gray-700 transition-colors"
-              >
-                Close
-              </button>
+              <div className="flex gap-3">
+                <button
+                  onClick={handleAddWatchOnly}
+                  disabled={!watchOnlyAddress}
+                  className="flex-1 px-4 py-2 bg-[#0019ff] text-white rounded hover:bg-blue-700 font-medium transition-colors disabled:opacity-50"
+                >
+                  Add Address
+                </button>
+                <button
+                  onClick={() => {
+                    setShowAddWatchOnly(false);
+                    setWatchOnlyAddress("");
+                    setWatchOnlyLabel("");
+                  }}
+                  className="flex-1 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded font-medium text-gray-700 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
             </DialogPanel>
           </div>
         </div>
@@ -5370,11 +5993,51 @@ export default function DashboardPage() {
                 />
               </div>
 
+              <div className="mb-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Tags</label>
+                <input
+                  type="text"
+                  value={saveAddressTags}
+                  onChange={(e) => setSaveAddressTags(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900"
+                  placeholder="Comma separated, e.g. payroll, team"
+                />
+              </div>
+
+              <div className="mb-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Notes</label>
+                <textarea
+                  value={saveAddressNotes}
+                  onChange={(e) => setSaveAddressNotes(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900"
+                  rows={2}
+                  placeholder="Optional"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 mb-6 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={saveAddressForNetwork}
+                  onChange={(e) => setSaveAddressForNetwork(e.target.checked)}
+                  className="w-4 h-4 accent-[#0019ff]"
+                />
+                Only for {currentNetwork.name} ({vmType === "evm" ? "EVM" : "Move"})
+              </label>
+
               <div className="flex gap-3">
                 <button
                   onClick={() => {
                     if (saveAddressName.trim() && address) {
-                      addAddress(saveAddressName.trim(), addressToSave, address);
+                      addAddress(saveAddressName.trim(), addressToSave, address, {
+                        tags: parseTags(saveAddressTags),
+                        notes: saveAddressNotes,
+                        ...(saveAddressForNetwork && {
+                          networkId: currentNetwork.id,
+                          chainId: currentNetwork.chainId ?? undefined,
+                          vmType,
+                        }),
+                      });
                       toast.success("Address saved!", `${saveAddressName} added to address book`);
                       setShowSaveAddress(false);
                       setSaveAddressName("");
@@ -1,4 +1,5 @@
 import HeroSection from "@/components/HeroSection";
+import NetworkLinkHandler from "@/components/NetworkLinkHandler";
 
 export const dynamic = 'force-dynamic';
 
@@ -6,6 +7,7 @@ export default function Home() {
   return (
     <div className="min-h-screen bg-black">
       <HeroSection />
+      <NetworkLinkHandler />
     </div>
   );
 }
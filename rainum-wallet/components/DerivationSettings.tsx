@@ -0,0 +1,361 @@
+/**
+ * Derivation Settings Component
+ * Choose how HD accounts are derived (legacy BIP32, SLIP-0010 Ed25519 or a custom path)
+ * and migrate funds from the current scheme's accounts to the new ones.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { GitBranch, AlertTriangle, ArrowRight, Check, Loader2, Lock } from 'lucide-react';
+import {
+  deriveAccountFromMnemonic,
+  isSameDerivationScheme,
+  validateDerivationScheme,
+  LEGACY_DERIVATION_SCHEME,
+  SLIP10_DERIVATION_SCHEME,
+  type DerivationAlgorithm,
+  type DerivationScheme,
+} from '@/lib/hd-wallet';
+import { useWalletStore } from '@/lib/wallet-store';
+import { logAuditEvent } from '@/lib/audit-log';
+import {
+  planDerivationSweep,
+  executeDerivationSweep,
+  completeDerivationMigration,
+  type SweepItem,
+} from '@/lib/derivation-migration';
+import { toast } from '@/lib/toast-store';
+import PasswordModal from './modals/PasswordModal';
+
+const SCHEME_LABELS: Record<DerivationScheme['id'], string> = {
+  legacy: 'Legacy (BIP32 secp256k1)',
+  slip10: 'SLIP-0010 Ed25519',
+  custom: 'Custom path',
+};
+
+const SWEEP_STATUS_STYLES: Record<SweepItem['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  skipped: 'bg-gray-100 text-gray-500',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 10)}...${address.slice(-8)}`;
+}
+
+export default function DerivationSettings() {
+  const { mnemonic, passphrase, passphraseProtected, accounts, unlockMnemonic, setDerivationScheme } = useWalletStore();
+
+  const [currentScheme, setCurrentScheme] = useState<DerivationScheme>(LEGACY_DERIVATION_SCHEME);
+  const [selectedId, setSelectedId] = useState<DerivationScheme['id']>('legacy');
+  const [customTemplate, setCustomTemplate] = useState(SLIP10_DERIVATION_SCHEME.pathTemplate);
+  const [customAlgorithm, setCustomAlgorithm] = useState<DerivationAlgorithm>('slip10-ed25519');
+
+  const [sweepItems, setSweepItems] = useState<SweepItem[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+
+  useEffect(() => {
+    const scheme = useWalletStore.getState().derivationScheme;
+    setCurrentScheme(scheme);
+    setSelectedId(scheme.id);
+    if (scheme.id === 'custom') {
+      setCustomTemplate(scheme.pathTemplate);
+      setCustomAlgorithm(scheme.algorithm);
+    }
+  }, []);
+
+  const selectedScheme = useMemo<DerivationScheme>(() => (
+    selectedId === 'legacy'
+      ? LEGACY_DERIVATION_SCHEME
+      : selectedId === 'slip10'
+      ? SLIP10_DERIVATION_SCHEME
+      : { id: 'custom', algorithm: customAlgorithm, pathTemplate: customTemplate.trim() }
+  ), [selectedId, customAlgorithm, customTemplate]);
+
+  const schemeError = useMemo(() => {
+    try {
+      validateDerivationScheme(selectedScheme);
+      return '';
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Invalid derivation path';
+    }
+  }, [selectedScheme]);
+
+  // First account under the selected scheme, so the user can check it against other wallets
+  const previewAddress = useMemo(() => {
+    if (!mnemonic || schemeError) return null;
+    try {
+      return deriveAccountFromMnemonic(mnemonic, 0, passphrase || '', selectedScheme).address;
+    } catch {
+      return null;
+    }
+  }, [mnemonic, passphrase, schemeError, selectedScheme]);
+
+  const isCurrent = isSameDerivationScheme(selectedScheme, currentScheme);
+
+  const handleUnlockSubmit = async (password: string, unlockPassphrase?: string) => {
+    try {
+      if (!(await unlockMnemonic(password, unlockPassphrase))) {
+        toast.error('Unlock Failed', passphraseProtected ? 'Incorrect password or passphrase' : 'Incorrect password');
+        return;
+      }
+    } catch (err) {
+      toast.error('Unlock Failed', err instanceof Error ? err.message : 'Failed to unlock wallet');
+      return;
+    }
+    setShowUnlockModal(false);
+  };
+
+  // Switch scheme without moving funds (e.g. a wallet that was created elsewhere with SLIP-0010)
+  const handleSwitchOnly = () => {
+    if (!mnemonic || schemeError || isCurrent) return;
+
+    if (!confirm(
+      'Switching the derivation scheme changes every account address.\n\n' +
+      'Funds on the current addresses are NOT moved. Use "Migrate Funds" to sweep them first.\n\nSwitch anyway?'
+    )) {
+      return;
+    }
+
+    try {
+      const previous = currentScheme;
+      setDerivationScheme(selectedScheme);
+      setCurrentScheme(selectedScheme);
+      setSweepItems(null);
+      logAuditEvent(
+        'derivation_scheme_changed',
+        'account',
+        `Derivation scheme changed from ${previous.pathTemplate} to ${selectedScheme.pathTemplate}`,
+        { from: previous, to: selectedScheme }
+      );
+      toast.success('Derivation Scheme Changed', SCHEME_LABELS[selectedScheme.id]);
+    } catch (err) {
+      toast.error('Switch Failed', err instanceof Error ? err.message : 'Failed to change derivation scheme');
+    }
+  };
+
+  const handlePlanSweep = async () => {
+    if (!mnemonic || schemeError || isCurrent) return;
+
+    setIsPlanning(true);
+    try {
+      setSweepItems(await planDerivationSweep(mnemonic, passphrase || '', accounts, selectedScheme));
+    } catch (err) {
+      toast.error('Migration Failed', err instanceof Error ? err.message : 'Failed to prepare migration');
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const handleExecuteSweep = async () => {
+    if (!mnemonic || !sweepItems) return;
+
+    setIsSweeping(true);
+    try {
+      const results = await executeDerivationSweep(sweepItems, mnemonic, setSweepItems);
+      setSweepItems(results);
+
+      completeDerivationMigration(results, selectedScheme);
+      setCurrentScheme(selectedScheme);
+      toast.success('Migration Complete', `Accounts now use ${SCHEME_LABELS[selectedScheme.id]}`);
+    } catch (err) {
+      toast.error('Migration Incomplete', err instanceof Error ? err.message : 'Some accounts were not swept');
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  const pendingCount = sweepItems?.filter((item) => item.status === 'pending' || item.status === 'failed').length ?? 0;
+  const sweepTotal = sweepItems?.reduce((sum, item) => sum + (item.status === 'skipped' ? 0 : item.amount), 0) ?? 0;
+
+  return (
+    <div className="bg-white border-2 border-gray-300 rounded-[4px] p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <GitBranch className="w-6 h-6 text-[#0019ff]" />
+        <div>
+          <h3 className="text-lg font-bold text-black">Derivation Scheme</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            How accounts are derived from your recovery phrase
+          </p>
+        </div>
+      </div>
+
+      {/* Current scheme */}
+      <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-4 mb-4">
+        <p className="text-sm font-semibold text-black">Current: {SCHEME_LABELS[currentScheme.id]}</p>
+        <p className="text-xs text-gray-600 font-mono mt-1">{currentScheme.pathTemplate}</p>
+      </div>
+
+      {/* Scheme selection */}
+      <div className="space-y-2 mb-4">
+        {(['legacy', 'slip10', 'custom'] as const).map((id) => (
+          <label
+            key={id}
+            className={`flex items-start gap-3 p-3 border-2 rounded-[4px] cursor-pointer transition-colors ${
+              selectedId === id ? 'border-[#0019ff] bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <input
+              type="radio"
+              name="derivation-scheme"
+              checked={selectedId === id}
+              onChange={() => {
+                setSelectedId(id);
+                setSweepItems(null);
+              }}
+              disabled={isSweeping}
+              className="mt-1"
+            />
+            <div>
+              <p className="text-sm font-semibold text-black">{SCHEME_LABELS[id]}</p>
+              <p className="text-xs text-gray-600">
+                {id === 'legacy' && <>Default for existing wallets. Path <span className="font-mono">{LEGACY_DERIVATION_SCHEME.pathTemplate}</span></>}
+                {id === 'slip10' && <>Standard hardened Ed25519 derivation used by hardware wallets. Path <span className="font-mono">{SLIP10_DERIVATION_SCHEME.pathTemplate}</span></>}
+                {id === 'custom' && 'Any path template containing {index}'}
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      {selectedId === 'custom' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          <input
+            type="text"
+            value={customTemplate}
+            onChange={(e) => {
+              setCustomTemplate(e.target.value);
+              setSweepItems(null);
+            }}
+            placeholder="m/44'/60'/{index}'/0'/0'"
+            disabled={isSweeping}
+            className="md:col-span-2 w-full px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm font-mono focus:border-[#0019ff] outline-none text-black"
+          />
+          <select
+            value={customAlgorithm}
+            onChange={(e) => {
+              setCustomAlgorithm(e.target.value as DerivationAlgorithm);
+              setSweepItems(null);
+            }}
+            disabled={isSweeping}
+            className="w-full px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm focus:border-[#0019ff] outline-none text-black"
+          >
+            <option value="slip10-ed25519">SLIP-0010 Ed25519</option>
+            <option value="bip32-secp256k1">BIP32 secp256k1</option>
+          </select>
+        </div>
+      )}
+
+      {schemeError && (
+        <div className="bg-red-50 border border-red-200 rounded-[4px] p-3 mb-4">
+          <p className="text-xs text-red-700">{schemeError}</p>
+        </div>
+      )}
+
+      {!mnemonic ? (
+        <button
+          onClick={() => setShowUnlockModal(true)}
+          className="flex items-center gap-2 px-4 py-2 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-blue-700 transition-colors"
+        >
+          <Lock className="w-4 h-4" />
+          Unlock to Change Scheme
+        </button>
+      ) : (
+        <>
+          {previewAddress && !isCurrent && (
+            <p className="text-xs text-gray-600 mb-4">
+              Account 1 under this scheme: <span className="font-mono text-black">{shortAddress(previewAddress)}</span>
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handlePlanSweep}
+              disabled={isCurrent || !!schemeError || isPlanning || isSweeping}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isPlanning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArrowRight className="w-4 h-4" />}
+              Migrate Funds
+            </button>
+            <button
+              onClick={handleSwitchOnly}
+              disabled={isCurrent || !!schemeError || isSweeping}
+              className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-4 h-4" />
+              Switch Without Moving Funds
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* Sweep plan */}
+      {sweepItems && (
+        <div className="mt-4 space-y-3">
+          <div className="bg-yellow-50 border-2 border-yellow-400 rounded-[4px] p-3 flex gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-700 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-yellow-900">
+              Each account below sends its full balance (minus the network fee) to the same account number
+              under the new scheme. The wallet switches schemes once every transfer succeeds.
+            </p>
+          </div>
+
+          <div className="border-2 border-gray-200 rounded-[4px] divide-y divide-gray-200">
+            {sweepItems.map((item) => (
+              <div key={item.index} className="p-3 flex items-center justify-between gap-3 text-xs">
+                <div className="min-w-0">
+                  <p className="font-semibold text-black">{item.name}</p>
+                  <p className="font-mono text-gray-600 truncate">
+                    {shortAddress(item.from)} → {shortAddress(item.to)}
+                  </p>
+                  {item.reason && <p className="text-gray-500 mt-0.5">{item.reason}</p>}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-semibold text-black">{item.amount.toLocaleString()} RAIN</p>
+                  <span className={`inline-block mt-1 px-2 py-0.5 rounded-[4px] font-semibold ${SWEEP_STATUS_STYLES[item.status]}`}>
+                    {item.status}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              Total: <span className="font-bold text-black">{sweepTotal.toLocaleString()} RAIN</span>
+            </p>
+            <button
+              onClick={handleExecuteSweep}
+              disabled={isSweeping}
+              className="flex items-center gap-2 px-4 py-2 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSweeping && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSweeping
+                ? 'Sweeping...'
+                : pendingCount > 0
+                ? `Sweep ${pendingCount} Account${pendingCount === 1 ? '' : 's'}`
+                : 'Switch Scheme'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showUnlockModal && (
+        <PasswordModal
+          title="Unlock Wallet"
+          description="Enter your password to derive accounts under a different scheme."
+          onClose={() => setShowUnlockModal(false)}
+          onSubmit={handleUnlockSubmit}
+          isCreatingPassword={false}
+          allowPassphrase={passphraseProtected}
+          expectPassphrase={passphraseProtected}
+        />
+      )}
+    </div>
+  );
+}
@@ -190,7 +190,7 @@ export default function Gradient() {
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showOverwriteModal, setShowOverwriteModal] = useState(false);
-  const [pendingAction, setPendingAction] = useState<{ type: 'create' | 'import'; password: string; mnemonic?: string } | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ type: 'create' | 'import'; password: string; mnemonic?: string; passphrase?: string } | null>(null);
   const [walletData, setWalletData] = useState<{ mnemonic: string; address: string } | null>(null);
   const [hasExistingWallet, setHasExistingWallet] = useState(false);
 
@@ -234,7 +234,7 @@ export default function Gradient() {
     }
   };
 
-  const handlePasswordSet = async (password: string) => {
+  const handlePasswordSet = async (password: string, passphrase?: string) => {
     if (!walletData) return;
 
     setShowPasswordModal(false);
@@ -242,7 +242,7 @@ export default function Gradient() {
 
     try {
       // Save encrypted wallet to localStorage
-      saveWallet(walletData.address, walletData.mnemonic, password);
+      await saveWallet(walletData.address, walletData.mnemonic, password);
 
       // Register WebAuthn credential if supported
       if (isWebAuthnSupported()) {
@@ -265,7 +265,7 @@ export default function Gradient() {
       }
 
       // Create session and log in
-      handleFinalLogin();
+      handleFinalLogin(passphrase);
     } catch (error: any) {
       console.error("Failed to save wallet:", error);
       toast.error("Failed to Save Wallet", error.message || "Failed to save wallet");
@@ -274,17 +274,17 @@ export default function Gradient() {
     }
   };
 
-  const handleImportWalletSubmit = async (mnemonic: string, password: string) => {
+  const handleImportWalletSubmit = async (mnemonic: string, password: string, passphrase?: string) => {
     setShowImportModal(false);
     setLoading(true);
 
     try {
-      await handleImportWallet(mnemonic, password, router);
+      await handleImportWallet(mnemonic, password, router, true, false, passphrase);
       // handleImportWallet will redirect to dashboard on success
     } catch (error: any) {
       // Check if error is because wallet already exists
       if (error.code === 'WALLET_EXISTS' && error.action === 'import') {
-        setPendingAction({ type: 'import', password, mnemonic });
+        setPendingAction({ type: 'import', password, mnemonic, passphrase });
         setShowOverwriteModal(true);
       } else {
         console.error("Failed to import wallet:", error);
@@ -299,7 +299,7 @@ export default function Gradient() {
     setShowLoginModal(true);
   };
 
-  const handleLoginSubmit = async (password: string) => {
+  const handleLoginSubmit = async (password: string, passphrase?: string) => {
     setShowLoginModal(false);
     setLoading(true);
 
@@ -307,7 +307,7 @@ export default function Gradient() {
       const redirectTo = searchParams.get('redirectTo') || undefined;
 
       // Try WebAuthn first if available, then password
-      await handleLogin(password, router, redirectTo, true);
+      await handleLogin(password, router, redirectTo, true, passphrase);
       // handleLogin will redirect to dashboard on success
     } catch (error) {
       console.error("Failed to login:", error);
@@ -356,9 +356,9 @@ export default function Gradient() {
     setLoading(true);
     try {
       if (pendingAction.type === 'import' && pendingAction.mnemonic) {
-        await overwriteAndImportWallet(pendingAction.mnemonic, pendingAction.password, router);
+        await overwriteAndImportWallet(pendingAction.mnemonic, pendingAction.password, router, true, pendingAction.passphrase);
       } else if (pendingAction.type === 'create') {
-        await overwriteAndCreateWallet(pendingAction.password, router);
+        await overwriteAndCreateWallet(pendingAction.password, router, true, pendingAction.passphrase);
       }
       // Will redirect to dashboard on success
     } catch (error: any) {
@@ -419,14 +419,14 @@ export default function Gradient() {
     }
   };
 
-  const handleFinalLogin = async () => {
+  const handleFinalLogin = async (passphrase?: string) => {
     if (!walletData) return;
 
     // Create session (await for HttpOnly cookie)
     await sessionManager.createSession(walletData.address);
 
     // Update wallet store
-    useWalletStore.getState().connect(walletData.address, walletData.mnemonic);
+    useWalletStore.getState().connect(walletData.address, walletData.mnemonic, undefined, passphrase || '');
 
     // Start session monitoring
     sessionManager.startSessionMonitoring(async () => {
@@ -490,6 +490,7 @@ export default function Gradient() {
           onClose={() => setShowPasswordModal(false)}
           onSubmit={handlePasswordSet}
           isCreatingPassword={true}
+          allowPassphrase
         />
       )}
 
@@ -501,6 +502,7 @@ export default function Gradient() {
           onClose={() => setShowLoginModal(false)}
           onSubmit={handleLoginSubmit}
           isCreatingPassword={false}
+          allowPassphrase
         />
       )}
 
@@ -0,0 +1,117 @@
+/**
+ * Network Link Handler
+ * Handles network deep links on the landing page:
+ * - /?addNetwork=<base64url> opens the add-network confirmation
+ * - /?switchNetwork=<network id> asks before switching the active network
+ * The parameters are removed from the address bar right away, so a reload never re-triggers them.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Globe, ArrowRight } from 'lucide-react';
+import { useNetworkStore, type Network } from '@/lib/network-store';
+import {
+  ADD_NETWORK_PARAM,
+  SWITCH_NETWORK_PARAM,
+  parseAddNetworkParam,
+  type NetworkBundle,
+} from '@/lib/network-bundle';
+import { toast } from '@/lib/toast-store';
+import NetworkImportModal from '@/components/modals/NetworkImportModal';
+
+export default function NetworkLinkHandler() {
+  const { currentNetwork, switchNetwork, getNetworkById } = useNetworkStore();
+  const [bundle, setBundle] = useState<NetworkBundle | null>(null);
+  const [switchTarget, setSwitchTarget] = useState<Network | null>(null);
+
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const addParam = url.searchParams.get(ADD_NETWORK_PARAM);
+    const switchParam = url.searchParams.get(SWITCH_NETWORK_PARAM);
+    if (!addParam && !switchParam) return;
+
+    url.searchParams.delete(ADD_NETWORK_PARAM);
+    url.searchParams.delete(SWITCH_NETWORK_PARAM);
+    window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+
+    if (addParam) {
+      try {
+        setBundle(parseAddNetworkParam(addParam));
+      } catch (err) {
+        toast.error('Invalid Network Link', err instanceof Error ? err.message : 'The link could not be read');
+      }
+    } else if (switchParam) {
+      const target = getNetworkById(switchParam);
+      if (!target) {
+        toast.error('Unknown Network', `No network "${switchParam}" - add it before switching to it`);
+      } else if (target.id !== useNetworkStore.getState().currentNetwork.id) {
+        setSwitchTarget(target);
+      }
+    }
+  }, [getNetworkById]);
+
+  const handleConfirmSwitch = () => {
+    if (!switchTarget) return;
+    switchNetwork(switchTarget);
+    toast.success(`Switched to ${switchTarget.name}`, `Now using ${useNetworkStore.getState().getCurrentRpcUrl()}`);
+    setSwitchTarget(null);
+  };
+
+  if (bundle) {
+    return <NetworkImportModal bundle={bundle} source="link" onClose={() => setBundle(null)} />;
+  }
+
+  if (!switchTarget) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 sm:p-8 max-w-md w-full">
+        <div className="flex items-center gap-3 mb-2">
+          <Globe className="text-[#0019ff]" size={28} />
+          <h2 className="text-2xl font-bold text-gray-900">Switch Network?</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-5">
+          A link wants to change the network your wallet uses. Balances, history and new transactions will come from
+          the network below.
+        </p>
+
+        <div className="flex items-center gap-3 mb-4 text-sm">
+          <span className="flex-1 bg-gray-50 border border-gray-200 rounded-[4px] px-3 py-2 text-gray-700 truncate">
+            {currentNetwork.name}
+          </span>
+          <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <span className="flex-1 bg-gray-50 border-2 border-[#0019ff] rounded-[4px] px-3 py-2 font-semibold text-black truncate">
+            {switchTarget.name}
+          </span>
+        </div>
+
+        <dl className="grid grid-cols-[90px_1fr] gap-x-2 gap-y-1 text-xs mb-6">
+          <dt className="text-gray-500">RPC</dt>
+          <dd className="font-mono text-gray-900 break-all">{switchTarget.rpcUrl}</dd>
+          <dt className="text-gray-500">Explorer</dt>
+          <dd className="font-mono text-gray-900 break-all">{switchTarget.explorerUrl || '-'}</dd>
+          <dt className="text-gray-500">Chain ID</dt>
+          <dd className="font-mono text-gray-900">{switchTarget.chainId ?? 'not set'}</dd>
+        </dl>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setSwitchTarget(null)}
+            className="flex-1 px-4 py-2.5 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Stay on {currentNetwork.name}
+          </button>
+          <button
+            onClick={handleConfirmSwitch}
+            className="flex-1 px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-[#0015cc] transition-colors"
+          >
+            Switch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
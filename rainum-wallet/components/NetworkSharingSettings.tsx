@@ -0,0 +1,168 @@
+/**
+ * Network Sharing Settings Component
+ * Exports custom networks as a bundle signed by the active account, imports bundles,
+ * and copies add-network / switch-network links for a single network.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { Share2, Download, Upload, Link2, Loader2 } from 'lucide-react';
+import { useNetworkStore } from '@/lib/network-store';
+import { useWalletStore, isWatchOnlyAccount } from '@/lib/wallet-store';
+import { createAccountSigner } from '@/lib/transaction-builder';
+import {
+  createNetworkBundle,
+  createAddNetworkLink,
+  createSwitchNetworkLink,
+  getNetworkBundleFilename,
+  parseNetworkBundle,
+  serializeNetworkBundle,
+  type NetworkBundle,
+} from '@/lib/network-bundle';
+import { logAuditEvent } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+import NetworkImportModal from '@/components/modals/NetworkImportModal';
+
+export default function NetworkSharingSettings() {
+  const { customNetworks } = useNetworkStore();
+  const { mnemonic, getActiveAccount } = useWalletStore();
+  const [isExporting, setIsExporting] = useState(false);
+  const [importBundle, setImportBundle] = useState<NetworkBundle | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    const account = getActiveAccount();
+    if (!account || isWatchOnlyAccount(account)) {
+      toast.error('Cannot Sign Bundle', 'Switch to an account that can sign to export networks');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // Imported accounts sign with their own key - the mnemonic is only needed for HD accounts
+      const signer = createAccountSigner(mnemonic || '', account);
+      const bundle = await createNetworkBundle(customNetworks, signer);
+
+      const blob = new Blob([serializeNetworkBundle(bundle)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = getNetworkBundleFilename(bundle);
+      a.click();
+      URL.revokeObjectURL(url);
+
+      logAuditEvent('network_bundle_exported', 'security', `Exported ${customNetworks.length} custom networks`, {
+        networks: customNetworks.map((n) => n.name),
+        signer: account.address,
+      });
+      toast.success('Networks Exported', `Signed by ${account.address.slice(0, 10)}...`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Export failed';
+      toast.error('Export Failed', message === 'WALLET_LOCKED' ? 'Unlock the wallet to sign the bundle' : message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    try {
+      setImportBundle(parseNetworkBundle(await file.text()));
+    } catch (err) {
+      toast.error('Invalid Bundle', err instanceof Error ? err.message : 'The file could not be read');
+    }
+  };
+
+  const handleCopyLink = async (link: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Link Copied', label);
+    } catch {
+      toast.error('Copy Failed', 'Clipboard access was denied');
+    }
+  };
+
+  return (
+    <div className="bg-white border-2 border-gray-300 rounded-[4px] p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Share2 className="w-6 h-6 text-[#0019ff]" />
+        <div>
+          <h3 className="text-lg font-bold text-black">Shared Networks</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Share custom networks as a signed bundle or a link - every import is confirmed and verified first
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <button
+          onClick={handleExport}
+          disabled={isExporting || customNetworks.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-[#0019ff] text-white rounded-[4px] hover:bg-[#0015cc] transition-all disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export Signed Bundle
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Import Bundle
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          className="hidden"
+        />
+      </div>
+
+      {customNetworks.length === 0 ? (
+        <p className="text-xs text-gray-500">No custom networks yet. Imported networks will appear here.</p>
+      ) : (
+        <div className="space-y-2">
+          {customNetworks.map((network) => (
+            <div
+              key={network.id}
+              className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-[4px] p-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-black truncate">{network.name}</p>
+                <p className="text-xs text-gray-600 truncate">
+                  {network.rpcUrl} · chain {network.chainId ?? '-'}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleCopyLink(createAddNetworkLink(network), `Add-network link for ${network.name}`)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+                >
+                  <Link2 className="w-3.5 h-3.5" />
+                  Add Link
+                </button>
+                <button
+                  onClick={() => handleCopyLink(createSwitchNetworkLink(network.id), `Switch link for ${network.name}`)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+                >
+                  <Link2 className="w-3.5 h-3.5" />
+                  Switch Link
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {importBundle && (
+        <NetworkImportModal bundle={importBundle} source="file" onClose={() => setImportBundle(null)} />
+      )}
+    </div>
+  );
+}
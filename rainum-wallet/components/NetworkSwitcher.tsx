@@ -2,14 +2,19 @@
 
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Globe, Check, Plus, Trash2, WifiOff, AlertCircle, Wifi } from "lucide-react";
+import { Globe, Check, Plus, Trash2, WifiOff, AlertCircle, Wifi, Server } from "lucide-react";
 import {
   useNetworkStore,
   getAllNetworks,
   checkNetworkHealth,
   validateNetwork,
+  verifyNewNetwork,
+  MAX_BLOCK_LAG,
   type Network,
+  type EndpointHealth,
+  type NetworkVerification,
 } from "@/lib/network-store";
+import { refreshNetworkEndpoints } from "@/lib/rpc-health-monitor";
 
 interface NetworkSwitcherProps {
   compact?: boolean;
@@ -17,6 +22,7 @@ interface NetworkSwitcherProps {
 
 export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProps) {
   const { currentNetwork, switchNetwork, customNetworks, removeCustomNetwork, networkHealth } = useNetworkStore();
+  const identityCheck = useNetworkStore((state) => state.identityChecks[currentNetwork.id]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [isCheckingHealth, setIsCheckingHealth] = useState(false);
@@ -30,8 +36,7 @@ export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProp
 
   const checkCurrentNetworkHealth = async () => {
     setIsCheckingHealth(true);
-    const health = await checkNetworkHealth(currentNetwork.rpcUrl);
-    useNetworkStore.getState().updateNetworkHealth(currentNetwork.id, health);
+    await refreshNetworkEndpoints(currentNetwork);
     setIsCheckingHealth(false);
   };
 
@@ -39,9 +44,8 @@ export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProp
     switchNetwork(network);
     setShowDropdown(false);
 
-    // Check health of new network
-    const health = await checkNetworkHealth(network.rpcUrl);
-    useNetworkStore.getState().updateNetworkHealth(network.id, health);
+    // Check health of every endpoint of the new network
+    await refreshNetworkEndpoints(network);
   };
 
   const handleRemoveCustomNetwork = (networkId: string, e: React.MouseEvent) => {
@@ -111,6 +115,10 @@ export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProp
                   getHealthIcon={getHealthIcon}
                   getHealthColor={getHealthColor}
                 />
+                <div className="p-3 border-t border-white/10">
+                  <p className="text-xs font-bold text-white/60 uppercase mb-2">Endpoints</p>
+                  <EndpointList network={currentNetwork} />
+                </div>
               </motion.div>
             </>
           )}
@@ -174,6 +182,28 @@ export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProp
         ))}
       </div>
 
+      <div className="p-3 bg-white/5 border-2 border-white/10 rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <Server size={14} className="text-cyan-400" />
+          <p className="text-xs font-bold text-white/60 uppercase">{currentNetwork.name} Endpoints</p>
+        </div>
+        {identityCheck?.status === 'mismatch' && (
+          <div className="flex gap-2 mb-2 p-2 bg-red-500/10 border-2 border-red-500/30 rounded-md">
+            <AlertCircle size={14} className="text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-red-400">
+              Node identity changed - signing is disabled on this network. {identityCheck.message}
+            </p>
+          </div>
+        )}
+        {currentNetwork.genesisHash && (
+          <p className="text-xs text-white/40 mb-2 truncate">
+            Pinned genesis {currentNetwork.genesisHash.slice(0, 10)}...{currentNetwork.genesisHash.slice(-6)}
+            {identityCheck?.status === 'verified' && <span className="text-green-400"> · verified</span>}
+          </p>
+        )}
+        <EndpointList network={currentNetwork} editable />
+      </div>
+
       {showAddModal && (
         <AddCustomNetworkModal
           onClose={() => setShowAddModal(false)}
@@ -183,6 +213,108 @@ export default function NetworkSwitcher({ compact = false }: NetworkSwitcherProp
   );
 }
 
+// Per-endpoint status of a network, in priority order
+function EndpointList({ network, editable = false }: { network: Network; editable?: boolean }) {
+  const { endpointHealth, activeRpcUrls, backupRpcUrls, getNetworkEndpoints, addBackupRpcUrl, removeBackupRpcUrl } =
+    useNetworkStore();
+  const [newUrl, setNewUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const endpoints = getNetworkEndpoints(network);
+  const active = activeRpcUrls[network.id] ?? endpoints[0];
+  const backups = backupRpcUrls[network.id] || [];
+
+  const describe = (health: EndpointHealth | undefined) => {
+    if (!health) return 'Not checked yet';
+    if (health.status === 'offline') return health.error ? `Offline · ${health.error}` : 'Offline';
+
+    const parts = [`${health.latencyMs}ms`];
+    if (health.blockHeight !== null) parts.push(`#${health.blockHeight.toLocaleString()}`);
+    if (health.blocksBehind !== null && health.blocksBehind > MAX_BLOCK_LAG) {
+      parts.push(`${health.blocksBehind} blocks behind`);
+    }
+    return parts.join(' · ');
+  };
+
+  const statusColor = (health: EndpointHealth | undefined) => {
+    if (!health) return 'bg-gray-400';
+    if (health.status === 'offline') return 'bg-red-400';
+    if (health.status === 'degraded' || (health.blocksBehind ?? 0) > MAX_BLOCK_LAG) return 'bg-yellow-400';
+    return 'bg-green-400';
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const validation = validateNetwork({ ...network, rpcUrl: newUrl.trim() });
+    if (!validation.valid) {
+      setError(validation.errors[0]);
+      return;
+    }
+
+    try {
+      addBackupRpcUrl(network.id, newUrl);
+      setNewUrl('');
+      await refreshNetworkEndpoints(network);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add endpoint');
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {endpoints.map((url, index) => {
+        const health = endpointHealth[url];
+        return (
+          <div key={url} className="flex items-center gap-2 text-xs">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${statusColor(health)}`} />
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-white/80">
+                <span className="text-white/40">{index + 1}.</span> {url}
+              </p>
+              <p className="truncate text-white/40">{describe(health)}</p>
+            </div>
+            {url === active && (
+              <span className="text-[10px] font-bold px-1.5 py-0.5 bg-cyan-500/20 text-cyan-400 rounded flex-shrink-0">
+                ACTIVE
+              </span>
+            )}
+            {editable && backups.includes(url) && (
+              <button
+                onClick={() => removeBackupRpcUrl(network.id, url)}
+                className="p-1 hover:bg-red-500/20 rounded transition-all flex-shrink-0"
+              >
+                <Trash2 size={12} className="text-red-400" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {editable && (
+        <form onSubmit={handleAdd} className="flex gap-2 pt-1">
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            placeholder="Add backup RPC URL"
+            className="flex-1 min-w-0 px-2 py-1.5 bg-white/5 border-2 border-white/10 rounded-md text-xs text-white placeholder-white/40 focus:outline-none focus:border-cyan-500 transition-all"
+          />
+          <button
+            type="submit"
+            disabled={!newUrl.trim()}
+            className="p-1.5 hover:bg-white/10 rounded-md transition-all disabled:opacity-50"
+          >
+            <Plus size={14} className="text-cyan-400" />
+          </button>
+        </form>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
 // Dropdown content component
 function NetworkDropdownContent({
   allNetworks,
@@ -258,14 +390,40 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
     id: '',
     name: '',
     rpcUrl: '',
+    rpcUrls: '',
     explorerUrl: '',
     chainId: '',
   });
   const [errors, setErrors] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Identity warnings the user has to acknowledge before the network is added
+  const [pending, setPending] = useState<NetworkVerification | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  // Any edit invalidates a previous verification
+  useEffect(() => {
+    setPending(null);
+    setAcknowledged(false);
+  }, [formData]);
+
+  const saveNetwork = (network: Network) => {
+    try {
+      addCustomNetwork(network);
+      onClose();
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to add custom network']);
+      setIsSubmitting(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (pending) {
+      if (acknowledged) saveNetwork(pending.network);
+      return;
+    }
+
     setErrors([]);
     setIsSubmitting(true);
 
@@ -276,6 +434,7 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
       id: networkId,
       name: formData.name,
       rpcUrl: formData.rpcUrl,
+      rpcUrls: formData.rpcUrls.split('\n').map((url) => url.trim()).filter(Boolean),
       explorerUrl: formData.explorerUrl || '',
       chainId: formData.chainId || undefined,
       isCustom: true,
@@ -297,13 +456,29 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
       return;
     }
 
+    // 🔒 Ask the node which chain it serves instead of trusting the form
+    let verification: NetworkVerification;
     try {
-      addCustomNetwork(network);
-      onClose();
-    } catch (error: any) {
-      setErrors([error.message || 'Failed to add custom network']);
+      verification = await verifyNewNetwork(network);
+    } catch (err) {
+      setErrors([`Could not read the node's identity: ${err instanceof Error ? err.message : 'unknown error'}`]);
       setIsSubmitting(false);
+      return;
+    }
+
+    if (verification.errors.length > 0) {
+      setErrors(verification.errors);
+      setIsSubmitting(false);
+      return;
     }
+
+    if (verification.warnings.length > 0) {
+      setPending(verification);
+      setIsSubmitting(false);
+      return;
+    }
+
+    saveNetwork(verification.network);
   };
 
   return (
@@ -363,6 +538,19 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">
+              Fallback RPC URLs (optional, one per line)
+            </label>
+            <textarea
+              value={formData.rpcUrls}
+              onChange={(e) => setFormData({ ...formData, rpcUrls: e.target.value })}
+              placeholder="https://rpc2.example.com"
+              rows={2}
+              className="w-full px-4 py-3 bg-white/5 border-2 border-white/10 rounded-lg text-white placeholder-white/40 focus:outline-none focus:border-cyan-500 transition-all resize-none"
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-white/80 mb-2">
               Explorer URL (optional)
@@ -389,6 +577,33 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
             />
           </div>
 
+          {pending && (
+            <div className="bg-yellow-500/10 border-2 border-yellow-500/30 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <AlertCircle size={16} className="text-yellow-400" />
+                <p className="text-sm font-bold text-yellow-400">Verify this network</p>
+              </div>
+              <p className="text-xs text-white/60">
+                Node reports chain {pending.identity.chainId ?? 'unknown'} · genesis{' '}
+                {pending.identity.genesisHash
+                  ? `${pending.identity.genesisHash.slice(0, 10)}...${pending.identity.genesisHash.slice(-6)}`
+                  : 'unknown'}
+              </p>
+              {pending.warnings.map((warning, idx) => (
+                <p key={idx} className="text-xs text-yellow-200">{warning}</p>
+              ))}
+              <label className="flex items-center gap-2 text-xs text-white/80 pt-1">
+                <input
+                  type="checkbox"
+                  checked={acknowledged}
+                  onChange={(e) => setAcknowledged(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                I understand the risks and trust this node
+              </label>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-2">
             <button
               type="button"
@@ -399,10 +614,10 @@ function AddCustomNetworkModal({ onClose }: { onClose: () => void }) {
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || (!!pending && !acknowledged)}
               className="flex-1 px-4 py-3 bg-gradient-to-r from-cyan-500 to-blue-500 text-white font-bold rounded-lg hover:from-cyan-600 hover:to-blue-600 transition-all shadow-lg shadow-cyan-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isSubmitting ? 'Adding...' : 'Add Network'}
+              {isSubmitting ? 'Verifying...' : pending ? 'Add Anyway' : 'Add Network'}
             </button>
           </div>
         </form>
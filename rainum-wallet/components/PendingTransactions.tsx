@@ -0,0 +1,218 @@
+/**
+ * Pending Transactions Component
+ * Lifecycle of the wallet's recent broadcasts (pending, confirmed, failed, dropped)
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { AlertTriangle, Ban, Check, Clock, RefreshCw, X, XCircle, Zap } from 'lucide-react';
+import {
+  FINAL_CONFIRMATIONS,
+  isWatched,
+  type ReplacementKind,
+  type TrackedTransaction,
+  type TrackedTransactionState,
+} from '@/lib/pending-transactions';
+import type { AccountNonceStatus } from '@/lib/nonce-manager';
+import { canCancel, canSpeedUp } from '@/lib/transaction-replacement';
+import { getRelativeTime } from '@/lib/audit-log';
+
+interface PendingTransactionsProps {
+  tracked: TrackedTransaction[];
+  nonceStatus: AccountNonceStatus | null;
+  wsConnected: boolean;
+  cancellingNonce: number | null;
+  onCancelNonce: (nonce: number) => void; // Zero-value self-transfer with that nonce
+  onReplace: (tx: TrackedTransaction, kind: ReplacementKind) => void; // Opens the fee preview
+  onRefresh: () => void;
+  onDismiss: (id: string) => void;
+  onClearSettled: () => void;
+}
+
+const STATE_BADGES: Record<TrackedTransactionState, { text: string; className: string; icon: typeof Check }> = {
+  pending: { text: 'Pending', className: 'bg-yellow-100 text-yellow-700 border-yellow-200', icon: Clock },
+  confirmed: { text: 'Confirmed', className: 'bg-green-100 text-green-700 border-green-200', icon: Check },
+  failed: { text: 'Failed', className: 'bg-red-100 text-red-700 border-red-200', icon: XCircle },
+  dropped: { text: 'Dropped', className: 'bg-gray-100 text-gray-700 border-gray-200', icon: AlertTriangle },
+};
+
+function describeTransaction(tx: TrackedTransaction): string {
+  if (tx.replacement === 'cancel') {
+    return 'Cancellation - 0 RAIN to yourself';
+  }
+  switch (tx.kind) {
+    case 'transfer':
+      return `${tx.amount} RAIN to ${tx.to.slice(0, 8)}...${tx.to.slice(-6)}`;
+    case 'evm_deploy':
+      return 'EVM contract deployment';
+    case 'move_publish':
+      return 'Move module publication';
+    default:
+      return tx.kind;
+  }
+}
+
+export default function PendingTransactions({
+  tracked,
+  nonceStatus,
+  wsConnected,
+  cancellingNonce,
+  onCancelNonce,
+  onReplace,
+  onRefresh,
+  onDismiss,
+  onClearSettled,
+}: PendingTransactionsProps) {
+  const gaps = nonceStatus?.gaps ?? [];
+  const stuck = nonceStatus?.stuck ?? null;
+  if (tracked.length === 0 && gaps.length === 0 && stuck === null) return null;
+
+  const watching = tracked.filter(isWatched).length;
+  const queued = nonceStatus?.inFlight.filter((entry) => entry.status === 'broadcast').length ?? 0;
+  // A stuck nonce we broadcast ourselves is cancelled with a fee preview
+  const stuckTransaction = stuck === null ? undefined : tracked.find((tx) => tx.nonce === stuck && canCancel(tx));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-[4px] shadow-lg">
+      <div className="bg-gradient-to-r from-gray-50 to-white px-5 py-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-black">Recent Broadcasts</h3>
+          <p className="text-[11px] text-gray-500 mt-0.5">
+            {watching > 0
+              ? `Watching ${watching} transaction${watching === 1 ? '' : 's'} ${wsConnected ? 'live' : '(polling - live updates offline)'}`
+              : 'All transactions settled'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {watching < tracked.length && (
+            <button
+              onClick={onClearSettled}
+              className="px-2.5 py-1.5 text-[11px] font-semibold text-gray-600 hover:text-black transition-colors"
+            >
+              Clear finished
+            </button>
+          )}
+          <button
+            onClick={onRefresh}
+            disabled={watching === 0 && queued === 0}
+            className="p-1.5 text-gray-600 hover:text-[#0019ff] rounded-[4px] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Check now"
+          >
+            <RefreshCw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Nonces holding up the queue */}
+      {(gaps.length > 0 || stuck !== null) && (
+        <div className="px-5 py-3 bg-yellow-50 border-b border-yellow-200 space-y-2">
+          {gaps.map((nonce) => (
+            <div key={`gap-${nonce}`} className="flex items-center gap-3">
+              <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+              <p className="flex-1 text-xs text-yellow-900">
+                Nonce {nonce} was never broadcast - {queued} queued transaction{queued === 1 ? '' : 's'} can&apos;t be included until it is filled.
+              </p>
+              <button
+                onClick={() => onCancelNonce(nonce)}
+                disabled={cancellingNonce !== null}
+                className="px-3 py-1.5 bg-[#0019ff] text-white rounded-[4px] text-[11px] font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {cancellingNonce === nonce ? 'Filling...' : `Fill nonce ${nonce}`}
+              </button>
+            </div>
+          ))}
+          {stuck !== null && (
+            <div className="flex items-center gap-3">
+              <Clock className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+              <p className="flex-1 text-xs text-yellow-900">
+                Nonce {stuck} has been waiting for inclusion for a while. Cancel it with an empty transfer to yourself at a higher fee.
+              </p>
+              <button
+                onClick={() => (stuckTransaction ? onReplace(stuckTransaction, 'cancel') : onCancelNonce(stuck))}
+                disabled={cancellingNonce !== null}
+                className="px-3 py-1.5 bg-white border border-gray-300 text-black rounded-[4px] text-[11px] font-semibold hover:border-[#0019ff] hover:text-[#0019ff] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {cancellingNonce === stuck ? 'Cancelling...' : `Cancel nonce ${stuck}`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {tracked.map((tx) => {
+          const badge = STATE_BADGES[tx.state];
+          const Icon = badge.icon;
+          const final = !isWatched(tx);
+
+          return (
+            <div key={tx.id} className="px-5 py-3 flex items-center gap-3">
+              <span
+                className={`inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-bold rounded-[4px] border ${badge.className}`}
+              >
+                <Icon className={`w-3 h-3 ${tx.state === 'pending' ? 'animate-pulse' : ''}`} />
+                {badge.text}
+              </span>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-semibold text-black truncate flex items-center gap-1.5">
+                  {describeTransaction(tx)}
+                  {tx.replacement === 'speed_up' && (
+                    <span className="text-[9px] px-1.5 py-0.5 bg-blue-100 text-[#0019ff] rounded font-bold">SPEED-UP</span>
+                  )}
+                </p>
+                <p className="text-[10px] text-gray-500 font-mono truncate">
+                  {tx.hash ? `${tx.hash.slice(0, 14)}...${tx.hash.slice(-8)}` : 'Hash not reported'} · nonce {tx.nonce}
+                  {tx.error && <span className="font-sans text-red-600"> · {tx.error}</span>}
+                </p>
+              </div>
+
+              <div className="text-right flex-shrink-0">
+                {tx.state === 'confirmed' && (
+                  <p className="text-[11px] font-bold text-green-700">
+                    {Math.min(tx.confirmations, FINAL_CONFIRMATIONS)}/{FINAL_CONFIRMATIONS} confirmations
+                  </p>
+                )}
+                <p className="text-[10px] text-gray-500">{getRelativeTime(tx.submittedAt)}</p>
+              </div>
+
+              {tx.state === 'pending' && (
+                <div className="flex items-center gap-1.5 flex-shrink-0">
+                  {canSpeedUp(tx) && (
+                    <button
+                      onClick={() => onReplace(tx, 'speed_up')}
+                      className="flex items-center gap-1 px-2 py-1 text-[11px] font-semibold text-[#0019ff] border border-[#0019ff] rounded-[4px] hover:bg-[#0019ff] hover:text-white transition-colors"
+                    >
+                      <Zap className="w-3 h-3" />
+                      Speed up
+                    </button>
+                  )}
+                  {canCancel(tx) && (
+                    <button
+                      onClick={() => onReplace(tx, 'cancel')}
+                      className="flex items-center gap-1 px-2 py-1 text-[11px] font-semibold text-gray-700 border border-gray-300 rounded-[4px] hover:border-black hover:text-black transition-colors"
+                    >
+                      <Ban className="w-3 h-3" />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {final && (
+                <button
+                  onClick={() => onDismiss(tx.id)}
+                  className="p-1 text-gray-400 hover:text-black rounded-[4px] transition-colors"
+                  title="Dismiss"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
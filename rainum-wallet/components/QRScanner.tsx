@@ -8,9 +8,19 @@ interface QRScannerProps {
   isOpen: boolean;
   onClose: () => void;
   onScan: (address: string) => void;
+  continuous?: boolean; // Keep scanning after each code (animated QR sequences), parent closes
+  title?: string;
+  hint?: string;
 }
 
-export function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
+export function QRScanner({
+  isOpen,
+  onClose,
+  onScan,
+  continuous = false,
+  title = "Scan QR Code",
+  hint = "Point your camera at a QR code containing a wallet address",
+}: QRScannerProps) {
   const scannerRef = useRef<Html5Qrcode | null>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -45,6 +55,12 @@ export function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
             qrbox: { width: 250, height: 250 },
           },
           (decodedText) => {
+            if (continuous) {
+              // Animated sequence - hand over every frame, parent decides when done
+              onScan(decodedText);
+              return;
+            }
+
             // Successfully scanned
             scanner
               .stop()
@@ -94,7 +110,7 @@ export function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-2">
             <Camera className="w-5 h-5 text-[#0019ff]" />
-            <h3 className="text-lg font-bold text-gray-900">Scan QR Code</h3>
+            <h3 className="text-lg font-bold text-gray-900">{title}</h3>
           </div>
           <button
             onClick={onClose}
@@ -118,7 +134,7 @@ export function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
               className="rounded overflow-hidden border-2 border-gray-200"
             />
             <p className="text-sm text-gray-500 mt-4 text-center">
-              Point your camera at a QR code containing a wallet address
+              {hint}
             </p>
           </>
         )}
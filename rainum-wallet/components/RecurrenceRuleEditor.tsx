@@ -0,0 +1,234 @@
+/**
+ * Recurrence Rule Editor Component
+ * Builds a RecurrenceRule (every N days / weeks / months, weekdays, day of month
+ * or last business day, end date or count, time zone) and previews the next
+ * 12 payments before it is saved.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import {
+  MAX_COUNT,
+  MAX_INTERVAL,
+  WEEKDAYS,
+  describeRule,
+  getOccurrences,
+  validateRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/recurrence-rule';
+
+interface RecurrenceRuleEditorProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+const PREVIEW_COUNT = 12;
+
+const inputClass =
+  'w-full px-2.5 py-1.5 border border-gray-300 rounded-[4px] focus:ring-2 focus:ring-[#0019ff] focus:border-[#0019ff] outline-none text-xs text-gray-900 bg-white';
+const labelClass = 'block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1';
+
+const UNITS: Record<RecurrenceFrequency, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' };
+
+// Full list where the browser has it, otherwise free text
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export default function RecurrenceRuleEditor({ rule, onChange }: RecurrenceRuleEditorProps) {
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule, ...changes });
+  const ending = rule.count !== undefined ? 'count' : rule.until !== undefined ? 'until' : 'never';
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const current = rule.byWeekday || [];
+    const next = current.includes(weekday) ? current.filter((d) => d !== weekday) : [...current, weekday];
+    update({ byWeekday: WEEKDAYS.filter((d) => next.includes(d)) });
+  };
+
+  const problem = validateRule(rule);
+  const preview = problem ? [] : getOccurrences(rule, Date.now(), PREVIEW_COUNT);
+  const formatOccurrence = (instant: number) =>
+    new Date(instant).toLocaleString('en-US', {
+      timeZone: rule.timeZone,
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Repeat</label>
+          <select
+            value={rule.freq}
+            onChange={(e) => update({ freq: e.target.value as RecurrenceFrequency })}
+            className={inputClass}
+          >
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Every</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={MAX_INTERVAL}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.floor(Number(e.target.value)) || 1 })}
+              className={inputClass}
+            />
+            <span className="text-xs text-gray-600 whitespace-nowrap">{UNITS[rule.freq]}</span>
+          </div>
+        </div>
+      </div>
+
+      {rule.freq === 'weekly' && (
+        <div>
+          <label className={labelClass}>On</label>
+          <div className="flex gap-1">
+            {WEEKDAYS.map((weekday) => (
+              <button
+                key={weekday}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={`flex-1 py-1.5 text-[11px] font-semibold rounded-[4px] border transition-colors ${
+                  rule.byWeekday?.includes(weekday)
+                    ? 'bg-[#0019ff] border-[#0019ff] text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-[#0019ff]'
+                }`}
+              >
+                {weekday.charAt(0) + weekday.charAt(1).toLowerCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {rule.freq === 'monthly' && (
+        <div>
+          <label className={labelClass}>On</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={rule.lastBusinessDay ? 'last-business-day' : 'day'}
+              onChange={(e) => update({ lastBusinessDay: e.target.value === 'last-business-day' })}
+              className={inputClass}
+            >
+              <option value="day">Day of the month</option>
+              <option value="last-business-day">Last business day</option>
+            </select>
+            {!rule.lastBusinessDay && (
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={rule.monthDay ?? Number(rule.start.slice(8, 10))}
+                onChange={(e) => update({ monthDay: Math.floor(Number(e.target.value)) || 1 })}
+                className={`${inputClass} w-20`}
+              />
+            )}
+          </div>
+          {!rule.lastBusinessDay && (rule.monthDay ?? 0) > 28 && (
+            <p className="text-[10px] text-gray-500 mt-1">Shorter months use their last day.</p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Starting</label>
+          <input type="date" value={rule.start} onChange={(e) => update({ start: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>At</label>
+          <input type="time" value={rule.time} onChange={(e) => update({ time: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Time Zone</label>
+        <input
+          value={rule.timeZone}
+          onChange={(e) => update({ timeZone: e.target.value })}
+          list="recurrence-time-zones"
+          className={inputClass}
+        />
+        <datalist id="recurrence-time-zones">
+          {TIME_ZONES.map((zone) => (
+            <option key={zone} value={zone} />
+          ))}
+        </datalist>
+      </div>
+
+      <div>
+        <label className={labelClass}>Ends</label>
+        <div className="flex items-center gap-2">
+          <select
+            value={ending}
+            onChange={(e) => {
+              const value = e.target.value;
+              update({
+                until: value === 'until' ? rule.until ?? rule.start : undefined,
+                count: value === 'count' ? rule.count ?? 12 : undefined,
+              });
+            }}
+            className={inputClass}
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After a number of payments</option>
+          </select>
+          {ending === 'until' && (
+            <input type="date" value={rule.until} onChange={(e) => update({ until: e.target.value })} className={inputClass} />
+          )}
+          {ending === 'count' && (
+            <input
+              type="number"
+              min={1}
+              max={MAX_COUNT}
+              value={rule.count}
+              onChange={(e) => update({ count: Math.floor(Number(e.target.value)) || 1 })}
+              className={`${inputClass} w-24`}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+        {problem ? (
+          <p className="flex items-center gap-2 text-xs text-red-600">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+            {problem}
+          </p>
+        ) : (
+          <>
+            <p className="text-xs font-semibold text-black mb-2">{describeRule(rule)}</p>
+            {preview.length === 0 ? (
+              <p className="text-[11px] text-gray-500">No upcoming payments - the schedule has already ended.</p>
+            ) : (
+              <ol className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-[11px] text-gray-700">
+                {preview.map((instant, i) => (
+                  <li key={instant}>
+                    <span className="text-gray-400">{i + 1}.</span> {formatOccurrence(instant)}
+                  </li>
+                ))}
+              </ol>
+            )}
+            {preview.length === PREVIEW_COUNT && (
+              <p className="text-[10px] text-gray-400 mt-1.5">Next {PREVIEW_COUNT} payments shown</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
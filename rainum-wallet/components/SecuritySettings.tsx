@@ -8,10 +8,12 @@
 
 import { useState, useEffect } from 'react';
 import { Clock, ShieldAlert, AlertTriangle, Shield, Edit2, X, Check, Key, FileDown, Upload, CheckCircle } from 'lucide-react';
-import { getWalletSettings, saveWalletSettings, type WalletSettings } from '@/lib/wallet-settings';
+import { getWalletSettings, saveWalletSettings, updateAdvancedSetting, type WalletSettings } from '@/lib/wallet-settings';
+import type { VaultKdfName } from '@/lib/vault';
 import { toast } from '@/lib/toast-store';
 import { getAuditLogStats } from '@/lib/audit-log';
 import { changePassword, exportWalletBackup, importWalletBackup, verifyWalletBackup } from '@/lib/auth-manager';
+import { useWalletStore, isHDAccount } from '@/lib/wallet-store';
 
 export default function SecuritySettings() {
   const [settings, setSettings] = useState<WalletSettings | null>(null);
@@ -48,6 +50,7 @@ export default function SecuritySettings() {
   const [verifyingBackup, setVerifyingBackup] = useState(false);
   const [verifyFile, setVerifyFile] = useState<File | null>(null);
   const [verifyPassword, setVerifyPassword] = useState('');
+  const [verifyPassphrase, setVerifyPassphrase] = useState('');
   const [verifyError, setVerifyError] = useState('');
   const [verifySuccess, setVerifySuccess] = useState<any>(null);
 
@@ -173,8 +176,10 @@ export default function SecuritySettings() {
     setIsChangingPassword(true);
 
     try {
-      const success = changePassword(oldPassword, newPassword);
+      const success = await changePassword(oldPassword, newPassword);
       if (success) {
+        // Keep the in-app vault (mnemonic + imported keys) decryptable with the new password
+        await useWalletStore.getState().reencryptVault(oldPassword, newPassword);
         toast.success('Password Changed', 'Your wallet password has been updated successfully');
         setEditingPassword(false);
         setOldPassword('');
@@ -188,6 +193,13 @@ export default function SecuritySettings() {
     }
   };
 
+  // Vault KDF - used for every vault encrypted from now on (the stored vault is upgraded on next unlock)
+  const handleVaultKdfChange = (kdf: VaultKdfName) => {
+    updateAdvancedSetting('vaultKdf', kdf);
+    loadSettings();
+    toast.success('Key Derivation Updated', `Your wallet will be re-encrypted with ${kdf === 'argon2id' ? 'Argon2id' : 'scrypt'} on the next unlock`);
+  };
+
   const handleCancelPasswordChange = () => {
     setEditingPassword(false);
     setOldPassword('');
@@ -240,7 +252,7 @@ export default function SecuritySettings() {
       reader.onload = async (event) => {
         try {
           const backupJson = event.target?.result as string;
-          const success = importWalletBackup(backupJson, importPassword);
+          const success = await importWalletBackup(backupJson, importPassword);
 
           if (success) {
             toast.success('Backup Imported', 'Your wallet has been restored successfully. Reloading...');
@@ -293,13 +305,19 @@ export default function SecuritySettings() {
       reader.onload = async (event) => {
         try {
           const backupJson = event.target?.result as string;
-          const result = verifyWalletBackup(backupJson, verifyPassword);
+          const result = await verifyWalletBackup(backupJson, verifyPassword, verifyPassphrase);
 
           if (result.valid) {
+            // Does the backup (with this passphrase) open the wallet that is currently loaded?
+            const firstAccount = useWalletStore.getState().accounts.find(isHDAccount);
             setVerifySuccess({
               address: result.address,
               createdAt: result.createdAt,
               version: result.version,
+              passphraseUsed: result.passphraseUsed,
+              matchesCurrentWallet: result.passphraseUsed && firstAccount
+                ? firstAccount.address === result.address
+                : undefined,
             });
             toast.success('Backup Verified', 'This backup is valid and can be imported successfully');
           } else {
@@ -326,6 +344,7 @@ export default function SecuritySettings() {
     setVerifyingBackup(false);
     setVerifyFile(null);
     setVerifyPassword('');
+    setVerifyPassphrase('');
     setVerifyError('');
     setVerifySuccess(null);
   };
@@ -651,8 +670,17 @@ export default function SecuritySettings() {
                       ENCRYPTED
                     </div>
                     <span className="text-xs text-gray-500">
-                      Your wallet is password-protected
+                      Your wallet is password-protected (AES-256-GCM)
                     </span>
+                    <select
+                      value={settings.advanced.vaultKdf}
+                      onChange={(e) => handleVaultKdfChange(e.target.value as VaultKdfName)}
+                      className="ml-auto px-2 py-1 border-2 border-gray-300 rounded-[4px] text-xs text-black focus:border-[#0019ff] outline-none"
+                      title="Key derivation function for the password"
+                    >
+                      <option value="scrypt">scrypt</option>
+                      <option value="argon2id">Argon2id</option>
+                    </select>
                   </div>
                 ) : (
                   <div className="space-y-3 bg-gray-50 p-4 rounded-[4px] border border-gray-300 mt-2">
@@ -866,6 +894,16 @@ export default function SecuritySettings() {
                   <p>Address: {verifySuccess.address?.slice(0, 10)}...{verifySuccess.address?.slice(-8)}</p>
                   <p>Created: {verifySuccess.createdAt ? new Date(verifySuccess.createdAt).toLocaleDateString() : 'N/A'}</p>
                   <p>Version: {verifySuccess.version || 1}</p>
+                  {verifySuccess.passphraseUsed && (
+                    <p>
+                      Passphrase wallet:{' '}
+                      {verifySuccess.matchesCurrentWallet === undefined
+                        ? 'first account shown above'
+                        : verifySuccess.matchesCurrentWallet
+                        ? 'matches this wallet'
+                        : 'does NOT match this wallet - check the passphrase'}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -908,6 +946,21 @@ export default function SecuritySettings() {
                 />
               </div>
 
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">
+                  Passphrase (optional)
+                </label>
+                <input
+                  type="password"
+                  value={verifyPassphrase}
+                  onChange={(e) => setVerifyPassphrase(e.target.value)}
+                  placeholder="BIP39 passphrase, if this wallet uses one"
+                  autoComplete="off"
+                  disabled={verifyingBackup}
+                  className="w-full px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm focus:border-[#0019ff] outline-none disabled:bg-gray-50 text-black placeholder:text-gray-500"
+                />
+              </div>
+
               {/* Info */}
               <div className="bg-gray-200 border border-gray-400 rounded-[4px] p-3">
                 <div className="flex gap-2">
@@ -0,0 +1,159 @@
+/**
+ * Signing Settings Component
+ * Shows which chain transactions are signed for, checks that the connected node
+ * is on that chain, and holds the opt-in for the legacy (chain-independent) format.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PenTool, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { isLegacySigningEnabled, updateAdvancedSetting } from '@/lib/wallet-settings';
+import { useNetworkStore } from '@/lib/network-store';
+import { logAuditEvent } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+
+type NodeCheck =
+  | { status: 'idle' }
+  | { status: 'checking' }
+  | { status: 'match' | 'unreported' }
+  | { status: 'mismatch'; nodeChainId: string }
+  | { status: 'error'; message: string };
+
+export default function SigningSettings() {
+  const { currentNetwork } = useNetworkStore();
+  const [legacySigning, setLegacySigning] = useState(false);
+  const [nodeCheck, setNodeCheck] = useState<NodeCheck>({ status: 'idle' });
+
+  useEffect(() => {
+    setLegacySigning(isLegacySigningEnabled());
+  }, []);
+
+  // A previous check says nothing about another network
+  useEffect(() => {
+    setNodeCheck({ status: 'idle' });
+  }, [currentNetwork.id]);
+
+  const handleCheckNode = async () => {
+    setNodeCheck({ status: 'checking' });
+    try {
+      const { getNodeChainId } = await import('@/lib/rainum-api');
+      const nodeChainId = await getNodeChainId();
+
+      if (nodeChainId === null) {
+        setNodeCheck({ status: 'unreported' });
+      } else if (nodeChainId === currentNetwork.chainId) {
+        setNodeCheck({ status: 'match' });
+      } else {
+        setNodeCheck({ status: 'mismatch', nodeChainId });
+      }
+    } catch (err) {
+      setNodeCheck({ status: 'error', message: err instanceof Error ? err.message : 'Node unreachable' });
+    }
+  };
+
+  const handleToggleLegacy = () => {
+    const enable = !legacySigning;
+
+    if (enable && !confirm(
+      'Legacy signatures do not include the chain ID.\n\n' +
+      'A transaction you sign on one network can be replayed on every other Rainum network ' +
+      'where your address exists (e.g. a Devnet transfer re-sent on Mainnet).\n\n' +
+      'Only enable this for nodes that do not support chain-bound signatures yet. Continue?'
+    )) {
+      return;
+    }
+
+    updateAdvancedSetting('legacyTransactionSigning', enable);
+    setLegacySigning(enable);
+
+    logAuditEvent(
+      'signing_format_changed',
+      'security',
+      enable ? 'Legacy transaction signing enabled' : 'Chain-bound transaction signing restored',
+      { legacy: enable, network: currentNetwork.id }
+    );
+
+    if (enable) {
+      toast.warning('Legacy Signing Enabled', 'New transactions can be replayed on other networks');
+    } else {
+      toast.success('Chain-Bound Signing', `Transactions are signed for chain ${currentNetwork.chainId ?? '-'} only`);
+    }
+  };
+
+  return (
+    <div className="bg-white border-2 border-gray-300 rounded-[4px] p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <PenTool className="w-6 h-6 text-[#0019ff]" />
+        <div>
+          <h3 className="text-lg font-bold text-black">Transaction Signing</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Signatures commit to the network&apos;s chain ID and VM type so they can&apos;t be replayed elsewhere
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-[4px] p-4 mb-4">
+        <div>
+          <p className="text-sm font-semibold text-black">
+            {currentNetwork.name} · chain {currentNetwork.chainId ?? 'not set'}
+          </p>
+          <p className="text-xs text-gray-600 mt-1">
+            {nodeCheck.status === 'idle' && 'Signing is refused if the node reports a different chain ID'}
+            {nodeCheck.status === 'checking' && 'Asking the node for its chain ID...'}
+            {nodeCheck.status === 'match' && 'The node is on the selected chain'}
+            {nodeCheck.status === 'unreported' && 'The node does not report a chain ID - it cannot be verified'}
+            {nodeCheck.status === 'mismatch' && `The node reports chain ${nodeCheck.nodeChainId} - signing is blocked`}
+            {nodeCheck.status === 'error' && nodeCheck.message}
+          </p>
+        </div>
+        <button
+          onClick={handleCheckNode}
+          disabled={nodeCheck.status === 'checking'}
+          className="flex items-center gap-2 px-4 py-2 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          {nodeCheck.status === 'checking' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : nodeCheck.status === 'match' ? (
+            <CheckCircle className="w-4 h-4 text-green-600" />
+          ) : nodeCheck.status === 'mismatch' || nodeCheck.status === 'error' ? (
+            <AlertTriangle className="w-4 h-4 text-red-600" />
+          ) : null}
+          Check Node
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-[4px] p-4">
+        <div>
+          <p className="text-sm font-semibold text-black">Legacy signing format</p>
+          <p className="text-xs text-gray-600 mt-1">
+            Chain-independent signatures for older nodes (replayable across networks)
+          </p>
+        </div>
+        <button
+          onClick={handleToggleLegacy}
+          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+            legacySigning ? 'bg-red-600' : 'bg-gray-300'
+          }`}
+          aria-pressed={legacySigning}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+              legacySigning ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+
+      {legacySigning && (
+        <div className="mt-4 bg-red-50 border-2 border-red-300 rounded-[4px] p-3 flex gap-2">
+          <AlertTriangle className="w-4 h-4 text-red-700 flex-shrink-0 mt-0.5" />
+          <p className="text-xs text-red-900">
+            Legacy signing is on. Transactions you sign now are valid on every Rainum network.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
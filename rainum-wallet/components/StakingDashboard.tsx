@@ -26,9 +26,10 @@ import {
   Edit,
   ArrowUp,
   ArrowDown,
-  CheckCircle
+  CheckCircle,
+  Key
 } from 'lucide-react';
-import { useWalletStore } from '@/lib/wallet-store';
+import { useWalletStore, isImportedAccount } from '@/lib/wallet-store';
 import {
   getValidators,
   getValidatorInfo,
@@ -48,6 +49,7 @@ import {
   type UnbondingStatus
 } from '@/lib/rainum-api';
 import { toast } from '@/lib/toast-store';
+import PasswordModal from './modals/PasswordModal';
 import { formatBalance } from '@/lib/format-balance';
 import { Dialog, DialogBackdrop, DialogPanel } from '@headlessui/react';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -96,7 +98,9 @@ const AVATAR_STYLES = [
 ];
 
 export default function StakingDashboard() {
-  const { address, mnemonic, getPrivateKey, activeAccountIndex, accounts } = useWalletStore();
+  const { address, unlockMnemonic, activeAccountIndex, accounts, passphraseProtected } = useWalletStore();
+  // Validator keys come from the recovery phrase - an imported key has none of its own
+  const canRunValidator = !isImportedAccount(accounts.find((a) => a.index === activeAccountIndex));
 
   // State
   const [validators, setValidators] = useState<ValidatorInfo[]>([]);
@@ -117,6 +121,11 @@ export default function StakingDashboard() {
   const [showUnstakeModal, setShowUnstakeModal] = useState(false);
   const [showWithdrawRewardsModal, setShowWithdrawRewardsModal] = useState(false);
 
+  // Unlock State (signed staking calls need the mnemonic in memory)
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+  const [pendingSignedAction, setPendingSignedAction] = useState<((mnemonic: string) => Promise<void>) | null>(null);
+  const [showKeystorePasswordModal, setShowKeystorePasswordModal] = useState(false);
+
   // Unbonding State
   const [unbondingStatus, setUnbondingStatus] = useState<UnbondingStatus | null>(null);
 
@@ -168,6 +177,10 @@ export default function StakingDashboard() {
 
   // Open register modal with proper initialization
   const openRegisterModal = () => {
+    if (!canRunValidator) {
+      toast.error('Not Available', 'Imported accounts cannot run a validator - switch to an account of your recovery phrase');
+      return;
+    }
     const tierInfo = TIER_INFO[registerTier as keyof typeof TIER_INFO];
     if (tierInfo) {
       setRegisterStake(formatNumber(tierInfo.stake.toString()));
@@ -280,12 +293,62 @@ export default function StakingDashboard() {
     3: { name: 'Gold', stake: 100000, multiplier: '2x', color: 'from-yellow-400 to-yellow-600' },
   };
 
+  // 🔒 Run a signed staking action, prompting for the password first if the wallet is locked
+  const withUnlockedMnemonic = async (action: (mnemonic: string) => Promise<void>) => {
+    if (!useWalletStore.getState().canSign()) {
+      toast.error('Watch-Only Account', 'This account has no keys and cannot sign staking operations');
+      return;
+    }
+
+    const currentMnemonic = useWalletStore.getState().mnemonic;
+    if (currentMnemonic) {
+      await action(currentMnemonic);
+      return;
+    }
+
+    setPendingSignedAction(() => action);
+    setShowUnlockModal(true);
+  };
+
+  const handleUnlockSubmit = async (password: string, passphrase?: string) => {
+    try {
+      if (!(await unlockMnemonic(password, passphrase))) {
+        toast.error('Unlock Failed', passphraseProtected ? 'Incorrect password or passphrase' : 'Incorrect password');
+        return;
+      }
+    } catch (err) {
+      toast.error('Unlock Failed', err instanceof Error ? err.message : 'Failed to unlock wallet');
+      return;
+    }
+
+    setShowUnlockModal(false);
+    toast.success('Wallet Unlocked', 'Signing staking operation...');
+
+    const action = pendingSignedAction;
+    setPendingSignedAction(null);
+
+    const unlockedMnemonic = useWalletStore.getState().mnemonic;
+    if (action && unlockedMnemonic) {
+      await action(unlockedMnemonic);
+    }
+  };
+
+  const handleUnlockClose = () => {
+    setShowUnlockModal(false);
+    setPendingSignedAction(null);
+  };
+
   const handleRegisterValidator = async () => {
-    if (!address || !mnemonic) {
+    if (!address) {
       toast.error('Wallet Required', 'Please connect your wallet');
       return;
     }
 
+    if (!canRunValidator) {
+      toast.error('Not Available', 'Imported accounts cannot run a validator - switch to an account of your recovery phrase');
+      return;
+    }
+
     console.log('Register validator - raw input:', registerStake);
     const stake = parseFormattedNumber(registerStake);
     console.log('Register validator - parsed stake:', stake);
@@ -308,24 +371,81 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await registerValidator(address, stake, registerTier);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await registerValidator(
+          address,
+          stake,
+          registerTier,
+          unlockedMnemonic,
+          activeAccountIndex,
+          useWalletStore.getState().passphrase || ''
+        );
+
+        toast.success('Validator Registered', `You are now a ${tierInfo.name} validator`);
+        setShowRegisterModal(false);
+        setRegisterStake('');
+        setRegisterTier(1);
+        await loadData();
+      } catch (error: any) {
+        toast.error('Registration Failed', error.message || 'Failed to register as validator');
+      } finally {
+        setIsProcessing(false);
+      }
+    });
+  };
 
-      toast.success('Validator Registered', `You are now a ${tierInfo.name} validator`);
-      setShowRegisterModal(false);
-      setRegisterStake('');
-      setRegisterTier(1);
-      await loadData();
-    } catch (error: any) {
-      toast.error('Registration Failed', error.message || 'Failed to register as validator');
-    } finally {
-      setIsProcessing(false);
+  // Export validator keys (Ed25519, BLS, VRF) as an encrypted keystore for the node operator
+  const handleKeystorePasswordSet = async (keystorePassword: string) => {
+    setShowKeystorePasswordModal(false);
+
+    if (!address) {
+      toast.error('Wallet Required', 'Please connect your wallet');
+      return;
+    }
+
+    if (!canRunValidator) {
+      toast.error('Not Available', 'Imported accounts have no validator keys to export');
+      return;
     }
+
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        const { deriveValidatorKeys, exportValidatorKeystore, wipeValidatorKeys } = await import('@/lib/validator-keys');
+        const validatorKeys = deriveValidatorKeys(
+          unlockedMnemonic,
+          activeAccountIndex,
+          useWalletStore.getState().passphrase || ''
+        );
+
+        let keystoreJson: string;
+        try {
+          keystoreJson = await exportValidatorKeystore(validatorKeys, address, keystorePassword);
+        } finally {
+          wipeValidatorKeys(validatorKeys);
+        }
+
+        // Create blob and download
+        const blob = new Blob([keystoreJson], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `rainum-validator-keystore-${address.slice(0, 10)}-${Date.now()}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+
+        toast.success('Keystore Exported', 'Import this file on your validator node');
+      } catch (error: any) {
+        toast.error('Export Failed', error.message || 'Failed to export validator keystore');
+      }
+    });
   };
 
   const handleDelegate = async () => {
-    if (!address || !mnemonic || !selectedValidator) {
+    if (!address || !selectedValidator) {
       toast.error('Error', 'Missing required information');
       return;
     }
@@ -336,26 +456,22 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      const privateKey = getPrivateKey(activeAccountIndex);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await delegateToValidator(address, selectedValidator.address, amount, unlockedMnemonic, activeAccountIndex);
 
-      if (!privateKey) {
-        throw new Error('Could not retrieve private key');
+        toast.success('Delegation Success', `Delegated ${amount} RAIN to validator`);
+        setShowDelegateModal(false);
+        setDelegateAmount('');
+        setSelectedValidator(null);
+        await loadData();
+      } catch (error: any) {
+        toast.error('Delegation Failed', error.message || 'Failed to delegate');
+      } finally {
+        setIsProcessing(false);
       }
-
-      await delegateToValidator(address, selectedValidator.address, amount, privateKey);
-
-      toast.success('Delegation Success', `Delegated ${amount} RAIN to validator`);
-      setShowDelegateModal(false);
-      setDelegateAmount('');
-      setSelectedValidator(null);
-      await loadData();
-    } catch (error: any) {
-      toast.error('Delegation Failed', error.message || 'Failed to delegate');
-    } finally {
-      setIsProcessing(false);
-    }
+    });
   };
 
   const handleEditProfile = async () => {
@@ -395,7 +511,7 @@ export default function StakingDashboard() {
   };
 
   const handleUndelegate = async (validatorAddress: string, amount: number) => {
-    if (!address || !mnemonic) {
+    if (!address) {
       toast.error('Wallet Required', 'Please connect your wallet');
       return;
     }
@@ -404,24 +520,20 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      const privateKey = getPrivateKey(activeAccountIndex);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        await undelegateFromValidator(address, validatorAddress, amount, unlockedMnemonic, activeAccountIndex);
 
-      if (!privateKey) {
-        throw new Error('Could not retrieve private key');
+        toast.success('Undelegation Success', `Undelegated ${amount} RAIN`);
+        await loadData();
+      } catch (error: any) {
+        toast.error('Undelegation Failed', error.message || 'Failed to undelegate');
       }
-
-      await undelegateFromValidator(address, validatorAddress, amount, privateKey);
-
-      toast.success('Undelegation Success', `Undelegated ${amount} RAIN`);
-      await loadData();
-    } catch (error: any) {
-      toast.error('Undelegation Failed', error.message || 'Failed to undelegate');
-    }
+    });
   };
 
   const handleUnjail = async () => {
-    if (!address || !mnemonic) {
+    if (!address) {
       toast.error('Wallet Required', 'Please connect your wallet');
       return;
     }
@@ -430,23 +542,19 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      const privateKey = getPrivateKey(activeAccountIndex);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await unjailValidator(address, unlockedMnemonic, activeAccountIndex);
 
-      if (!privateKey) {
-        throw new Error('Could not retrieve private key');
+        toast.success('Validator Unjailed', 'Your validator has been unjailed successfully');
+        await loadData();
+      } catch (error: any) {
+        toast.error('Unjail Failed', error.message || 'Failed to unjail validator');
+      } finally {
+        setIsProcessing(false);
       }
-
-      await unjailValidator(address, privateKey);
-
-      toast.success('Validator Unjailed', 'Your validator has been unjailed successfully');
-      await loadData();
-    } catch (error: any) {
-      toast.error('Unjail Failed', error.message || 'Failed to unjail validator');
-    } finally {
-      setIsProcessing(false);
-    }
+    });
   };
 
   const handleWithdrawRewards = async () => {
@@ -521,19 +629,21 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await addValidatorStake(address, amount);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await addValidatorStake(address, amount, unlockedMnemonic, activeAccountIndex);
 
-      toast.success('Stake Added', `Added ${formatBalance(amount).main}${formatBalance(amount).suffix} RAIN to your validator stake`);
-      setShowAddStakeModal(false);
-      setAddStakeAmount('');
-      await loadData();
-    } catch (error: any) {
-      toast.error('Add Stake Failed', error.message || 'Failed to add stake');
-    } finally {
-      setIsProcessing(false);
-    }
+        toast.success('Stake Added', `Added ${formatBalance(amount).main}${formatBalance(amount).suffix} RAIN to your validator stake`);
+        setShowAddStakeModal(false);
+        setAddStakeAmount('');
+        await loadData();
+      } catch (error: any) {
+        toast.error('Add Stake Failed', error.message || 'Failed to add stake');
+      } finally {
+        setIsProcessing(false);
+      }
+    });
   };
 
   const handleUpgradeTier = async () => {
@@ -553,18 +663,20 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await upgradeValidatorTier(address, upgradeToTier);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await upgradeValidatorTier(address, upgradeToTier, unlockedMnemonic, activeAccountIndex);
 
-      toast.success('Tier Upgraded', `Successfully upgraded to ${tierInfo.name} tier`);
-      setShowUpgradeTierModal(false);
-      await loadData();
-    } catch (error: any) {
-      toast.error('Upgrade Failed', error.message || 'Failed to upgrade tier');
-    } finally {
-      setIsProcessing(false);
-    }
+        toast.success('Tier Upgraded', `Successfully upgraded to ${tierInfo.name} tier`);
+        setShowUpgradeTierModal(false);
+        await loadData();
+      } catch (error: any) {
+        toast.error('Upgrade Failed', error.message || 'Failed to upgrade tier');
+      } finally {
+        setIsProcessing(false);
+      }
+    });
   };
 
   const handleUnstake = async () => {
@@ -593,19 +705,21 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await unstakeValidator(address, amount);
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await unstakeValidator(address, amount, unlockedMnemonic, activeAccountIndex);
 
-      toast.success('Unstaking Started', `Started unbonding ${formatBalance(amount).main}${formatBalance(amount).suffix} RAIN. Complete in 60 seconds (testing mode).`);
-      setShowUnstakeModal(false);
-      setUnstakeAmount('');
-      await loadData();
-    } catch (error: any) {
-      toast.error('Unstake Failed', error.message || 'Failed to unstake');
-    } finally {
-      setIsProcessing(false);
-    }
+        toast.success('Unstaking Started', `Started unbonding ${formatBalance(amount).main}${formatBalance(amount).suffix} RAIN. Complete in 60 seconds (testing mode).`);
+        setShowUnstakeModal(false);
+        setUnstakeAmount('');
+        await loadData();
+      } catch (error: any) {
+        toast.error('Unstake Failed', error.message || 'Failed to unstake');
+      } finally {
+        setIsProcessing(false);
+      }
+    });
   };
 
   const handleWithdraw = async () => {
@@ -619,18 +733,22 @@ export default function StakingDashboard() {
       return;
     }
 
-    try {
-      setIsProcessing(true);
-      await withdrawValidator(address);
+    const withdrawAmount = unbondingStatus.amount || 0;
 
-      toast.success('Withdrawal Complete', `Withdrew ${formatBalance(unbondingStatus.amount || 0).main}${formatBalance(unbondingStatus.amount || 0).suffix} RAIN`);
-      setUnbondingStatus(null);
-      await loadData();
-    } catch (error: any) {
-      toast.error('Withdrawal Failed', error.message || 'Failed to withdraw');
-    } finally {
-      setIsProcessing(false);
-    }
+    await withUnlockedMnemonic(async (unlockedMnemonic) => {
+      try {
+        setIsProcessing(true);
+        await withdrawValidator(address, unlockedMnemonic, activeAccountIndex);
+
+        toast.success('Withdrawal Complete', `Withdrew ${formatBalance(withdrawAmount).main}${formatBalance(withdrawAmount).suffix} RAIN`);
+        setUnbondingStatus(null);
+        await loadData();
+      } catch (error: any) {
+        toast.error('Withdrawal Failed', error.message || 'Failed to withdraw');
+      } finally {
+        setIsProcessing(false);
+      }
+    });
   };
 
   // Format countdown timer
@@ -781,6 +899,14 @@ export default function StakingDashboard() {
                 Withdraw Rewards
               </button>
             )}
+            <button
+              onClick={() => setShowKeystorePasswordModal(true)}
+              disabled={isProcessing}
+              className="px-4 py-2 border-2 border-gray-300 text-gray-700 font-semibold hover:border-gray-400 hover:bg-gray-50 transition-colors disabled:opacity-50 flex items-center gap-2"
+            >
+              <Key className="w-4 h-4" />
+              Export Keystore
+            </button>
           </div>
         </div>
       ) : (
@@ -1814,6 +1940,30 @@ export default function StakingDashboard() {
           </DialogPanel>
         </div>
       </Dialog>
+
+      {/* Keystore Password Modal - encrypts the exported validator keys */}
+      {showKeystorePasswordModal && (
+        <PasswordModal
+          title="Export Validator Keystore"
+          description="Choose a password to encrypt your validator keys. Your node will ask for it when importing the keystore."
+          onClose={() => setShowKeystorePasswordModal(false)}
+          onSubmit={handleKeystorePasswordSet}
+          isCreatingPassword={true}
+        />
+      )}
+
+      {/* Unlock Modal - signed staking operations need the mnemonic */}
+      {showUnlockModal && (
+        <PasswordModal
+          title="Unlock Wallet"
+          description="Enter your password to sign this staking operation. Your keys never leave this device."
+          onClose={handleUnlockClose}
+          onSubmit={handleUnlockSubmit}
+          isCreatingPassword={false}
+          allowPassphrase={passphraseProtected}
+          expectPassphrase={passphraseProtected}
+        />
+      )}
     </div>
   );
 }
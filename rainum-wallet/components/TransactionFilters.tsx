@@ -0,0 +1,216 @@
+/**
+ * Transaction Filters Component
+ * Advanced history filters (direction, date range, amount range, counterparty, VM, privacy)
+ * and category chips from TRANSACTION_CATEGORIES.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { X } from 'lucide-react';
+import { TRANSACTION_CATEGORIES, type TransactionCategory } from '@/lib/transaction-labels-store';
+import type { TransactionFilters as HistoryFilters } from '@/lib/transaction-query';
+
+interface TransactionFiltersProps {
+  filters: HistoryFilters;
+  onFiltersChange: (filters: HistoryFilters) => void;
+  categories: TransactionCategory[];
+  onCategoriesChange: (categories: TransactionCategory[]) => void;
+  showAdvanced: boolean;
+}
+
+const CATEGORY_CHIP_COLORS: Record<string, string> = {
+  blue: 'bg-blue-600 border-blue-600',
+  purple: 'bg-purple-600 border-purple-600',
+  green: 'bg-green-600 border-green-600',
+  yellow: 'bg-yellow-500 border-yellow-500',
+  indigo: 'bg-indigo-600 border-indigo-600',
+  gray: 'bg-gray-600 border-gray-600',
+};
+
+const inputClass =
+  'w-full px-2.5 py-1.5 border border-gray-300 rounded-[4px] focus:ring-2 focus:ring-[#0019ff] focus:border-[#0019ff] outline-none text-xs text-gray-900 bg-white';
+const labelClass = 'block text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1';
+
+// <input type="date"> values are local calendar days
+function toDateInput(timestamp?: number): string {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateInput(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000);
+}
+
+function fromAmountInput(value: string): number | undefined {
+  if (value.trim() === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+/**
+ * Number of active filters (status and sort excluded - they have their own controls)
+ */
+export function countActiveFilters(filters: HistoryFilters, categories: TransactionCategory[]): number {
+  const { direction, fromDate, toDate, minAmount, maxAmount, counterparty, vmType, zkp } = filters;
+  return (
+    [direction, fromDate, toDate, minAmount, maxAmount, counterparty || undefined, vmType, zkp].filter(
+      (value) => value !== undefined
+    ).length + categories.length
+  );
+}
+
+export default function TransactionFilters({
+  filters,
+  onFiltersChange,
+  categories,
+  onCategoriesChange,
+  showAdvanced,
+}: TransactionFiltersProps) {
+  const update = (changes: Partial<HistoryFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  const toggleCategory = (category: TransactionCategory) => {
+    onCategoriesChange(
+      categories.includes(category) ? categories.filter((c) => c !== category) : [...categories, category]
+    );
+  };
+
+  const activeCount = countActiveFilters(filters, categories);
+
+  return (
+    <div className="space-y-3">
+      {/* Category chips */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Category:</span>
+        {TRANSACTION_CATEGORIES.map((category) => {
+          const active = categories.includes(category.value);
+          return (
+            <button
+              key={category.value}
+              onClick={() => toggleCategory(category.value)}
+              className={`px-2.5 py-1 text-[11px] font-bold rounded-[4px] border transition-all duration-200 shadow-sm ${
+                active
+                  ? `${CATEGORY_CHIP_COLORS[category.color] || CATEGORY_CHIP_COLORS.gray} text-white`
+                  : 'bg-white border-gray-300 text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff]'
+              }`}
+            >
+              {category.label}
+            </button>
+          );
+        })}
+        {activeCount > 0 && (
+          <button
+            onClick={() => {
+              onFiltersChange({ status: filters.status });
+              onCategoriesChange([]);
+            }}
+            className="flex items-center gap-1 px-2 py-1 text-[11px] font-semibold text-gray-600 hover:text-black"
+          >
+            <X className="w-3 h-3" />
+            Clear filters ({activeCount})
+          </button>
+        )}
+      </div>
+
+      {showAdvanced && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+          <div>
+            <label className={labelClass}>Direction</label>
+            <select
+              value={filters.direction || ''}
+              onChange={(e) => update({ direction: (e.target.value || undefined) as HistoryFilters['direction'] })}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              <option value="outgoing">Sent</option>
+              <option value="incoming">Received</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Virtual Machine</label>
+            <select
+              value={filters.vmType || ''}
+              onChange={(e) => update({ vmType: (e.target.value || undefined) as HistoryFilters['vmType'] })}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              <option value="evm">EVM</option>
+              <option value="move">Move</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Privacy</label>
+            <select
+              value={filters.zkp === undefined ? '' : filters.zkp ? 'private' : 'public'}
+              onChange={(e) => update({ zkp: e.target.value === '' ? undefined : e.target.value === 'private' })}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              <option value="private">Private (ZKP)</option>
+              <option value="public">Public</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Counterparty</label>
+            <input
+              type="text"
+              placeholder="0x..."
+              value={filters.counterparty || ''}
+              onChange={(e) => update({ counterparty: e.target.value || undefined })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>From Date</label>
+            <input
+              type="date"
+              value={toDateInput(filters.fromDate)}
+              onChange={(e) => update({ fromDate: fromDateInput(e.target.value, false) })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>To Date</label>
+            <input
+              type="date"
+              value={toDateInput(filters.toDate)}
+              onChange={(e) => update({ toDate: fromDateInput(e.target.value, true) })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Min Amount (RAIN)</label>
+            <input
+              type="number"
+              min="0"
+              value={filters.minAmount ?? ''}
+              onChange={(e) => update({ minAmount: fromAmountInput(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Max Amount (RAIN)</label>
+            <input
+              type="number"
+              min="0"
+              value={filters.maxAmount ?? ''}
+              onChange={(e) => update({ maxAmount: fromAmountInput(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Transaction Label Editor
+ * Note and category for a single transaction (stored locally, searchable in the history)
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Tag } from 'lucide-react';
+import {
+  TRANSACTION_CATEGORIES,
+  useTransactionLabelsStore,
+  type TransactionCategory,
+} from '@/lib/transaction-labels-store';
+import { toast } from '@/lib/toast-store';
+
+interface TransactionLabelEditorProps {
+  txHash: string;
+}
+
+export default function TransactionLabelEditor({ txHash }: TransactionLabelEditorProps) {
+  const label = useTransactionLabelsStore((state) => state.labels[txHash]);
+  const { updateLabel, removeLabel } = useTransactionLabelsStore();
+  const [note, setNote] = useState(label?.note || '');
+  const [category, setCategory] = useState<TransactionCategory | undefined>(label?.category);
+
+  useEffect(() => {
+    setNote(label?.note || '');
+    setCategory(label?.category);
+  }, [txHash, label?.note, label?.category]);
+
+  const isDirty = note !== (label?.note || '') || category !== label?.category;
+
+  const handleSave = () => {
+    const trimmed = note.trim();
+    if (!trimmed && !category) {
+      removeLabel(txHash);
+    } else {
+      updateLabel(txHash, trimmed, category);
+    }
+    toast.success('Label Saved', 'Find it again with the history search');
+  };
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Tag className="w-4 h-4 text-[#0019ff]" />
+        <p className="text-sm font-bold text-black">Label</p>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {TRANSACTION_CATEGORIES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setCategory(category === option.value ? undefined : option.value)}
+            className={`px-2.5 py-1 text-[11px] font-bold rounded-[4px] border transition-all duration-200 ${
+              category === option.value
+                ? 'bg-[#0019ff] border-[#0019ff] text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff]'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Add a note (only stored in this wallet)"
+        rows={2}
+        maxLength={500}
+        className="w-full px-3 py-2 border border-gray-300 rounded-[4px] focus:ring-2 focus:ring-[#0019ff] focus:border-[#0019ff] outline-none text-xs text-gray-900 bg-white resize-none"
+      />
+
+      <div className="flex justify-end mt-2">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="px-3 py-1.5 bg-[#0019ff] text-white rounded-[4px] text-xs font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Label
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * Address Book Modal
+ * Saved recipients of the current wallet: search by name, address, tag or note,
+ * edit tags / notes / network / VM, and import or export the list as CSV,
+ * JSON or vCard. Picking an entry hands it to the Send form.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Dialog, DialogBackdrop, DialogPanel } from '@headlessui/react';
+import { Book, X, Check, Edit, Trash2, Star, Upload, Download, AlertTriangle } from 'lucide-react';
+import {
+  useAddressBookStore,
+  isSavedForOtherNetwork,
+  parseTags,
+  type AddressDetails,
+  type SavedAddress,
+} from '@/lib/address-book-store';
+import {
+  ADDRESS_BOOK_FORMATS,
+  formatAddressBook,
+  getAddressBookFileName,
+  parseAddressBook,
+  type AddressBookFormat,
+} from '@/lib/address-book-export';
+import { getAllNetworks, useNetworkStore } from '@/lib/network-store';
+import { sanitizeAddress } from '@/lib/input-sanitizer';
+import { getRelativeTime } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+import type { VMType } from '@/lib/rainum-api';
+
+interface AddressBookModalProps {
+  walletAddress: string;
+  onSelect: (entry: SavedAddress) => void;
+  onClose: () => void;
+}
+
+interface EditState extends AddressDetails {
+  id: string;
+  name: string;
+  address: string;
+  tagsText: string;
+}
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-[#0019ff] outline-none';
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function AddressBookModal({ walletAddress, onSelect, onClose }: AddressBookModalProps) {
+  // Subscribe to the list so edits re-render
+  useAddressBookStore((state) => state.addresses);
+  const { searchAddresses, getAddressesForWallet, updateAddress, deleteAddress, toggleFavorite, importAddresses } =
+    useAddressBookStore();
+  const currentNetwork = useNetworkStore((state) => state.currentNetwork);
+  const networks = getAllNetworks();
+
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [exportFormat, setExportFormat] = useState<AddressBookFormat>('csv');
+
+  const entries = searchAddresses(search, walletAddress).sort(
+    (a, b) => Number(!!b.isFavorite) - Number(!!a.isFavorite) || (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0) || a.name.localeCompare(b.name)
+  );
+  const networkName = (id?: string) => networks.find((n) => n.id === id)?.name || id;
+
+  const startEditing = (entry: SavedAddress) => {
+    setEditing({
+      id: entry.id,
+      name: entry.name,
+      address: entry.address,
+      tagsText: entry.tags?.join(', ') || '',
+      notes: entry.notes,
+      networkId: entry.networkId,
+      chainId: entry.chainId,
+      vmType: entry.vmType,
+    });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    const address = sanitizeAddress(editing.address);
+    if (!address || !editing.name.trim()) {
+      toast.error('Invalid Entry', 'Enter a name and a valid 0x address');
+      return;
+    }
+
+    const network = networks.find((n) => n.id === editing.networkId);
+    updateAddress(editing.id, editing.name.trim(), address, {
+      tags: parseTags(editing.tagsText),
+      notes: editing.notes,
+      networkId: network?.id,
+      chainId: network?.chainId ?? undefined,
+      vmType: editing.vmType,
+    });
+    setEditing(null);
+    toast.success('Address updated!', '');
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const { entries: imported, errors } = parseAddressBook(await file.text(), file.name);
+      const { added, skipped } = importAddresses(imported, walletAddress);
+      toast.success(
+        'Address Book Imported',
+        `${added} added${skipped > 0 ? `, ${skipped} already saved` : ''}${errors.length > 0 ? `, ${errors.length} rejected` : ''}`
+      );
+      if (errors.length > 0) {
+        toast.warning('Some Entries Were Rejected', errors.slice(0, 3).join(' · ') + (errors.length > 3 ? ' ...' : ''), 10000);
+      }
+    } catch (error) {
+      toast.error('Import Failed', error instanceof Error ? error.message : 'Unable to read the file');
+    }
+  };
+
+  const handleExport = () => {
+    const all = getAddressesForWallet(walletAddress);
+    if (all.length === 0) {
+      toast.info('Nothing to Export', 'The address book is empty');
+      return;
+    }
+    const format = ADDRESS_BOOK_FORMATS.find((f) => f.value === exportFormat) || ADDRESS_BOOK_FORMATS[0];
+    downloadFile(formatAddressBook(all, format.value), getAddressBookFileName(format.value), format.mimeType);
+  };
+
+  return (
+    <Dialog open onClose={onClose} className="relative z-50">
+      <DialogBackdrop className="fixed inset-0 bg-gray-900/80 transition-opacity" />
+      <div className="fixed inset-0 z-10 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <DialogPanel className="relative transform overflow-hidden rounded bg-white px-6 py-8 shadow-xl transition-all w-full max-w-2xl">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <Book className="w-6 h-6 text-[#0019ff]" />
+                <h3 className="text-2xl font-bold text-gray-900">Address Book</h3>
+              </div>
+              <button onClick={onClose} className="p-2 rounded hover:bg-gray-100 transition-colors">
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+
+            {/* Search + import / export */}
+            <div className="flex gap-2 mb-4">
+              <input
+                type="text"
+                placeholder="Search by name, address, tag or note..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-[#0019ff] outline-none text-gray-900"
+              />
+              <label className="flex items-center gap-1.5 px-3 py-2 border border-gray-300 rounded text-xs font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors cursor-pointer">
+                <Upload className="w-4 h-4" />
+                Import
+                <input
+                  type="file"
+                  accept=".csv,.json,.vcf,.vcard,text/csv,application/json,text/vcard"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleImport(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <div className="flex">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as AddressBookFormat)}
+                  className="px-2 py-2 border border-r-0 border-gray-300 rounded-l text-xs text-gray-900 bg-white outline-none"
+                >
+                  {ADDRESS_BOOK_FORMATS.map((format) => (
+                    <option key={format.value} value={format.value}>
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExport}
+                  className="flex items-center gap-1.5 px-3 py-2 border border-gray-300 rounded-r text-xs font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  Export
+                </button>
+              </div>
+            </div>
+
+            {/* Address List */}
+            <div className="max-h-96 overflow-y-auto space-y-2">
+              {entries.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">{search ? 'No matching addresses' : 'No saved addresses yet'}</p>
+              ) : (
+                entries.map((entry) =>
+                  editing?.id === entry.id ? (
+                    // Edit mode
+                    <div key={entry.id} className="p-4 border border-[#0019ff] rounded space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          className={`${inputClass} flex-1`}
+                          placeholder="Name"
+                        />
+                        <input
+                          value={editing.address}
+                          onChange={(e) => setEditing({ ...editing, address: e.target.value })}
+                          className={`${inputClass} flex-[2] font-mono`}
+                          placeholder="Address"
+                        />
+                      </div>
+                      <input
+                        value={editing.tagsText}
+                        onChange={(e) => setEditing({ ...editing, tagsText: e.target.value })}
+                        className={`${inputClass} w-full`}
+                        placeholder="Tags, comma separated (e.g. payroll, team)"
+                      />
+                      <textarea
+                        value={editing.notes || ''}
+                        onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                        className={`${inputClass} w-full`}
+                        rows={2}
+                        placeholder="Notes"
+                      />
+                      <div className="flex gap-2">
+                        <select
+                          value={editing.networkId || ''}
+                          onChange={(e) => setEditing({ ...editing, networkId: e.target.value || undefined })}
+                          className={`${inputClass} flex-1 bg-white`}
+                        >
+                          <option value="">Any network</option>
+                          {networks.map((network) => (
+                            <option key={network.id} value={network.id}>
+                              {network.name}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={editing.vmType || ''}
+                          onChange={(e) => setEditing({ ...editing, vmType: (e.target.value || undefined) as VMType | undefined })}
+                          className={`${inputClass} flex-1 bg-white`}
+                        >
+                          <option value="">Any VM</option>
+                          <option value="evm">EVM</option>
+                          <option value="move">Move</option>
+                        </select>
+                        <button onClick={saveEditing} className="px-3 py-2 bg-[#0019ff] text-white rounded hover:bg-blue-700 transition-colors">
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setEditing(null)} className="px-3 py-2 bg-gray-200 rounded hover:bg-gray-300 transition-colors">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    // View mode
+                    <div
+                      key={entry.id}
+                      className="flex items-start justify-between p-4 border border-gray-200 rounded hover:bg-gray-50 transition-colors"
+                    >
+                      <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onSelect(entry)}>
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <p className="font-semibold text-gray-900">{entry.name}</p>
+                          {entry.networkId && (
+                            <span
+                              className={`px-1.5 py-0.5 text-[10px] font-semibold rounded border ${
+                                isSavedForOtherNetwork(entry, currentNetwork)
+                                  ? 'bg-yellow-50 text-yellow-800 border-yellow-200'
+                                  : 'bg-blue-50 text-[#0019ff] border-blue-200'
+                              }`}
+                            >
+                              {isSavedForOtherNetwork(entry, currentNetwork) && <AlertTriangle className="inline w-3 h-3 mr-0.5 -mt-0.5" />}
+                              {networkName(entry.networkId)}
+                            </span>
+                          )}
+                          {entry.vmType && (
+                            <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded border bg-gray-50 text-gray-700 border-gray-200">
+                              {entry.vmType}
+                            </span>
+                          )}
+                          {entry.tags?.map((tag) => (
+                            <span key={tag} className="px-1.5 py-0.5 text-[10px] rounded bg-gray-100 text-gray-600">
+                              #{tag}
+                            </span>
+                          ))}
+                        </div>
+                        <p className="text-sm text-gray-500 font-mono truncate">{entry.address}</p>
+                        {entry.notes && <p className="text-xs text-gray-600 mt-1 whitespace-pre-line">{entry.notes}</p>}
+                        <p className="text-[11px] text-gray-400 mt-1">
+                          {entry.lastUsedAt ? `Last used ${getRelativeTime(entry.lastUsedAt)}` : 'Never used'}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => toggleFavorite(entry.id)}
+                          className="p-2 hover:bg-gray-200 rounded transition-colors"
+                          title={entry.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                        >
+                          <Star className={`w-4 h-4 ${entry.isFavorite ? 'text-yellow-500 fill-yellow-500' : 'text-gray-400'}`} />
+                        </button>
+                        <button onClick={() => startEditing(entry)} className="p-2 hover:bg-gray-200 rounded transition-colors" title="Edit">
+                          <Edit className="w-4 h-4 text-gray-600" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete ${entry.name}?`)) {
+                              deleteAddress(entry.id);
+                              toast.success('Address deleted!', '');
+                            }
+                          }}
+                          className="p-2 hover:bg-red-100 rounded transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </button>
+                      </div>
+                    </div>
+                  )
+                )
+              )}
+            </div>
+
+            <button
+              onClick={onClose}
+              className="mt-6 w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded font-medium text-gray-700 transition-colors"
+            >
+              Close
+            </button>
+          </DialogPanel>
+        </div>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,415 @@
+/**
+ * Batch Payout Modal
+ * Payroll mode: import a CSV of address, amount and memo, review the checked
+ * rows with the total and fees, then send them one by one with live progress.
+ * Stopped batches resume where they left off; every batch has a CSV receipt.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X, Users, Upload, Loader2, AlertTriangle, Download, Trash2, CheckCircle, XCircle } from 'lucide-react';
+import {
+  MAX_PAYOUT_ROWS,
+  createPayoutBatch,
+  estimatePayoutFees,
+  formatPayoutReceipt,
+  getPayoutReceiptFileName,
+  parsePayoutCsv,
+  resolveUnconfirmedRow,
+  stopPayoutBatch,
+  useBatchPayoutStore,
+  validatePayoutRows,
+  type PayoutBatch,
+  type PayoutFeeEstimate,
+  type PayoutPriority,
+  type PayoutRow,
+  type PayoutRowStatus,
+} from '@/lib/batch-payouts';
+import { usePendingTransactionsStore } from '@/lib/pending-transactions';
+import { toast } from '@/lib/toast-store';
+
+interface BatchPayoutModalProps {
+  address: string;
+  accountIndex: number;
+  onSend: (batchId: string) => void; // Needs the wallet unlocked
+  onClose: () => void;
+}
+
+interface Draft {
+  fileName: string;
+  rows: PayoutRow[];
+  fees?: PayoutFeeEstimate;
+}
+
+const STATUS_BADGES: Record<PayoutRowStatus, string> = {
+  invalid: 'bg-red-100 text-red-700 border-red-200',
+  ready: 'bg-gray-100 text-gray-700 border-gray-200',
+  sending: 'bg-blue-100 text-[#0019ff] border-blue-200',
+  sent: 'bg-green-100 text-green-700 border-green-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  unconfirmed: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+const PRIORITIES: { value: PayoutPriority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'high', label: 'High' },
+];
+
+const shortAddress = (value: string) => (value.length > 16 ? `${value.slice(0, 8)}...${value.slice(-6)}` : value || '—');
+const formatRain = (value: number) => value.toLocaleString('en-US');
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BatchPayoutModal({ address, accountIndex, onSend, onClose }: BatchPayoutModalProps) {
+  const batches = useBatchPayoutStore((state) => state.batches);
+  const removeBatch = useBatchPayoutStore((state) => state.removeBatch);
+  const tracked = usePendingTransactionsStore((state) => state.transactions);
+
+  const [priority, setPriority] = useState<PayoutPriority>('standard');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [checking, setChecking] = useState<string | null>(null); // Progress text while rows are checked
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => batches.find((b) => b.from.toLowerCase() === address.toLowerCase() && b.status !== 'completed')?.id ?? null
+  );
+
+  const accountBatches = batches.filter((b) => b.from.toLowerCase() === address.toLowerCase());
+  const selected = accountBatches.find((b) => b.id === selectedId) || null;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setChecking('Reading file...');
+    try {
+      const parsed = parsePayoutCsv(await file.text());
+      const rows = await validatePayoutRows(parsed, address, (checked, total) =>
+        setChecking(`Checking recipients ${checked} / ${total}...`)
+      );
+      setChecking('Estimating fees...');
+      const fees = await estimatePayoutFees(address, rows, priority);
+      setDraft({ fileName: file.name, rows, fees });
+      setSelectedId(null);
+    } catch (error) {
+      toast.error('Import Failed', error instanceof Error ? error.message : 'Unable to read the CSV file');
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const handlePriority = async (value: PayoutPriority) => {
+    setPriority(value);
+    if (!draft) return;
+    try {
+      const fees = await estimatePayoutFees(address, draft.rows, value);
+      setDraft((current) => current && { ...current, fees });
+    } catch (error) {
+      toast.error('Fee Estimate Failed', error instanceof Error ? error.message : 'Unable to estimate fees');
+    }
+  };
+
+  const handleCreate = () => {
+    if (!draft) return;
+    try {
+      const batch = createPayoutBatch({ from: address, accountIndex, priority, ...draft });
+      setDraft(null);
+      setSelectedId(batch.id);
+      onSend(batch.id);
+    } catch (error) {
+      toast.error('Cannot Send Batch', error instanceof Error ? error.message : 'Unable to create the batch');
+    }
+  };
+
+  const handleReceipt = (batch: PayoutBatch) => {
+    downloadFile(formatPayoutReceipt(batch), getPayoutReceiptFileName(batch), 'text/csv');
+  };
+
+  const renderRows = (rows: PayoutRow[], batchId?: string) => (
+    <div className="border border-gray-200 rounded-[4px] divide-y divide-gray-100 max-h-72 overflow-y-auto mb-4">
+      {rows.map((row) => {
+        const chainState = row.trackedId ? tracked.find((tx) => tx.id === row.trackedId)?.state : undefined;
+        return (
+          <div key={row.line} className="px-3 py-2">
+            <div className="flex items-center gap-3">
+              <span className="w-8 text-[10px] text-gray-400 flex-shrink-0">#{row.line}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-mono text-gray-900 truncate">{shortAddress(row.address)}</p>
+                {row.memo && <p className="text-[11px] text-gray-500 truncate">{row.memo}</p>}
+              </div>
+              <span className="text-xs font-semibold text-black whitespace-nowrap">{row.amount || '—'} RAIN</span>
+              <span className={`px-1.5 py-0.5 text-[10px] font-semibold uppercase rounded-[4px] border ${STATUS_BADGES[row.status]}`}>
+                {row.status === 'sending' && <Loader2 className="inline w-3 h-3 mr-1 animate-spin" />}
+                {row.status === 'sent' && chainState ? chainState : row.status}
+              </span>
+            </div>
+            {row.error && <p className="mt-1 ml-11 text-[11px] text-red-600">{row.error}</p>}
+            {row.warning && row.status !== 'sent' && (
+              <p className="mt-1 ml-11 text-[11px] text-yellow-700">{row.warning}</p>
+            )}
+            {row.hash && <p className="mt-1 ml-11 text-[10px] font-mono text-gray-400 truncate">{row.hash}</p>}
+            {row.status === 'unconfirmed' && batchId && (
+              <div className="mt-2 ml-11 flex flex-wrap items-center gap-2">
+                <p className="text-[11px] text-yellow-800">
+                  The wallet closed while this row was sending. Check the account history before sending it again.
+                </p>
+                <button
+                  onClick={() => resolveUnconfirmedRow(batchId, row.line, true)}
+                  className="px-2 py-1 text-[11px] font-semibold text-gray-700 border border-gray-300 rounded-[4px] hover:border-black hover:text-black transition-colors"
+                >
+                  It was sent
+                </button>
+                <button
+                  onClick={() => resolveUnconfirmedRow(batchId, row.line, false)}
+                  className="px-2 py-1 text-[11px] font-semibold text-gray-700 border border-gray-300 rounded-[4px] hover:border-black hover:text-black transition-colors"
+                >
+                  Send again
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const draftReady = draft?.rows.filter((row) => row.status === 'ready') ?? [];
+  const draftInvalid = draft?.rows.filter((row) => row.status === 'invalid') ?? [];
+
+  const sentCount = selected?.rows.filter((row) => row.status === 'sent').length ?? 0;
+  const sendable = selected?.rows.filter((row) => row.status !== 'invalid').length ?? 0;
+  const sending = selected?.status === 'sending';
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-2xl w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <Users className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Batch Payouts</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Import a CSV with one payment per row: <span className="font-mono">address, amount, memo</span>. Amounts
+            are whole RAIN, memos stay in this wallet. Up to {MAX_PAYOUT_ROWS} rows per batch.
+          </p>
+        </div>
+
+        {/* Import */}
+        <div className="flex items-center gap-3 mb-5">
+          <label
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 border-2 border-dashed border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 transition-colors ${
+              checking || sending ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-[#0019ff] hover:text-[#0019ff]'
+            }`}
+          >
+            {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {checking || 'Import CSV'}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              disabled={!!checking || sending}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <select
+            value={priority}
+            onChange={(e) => handlePriority(e.target.value as PayoutPriority)}
+            disabled={!!checking}
+            className="px-3 py-2.5 border border-gray-300 rounded-[4px] text-sm bg-white focus:outline-none focus:border-[#0019ff]"
+          >
+            {PRIORITIES.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label} priority
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Review */}
+        {draft && (
+          <div className="mb-5">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-bold text-gray-700 uppercase tracking-wide">Review - {draft.fileName}</p>
+              <button onClick={() => setDraft(null)} className="text-[11px] font-semibold text-gray-500 hover:text-black">
+                Discard
+              </button>
+            </div>
+
+            {draft.fees && (
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                <div className="border border-gray-200 rounded-[4px] p-3">
+                  <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Payments</p>
+                  <p className="text-sm font-bold text-black">{formatRain(draft.fees.totalAmount)} RAIN</p>
+                  <p className="text-[11px] text-gray-500">{draftReady.length} row{draftReady.length === 1 ? '' : 's'}</p>
+                </div>
+                <div className="border border-gray-200 rounded-[4px] p-3">
+                  <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Fees</p>
+                  <p className="text-sm font-bold text-black">{formatRain(draft.fees.totalFees)} RAIN</p>
+                  <p className="text-[11px] text-gray-500">
+                    {formatRain(draft.fees.feePerTransfer)} each{draft.fees.estimated ? '' : ' (standard fee)'}
+                  </p>
+                </div>
+                <div className="border border-gray-200 rounded-[4px] p-3">
+                  <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Total</p>
+                  <p className="text-sm font-bold text-black">{formatRain(draft.fees.totalAmount + draft.fees.totalFees)} RAIN</p>
+                  <p className="text-[11px] text-gray-500">Balance {formatRain(draft.fees.balance)} RAIN</p>
+                </div>
+              </div>
+            )}
+
+            {draft.fees && !draft.fees.sufficient && (
+              <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-[4px] p-3 mb-3">
+                <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                <p className="text-xs text-red-900">
+                  The balance doesn&apos;t cover the batch and its fees - it will stop at the first payment that can&apos;t be paid.
+                </p>
+              </div>
+            )}
+
+            {draftInvalid.length > 0 && (
+              <p className="text-xs text-red-600 mb-2">
+                {draftInvalid.length} row{draftInvalid.length === 1 ? '' : 's'} can&apos;t be sent and will be skipped.
+              </p>
+            )}
+
+            {renderRows(draft.rows)}
+
+            <button
+              onClick={handleCreate}
+              disabled={draftReady.length === 0}
+              className="w-full px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] text-sm font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send {draftReady.length} Payment{draftReady.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+
+        {/* Selected batch */}
+        {selected && !draft && (
+          <div className="mb-5">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-bold text-gray-700 uppercase tracking-wide">{selected.fileName}</p>
+              <p className="text-[11px] text-gray-500">
+                {sentCount} of {sendable} sent
+              </p>
+            </div>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden mb-3">
+              <div
+                className="h-full bg-[#0019ff] transition-all duration-300"
+                style={{ width: `${sendable > 0 ? (sentCount / sendable) * 100 : 0}%` }}
+              />
+            </div>
+
+            {selected.status === 'completed' && (
+              <div className="flex items-center gap-2 bg-green-50 border border-green-200 rounded-[4px] p-3 mb-3">
+                <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                <p className="text-xs text-green-900">All payments were broadcast. Download the receipt for your records.</p>
+              </div>
+            )}
+            {selected.status === 'stopped' && selected.statusReason && (
+              <div className="flex items-center gap-2 bg-yellow-50 border border-yellow-200 rounded-[4px] p-3 mb-3">
+                <XCircle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+                <p className="text-xs text-yellow-900">{selected.statusReason}</p>
+              </div>
+            )}
+
+            {renderRows(selected.rows, selected.id)}
+
+            <div className="flex gap-2">
+              {sending ? (
+                <button
+                  onClick={() => stopPayoutBatch(selected.id)}
+                  className="flex-1 px-4 py-2.5 border border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 hover:border-black hover:text-black transition-colors"
+                >
+                  Stop After This Payment
+                </button>
+              ) : (
+                selected.status !== 'completed' && (
+                  <button
+                    onClick={() => onSend(selected.id)}
+                    className="flex-1 px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] text-sm font-semibold hover:bg-[#0015cc] transition-colors"
+                  >
+                    {sentCount > 0 ? 'Resume' : 'Send'}
+                  </button>
+                )
+              )}
+              <button
+                onClick={() => handleReceipt(selected)}
+                className="flex items-center gap-2 px-4 py-2.5 border border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Receipt
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Batches */}
+        {accountBatches.length > 0 && (
+          <>
+            <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Batches</p>
+            <div className="border border-gray-200 rounded-[4px] divide-y divide-gray-100">
+              {accountBatches.map((batch) => {
+                const sent = batch.rows.filter((row) => row.status === 'sent');
+                const total = sent.reduce((sum, row) => sum + Number(row.amount), 0);
+                return (
+                  <div
+                    key={batch.id}
+                    className={`flex items-center gap-3 px-4 py-2.5 ${batch.id === selectedId && !draft ? 'bg-blue-50/50' : ''}`}
+                  >
+                    <button
+                      onClick={() => {
+                        setDraft(null);
+                        setSelectedId(batch.id);
+                      }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-semibold text-black truncate">{batch.fileName}</p>
+                      <p className="text-[11px] text-gray-500">
+                        {new Date(batch.createdAt).toLocaleDateString('en-US', { dateStyle: 'medium' })} · {sent.length} of{' '}
+                        {batch.rows.length} sent · {formatRain(total)} RAIN · {batch.status}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => {
+                        removeBatch(batch.id);
+                        if (batch.id === selectedId) setSelectedId(null);
+                      }}
+                      disabled={batch.status === 'sending'}
+                      className="p-1.5 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                      title="Delete batch"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * Discovery Report Modal
+ * Live progress and final report of an account discovery scan:
+ * every derived index with its address, balance, tx count and whether it was added.
+ */
+
+'use client';
+
+import { X, Search, Loader2, CheckCircle, AlertTriangle } from 'lucide-react';
+import type { DiscoveryEntry, DiscoveryReport } from '@/lib/account-discovery';
+
+interface DiscoveryReportModalProps {
+  entries: DiscoveryEntry[]; // Entries scanned so far (live while running)
+  emptyStreak: number;
+  gapLimit: number;
+  report: DiscoveryReport | null; // Set once the scan has finished or was cancelled
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+export default function DiscoveryReportModal({
+  entries,
+  emptyStreak,
+  gapLimit,
+  report,
+  onCancel,
+  onClose,
+}: DiscoveryReportModalProps) {
+  const isRunning = !report;
+  const found = entries.filter((e) => e.exists);
+  const added = entries.filter((e) => e.added);
+  const failed = entries.filter((e) => e.error);
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-2xl w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {!isRunning && (
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X size={24} />
+          </button>
+        )}
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <Search className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Account Discovery</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            {isRunning
+              ? `Scanning derived accounts until ${gapLimit} in a row have no activity...`
+              : report.cancelled
+              ? 'Scan cancelled - accounts found so far have been added.'
+              : report.interrupted
+              ? 'Scan stopped - the node could not be reached. Accounts found so far have been added.'
+              : `Scan complete - stopped after ${report.gapLimit} consecutive empty accounts.`}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+            <p className="text-xs text-gray-600">Scanned</p>
+            <p className="text-lg font-bold text-black">{entries.length}</p>
+          </div>
+          <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+            <p className="text-xs text-gray-600">With activity</p>
+            <p className="text-lg font-bold text-black">{found.length}</p>
+          </div>
+          <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+            <p className="text-xs text-gray-600">Added</p>
+            <p className="text-lg font-bold text-[#0019ff]">{added.length}</p>
+          </div>
+        </div>
+
+        {isRunning && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+              <span className="flex items-center gap-1.5">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Empty in a row: {emptyStreak}/{gapLimit}
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-[#0019ff] transition-all"
+                style={{ width: `${Math.min(100, (emptyStreak / gapLimit) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {failed.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-300 rounded-[4px] p-3 mb-4 flex gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-700 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-yellow-900">
+              {failed.length} lookup{failed.length === 1 ? '' : 's'} failed, so {failed.length === 1 ? 'that account' : 'those accounts'} may
+              have activity. Rescan later if you expect more accounts.
+            </p>
+          </div>
+        )}
+
+        {/* Report table */}
+        <div className="border-2 border-gray-200 rounded-[4px] overflow-hidden mb-4">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left font-semibold px-3 py-2">#</th>
+                <th className="text-left font-semibold px-3 py-2">Address</th>
+                <th className="text-right font-semibold px-3 py-2">Balance</th>
+                <th className="text-right font-semibold px-3 py-2">Txs</th>
+                <th className="text-right font-semibold px-3 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {entries.map((entry) => (
+                <tr key={entry.index} className={entry.exists ? 'text-black' : 'text-gray-400'}>
+                  <td className="px-3 py-1.5">{entry.index}</td>
+                  <td className="px-3 py-1.5 font-mono">
+                    {entry.address.slice(0, 10)}...{entry.address.slice(-6)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">{entry.balance.toLocaleString()} RAIN</td>
+                  <td className="px-3 py-1.5 text-right">{entry.txCount}</td>
+                  <td className="px-3 py-1.5 text-right">
+                    {entry.added ? (
+                      <span className="inline-flex items-center gap-1 font-semibold text-[#0019ff]">
+                        <CheckCircle className="w-3.5 h-3.5" />
+                        Added
+                      </span>
+                    ) : entry.exists ? (
+                      'In wallet'
+                    ) : entry.error ? (
+                      'Lookup failed'
+                    ) : (
+                      'Empty'
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-4 text-center text-gray-500">
+                    Deriving accounts...
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          onClick={isRunning ? onCancel : onClose}
+          className={`w-full px-4 py-2.5 rounded-[4px] font-semibold transition-colors ${
+            isRunning
+              ? 'bg-white border-2 border-gray-300 text-black hover:bg-gray-50'
+              : 'bg-[#0019ff] text-white hover:bg-[#0015cc]'
+          }`}
+        >
+          {isRunning ? 'Cancel Scan' : 'Done'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,36 @@
 "use client";
 
 import { useState } from "react";
-import { Loader2, KeyRound, X, Eye, EyeOff, Lock } from "lucide-react";
+import { Loader2, KeyRound, X, Eye, EyeOff, Lock, Upload } from "lucide-react";
+import { parseSecretKeyHex, decryptAccountKeystore } from "@/lib/imported-keys";
+import { securelyWipeMemory } from "@/lib/hd-wallet";
+
+type ImportSource = "phrase" | "private-key";
+type KeyFormat = "hex" | "keystore";
 
 interface ImportSeedModalProps {
   onClose: () => void;
-  onImport: (mnemonic: string, password: string) => Promise<void>;
+  onImport?: (mnemonic: string, password: string, passphrase?: string) => Promise<void>; // Recovery phrase -> new wallet
+  onImportPrivateKey?: (secretKey: Uint8Array, password: string, name: string) => Promise<void>; // Key -> "Imported Account"
 }
 
 export default function ImportSeedModal({
   onClose,
   onImport,
+  onImportPrivateKey,
 }: ImportSeedModalProps) {
+  const [source, setSource] = useState<ImportSource>(onImport ? "phrase" : "private-key");
+  const [keyFormat, setKeyFormat] = useState<KeyFormat>("hex");
+  const [privateKeyHex, setPrivateKeyHex] = useState("");
+  const [showPrivateKey, setShowPrivateKey] = useState(false);
+  const [keystoreJson, setKeystoreJson] = useState("");
+  const [keystoreFileName, setKeystoreFileName] = useState("");
+  const [keystorePassword, setKeystorePassword] = useState("");
+  const [accountName, setAccountName] = useState("");
   const [words, setWords] = useState<string[]>(Array(24).fill("")); // Changed from 12 to 24
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [passphrase, setPassphrase] = useState(""); // Optional BIP39 passphrase - never stored
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -90,11 +106,13 @@ export default function ImportSeedModal({
       return;
     }
 
+    if (!onImport) return;
+
     setLoading(true);
     setError("");
 
     try {
-      await onImport(mnemonic, password);
+      await onImport(mnemonic, password, passphrase);
     } catch (err: any) {
       // Let WALLET_EXISTS be handled by parent without showing error
       if (err.code === 'WALLET_EXISTS') {
@@ -106,6 +124,53 @@ export default function ImportSeedModal({
     }
   };
 
+  const handleKeystoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setKeystoreJson(await file.text());
+    setKeystoreFileName(file.name);
+    setError("");
+  };
+
+  const handleSubmitPrivateKey = async () => {
+    if (!onImportPrivateKey) return;
+
+    if (!password) {
+      setError("Wallet password is required");
+      return;
+    }
+
+    let secretKey: Uint8Array;
+    try {
+      secretKey = keyFormat === "hex"
+        ? parseSecretKeyHex(privateKeyHex)
+        : await decryptAccountKeystore(keystoreJson, keystorePassword);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid private key");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    // 🔒 SECURITY: Wipe the key from memory whatever the outcome
+    try {
+      await onImportPrivateKey(secretKey, password, accountName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import private key");
+      setLoading(false);
+    } finally {
+      securelyWipeMemory(secretKey);
+      setPrivateKeyHex("");
+    }
+  };
+
+  const canSubmitPrivateKey = !!password && (
+    keyFormat === "hex" ? !!privateKeyHex : !!keystoreJson && !!keystorePassword
+  );
+
   return (
     <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
       <div
@@ -125,14 +190,139 @@ export default function ImportSeedModal({
           <div className="flex items-center gap-3 mb-2">
             <KeyRound className="text-[#0019ff]" size={32} />
             <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">
-              Import Wallet
+              {source === "phrase" ? "Import Wallet" : "Import Private Key"}
             </h2>
           </div>
           <p className="text-sm text-gray-600">
-            Enter your 24-word recovery phrase (or 12-word for legacy wallets) to restore your wallet.
+            {source === "phrase"
+              ? "Enter your 24-word recovery phrase (or 12-word for legacy wallets) to restore your wallet."
+              : "Add a standalone Ed25519 key as an Imported Account. It is encrypted with your wallet password."}
           </p>
         </div>
 
+        {/* Source Tabs (only when both import kinds are offered) */}
+        {onImport && onImportPrivateKey && (
+          <div className="grid grid-cols-2 gap-2 mb-6">
+            {(["phrase", "private-key"] as const).map((tab) => (
+              <button
+                key={tab}
+                type="button"
+                onClick={() => {
+                  setSource(tab);
+                  setError("");
+                }}
+                className={`py-2.5 rounded-xl border-2 text-sm font-bold transition-all ${
+                  source === tab
+                    ? "border-[#0019ff] bg-blue-50 text-[#0019ff]"
+                    : "border-gray-200 text-gray-600 hover:border-gray-300"
+                }`}
+              >
+                {tab === "phrase" ? "Recovery Phrase" : "Private Key"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {source === "private-key" && (
+          <div className="mb-6 space-y-4">
+            {/* Key Format */}
+            <div className="grid grid-cols-2 gap-2">
+              {(["hex", "keystore"] as const).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => {
+                    setKeyFormat(format);
+                    setError("");
+                  }}
+                  className={`py-2 rounded-xl border-2 text-xs font-bold uppercase tracking-wide transition-all ${
+                    keyFormat === format
+                      ? "border-[#0019ff] text-[#0019ff]"
+                      : "border-gray-200 text-gray-500 hover:border-gray-300"
+                  }`}
+                >
+                  {format === "hex" ? "Hex Secret Key" : "Keystore File"}
+                </button>
+              ))}
+            </div>
+
+            {keyFormat === "hex" ? (
+              <div className="space-y-2">
+                <label className="block text-sm font-semibold text-gray-700">
+                  Secret Key (64 bytes, hex)
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPrivateKey ? "text" : "password"}
+                    value={privateKeyHex}
+                    onChange={(e) => setPrivateKeyHex(e.target.value.trim())}
+                    placeholder="128 hex characters"
+                    className="w-full px-4 py-3 pr-12 border-2 border-gray-200 rounded-xl focus:border-[#0019ff] focus:outline-none font-mono text-sm text-gray-900"
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPrivateKey(!showPrivateKey)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    {showPrivateKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <label className="flex items-center justify-center gap-2 w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-xl text-sm font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] cursor-pointer transition-all">
+                  <Upload className="w-4 h-4" />
+                  {keystoreFileName || "Choose keystore file (.json)"}
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleKeystoreFile}
+                    className="hidden"
+                  />
+                </label>
+                <input
+                  type="password"
+                  value={keystorePassword}
+                  onChange={(e) => setKeystorePassword(e.target.value)}
+                  placeholder="Keystore password"
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-[#0019ff] focus:outline-none text-gray-900"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">
+                Account Name (optional)
+              </label>
+              <input
+                type="text"
+                value={accountName}
+                onChange={(e) => setAccountName(e.target.value)}
+                placeholder="e.g. Exchange Hot Wallet"
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-[#0019ff] focus:outline-none text-gray-900"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                <Lock className="text-[#0019ff]" size={16} />
+                Wallet Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Your current wallet password"
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-[#0019ff] focus:outline-none text-gray-900"
+              />
+            </div>
+          </div>
+        )}
+
+        {source === "phrase" && (
+        <>
         {/* Seed Phrase Input Grid */}
         <div className="mb-6">
           <p className="text-xs text-gray-500 mb-3">
@@ -240,7 +430,27 @@ export default function ImportSeedModal({
               </button>
             </div>
           </div>
+
+          {/* BIP39 Passphrase (optional) */}
+          <div className="space-y-2">
+            <label className="block text-sm font-semibold text-gray-700">
+              Passphrase <span className="font-normal text-gray-500">(optional, 25th word)</span>
+            </label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Leave empty if your wallet has no passphrase"
+              autoComplete="off"
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-[#0019ff] focus:outline-none transition-all text-gray-900"
+            />
+            <p className="text-xs text-gray-500">
+              Opens the hidden wallet for this passphrase. It is kept in memory only and asked for again at every login.
+            </p>
+          </div>
         </div>
+        </>
+        )}
 
         {/* Error Message */}
         {error && (
@@ -259,8 +469,13 @@ export default function ImportSeedModal({
             Cancel
           </button>
           <button
-            onClick={handleSubmit}
-            disabled={loading || words.some((w) => !w) || !password || !confirmPassword}
+            onClick={source === "phrase" ? handleSubmit : handleSubmitPrivateKey}
+            disabled={
+              loading ||
+              (source === "phrase"
+                ? words.some((w) => !w) || !password || !confirmPassword
+                : !canSubmitPrivateKey)
+            }
             className="flex-1 bg-[#0019ff] hover:bg-[#0019ff]/90 text-white font-bold py-3 px-4 rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {loading ? (
@@ -269,7 +484,7 @@ export default function ImportSeedModal({
                 Importing...
               </>
             ) : (
-              "Import Wallet"
+              source === "phrase" ? "Import Wallet" : "Import Account"
             )}
           </button>
         </div>
@@ -0,0 +1,271 @@
+/**
+ * Network Import Modal
+ * Confirmation step for networks from a bundle file or an ?addNetwork= link:
+ * shows who signed them and every network's name, RPC, explorer and chain ID,
+ * verifies each node's identity, and only adds what the user selects.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Globe, Loader2, CheckCircle, AlertTriangle, ShieldCheck, ShieldAlert } from 'lucide-react';
+import {
+  useNetworkStore,
+  verifyNewNetwork,
+  type Network,
+  type NetworkVerification,
+} from '@/lib/network-store';
+import { getBundleNetworks, verifyNetworkBundle, type NetworkBundle } from '@/lib/network-bundle';
+import { useWalletStore } from '@/lib/wallet-store';
+import { logAuditEvent } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+
+type ImportCheck =
+  | { status: 'checking' }
+  | { status: 'exists' }
+  | { status: 'done'; verification: NetworkVerification }
+  | { status: 'error'; message: string };
+
+interface NetworkImportModalProps {
+  bundle: NetworkBundle;
+  source: 'file' | 'link';
+  onClose: () => void;
+}
+
+export default function NetworkImportModal({ bundle, source, onClose }: NetworkImportModalProps) {
+  const { addCustomNetwork, getNetworkById } = useNetworkStore();
+  const accounts = useWalletStore((state) => state.accounts);
+
+  const signature = useMemo(() => verifyNetworkBundle(bundle), [bundle]);
+  const { networks, parseError } = useMemo(() => {
+    try {
+      return { networks: getBundleNetworks(bundle), parseError: null };
+    } catch (err) {
+      return { networks: [] as Network[], parseError: err instanceof Error ? err.message : 'Invalid bundle' };
+    }
+  }, [bundle]);
+
+  const [checks, setChecks] = useState<Record<string, ImportCheck>>({});
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+
+  const signedByOwnAccount =
+    signature.status === 'valid' && accounts.some((a) => a.address.toLowerCase() === signature.address.toLowerCase());
+  const isChecking =
+    signature.status !== 'invalid' && networks.some((n) => !checks[n.id] || checks[n.id].status === 'checking');
+
+  // 🔒 Every network is verified against its node before it can be selected
+  useEffect(() => {
+    if (signature.status === 'invalid') return;
+    let cancelled = false;
+
+    (async () => {
+      for (const network of networks) {
+        if (getNetworkById(network.id)) {
+          setChecks((prev) => ({ ...prev, [network.id]: { status: 'exists' } }));
+          continue;
+        }
+
+        setChecks((prev) => ({ ...prev, [network.id]: { status: 'checking' } }));
+        let check: ImportCheck;
+        try {
+          check = { status: 'done', verification: await verifyNewNetwork(network) };
+        } catch (err) {
+          check = { status: 'error', message: err instanceof Error ? err.message : 'Node unreachable' };
+        }
+        if (cancelled) return;
+
+        setChecks((prev) => ({ ...prev, [network.id]: check }));
+        // Pre-select only networks without anything to acknowledge
+        if (check.status === 'done' && check.verification.errors.length === 0 && check.verification.warnings.length === 0) {
+          setSelected((prev) => ({ ...prev, [network.id]: true }));
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [networks, signature.status, getNetworkById]);
+
+  const selectable = (id: string) => {
+    const check = checks[id];
+    return check?.status === 'done' && check.verification.errors.length === 0;
+  };
+
+  const toAdd = networks.filter((n) => selected[n.id] && selectable(n.id));
+
+  const handleImport = () => {
+    const added: string[] = [];
+    for (const network of toAdd) {
+      const check = checks[network.id];
+      if (check?.status !== 'done') continue;
+      try {
+        addCustomNetwork(check.verification.network);
+        added.push(network.name);
+      } catch (err) {
+        toast.error(`Could not add ${network.name}`, err instanceof Error ? err.message : 'Unknown error');
+      }
+    }
+
+    if (added.length > 0) {
+      logAuditEvent('network_bundle_imported', 'security', `Added ${added.length} custom network${added.length === 1 ? '' : 's'} from a ${source}`, {
+        networks: added,
+        signer: signature.status === 'valid' ? signature.address : null,
+        signatureStatus: signature.status,
+      });
+      toast.success('Networks Added', added.join(', '));
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-2xl w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <Globe className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Add Networks</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            {source === 'link'
+              ? 'A link wants to add the network below to your wallet. Nothing is added until you confirm.'
+              : 'Review the networks in this bundle. Nothing is added until you confirm.'}
+          </p>
+        </div>
+
+        {/* Signature */}
+        {signature.status === 'valid' ? (
+          <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3 mb-4 flex gap-2">
+            <ShieldCheck className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-gray-700">
+              Signed by <span className="font-mono">{signature.address}</span>
+              {signedByOwnAccount ? ' (one of your accounts)' : ' - check this is who you expect'}
+            </p>
+          </div>
+        ) : signature.status === 'unsigned' ? (
+          <div className="bg-yellow-50 border border-yellow-300 rounded-[4px] p-3 mb-4 flex gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-700 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-yellow-900">
+              Not signed. Only add these networks if you trust where {source === 'link' ? 'the link' : 'the file'} came from.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-red-50 border-2 border-red-300 rounded-[4px] p-3 mb-4 flex gap-2">
+            <ShieldAlert className="w-4 h-4 text-red-700 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-red-900">
+              {signature.reason}. The bundle was modified after it was signed and cannot be imported.
+            </p>
+          </div>
+        )}
+
+        {parseError && (
+          <div className="bg-red-50 border-2 border-red-300 rounded-[4px] p-3 mb-4">
+            <p className="text-xs text-red-900">{parseError}</p>
+          </div>
+        )}
+
+        {/* Networks */}
+        {signature.status !== 'invalid' && (
+          <div className="space-y-3 mb-4">
+            {networks.map((network) => {
+              const check = checks[network.id];
+              const verification = check?.status === 'done' ? check.verification : null;
+
+              return (
+                <label
+                  key={network.id}
+                  className={`block border-2 rounded-[4px] p-4 ${
+                    selected[network.id] ? 'border-[#0019ff]' : 'border-gray-200'
+                  } ${selectable(network.id) ? 'cursor-pointer' : 'opacity-75'}`}
+                >
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={!!selected[network.id]}
+                      disabled={!selectable(network.id)}
+                      onChange={(e) => setSelected((prev) => ({ ...prev, [network.id]: e.target.checked }))}
+                      className="w-4 h-4 mt-1 text-[#0019ff] border-gray-300 rounded focus:ring-[#0019ff]"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold text-black">{network.name}</p>
+                      <dl className="grid grid-cols-[90px_1fr] gap-x-2 gap-y-0.5 mt-2 text-xs">
+                        <dt className="text-gray-500">RPC</dt>
+                        <dd className="font-mono text-gray-900 break-all">{network.rpcUrl}</dd>
+                        {network.rpcUrls?.map((url) => (
+                          <div key={url} className="contents">
+                            <dt className="text-gray-500">Fallback</dt>
+                            <dd className="font-mono text-gray-900 break-all">{url}</dd>
+                          </div>
+                        ))}
+                        <dt className="text-gray-500">Explorer</dt>
+                        <dd className="font-mono text-gray-900 break-all">{network.explorerUrl || '-'}</dd>
+                        <dt className="text-gray-500">Chain ID</dt>
+                        <dd className="font-mono text-gray-900">
+                          {network.chainId ?? verification?.network.chainId ?? 'not set'}
+                        </dd>
+                      </dl>
+
+                      <div className="mt-2 text-xs">
+                        {(!check || check.status === 'checking') && (
+                          <span className="flex items-center gap-1.5 text-gray-600">
+                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            Verifying node identity...
+                          </span>
+                        )}
+                        {check?.status === 'exists' && (
+                          <span className="text-gray-600">A network with this ID is already in your wallet</span>
+                        )}
+                        {check?.status === 'error' && (
+                          <span className="text-red-700">Could not reach the node: {check.message}</span>
+                        )}
+                        {verification && verification.errors.length === 0 && verification.warnings.length === 0 && (
+                          <span className="flex items-center gap-1.5 text-green-700">
+                            <CheckCircle className="w-3.5 h-3.5" />
+                            Node identity verified
+                          </span>
+                        )}
+                        {verification?.errors.map((error, idx) => (
+                          <p key={`e${idx}`} className="text-red-700">{error}</p>
+                        ))}
+                        {verification?.warnings.map((warning, idx) => (
+                          <p key={`w${idx}`} className="text-yellow-800">{warning}</p>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={toAdd.length === 0 || isChecking}
+            className="flex-1 px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isChecking ? 'Verifying...' : `Add ${toAdd.length} Network${toAdd.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+/**
+ * Offline Signing Modal
+ * Air-gapped workflow for transfers:
+ * - export: show an unsigned envelope as animated QR / JSON download (online wallet)
+ * - sign: import an unsigned envelope, sign it, export the signed one (offline machine)
+ * - broadcast: import a signed envelope and send it to the network (online wallet)
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import QRCode from 'react-qr-code';
+import { X, Download, Upload, Camera, PenLine, Radio, Loader2, AlertCircle, WifiOff } from 'lucide-react';
+import { QRScanner } from '@/components/QRScanner';
+import PasswordModal from './PasswordModal';
+import { useWalletStore, isWatchOnlyAccount } from '@/lib/wallet-store';
+import { broadcastSignedEnvelope, type TransactionResponse } from '@/lib/rainum-api';
+import {
+  SIGNED_ENVELOPE_TYPE,
+  UNSIGNED_ENVELOPE_TYPE,
+  createFrameAssembler,
+  encodeEnvelopeFrames,
+  getEnvelopeFilename,
+  parseEnvelope,
+  serializeEnvelope,
+  signEnvelope,
+  type SignedEnvelope,
+  type TransactionEnvelope,
+  type UnsignedEnvelope,
+} from '@/lib/transaction-envelope';
+
+export type OfflineSigningMode = 'export' | 'sign' | 'broadcast';
+
+interface OfflineSigningModalProps {
+  mode: OfflineSigningMode;
+  envelope?: UnsignedEnvelope | null; // Required for export mode
+  onClose: () => void;
+  onBroadcast?: (result: TransactionResponse, envelope: SignedEnvelope) => void;
+}
+
+const FRAME_INTERVAL_MS = 400;
+
+const MODE_COPY: Record<OfflineSigningMode, { title: string; description: string }> = {
+  export: {
+    title: 'Export Unsigned Transaction',
+    description: 'Transfer this envelope to your offline device by scanning the animated QR code or copying the file.',
+  },
+  sign: {
+    title: 'Sign Offline',
+    description: 'Import an unsigned envelope, review it and sign it with this wallet. No network connection is needed.',
+  },
+  broadcast: {
+    title: 'Broadcast Signed Transaction',
+    description: 'Import the envelope signed on your offline device and send it to the network.',
+  },
+};
+
+function downloadEnvelope(envelope: TransactionEnvelope) {
+  const blob = new Blob([serializeEnvelope(envelope)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getEnvelopeFilename(envelope);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Cycles through the QR frames of an envelope
+ */
+function AnimatedEnvelopeQR({ envelope }: { envelope: TransactionEnvelope }) {
+  const [frames] = useState(() => encodeEnvelopeFrames(envelope));
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  useEffect(() => {
+    if (frames.length <= 1) return;
+    const interval = setInterval(() => {
+      setFrameIndex((i) => (i + 1) % frames.length);
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [frames]);
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="bg-white p-3 rounded-[4px] border-2 border-gray-200 shadow-sm">
+        <QRCode value={frames[frameIndex]} size={220} />
+      </div>
+      <p className="text-xs text-gray-500 mt-2 font-mono">
+        Frame {frameIndex + 1}/{frames.length}
+      </p>
+    </div>
+  );
+}
+
+function EnvelopeSummary({ envelope }: { envelope: TransactionEnvelope }) {
+  const rows: [string, string][] = [
+    ['Network', `${envelope.network}${envelope.chain_id ? ` (chain ${envelope.chain_id})` : ''}`],
+    ['From', envelope.from],
+    ['To', envelope.to],
+    ['Amount', `${envelope.amount} RAIN`],
+    ['Nonce', envelope.nonce.toString()],
+    ['Gas', `${envelope.gas_limit.toLocaleString()} × ${envelope.gas_price} RAIN`],
+    ['VM', envelope.vm_type.toUpperCase()],
+    ['Signature', envelope.signing_format === 'v2' ? 'Chain-bound (v2)' : 'Legacy - valid on any chain'],
+  ];
+
+  if (envelope.zkp_enabled) {
+    rows.push(['Privacy', envelope.privacy_level]);
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-[4px] divide-y divide-gray-100 text-xs mb-4">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-start justify-between gap-4 px-3 py-2">
+          <span className="font-bold uppercase tracking-wide text-gray-500">{label}</span>
+          <span className="font-mono text-gray-900 break-all text-right">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function OfflineSigningModal({
+  mode,
+  envelope,
+  onClose,
+  onBroadcast,
+}: OfflineSigningModalProps) {
+  const { accounts, unlockMnemonic, passphraseProtected } = useWalletStore();
+
+  const [imported, setImported] = useState<TransactionEnvelope | null>(null);
+  const [signed, setSigned] = useState<SignedEnvelope | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanProgress, setScanProgress] = useState<{ received: number; total: number } | null>(null);
+  const [showUnlockModal, setShowUnlockModal] = useState(false);
+
+  const assemblerRef = useRef(createFrameAssembler());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const expectedType = mode === 'sign' ? UNSIGNED_ENVELOPE_TYPE : SIGNED_ENVELOPE_TYPE;
+
+  const acceptEnvelope = (candidate: TransactionEnvelope) => {
+    if (candidate.type !== expectedType) {
+      setError(
+        mode === 'sign'
+          ? 'This envelope is already signed. Import it on the online wallet to broadcast it.'
+          : 'This envelope is not signed yet. Sign it on your offline device first.'
+      );
+      return;
+    }
+    setError('');
+    setSigned(null);
+    setImported(candidate);
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      acceptEnvelope(parseEnvelope(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read envelope file');
+    }
+  };
+
+  const handleScanFrame = (text: string) => {
+    try {
+      const progress = assemblerRef.current.add(text);
+      setScanProgress({ received: progress.received, total: progress.total });
+
+      if (progress.envelope) {
+        assemblerRef.current.reset();
+        setShowScanner(false);
+        setScanProgress(null);
+        acceptEnvelope(progress.envelope);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid QR code');
+    }
+  };
+
+  const openScanner = () => {
+    assemblerRef.current.reset();
+    setScanProgress(null);
+    setError('');
+    setShowScanner(true);
+  };
+
+  const signWithMnemonic = async (unsigned: UnsignedEnvelope, mnemonic: string) => {
+    const account = accounts.find(
+      (a) => a.address.toLowerCase() === unsigned.from.toLowerCase() && !isWatchOnlyAccount(a)
+    );
+    if (!account) {
+      setError('This wallet does not hold the key for the sender of this envelope');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setSigned(await signEnvelope(unsigned, mnemonic, account.index));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign envelope');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSign = () => {
+    if (!imported || imported.type !== UNSIGNED_ENVELOPE_TYPE) return;
+    setError('');
+
+    const mnemonic = useWalletStore.getState().mnemonic;
+    if (mnemonic) {
+      signWithMnemonic(imported, mnemonic);
+    } else {
+      setShowUnlockModal(true);
+    }
+  };
+
+  const handleUnlockSubmit = async (password: string, passphrase?: string) => {
+    try {
+      if (!(await unlockMnemonic(password, passphrase))) {
+        setError(passphraseProtected ? 'Incorrect password or passphrase' : 'Incorrect password');
+        setShowUnlockModal(false);
+        return;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock wallet');
+      setShowUnlockModal(false);
+      return;
+    }
+
+    setShowUnlockModal(false);
+    const mnemonic = useWalletStore.getState().mnemonic;
+    if (mnemonic && imported && imported.type === UNSIGNED_ENVELOPE_TYPE) {
+      signWithMnemonic(imported, mnemonic);
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!imported || imported.type !== SIGNED_ENVELOPE_TYPE) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = await broadcastSignedEnvelope(imported);
+      if (!result.success) {
+        setError(result.message || 'Transaction was rejected');
+        return;
+      }
+      onBroadcast?.(result, imported);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to broadcast transaction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The envelope this modal currently hands out (QR + download)
+  const outgoing: TransactionEnvelope | null = mode === 'export' ? envelope ?? null : signed;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-lg w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <WifiOff className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">{MODE_COPY[mode].title}</h2>
+          </div>
+          <p className="text-sm text-gray-600">{MODE_COPY[mode].description}</p>
+        </div>
+
+        {/* Import (sign / broadcast) */}
+        {mode !== 'export' && !outgoing && (
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 px-3 py-2.5 border border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import File
+            </button>
+            <button
+              type="button"
+              onClick={openScanner}
+              className="flex items-center justify-center gap-2 px-3 py-2.5 border border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+            >
+              <Camera className="w-4 h-4" />
+              Scan QR
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileImport}
+              className="hidden"
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-[4px] p-3 mb-4">
+            <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {/* Review */}
+        {(outgoing || imported) && <EnvelopeSummary envelope={(outgoing || imported)!} />}
+
+        {mode === 'sign' && imported && !signed && (
+          <button
+            type="button"
+            onClick={handleSign}
+            disabled={loading}
+            className="w-full bg-black text-white font-semibold py-3 px-6 rounded-[4px] hover:bg-gray-800 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <PenLine className="w-4 h-4" />}
+            Sign Transaction
+          </button>
+        )}
+
+        {mode === 'broadcast' && imported && (
+          <button
+            type="button"
+            onClick={handleBroadcast}
+            disabled={loading}
+            className="w-full bg-black text-white font-semibold py-3 px-6 rounded-[4px] hover:bg-gray-800 transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Radio className="w-4 h-4" />}
+            Broadcast Transaction
+          </button>
+        )}
+
+        {/* Export (unsigned on the online wallet, signed on the offline machine) */}
+        {outgoing && (
+          <div className="space-y-3">
+            <AnimatedEnvelopeQR key={JSON.stringify(outgoing)} envelope={outgoing} />
+            <button
+              type="button"
+              onClick={() => downloadEnvelope(outgoing)}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 border border-gray-300 rounded-[4px] text-sm font-semibold text-gray-700 hover:border-[#0019ff] hover:text-[#0019ff] transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Download JSON
+            </button>
+            {mode === 'sign' && (
+              <p className="text-xs text-gray-500 text-center">
+                Scan or copy this signed envelope into your online wallet and choose &quot;Broadcast Signed&quot;.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <QRScanner
+        isOpen={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScan={handleScanFrame}
+        continuous
+        title="Scan Transaction Envelope"
+        hint={
+          scanProgress
+            ? `Received ${scanProgress.received} of ${scanProgress.total} frames...`
+            : 'Point your camera at the animated transaction QR code'
+        }
+      />
+
+      {showUnlockModal && (
+        <PasswordModal
+          title="Unlock Wallet"
+          description="Enter your password to sign this transaction"
+          onClose={() => setShowUnlockModal(false)}
+          onSubmit={handleUnlockSubmit}
+          isCreatingPassword={false}
+          allowPassphrase={passphraseProtected}
+          expectPassphrase={passphraseProtected}
+        />
+      )}
+    </div>
+  );
+}
@@ -6,15 +6,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Eye, EyeOff, Lock, AlertCircle, ShieldAlert } from 'lucide-react';
+import { X, Eye, EyeOff, Lock, AlertCircle, ShieldAlert, KeyRound } from 'lucide-react';
 import { isLoginBlocked, getRemainingAttempts, getLockoutTimeRemainingFormatted } from '@/lib/login-rate-limiter';
 
 interface PasswordModalProps {
   title: string;
   description: string;
   onClose: () => void;
-  onSubmit: (password: string) => void;
+  onSubmit: (password: string, passphrase?: string) => void;
   isCreatingPassword: boolean; // true = set new password, false = login
+  allowPassphrase?: boolean; // Show the optional BIP39 passphrase ("25th word") field
+  expectPassphrase?: boolean; // Wallet was opened with a passphrase - show the field expanded
 }
 
 export default function PasswordModal({
@@ -22,13 +24,18 @@ export default function PasswordModal({
   description,
   onClose,
   onSubmit,
-  isCreatingPassword
+  isCreatingPassword,
+  allowPassphrase = false,
+  expectPassphrase = false
 }: PasswordModalProps) {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [error, setError] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(expectPassphrase);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
 
   // Rate limiting state (only for login)
   const [isBlocked, setIsBlocked] = useState(false);
@@ -75,8 +82,14 @@ export default function PasswordModal({
       }
     }
 
-    // Submit password
-    onSubmit(password);
+    // A mistyped passphrase silently opens a different (empty) wallet - confirm it when creating
+    if (allowPassphrase && isCreatingPassword && passphrase && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    // Submit password (passphrase only when the field is offered)
+    onSubmit(password, allowPassphrase ? passphrase : undefined);
   };
 
   return (
@@ -187,6 +200,50 @@ export default function PasswordModal({
             </div>
           )}
 
+          {/* BIP39 Passphrase (optional) */}
+          {allowPassphrase && (
+            <div className="space-y-3">
+              {!showPassphrase ? (
+                <button
+                  type="button"
+                  onClick={() => setShowPassphrase(true)}
+                  className="flex items-center gap-2 text-sm font-semibold text-[#0019ff] hover:underline"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  Use a passphrase (25th word)
+                </button>
+              ) : (
+                <>
+                  <label className="block text-sm font-semibold text-gray-800">
+                    Passphrase <span className="font-normal text-gray-500">(optional)</span>
+                  </label>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="BIP39 passphrase"
+                    autoComplete="off"
+                    className="w-full px-5 py-4 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-[#0019ff]/20 focus:border-[#0019ff] outline-none transition-all text-gray-900 bg-white"
+                  />
+                  {isCreatingPassword && passphrase && (
+                    <input
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      placeholder="Re-enter passphrase"
+                      autoComplete="off"
+                      className="w-full px-5 py-4 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-[#0019ff]/20 focus:border-[#0019ff] outline-none transition-all text-gray-900 bg-white"
+                    />
+                  )}
+                  <p className="text-xs text-gray-500 leading-relaxed">
+                    Each passphrase opens a separate hidden wallet from the same recovery phrase.
+                    It is never stored - you must enter it every time, and it cannot be recovered if lost.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 flex items-start gap-3">
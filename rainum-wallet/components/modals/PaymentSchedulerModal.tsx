@@ -0,0 +1,497 @@
+/**
+ * Payment Scheduler Modal
+ * Create scheduled and recurring payments and authorize them to run without
+ * the wallet unlocked: pre-sign the next payments or grant a spending cap.
+ * Also shows every job's state and the run log.
+ * Corporate Style: Black, Blue (#0019ff), White, 4px border radius
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X, CalendarClock, Repeat, PenLine, ShieldCheck, Loader2, AlertTriangle, Trash2 } from 'lucide-react';
+import { useScheduledTxStore } from '@/lib/scheduled-tx-store';
+import { useRecurringTxStore } from '@/lib/recurring-tx-store';
+import { createRule, describeRule, validateRule, type RecurrenceRule } from '@/lib/recurrence-rule';
+import {
+  MAX_PRESIGNED_PAYMENTS,
+  MAX_SPENDING_CAP_DAYS,
+  getPaymentCost,
+  revokeJob,
+  type PaymentAuthorization,
+  type PaymentSource,
+  type SchedulerJob,
+  type SchedulerRun,
+  type SchedulerRunResult,
+} from '@/lib/payment-scheduler';
+import { sanitizeAddress, sanitizeAmount } from '@/lib/input-sanitizer';
+import { getRelativeTime, logAuditEvent } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+import RecurrenceRuleEditor from '@/components/RecurrenceRuleEditor';
+
+interface PaymentSchedulerModalProps {
+  address: string;
+  jobs: SchedulerJob[];
+  runs: SchedulerRun[];
+  authorizing: boolean;
+  onAuthorize: (authorization: PaymentAuthorization) => void; // Needs the wallet unlocked
+  onResign: () => void; // Re-sign a displaced pre-signed queue
+  onClose: () => void;
+}
+
+interface PaymentRow {
+  source: PaymentSource;
+  to: string;
+  amount: string;
+  label?: string;
+  schedule: string;
+  nextDueAt: number;
+  state: 'active' | 'paused' | 'ended';
+}
+
+const RUN_BADGES: Record<SchedulerRunResult, string> = {
+  executed: 'bg-green-100 text-green-700 border-green-200',
+  skipped: 'bg-gray-100 text-gray-700 border-gray-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  retried: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+const shortAddress = (value: string) => `${value.slice(0, 8)}...${value.slice(-6)}`;
+const formatDate = (ms: number) => new Date(ms).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+function describeJob(job: SchedulerJob): string {
+  if (job.kind === 'presigned') {
+    const waiting = job.payments?.filter((p) => p.status === 'waiting').length ?? 0;
+    return `Pre-signed - ${waiting} of ${job.payments?.length ?? 0} payment${job.payments?.length === 1 ? '' : 's'} left`;
+  }
+  return `Spending cap - ${(job.spent ?? 0).toLocaleString('en-US')} / ${(job.cap ?? 0).toLocaleString('en-US')} RAIN used, expires ${formatDate(job.expiresAt ?? 0)}`;
+}
+
+export default function PaymentSchedulerModal({
+  address,
+  jobs,
+  runs,
+  authorizing,
+  onAuthorize,
+  onResign,
+  onClose,
+}: PaymentSchedulerModalProps) {
+  const scheduled = useScheduledTxStore((state) => state.transactions);
+  const recurring = useRecurringTxStore((state) => state.transactions);
+  const { addScheduled, deleteScheduled } = useScheduledTxStore();
+  const { addRecurring, deleteRecurring, toggleActive } = useRecurringTxStore();
+
+  // New payment
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+  const [repeats, setRepeats] = useState(false);
+  const [runAt, setRunAt] = useState('');
+  const [rule, setRule] = useState<RecurrenceRule>(() => createRule('monthly', Date.now()));
+
+  // Authorization being set up
+  const [authorizingId, setAuthorizingId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'presigned' | 'allowance'>('presigned');
+  const [count, setCount] = useState(3);
+  const [cap, setCap] = useState('');
+  const [days, setDays] = useState(30);
+
+  const openJobs = jobs.filter((job) => job.status === 'active' || job.status === 'needs_signature');
+  const needsSignature = openJobs.filter((job) => job.status === 'needs_signature');
+  const findJob = (source: PaymentSource) =>
+    openJobs.find((job) => job.source.type === source.type && job.source.id === source.id);
+
+  const rows: PaymentRow[] = [
+    ...scheduled
+      .filter((tx) => !tx.executed)
+      .map((tx) => ({
+        source: { type: 'scheduled' as const, id: tx.id },
+        to: tx.to,
+        amount: tx.amount,
+        label: tx.label,
+        schedule: 'Once',
+        nextDueAt: tx.scheduledTime,
+        state: 'active' as const,
+      })),
+    ...recurring.map((tx) => ({
+      source: { type: 'recurring' as const, id: tx.id },
+      to: tx.to,
+      amount: tx.amount,
+      label: tx.label,
+      schedule: describeRule(tx.rule),
+      nextDueAt: tx.nextExecution,
+      state: tx.ended ? ('ended' as const) : tx.isActive ? ('active' as const) : ('paused' as const),
+    })),
+  ].sort((a, b) => a.nextDueAt - b.nextDueAt);
+
+  const handleAdd = () => {
+    const to = sanitizeAddress(recipient.trim());
+    if (!to) {
+      toast.error('Invalid Address', 'Enter a valid recipient address');
+      return;
+    }
+    if (to.toLowerCase() === address.toLowerCase()) {
+      toast.error('Invalid Address', 'Cannot schedule a payment to yourself');
+      return;
+    }
+
+    const sanitizedAmount = sanitizeAmount(amount);
+    const wholeAmount = Math.floor(parseFloat(sanitizedAmount || '0'));
+    if (wholeAmount <= 0) {
+      toast.error('Invalid Amount', 'Amount must be at least 1 RAIN');
+      return;
+    }
+
+    if (!repeats) {
+      const scheduledTime = new Date(runAt).getTime();
+      if (!Number.isFinite(scheduledTime) || scheduledTime <= Date.now()) {
+        toast.error('Invalid Date', 'Pick a time in the future');
+        return;
+      }
+      addScheduled(to, wholeAmount.toString(), scheduledTime, label.trim() || undefined);
+    } else {
+      const problem = validateRule(rule);
+      if (problem) {
+        toast.error('Invalid Schedule', problem);
+        return;
+      }
+      try {
+        addRecurring(to, wholeAmount.toString(), rule, label.trim() || undefined);
+      } catch (error) {
+        toast.error('Invalid Schedule', error instanceof Error ? error.message : 'The schedule has no upcoming payments');
+        return;
+      }
+    }
+
+    setRecipient('');
+    setAmount('');
+    setLabel('');
+    setRunAt('');
+    toast.success('Payment Scheduled', 'Authorize it below to let it run while the wallet is locked');
+  };
+
+  const handleDelete = async (row: PaymentRow) => {
+    const job = findJob(row.source);
+    if (job) await handleRevoke(job);
+    if (row.source.type === 'scheduled') {
+      deleteScheduled(row.source.id);
+    } else {
+      deleteRecurring(row.source.id);
+    }
+  };
+
+  const handleRevoke = async (job: SchedulerJob) => {
+    try {
+      await revokeJob(job.id);
+      logAuditEvent('scheduled_payment_revoked', 'transaction', `Revoked ${job.kind === 'presigned' ? 'pre-signed payments' : 'spending cap'} for ${job.amount} RAIN to ${shortAddress(job.to)}`, {
+        address,
+        recipient: job.to,
+        amount: Number(job.amount),
+      });
+      toast.success('Authorization Revoked', 'The payment no longer runs on its own');
+    } catch (error) {
+      toast.error('Revoke Failed', error instanceof Error ? error.message : 'Unable to revoke the authorization');
+    }
+  };
+
+  const startAuthorizing = (row: PaymentRow) => {
+    setAuthorizingId(`${row.source.type}:${row.source.id}`);
+    setMode('presigned');
+    setCount(row.source.type === 'scheduled' ? 1 : 3);
+    setCap(String(getPaymentCost(row.amount, 'standard') * 3));
+    setDays(30);
+  };
+
+  const submitAuthorization = (row: PaymentRow) => {
+    if (mode === 'presigned') {
+      onAuthorize({ kind: 'presigned', source: row.source, count });
+    } else {
+      onAuthorize({
+        kind: 'allowance',
+        source: row.source,
+        cap: Math.floor(Number(cap)),
+        expiresAt: Date.now() + days * 24 * 60 * 60 * 1000,
+      });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-2xl w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <CalendarClock className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Scheduled Payments</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Authorized payments run while this wallet is open, even when it is locked. Pre-sign the next payments, or
+            allow a capped amount until a set date. Anything due while the wallet is closed runs on your next visit.
+          </p>
+        </div>
+
+        {needsSignature.length > 0 && (
+          <div className="flex items-center gap-3 bg-yellow-50 border border-yellow-200 rounded-[4px] p-3 mb-4">
+            <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0" />
+            <p className="flex-1 text-xs text-yellow-900">
+              {needsSignature.length} pre-signed payment{needsSignature.length === 1 ? '' : 's'} lost {needsSignature.length === 1 ? 'its' : 'their'} nonce
+              to another transaction. {needsSignature[0].statusReason}
+            </p>
+            <button
+              onClick={onResign}
+              disabled={authorizing}
+              className="px-3 py-1.5 bg-[#0019ff] text-white rounded-[4px] text-[11px] font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Re-sign now
+            </button>
+          </div>
+        )}
+
+        {/* New payment */}
+        <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">New Payment</p>
+        <div className="border border-gray-200 rounded-[4px] p-4 mb-5 space-y-3">
+          <input
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value)}
+            placeholder="Recipient address (0x...)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-[4px] text-sm font-mono focus:outline-none focus:border-[#0019ff]"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount (RAIN)"
+              inputMode="numeric"
+              className="px-3 py-2 border border-gray-300 rounded-[4px] text-sm focus:outline-none focus:border-[#0019ff]"
+            />
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional)"
+              className="px-3 py-2 border border-gray-300 rounded-[4px] text-sm focus:outline-none focus:border-[#0019ff]"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={repeats ? 'recurring' : 'once'}
+              onChange={(e) => setRepeats(e.target.value === 'recurring')}
+              className="px-3 py-2 border border-gray-300 rounded-[4px] text-sm bg-white focus:outline-none focus:border-[#0019ff]"
+            >
+              <option value="once">Once</option>
+              <option value="recurring">Recurring</option>
+            </select>
+            {!repeats && (
+              <input
+                type="datetime-local"
+                value={runAt}
+                onChange={(e) => setRunAt(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-[4px] text-sm focus:outline-none focus:border-[#0019ff]"
+              />
+            )}
+          </div>
+          {repeats && <RecurrenceRuleEditor rule={rule} onChange={setRule} />}
+          <button
+            onClick={handleAdd}
+            className="w-full px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] text-sm font-semibold hover:bg-[#0015cc] transition-colors"
+          >
+            Schedule Payment
+          </button>
+        </div>
+
+        {/* Payments */}
+        <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Payments</p>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-5">No scheduled payments yet.</p>
+        ) : (
+          <div className="border border-gray-200 rounded-[4px] divide-y divide-gray-100 mb-5">
+            {rows.map((row) => {
+              const key = `${row.source.type}:${row.source.id}`;
+              const job = findJob(row.source);
+              const cost = getPaymentCost(row.amount, 'standard');
+
+              return (
+                <div key={key} className="px-4 py-3">
+                  <div className="flex items-center gap-3">
+                    {row.source.type === 'recurring' ? (
+                      <Repeat className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                    ) : (
+                      <CalendarClock className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-semibold text-black truncate">
+                        {row.amount} RAIN to {shortAddress(row.to)}
+                        {row.label && <span className="text-gray-500 font-normal"> · {row.label}</span>}
+                      </p>
+                      <p className="text-[10px] text-gray-500">
+                        {row.schedule} · {row.state === 'active' ? `next ${formatDate(row.nextDueAt)}` : row.state}
+                      </p>
+                      <p className={`text-[10px] ${job ? (job.status === 'needs_signature' ? 'text-yellow-700' : 'text-[#0019ff]') : 'text-gray-400'}`}>
+                        {job ? describeJob(job) : 'Not authorized - authorize it to have it run'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1.5 flex-shrink-0">
+                      {row.source.type === 'recurring' && row.state !== 'ended' && (
+                        <button
+                          onClick={() => toggleActive(row.source.id)}
+                          className="px-2 py-1 text-[11px] font-semibold text-gray-700 border border-gray-300 rounded-[4px] hover:border-black hover:text-black transition-colors"
+                        >
+                          {row.state === 'active' ? 'Pause' : 'Resume'}
+                        </button>
+                      )}
+                      {job ? (
+                        <button
+                          onClick={() => void handleRevoke(job)}
+                          className="px-2 py-1 text-[11px] font-semibold text-red-600 border border-red-200 rounded-[4px] hover:bg-red-50 transition-colors"
+                        >
+                          Revoke
+                        </button>
+                      ) : (
+                        row.state === 'active' && (
+                          <button
+                            onClick={() => (authorizingId === key ? setAuthorizingId(null) : startAuthorizing(row))}
+                            className="px-2 py-1 text-[11px] font-semibold text-[#0019ff] border border-[#0019ff] rounded-[4px] hover:bg-[#0019ff] hover:text-white transition-colors"
+                          >
+                            Authorize
+                          </button>
+                        )
+                      )}
+                      <button
+                        onClick={() => void handleDelete(row)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded-[4px] transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Authorization */}
+                  {authorizingId === key && !job && (
+                    <div className="mt-3 bg-gray-50 border border-gray-200 rounded-[4px] p-3 space-y-3">
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => setMode('presigned')}
+                          className={`flex items-center gap-2 px-3 py-2 rounded-[4px] border text-xs font-semibold transition-all duration-200 ${
+                            mode === 'presigned' ? 'border-[#0019ff] bg-[#0019ff]/5 text-[#0019ff]' : 'border-gray-300 bg-white text-gray-700'
+                          }`}
+                        >
+                          <PenLine className="w-3.5 h-3.5" />
+                          Pre-sign payments
+                        </button>
+                        <button
+                          onClick={() => setMode('allowance')}
+                          className={`flex items-center gap-2 px-3 py-2 rounded-[4px] border text-xs font-semibold transition-all duration-200 ${
+                            mode === 'allowance' ? 'border-[#0019ff] bg-[#0019ff]/5 text-[#0019ff]' : 'border-gray-300 bg-white text-gray-700'
+                          }`}
+                        >
+                          <ShieldCheck className="w-3.5 h-3.5" />
+                          Spending cap
+                        </button>
+                      </div>
+
+                      {mode === 'presigned' ? (
+                        <div className="space-y-1">
+                          <label className="flex items-center justify-between text-xs text-gray-700">
+                            Payments to sign now
+                            <input
+                              type="number"
+                              min={1}
+                              max={row.source.type === 'scheduled' ? 1 : MAX_PRESIGNED_PAYMENTS}
+                              value={count}
+                              disabled={row.source.type === 'scheduled'}
+                              onChange={(e) => setCount(Math.max(1, Math.min(MAX_PRESIGNED_PAYMENTS, Math.floor(Number(e.target.value) || 1))))}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-[4px] text-sm text-right focus:outline-none focus:border-[#0019ff]"
+                            />
+                          </label>
+                          <p className="text-[11px] text-gray-500">
+                            Up to {(count * cost).toLocaleString('en-US')} RAIN incl. fees. Each payment gets its own nonce -
+                            sending something else first means re-signing once the wallet is unlocked.
+                          </p>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <label className="flex items-center justify-between text-xs text-gray-700">
+                            Cap (RAIN, fees included)
+                            <input
+                              value={cap}
+                              onChange={(e) => setCap(e.target.value)}
+                              inputMode="numeric"
+                              className="w-32 px-2 py-1 border border-gray-300 rounded-[4px] text-sm text-right focus:outline-none focus:border-[#0019ff]"
+                            />
+                          </label>
+                          <label className="flex items-center justify-between text-xs text-gray-700">
+                            Expires after (days)
+                            <input
+                              type="number"
+                              min={1}
+                              max={MAX_SPENDING_CAP_DAYS}
+                              value={days}
+                              onChange={(e) => setDays(Math.max(1, Math.min(MAX_SPENDING_CAP_DAYS, Math.floor(Number(e.target.value) || 1))))}
+                              className="w-20 px-2 py-1 border border-gray-300 rounded-[4px] text-sm text-right focus:outline-none focus:border-[#0019ff]"
+                            />
+                          </label>
+                          <p className="text-[11px] text-gray-500">
+                            Covers about {Math.floor((Number(cap) || 0) / cost)} payment(s) of {cost.toLocaleString('en-US')} RAIN.
+                            The account key is kept encrypted in this browser until the cap is used up, it expires, you
+                            revoke it or you log out.
+                          </p>
+                        </div>
+                      )}
+
+                      <button
+                        onClick={() => submitAuthorization(row)}
+                        disabled={authorizing}
+                        className="w-full px-4 py-2 bg-[#0019ff] text-white rounded-[4px] text-xs font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                      >
+                        {authorizing && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                        {mode === 'presigned' ? `Sign ${count} Payment${count === 1 ? '' : 's'}` : 'Authorize Spending Cap'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Run log */}
+        <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Run Log</p>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has run yet.</p>
+        ) : (
+          <div className="border border-gray-200 rounded-[4px] divide-y divide-gray-100">
+            {runs.slice(0, 20).map((run) => (
+              <div key={run.id} className="px-4 py-2.5 flex items-center gap-3">
+                <span className={`px-2 py-0.5 text-[10px] font-bold uppercase rounded-[4px] border ${RUN_BADGES[run.result]}`}>
+                  {run.result}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-semibold text-black truncate">
+                    {run.amount} RAIN to {shortAddress(run.to)}
+                    {run.label && <span className="text-gray-500 font-normal"> · {run.label}</span>}
+                  </p>
+                  <p className="text-[10px] text-gray-500 truncate">
+                    Due {formatDate(run.dueAt)}
+                    {run.detail && ` · ${run.detail}`}
+                    {run.hash && <span className="font-mono"> · {run.hash.slice(0, 14)}...</span>}
+                  </p>
+                </div>
+                <span className="text-[10px] text-gray-500 flex-shrink-0">{getRelativeTime(run.ranAt)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * Recipient Risk Modal
+ * Stops a send to an address that looks like a known counterparty or that only ever
+ * sent this wallet dust - both signs of address poisoning. The full addresses are
+ * shown with the differing characters highlighted; sending anyway needs an explicit
+ * confirmation.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X, ShieldAlert, AlertTriangle } from 'lucide-react';
+import { getDifferingPositions, type RecipientRisk } from '@/lib/address-poisoning';
+
+interface RecipientRiskModalProps {
+  risk: RecipientRisk;
+  onUseAddress: (address: string) => void;
+  onContinue: () => void;
+  onClose: () => void;
+}
+
+function HighlightedAddress({ address, compareTo }: { address: string; compareTo?: string }) {
+  const differing = compareTo ? getDifferingPositions(address, compareTo) : new Set<number>();
+  return (
+    <p className="font-mono text-xs break-all text-black">
+      {address.split('').map((char, i) => (
+        <span key={i} className={differing.has(i) ? 'bg-red-200 text-red-800 font-bold' : undefined}>
+          {char}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export default function RecipientRiskModal({ risk, onUseAddress, onContinue, onClose }: RecipientRiskModalProps) {
+  const [confirmed, setConfirmed] = useState(false);
+  const dangers = risk.warnings.filter((w) => w.severity === 'danger');
+  const similarTo = dangers.find((w) => w.similarTo)?.similarTo;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-lg w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldAlert className="text-red-600" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Possible Scam Address</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Funds sent to the wrong address cannot be recovered. Never copy a recipient from your transaction history.
+          </p>
+        </div>
+
+        {/* Warnings */}
+        <div className="space-y-2 mb-4">
+          {dangers.map((warning) => (
+            <div key={warning.reason} className="flex items-start gap-2 bg-red-50 border border-red-200 rounded-[4px] p-3">
+              <AlertTriangle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-xs font-bold text-red-800">{warning.title}</p>
+                <p className="text-[11px] text-red-900">{warning.message}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Address comparison */}
+        <div className="border border-gray-200 rounded-[4px] p-4 mb-4 space-y-3">
+          <div>
+            <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">You are sending to</p>
+            <HighlightedAddress address={risk.address} compareTo={similarTo?.address} />
+          </div>
+          {similarTo && (
+            <div className="pt-3 border-t border-gray-100">
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-1">
+                {similarTo.name
+                  ? `Your contact "${similarTo.name}"`
+                  : similarTo.paidYou
+                  ? 'Address that has paid you'
+                  : 'Address you have paid before'}
+              </p>
+              <HighlightedAddress address={similarTo.address} compareTo={risk.address} />
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-start gap-2 mb-5 text-xs text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={confirmed}
+            onChange={(e) => setConfirmed(e.target.checked)}
+            className="w-4 h-4 mt-0.5 accent-red-600"
+          />
+          I checked every character of this address with the recipient through another channel, and I want to send to it.
+        </label>
+
+        <div className="flex flex-col gap-2">
+          {similarTo && (
+            <button
+              onClick={() => onUseAddress(similarTo.address)}
+              className="w-full px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] text-sm font-semibold hover:bg-[#0015cc] transition-colors"
+            >
+              Send to {similarTo.name || `${similarTo.address.slice(0, 8)}...${similarTo.address.slice(-6)}`} instead
+            </button>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2.5 bg-white border border-gray-300 text-black rounded-[4px] text-sm font-semibold hover:bg-gray-50 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={onContinue}
+              disabled={!confirmed}
+              className="flex-1 px-4 py-2.5 bg-white border border-red-300 text-red-700 rounded-[4px] text-sm font-semibold hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send Anyway
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * Replace Transaction Modal
+ * Speed up (same transfer, higher gas price) or cancel (empty transfer to yourself)
+ * a pending transaction - with a preview of the fee before anything is signed.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Zap, Ban, Loader2, AlertTriangle } from 'lucide-react';
+import { getGasPrice, type GasPriceResponse } from '@/lib/rainum-api';
+import type { ReplacementKind, TrackedTransaction } from '@/lib/pending-transactions';
+import {
+  getReplacementCost,
+  getReplacementFeeOptions,
+  type ReplacementFeeOption,
+} from '@/lib/transaction-replacement';
+
+interface ReplaceTransactionModalProps {
+  transaction: TrackedTransaction;
+  kind: ReplacementKind;
+  submitting: boolean;
+  onConfirm: (gasPrice: number) => void;
+  onClose: () => void;
+}
+
+const formatRain = (value: number) => `${value.toLocaleString('en-US')} RAIN`;
+
+export default function ReplaceTransactionModal({
+  transaction,
+  kind,
+  submitting,
+  onConfirm,
+  onClose,
+}: ReplaceTransactionModalProps) {
+  const [gasPrices, setGasPrices] = useState<GasPriceResponse | null>(null);
+  const [loadingPrices, setLoadingPrices] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getGasPrice()
+      .then((prices) => {
+        if (!cancelled) setGasPrices(prices);
+      })
+      .catch(() => {
+        // Wallet tiers still give usable options
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPrices(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const options = getReplacementFeeOptions(transaction, kind, gasPrices);
+  const selected: ReplacementFeeOption | undefined =
+    options.find((option) => option.id === selectedId) || options[0];
+  const originalFee = transaction.gasPrice * transaction.gasLimit;
+  const isCancel = kind === 'cancel';
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-lg w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            {isCancel ? <Ban className="text-[#0019ff]" size={28} /> : <Zap className="text-[#0019ff]" size={28} />}
+            <h2 className="text-2xl font-bold text-gray-900">{isCancel ? 'Cancel Transaction' : 'Speed Up Transaction'}</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            {isCancel
+              ? `Sends 0 RAIN to your own address with nonce ${transaction.nonce}. If it is included first, the original transaction never happens.`
+              : `Resubmits the same transfer with nonce ${transaction.nonce} at a higher gas price so validators pick it up sooner.`}
+          </p>
+        </div>
+
+        {/* Original */}
+        <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-4 mb-4 space-y-1.5">
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Original</span>
+            <span className="font-semibold text-black">
+              {transaction.kind === 'transfer'
+                ? `${transaction.amount} RAIN to ${transaction.to.slice(0, 8)}...${transaction.to.slice(-6)}`
+                : transaction.kind}
+            </span>
+          </div>
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Original fee</span>
+            <span className="font-semibold text-black">
+              {formatRain(originalFee)} ({transaction.gasPrice} RAIN/gas)
+            </span>
+          </div>
+        </div>
+
+        {/* Fee options */}
+        <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">New Gas Price</p>
+        {loadingPrices ? (
+          <div className="flex items-center gap-2 text-sm text-gray-500 py-4">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading network gas prices...
+          </div>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {options.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setSelectedId(option.id)}
+                className={`w-full flex items-center justify-between px-3 py-2.5 rounded-[4px] border text-left transition-all duration-200 ${
+                  selected?.id === option.id
+                    ? 'border-[#0019ff] bg-[#0019ff]/5'
+                    : 'border-gray-300 bg-white hover:border-[#0019ff]'
+                }`}
+              >
+                <div>
+                  <p className="text-sm font-semibold text-black">{option.label}</p>
+                  <p className="text-[11px] text-gray-500">{option.gasPrice} RAIN/gas</p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-bold text-black">{formatRain(option.fee)}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {option.extraFee >= 0 ? '+' : ''}
+                    {formatRain(option.extraFee)} vs original
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        {selected && (
+          <div className="border border-gray-200 rounded-[4px] p-4 mb-4 space-y-1.5">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-500">Network fee</span>
+              <span className="font-semibold text-black">{formatRain(selected.fee)}</span>
+            </div>
+            {!isCancel && (
+              <div className="flex justify-between text-xs">
+                <span className="text-gray-500">Amount</span>
+                <span className="font-semibold text-black">{transaction.amount} RAIN</span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm pt-1.5 border-t border-gray-100">
+              <span className="font-bold text-black">Total if included</span>
+              <span className="font-bold text-black">{formatRain(getReplacementCost(transaction, kind, selected.gasPrice))}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-[4px] p-3 mb-5">
+          <AlertTriangle className="w-4 h-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <p className="text-[11px] text-yellow-900">
+            Only one transaction with nonce {transaction.nonce} can be included. If the original gets there first,
+            this replacement is dropped and its fee is not charged.
+          </p>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-white border border-gray-300 text-black rounded-[4px] text-sm font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => selected && onConfirm(selected.gasPrice)}
+            disabled={!selected || submitting || loadingPrices}
+            className="flex-1 px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] text-sm font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isCancel ? 'Sign Cancellation' : 'Sign Speed-up'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
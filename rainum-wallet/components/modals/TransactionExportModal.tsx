@@ -0,0 +1,383 @@
+/**
+ * Transaction Export Modal
+ * Accounting export of the history (one or all accounts, date range) as CSV, OFX/QFX or JSON,
+ * downloaded together with a signed manifest - and verification of an export against its manifest.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { X, Download, FileCheck, Loader2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useWalletStore, isWatchOnlyAccount } from '@/lib/wallet-store';
+import { createAccountSigner } from '@/lib/transaction-builder';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  createTransactionExport,
+  getManifestFileName,
+  parseExportManifest,
+  verifyExportManifest,
+  type ExportColumnId,
+  type ExportFormat,
+  type ManifestVerification,
+} from '@/lib/transaction-export';
+import { logAuditEvent } from '@/lib/audit-log';
+import { toast } from '@/lib/toast-store';
+
+type RangePreset = 'last-month' | 'this-month' | 'year-to-date' | 'all' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: 'last-month', label: 'Last Month' },
+  { value: 'this-month', label: 'This Month' },
+  { value: 'year-to-date', label: 'Year to Date' },
+  { value: 'all', label: 'All Time' },
+  { value: 'custom', label: 'Custom' },
+];
+
+interface TransactionExportModalProps {
+  onClose: () => void;
+}
+
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Local calendar days, inclusive
+function getPresetRange(preset: RangePreset): { from: string; to: string } {
+  const now = new Date();
+  switch (preset) {
+    case 'last-month':
+      return {
+        from: toDateInput(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+        to: toDateInput(new Date(now.getFullYear(), now.getMonth(), 0)),
+      };
+    case 'this-month':
+      return { from: toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)), to: toDateInput(now) };
+    case 'year-to-date':
+      return { from: toDateInput(new Date(now.getFullYear(), 0, 1)), to: toDateInput(now) };
+    default:
+      return { from: '', to: '' };
+  }
+}
+
+function toTimestamp(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(date.getTime()) ? undefined : Math.floor(date.getTime() / 1000);
+}
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function TransactionExportModal({ onClose }: TransactionExportModalProps) {
+  const { accounts, mnemonic, getActiveAccount } = useWalletStore();
+  const activeAccount = getActiveAccount();
+
+  const [scope, setScope] = useState<'active' | 'all'>('active');
+  const [preset, setPreset] = useState<RangePreset>('last-month');
+  const [range, setRange] = useState(getPresetRange('last-month'));
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<ExportColumnId[]>(DEFAULT_EXPORT_COLUMNS);
+  const [includePending, setIncludePending] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [verifyFile, setVerifyFile] = useState<File | null>(null);
+  const [verifyManifest, setVerifyManifest] = useState<File | null>(null);
+  const [verification, setVerification] = useState<ManifestVerification | null>(null);
+
+  // The manifest is signed by the active account, or the first account that can sign
+  const signingAccount = !isWatchOnlyAccount(activeAccount)
+    ? activeAccount
+    : accounts.find((account) => !isWatchOnlyAccount(account)) || null;
+
+  const handlePreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') {
+      setRange(getPresetRange(value));
+    }
+  };
+
+  const toggleColumn = (id: ExportColumnId) => {
+    setColumns((prev) =>
+      prev.includes(id) ? prev.filter((c) => c !== id) : EXPORT_COLUMNS.map((c) => c.id).filter((c) => c === id || prev.includes(c))
+    );
+  };
+
+  const handleExport = async () => {
+    if (!signingAccount) {
+      toast.error('Cannot Sign Export', 'Add an account that can sign to create a signed manifest');
+      return;
+    }
+
+    const selectedAccounts = scope === 'all' ? accounts : activeAccount ? [activeAccount] : [];
+
+    setIsExporting(true);
+    try {
+      const signer = createAccountSigner(mnemonic || '', signingAccount);
+      const result = await createTransactionExport(
+        {
+          format,
+          accounts: selectedAccounts.map((account) => ({ address: account.address, name: account.name })),
+          fromDate: toTimestamp(range.from, false),
+          toDate: toTimestamp(range.to, true),
+          columns,
+          includePending,
+        },
+        signer
+      );
+
+      downloadFile(result.content, result.fileName, result.mimeType);
+      downloadFile(JSON.stringify(result.manifest, null, 2), getManifestFileName(result.manifest), 'application/json');
+
+      logAuditEvent('transactions_exported', 'transaction', `Exported ${result.rowCount} transactions as ${format.toUpperCase()}`, {
+        accounts: result.manifest.accounts,
+        dateRange: result.manifest.date_range,
+        sha256: result.manifest.sha256,
+        signer: signingAccount.address,
+      });
+      toast.success('Export Ready', `${result.rowCount} transactions - keep the manifest file with the export`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Export failed';
+      toast.error('Export Failed', message === 'WALLET_LOCKED' ? 'Unlock the wallet to sign the manifest' : message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!verifyFile || !verifyManifest) return;
+    try {
+      const manifest = parseExportManifest(await verifyManifest.text());
+      setVerification(verifyExportManifest(manifest, await verifyFile.text()));
+    } catch (err) {
+      setVerification({ status: 'invalid', reason: err instanceof Error ? err.message : 'Could not read the files' });
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-semibold rounded-[4px] border-2 transition-colors ${
+      active ? 'bg-[#0019ff] border-[#0019ff] text-white' : 'bg-white border-gray-300 text-gray-700 hover:border-[#0019ff]'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 overflow-y-auto">
+      <div
+        className="bg-white/95 backdrop-blur-xl rounded-2xl shadow-2xl p-6 sm:p-8 max-w-2xl w-full my-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+        >
+          <X size={24} />
+        </button>
+
+        {/* Header */}
+        <div className="mb-5">
+          <div className="flex items-center gap-3 mb-2">
+            <Download className="text-[#0019ff]" size={28} />
+            <h2 className="text-2xl font-bold text-gray-900">Export Transactions</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            Accounting export with labels, contacts, fees and USD values. A signed manifest is downloaded with every
+            export so the file can be verified later.
+          </p>
+        </div>
+
+        {/* Accounts */}
+        <div className="mb-4">
+          <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Accounts</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => setScope('active')} className={chipClass(scope === 'active')}>
+              {activeAccount ? activeAccount.name : 'Active account'}
+            </button>
+            <button onClick={() => setScope('all')} className={chipClass(scope === 'all')}>
+              All accounts ({accounts.length})
+            </button>
+          </div>
+        </div>
+
+        {/* Date range */}
+        <div className="mb-4">
+          <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Date Range</p>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {RANGE_PRESETS.map((option) => (
+              <button key={option.value} onClick={() => handlePreset(option.value)} className={chipClass(preset === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="date"
+                value={range.from}
+                onChange={(e) => setRange({ ...range, from: e.target.value })}
+                className="px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm text-gray-900 focus:border-[#0019ff] outline-none"
+              />
+              <input
+                type="date"
+                value={range.to}
+                onChange={(e) => setRange({ ...range, to: e.target.value })}
+                className="px-3 py-2 border-2 border-gray-300 rounded-[4px] text-sm text-gray-900 focus:border-[#0019ff] outline-none"
+              />
+            </div>
+          )}
+          {preset !== 'custom' && preset !== 'all' && (
+            <p className="text-xs text-gray-500">{range.from} to {range.to}</p>
+          )}
+        </div>
+
+        {/* Format */}
+        <div className="mb-4">
+          <p className="text-xs font-bold text-gray-700 uppercase tracking-wide mb-2">Format</p>
+          <div className="flex flex-wrap gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <button key={option.value} onClick={() => setFormat(option.value)} className={chipClass(format === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {(format === 'ofx' || format === 'qfx') && (
+            <p className="text-xs text-gray-500 mt-2">
+              One statement per account with amounts in USD at transaction time; RAIN amounts are kept in the memo.
+              Pending transactions are left out, and the closing balance is the balance at the end date. Every
+              transaction needs a USD price from the node - otherwise export CSV or JSON.
+            </p>
+          )}
+        </div>
+
+        {/* CSV columns */}
+        {format === 'csv' && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-bold text-gray-700 uppercase tracking-wide">Columns</p>
+              <button
+                onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}
+                className="text-xs font-semibold text-[#0019ff] hover:underline"
+              >
+                Reset
+              </button>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-1.5 bg-gray-50 border border-gray-200 rounded-[4px] p-3">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column.id} className="flex items-center gap-2 text-xs text-gray-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="w-3.5 h-3.5 text-[#0019ff] border-gray-300 rounded focus:ring-[#0019ff]"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-800 mb-5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includePending}
+            onChange={(e) => setIncludePending(e.target.checked)}
+            className="w-4 h-4 text-[#0019ff] border-gray-300 rounded focus:ring-[#0019ff]"
+          />
+          Include pending transactions
+        </label>
+
+        <div className="bg-gray-50 border border-gray-200 rounded-[4px] p-3 mb-4 text-xs text-gray-700">
+          {signingAccount ? (
+            <>Manifest signed by <span className="font-semibold">{signingAccount.name}</span> <span className="font-mono">({signingAccount.address.slice(0, 10)}...)</span></>
+          ) : (
+            'No account can sign - add or import an account with a key to export'
+          )}
+        </div>
+
+        <div className="flex gap-3 mb-6">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2.5 bg-white border-2 border-gray-300 text-black rounded-[4px] font-semibold hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !signingAccount || (format === 'csv' && columns.length === 0)}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-[#0019ff] text-white rounded-[4px] font-semibold hover:bg-[#0015cc] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+
+        {/* Verify */}
+        <div className="border-t border-gray-200 pt-5">
+          <div className="flex items-center gap-2 mb-2">
+            <FileCheck className="w-5 h-5 text-[#0019ff]" />
+            <h3 className="text-sm font-bold text-black">Verify an Export</h3>
+          </div>
+          <p className="text-xs text-gray-600 mb-3">
+            Check that an exported file matches its manifest and that the manifest was signed by the stated account.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+            <label className="text-xs text-gray-700">
+              <span className="block font-semibold mb-1">Export file</span>
+              <input
+                type="file"
+                accept=".csv,.ofx,.qfx,.json"
+                onChange={(e) => {
+                  setVerifyFile(e.target.files?.[0] || null);
+                  setVerification(null);
+                }}
+                className="block w-full text-xs"
+              />
+            </label>
+            <label className="text-xs text-gray-700">
+              <span className="block font-semibold mb-1">Manifest</span>
+              <input
+                type="file"
+                accept=".json"
+                onChange={(e) => {
+                  setVerifyManifest(e.target.files?.[0] || null);
+                  setVerification(null);
+                }}
+                className="block w-full text-xs"
+              />
+            </label>
+          </div>
+          <button
+            onClick={handleVerify}
+            disabled={!verifyFile || !verifyManifest}
+            className="px-4 py-2 bg-white border-2 border-gray-300 text-black rounded-[4px] text-sm font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Verify
+          </button>
+
+          {verification?.status === 'valid' && (
+            <div className="mt-3 bg-green-50 border border-green-300 rounded-[4px] p-3 flex gap-2">
+              <ShieldCheck className="w-4 h-4 text-green-700 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-green-900">
+                Unmodified export, signed by <span className="font-mono">{verification.address}</span>
+              </p>
+            </div>
+          )}
+          {verification?.status === 'invalid' && (
+            <div className="mt-3 bg-red-50 border-2 border-red-300 rounded-[4px] p-3 flex gap-2">
+              <ShieldAlert className="w-4 h-4 text-red-700 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-red-900">{verification.reason}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * usePaymentScheduler Hook
+ * Runs authorized scheduled payments (see lib/payment-scheduler.ts) while
+ * the wallet is open - locked or not. The mnemonic, when the wallet is
+ * unlocked, is only used to re-sign a pre-signed queue that was displaced.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { useNetworkStore } from '@/lib/network-store';
+import {
+  runDuePayments,
+  usePaymentSchedulerStore,
+  type SchedulerJob,
+  type SchedulerRun,
+} from '@/lib/payment-scheduler';
+
+const CHECK_INTERVAL_MS = 30000;
+
+interface UsePaymentSchedulerOptions {
+  address: string | null;
+  mnemonic?: string | null;
+}
+
+interface PaymentSchedulerView {
+  jobs: SchedulerJob[]; // This account on this network, newest first
+  runs: SchedulerRun[]; // Runs of those jobs, newest first
+  runNow: () => Promise<void>;
+}
+
+export function usePaymentScheduler({ address, mnemonic }: UsePaymentSchedulerOptions): PaymentSchedulerView {
+  const networkId = useNetworkStore((state) => state.currentNetwork.id);
+  const allJobs = usePaymentSchedulerStore((state) => state.jobs);
+  const allRuns = usePaymentSchedulerStore((state) => state.runs);
+
+  const jobs = useMemo(
+    () => allJobs
+      .filter((job) => !!address && job.networkId === networkId && job.from.toLowerCase() === address.toLowerCase())
+      .sort((a, b) => b.createdAt - a.createdAt),
+    [allJobs, address, networkId]
+  );
+
+  const runs = useMemo(() => {
+    const ids = new Set(jobs.map((job) => job.id));
+    return allRuns.filter((run) => ids.has(run.jobId));
+  }, [allRuns, jobs]);
+
+  const hasOpenJobs = jobs.some((job) => job.status === 'active' || job.status === 'needs_signature');
+
+  const runNow = useCallback(async () => {
+    if (!address) return;
+    try {
+      await runDuePayments(address, mnemonic || undefined);
+    } catch (error) {
+      console.error('Payment scheduler run failed:', error);
+    }
+  }, [address, mnemonic]);
+
+  useEffect(() => {
+    if (!address || !hasOpenJobs) return;
+
+    void runNow();
+    const intervalId = setInterval(runNow, CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [address, hasOpenJobs, runNow]);
+
+  return { jobs, runs, runNow };
+}
@@ -0,0 +1,137 @@
+/**
+ * usePendingTransactions Hook
+ * Watches the account's tracked broadcasts until they settle.
+ * WebSocket `new_block` / `new_transaction` events drive updates while connected;
+ * without a WebSocket the node is polled instead.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { fetchTransactionPage, getAccountNonce, getBlockchainStatus } from '@/lib/rainum-api';
+import { useNetworkStore } from '@/lib/network-store';
+import {
+  isWatched,
+  usePendingTransactionsStore,
+  type ObservedTransaction,
+  type TrackedTransaction,
+} from '@/lib/pending-transactions';
+import { nonceAccountKey, summarizeNonces, useNonceStore, type AccountNonceStatus } from '@/lib/nonce-manager';
+import type { NewBlockEvent, NewTransactionEvent } from '@/hooks/useWebSocket';
+
+const POLL_INTERVAL_MS = 10000; // WebSocket disconnected
+const SAFETY_POLL_INTERVAL_MS = 60000; // WebSocket connected - catches drops when no events arrive
+const RECENT_HISTORY_LIMIT = 50;
+
+interface UsePendingTransactionsOptions {
+  address: string | null;
+  wsConnected: boolean;
+}
+
+interface PendingTransactionsView {
+  tracked: TrackedTransaction[]; // Newest first
+  watchingCount: number; // Pending or not yet final
+  nonceStatus: AccountNonceStatus | null; // Local nonce reservations, gaps and stuck nonce
+  handleNewBlock: (event: NewBlockEvent) => void;
+  handleNewTransaction: (event: NewTransactionEvent) => void;
+  refresh: () => Promise<void>;
+  dismiss: (id: string) => void;
+  clearSettled: () => void;
+}
+
+export function usePendingTransactions({ address, wsConnected }: UsePendingTransactionsOptions): PendingTransactionsView {
+  const networkId = useNetworkStore((state) => state.currentNetwork.id);
+  const allTracked = usePendingTransactionsStore((state) => state.transactions);
+  const { reconcileAccount, dismiss, clearSettled } = usePendingTransactionsStore();
+  const nonceAccount = useNonceStore((state) => (address ? state.accounts[nonceAccountKey(networkId, address)] : undefined));
+  const headHeightRef = useRef<number | undefined>(undefined);
+  const refreshingRef = useRef(false);
+
+  const tracked = useMemo(
+    () => allTracked
+      .filter((tx) => !!address && tx.networkId === networkId && tx.from.toLowerCase() === address.toLowerCase())
+      .sort((a, b) => b.submittedAt - a.submittedAt),
+    [allTracked, address, networkId]
+  );
+  const watchingCount = tracked.filter(isWatched).length;
+
+  const nonceStatus = useMemo(() => (address ? summarizeNonces(nonceAccount) : null), [address, nonceAccount]);
+
+  /**
+   * Check the head, the account nonce and recent outgoing history in one go
+   */
+  const refresh = useCallback(async () => {
+    if (!address || refreshingRef.current) return;
+    refreshingRef.current = true;
+
+    try {
+      const [status, accountNonce, page] = await Promise.all([
+        getBlockchainStatus(),
+        getAccountNonce(address),
+        // An empty page would look like "nothing was included" - a failed request must stay null
+        fetchTransactionPage(address, { direction: 'outgoing', limit: RECENT_HISTORY_LIMIT }).catch(() => null),
+      ]);
+
+      if (page) {
+        useNonceStore.getState().syncChainNonce(address, accountNonce);
+      }
+
+      if (status?.connected && status.block_height > 0) {
+        headHeightRef.current = Math.max(headHeightRef.current ?? 0, status.block_height);
+      }
+
+      reconcileAccount(networkId, address, {
+        transactions: page?.transactions,
+        // getAccountNonce answers 0 when the node is unreachable - that proves nothing
+        accountNonce: page ? accountNonce : undefined,
+        headHeight: headHeightRef.current,
+      });
+    } catch (error) {
+      console.error('Failed to refresh pending transactions:', error);
+    } finally {
+      refreshingRef.current = false;
+    }
+  }, [address, networkId, reconcileAccount]);
+
+  const handleNewBlock = useCallback((event: NewBlockEvent) => {
+    headHeightRef.current = Math.max(headHeightRef.current ?? 0, event.block_id);
+    if (watchingCount > 0) {
+      void refresh();
+    }
+  }, [refresh, watchingCount]);
+
+  const handleNewTransaction = useCallback((event: NewTransactionEvent) => {
+    const observed = event.transaction as ObservedTransaction | undefined;
+    if (!address || !observed || observed.from?.toLowerCase() !== address.toLowerCase()) return;
+
+    reconcileAccount(networkId, address, {
+      transactions: [observed],
+      headHeight: headHeightRef.current,
+    });
+  }, [address, networkId, reconcileAccount]);
+
+  // Polling fallback (and a slow safety net while the WebSocket is up)
+  useEffect(() => {
+    if (!address || watchingCount === 0) return;
+
+    void refresh();
+    const intervalId = setInterval(refresh, wsConnected ? SAFETY_POLL_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [address, watchingCount, wsConnected, refresh]);
+
+  // Block heights don't carry over between networks
+  useEffect(() => {
+    headHeightRef.current = undefined;
+  }, [networkId]);
+
+  return {
+    tracked,
+    watchingCount,
+    nonceStatus,
+    handleNewBlock,
+    handleNewTransaction,
+    refresh,
+    dismiss,
+    clearSettled: () => {
+      if (address) clearSettled(networkId, address);
+    },
+  };
+}
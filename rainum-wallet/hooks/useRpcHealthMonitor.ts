@@ -0,0 +1,16 @@
+/**
+ * useRpcHealthMonitor Hook
+ * Keeps the RPC endpoint health monitor running while the component is mounted
+ */
+
+import { useEffect } from 'react';
+import { startRpcHealthMonitor, DEFAULT_MONITOR_INTERVAL } from '@/lib/rpc-health-monitor';
+
+/**
+ * @param refreshInterval - How often to check the endpoints in milliseconds (default: 15000ms)
+ */
+export function useRpcHealthMonitor(refreshInterval: number = DEFAULT_MONITOR_INTERVAL): void {
+  useEffect(() => {
+    return startRpcHealthMonitor(refreshInterval);
+  }, [refreshInterval]);
+}
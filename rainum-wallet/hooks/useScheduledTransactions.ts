@@ -2,6 +2,7 @@ import { useEffect, useRef } from 'react';
 import { useScheduledTxStore } from '@/lib/scheduled-tx-store';
 import { sendTransaction } from '@/lib/rainum-api';
 import { toast } from '@/lib/toast-store';
+import { getOpenJobForSource } from '@/lib/payment-scheduler';
 
 interface UseScheduledTransactionsProps {
   address?: string;
@@ -32,7 +33,10 @@ export function useScheduledTransactions({
         return;
       }
 
-      const dueTransactions = getDueTransactions();
+      // Payments authorized in the payment scheduler are run there
+      const dueTransactions = getDueTransactions().filter(
+        (tx) => !getOpenJobForSource({ type: 'scheduled', id: tx.id })
+      );
 
       if (dueTransactions.length === 0) {
         return;
@@ -45,6 +49,9 @@ export function useScheduledTransactions({
           try {
             console.log('Executing scheduled transaction:', tx);
 
+            // Nonces come from the shared nonce manager - a run that fires
+            // during a manual send gets the next free nonce, not the same one
+
             const result = await sendTransaction(
               address,
               tx.to,
@@ -0,0 +1,108 @@
+/**
+ * useTransactionHistory Hook
+ * Filtered, searchable and infinitely scrolling view of an account's transaction history.
+ * Pages through the (cached) history with the same cursors getTransactions uses, and
+ * searches labels and address-book names that only exist in this wallet.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTransactionLabelsStore, type TransactionCategory } from '@/lib/transaction-labels-store';
+import { useAddressBookStore } from '@/lib/address-book-store';
+import {
+  DEFAULT_TRANSACTION_PAGE_SIZE,
+  filterTransactions,
+  paginateTransactions,
+  type HistoryTransaction,
+  type TransactionFilters,
+  type TransactionPage,
+  type TransactionSort,
+} from '@/lib/transaction-query';
+
+interface UseTransactionHistoryOptions<T extends HistoryTransaction> {
+  transactions: T[];
+  address: string | null;
+  filters: TransactionFilters;
+  sort: TransactionSort;
+  search: string;
+  categories: TransactionCategory[];
+  pageSize?: number;
+}
+
+interface TransactionHistoryView<T> {
+  items: T[]; // Loaded pages, in order
+  total: number; // All matching transactions
+  hasMore: boolean;
+  loadMore: () => void;
+  sentinelRef: (element: HTMLElement | null) => void; // Attach below the list - loads the next page when visible
+}
+
+export function useTransactionHistory<T extends HistoryTransaction>({
+  transactions,
+  address,
+  filters,
+  sort,
+  search,
+  categories,
+  pageSize = DEFAULT_TRANSACTION_PAGE_SIZE,
+}: UseTransactionHistoryOptions<T>): TransactionHistoryView<T> {
+  const labels = useTransactionLabelsStore((state) => state.labels);
+  const addresses = useAddressBookStore((state) => state.addresses);
+  const [pageCount, setPageCount] = useState(1);
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  // Contacts saved by this wallet (same scope as searchAddresses)
+  const contacts = useMemo(
+    () => addresses.filter((entry) => !!address && entry.walletAddress?.toLowerCase() === address.toLowerCase()),
+    [address, addresses]
+  );
+
+  const matching = useMemo(() => {
+    if (!address) return [];
+    return filterTransactions(transactions, address, { ...filters, sort }, {
+      search,
+      categories,
+      context: { labels, contacts },
+    });
+  }, [transactions, address, filters, sort, search, categories, labels, contacts]);
+
+  // Back to the first page whenever the query changes
+  const queryKey = JSON.stringify([address, filters, sort, search, categories]);
+  useEffect(() => {
+    setPageCount(1);
+  }, [queryKey]);
+
+  const { items, nextCursor } = useMemo(() => {
+    const loaded: T[] = [];
+    let cursor: string | null = null;
+    for (let page = 0; page < pageCount; page++) {
+      const result: TransactionPage<T> = paginateTransactions(matching, sort, cursor, pageSize);
+      loaded.push(...result.transactions);
+      cursor = result.nextCursor;
+      if (!cursor) break;
+    }
+    return { items: loaded, nextCursor: cursor };
+  }, [matching, sort, pageCount, pageSize]);
+
+  const hasMore = nextCursor !== null;
+
+  useEffect(() => {
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setPageCount((count) => count + 1);
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasMore, items.length]);
+
+  return {
+    items,
+    total: matching.length,
+    hasMore,
+    loadMore: () => setPageCount((count) => count + 1),
+    sentinelRef: setSentinel,
+  };
+}
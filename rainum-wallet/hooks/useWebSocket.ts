@@ -2,6 +2,7 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { toast } from '@/lib/toast-store';
 import { useNetworkStore } from '@/lib/network-store';
 import { formatBalance } from '@/lib/format-balance';
+import { cacheLiveTransaction } from '@/lib/transaction-cache';
 
 export interface WebSocketMessage {
   type: string;
@@ -133,6 +134,13 @@ export function useWebSocket({
         switch (message.type) {
           case 'new_transaction':
             const txEvent = message as NewTransactionEvent;
+
+            // Keep the local history cache current without waiting for the next sync
+            const txAddress = txEvent.address || addressRef.current;
+            if (txAddress && txEvent.transaction?.hash) {
+              void cacheLiveTransaction(txAddress, txEvent.transaction, txEvent.direction);
+            }
+
             callbacksRef.current.onNewTransaction?.(txEvent);
 
             // Show notification for incoming funds
@@ -0,0 +1,174 @@
+/**
+ * Account Discovery Engine
+ * Scans HD indices in batches until `gapLimit` consecutive indices show no on-chain activity
+ * (BIP44-style gap limit), and reports what was found for every scanned index.
+ *
+ * - Lookups run in parallel per batch (fetchAccountState, then fetchTransactionHistory for hits)
+ * - Failed lookups are reported and don't count toward the gap; if a whole batch fails the scan stops
+ * - Scans can be cancelled with an AbortSignal; the partial report is returned
+ * - Progress events are emitted after every batch
+ */
+
+import { deriveAccountFromMnemonic, type DerivationScheme } from './hd-wallet';
+import { EXTERNAL_ACCOUNT_INDEX_BASE } from './wallet-store';
+
+export const DEFAULT_GAP_LIMIT = 20;
+export const MIN_GAP_LIMIT = 1;
+export const MAX_GAP_LIMIT = 100;
+const DEFAULT_BATCH_SIZE = 5;
+
+export interface DiscoveryEntry {
+  index: number;
+  address: string;
+  exists: boolean;
+  balance: number;
+  txCount: number;
+  added: boolean; // Newly added to the wallet by this scan
+  error?: string; // Lookup failed - activity unknown
+}
+
+export interface DiscoveryReport {
+  entries: DiscoveryEntry[];
+  gapLimit: number;
+  scanned: number;
+  found: number;
+  added: number;
+  cancelled: boolean;
+  interrupted: boolean; // Stopped because every lookup of a batch failed (node unreachable)
+  startedAt: number;
+  finishedAt: number;
+}
+
+export interface DiscoveryProgress {
+  scanned: number;
+  found: number;
+  emptyStreak: number;
+  gapLimit: number;
+  entries: DiscoveryEntry[]; // Entries of the batch that just completed
+}
+
+export interface DiscoveryOptions {
+  gapLimit?: number;
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: DiscoveryProgress) => void;
+}
+
+/**
+ * Clamp a user-provided gap limit to the supported range
+ */
+export function normalizeGapLimit(gapLimit: number | undefined): number {
+  if (!gapLimit || !Number.isFinite(gapLimit)) return DEFAULT_GAP_LIMIT;
+  return Math.min(MAX_GAP_LIMIT, Math.max(MIN_GAP_LIMIT, Math.floor(gapLimit)));
+}
+
+async function lookupIndex(
+  index: number,
+  address: string,
+  knownIndices: Set<number>
+): Promise<DiscoveryEntry> {
+  const { fetchAccountState, fetchTransactionHistory } = await import('./rainum-api');
+
+  try {
+    const { exists, balance } = await fetchAccountState(address);
+    if (!exists) {
+      return { index, address, exists: false, balance: 0, txCount: 0, added: false };
+    }
+
+    const transactions = await fetchTransactionHistory(address).catch(() => []);
+    return {
+      index,
+      address,
+      exists: true,
+      balance,
+      txCount: transactions.length,
+      added: !knownIndices.has(index),
+    };
+  } catch (err) {
+    return {
+      index,
+      address,
+      exists: false,
+      balance: 0,
+      txCount: 0,
+      added: false,
+      error: err instanceof Error ? err.message : 'Lookup failed',
+    };
+  }
+}
+
+/**
+ * Scan the HD tree of a mnemonic for accounts with on-chain activity
+ * @param knownIndices - HD indices already in the wallet (they are reported but not "added")
+ */
+export async function runAccountDiscovery(
+  mnemonic: string,
+  passphrase: string,
+  scheme: DerivationScheme,
+  knownIndices: number[],
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryReport> {
+  const gapLimit = normalizeGapLimit(options.gapLimit);
+  const batchSize = Math.max(1, Math.floor(options.batchSize || DEFAULT_BATCH_SIZE));
+  const known = new Set(knownIndices);
+  const startedAt = Date.now();
+
+  const entries: DiscoveryEntry[] = [];
+  let emptyStreak = 0;
+  let cancelled = false;
+  let interrupted = false;
+  let nextIndex = 0;
+
+  // HD indices stay below the id range of imported / watch-only accounts
+  while (emptyStreak < gapLimit && nextIndex < EXTERNAL_ACCOUNT_INDEX_BASE) {
+    if (options.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+
+    const batch: { index: number; address: string }[] = [];
+    const batchEnd = Math.min(nextIndex + batchSize, EXTERNAL_ACCOUNT_INDEX_BASE);
+    for (let index = nextIndex; index < batchEnd; index++) {
+      batch.push({ index, address: deriveAccountFromMnemonic(mnemonic, index, passphrase, scheme).address });
+    }
+    nextIndex = batchEnd;
+
+    const results = await Promise.all(batch.map(({ index, address }) => lookupIndex(index, address, known)));
+
+    // Walk the batch in index order so the gap is counted exactly - unknown indices don't count
+    const accepted: DiscoveryEntry[] = [];
+    for (const entry of results) {
+      accepted.push(entry);
+      if (entry.error) continue;
+      emptyStreak = entry.exists ? 0 : emptyStreak + 1;
+      if (emptyStreak >= gapLimit) break;
+    }
+    entries.push(...accepted);
+
+    options.onProgress?.({
+      scanned: entries.length,
+      found: entries.filter((e) => e.exists).length,
+      emptyStreak,
+      gapLimit,
+      entries: accepted,
+    });
+
+    // Nothing answered - scanning on would only fill the report with failures
+    if (results.every((entry) => entry.error)) {
+      interrupted = true;
+      break;
+    }
+  }
+
+  return {
+    entries,
+    gapLimit,
+    scanned: entries.length,
+    found: entries.filter((e) => e.exists).length,
+    added: entries.filter((e) => e.added).length,
+    cancelled,
+    interrupted,
+    startedAt,
+    finishedAt: Date.now(),
+  };
+}
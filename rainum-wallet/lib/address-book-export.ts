@@ -0,0 +1,345 @@
+/**
+ * Address Book Import / Export
+ * Contacts as CSV, JSON or vCard (one VCARD per entry; the address and its
+ * network travel in X-RAINUM-* properties, tags in CATEGORIES).
+ *
+ * Imports are checked entry by entry - rows with an invalid address are
+ * reported and left out, everything else is trimmed to the store's limits.
+ */
+
+import { sanitizeAddress } from './input-sanitizer';
+import { csvCell, parseCsv } from './csv';
+import type { ImportedAddress, SavedAddress } from './address-book-store';
+import type { VMType } from './rainum-api';
+
+export type AddressBookFormat = 'csv' | 'json' | 'vcf';
+
+export const ADDRESS_BOOK_FORMATS: { value: AddressBookFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { value: 'vcf', label: 'vCard', extension: 'vcf', mimeType: 'text/vcard' },
+];
+
+const JSON_TYPE = 'rainum-address-book';
+const JSON_VERSION = 1;
+const MAX_NAME_LENGTH = 64;
+const MAX_IMPORT_ENTRIES = 5000;
+
+const CSV_COLUMNS = ['name', 'address', 'network', 'chain_id', 'vm', 'tags', 'notes', 'favorite', 'added_at', 'last_used_at'] as const;
+
+export interface AddressBookImport {
+  entries: ImportedAddress[];
+  errors: string[]; // One per rejected entry
+}
+
+function toIso(timestamp?: number): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+function fromIso(value?: string): number | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+}
+
+function toVmType(value?: string): VMType | undefined {
+  const vm = value?.trim().toLowerCase();
+  return vm === 'evm' || vm === 'move' ? vm : undefined;
+}
+
+export function formatAddressBookCsv(entries: SavedAddress[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...entries.map((entry) =>
+      [
+        entry.name,
+        entry.address,
+        entry.networkId,
+        entry.chainId,
+        entry.vmType,
+        entry.tags?.join(';'),
+        entry.notes,
+        entry.isFavorite ? 'yes' : undefined,
+        toIso(entry.addedAt),
+        toIso(entry.lastUsedAt),
+      ].map(csvCell).join(',')
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function formatAddressBookJson(entries: SavedAddress[]): string {
+  return JSON.stringify(
+    {
+      type: JSON_TYPE,
+      version: JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      entries: entries.map((entry) => ({
+        name: entry.name,
+        address: entry.address,
+        networkId: entry.networkId,
+        chainId: entry.chainId,
+        vmType: entry.vmType,
+        tags: entry.tags,
+        notes: entry.notes,
+        isFavorite: entry.isFavorite,
+        addedAt: toIso(entry.addedAt),
+        lastUsedAt: toIso(entry.lastUsedAt),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// RFC 6350 text escaping
+function vcardText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+}
+
+// Lines longer than 75 characters continue on the next line after a space
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join('\r\n ');
+}
+
+export function formatAddressBookVcard(entries: SavedAddress[]): string {
+  return entries
+    .map((entry) =>
+      [
+        'BEGIN:VCARD',
+        'VERSION:4.0',
+        `FN:${vcardText(entry.name)}`,
+        `X-RAINUM-ADDRESS:${entry.address}`,
+        entry.networkId && `X-RAINUM-NETWORK:${vcardText(entry.networkId)}`,
+        entry.chainId && `X-RAINUM-CHAIN-ID:${vcardText(entry.chainId)}`,
+        entry.vmType && `X-RAINUM-VM:${entry.vmType}`,
+        entry.tags?.length && `CATEGORIES:${entry.tags.map(vcardText).join(',')}`,
+        entry.notes && `NOTE:${vcardText(entry.notes)}`,
+        entry.isFavorite && 'X-RAINUM-FAVORITE:1',
+        entry.lastUsedAt && `X-RAINUM-LAST-USED:${toIso(entry.lastUsedAt)}`,
+        `REV:${toIso(entry.addedAt)}`,
+        'END:VCARD',
+      ]
+        .filter((line): line is string => typeof line === 'string' && line.length > 0)
+        .map(foldLine)
+        .join('\r\n')
+    )
+    .join('\r\n') + '\r\n';
+}
+
+export function formatAddressBook(entries: SavedAddress[], format: AddressBookFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatAddressBookCsv(entries);
+    case 'json':
+      return formatAddressBookJson(entries);
+    case 'vcf':
+      return formatAddressBookVcard(entries);
+  }
+}
+
+export function getAddressBookFileName(format: AddressBookFormat): string {
+  const extension = ADDRESS_BOOK_FORMATS.find((f) => f.value === format)?.extension || format;
+  return `rainum-address-book-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Check one entry - returns an error message or the cleaned entry
+ */
+function toImportedAddress(raw: {
+  name?: string;
+  address?: string;
+  networkId?: string;
+  chainId?: string;
+  vmType?: string;
+  tags?: string[];
+  notes?: string;
+  isFavorite?: boolean;
+  addedAt?: string;
+  lastUsedAt?: string;
+}): ImportedAddress | string {
+  const address = sanitizeAddress(raw.address || '');
+  if (!address) {
+    return `invalid address "${(raw.address || '').slice(0, 50)}"`;
+  }
+
+  return {
+    name: raw.name?.trim().slice(0, MAX_NAME_LENGTH) || `${address.slice(0, 6)}...${address.slice(-4)}`,
+    address,
+    networkId: raw.networkId?.trim() || undefined,
+    chainId: raw.chainId?.trim() || undefined,
+    vmType: toVmType(raw.vmType),
+    tags: raw.tags,
+    notes: raw.notes,
+    isFavorite: raw.isFavorite,
+    addedAt: fromIso(raw.addedAt),
+    lastUsedAt: fromIso(raw.lastUsedAt),
+  };
+}
+
+function collect(raws: Parameters<typeof toImportedAddress>[0][], label: (index: number) => string): AddressBookImport {
+  if (raws.length > MAX_IMPORT_ENTRIES) {
+    throw new Error(`An import can have at most ${MAX_IMPORT_ENTRIES} entries`);
+  }
+
+  const result: AddressBookImport = { entries: [], errors: [] };
+  raws.forEach((raw, index) => {
+    const entry = toImportedAddress(raw);
+    if (typeof entry === 'string') {
+      result.errors.push(`${label(index)}: ${entry}`);
+    } else {
+      result.entries.push(entry);
+    }
+  });
+  return result;
+}
+
+function parseCsvBook(text: string): AddressBookImport {
+  const rows = parseCsv(text).filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) || [];
+  const column = (name: string) => header.indexOf(name);
+  if (column('address') < 0) {
+    throw new Error('The CSV file needs a header row with an "address" column');
+  }
+
+  const cell = (cells: string[], name: string) => {
+    const index = column(name);
+    // Undo the formula guard added on export
+    return index >= 0 ? cells[index]?.trim().replace(/^'(?=[=+\-@])/, '') : undefined;
+  };
+
+  return collect(
+    rows.slice(1).map((cells) => ({
+      name: cell(cells, 'name'),
+      address: cell(cells, 'address'),
+      networkId: cell(cells, 'network'),
+      chainId: cell(cells, 'chain_id'),
+      vmType: cell(cells, 'vm'),
+      tags: cell(cells, 'tags')?.split(';'),
+      notes: cell(cells, 'notes'),
+      isFavorite: ['yes', 'true', '1'].includes(cell(cells, 'favorite')?.toLowerCase() || ''),
+      addedAt: cell(cells, 'added_at'),
+      lastUsedAt: cell(cells, 'last_used_at'),
+    })),
+    (index) => `Row ${index + 2}`
+  );
+}
+
+function parseJsonBook(text: string): AddressBookImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const list = Array.isArray(data) ? data : (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(list)) {
+    throw new Error('The JSON file has no address book entries');
+  }
+
+  const asText = (value: unknown) => (typeof value === 'string' ? value : undefined);
+  return collect(
+    list.map((item) => {
+      const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      return {
+        name: asText(entry.name),
+        address: asText(entry.address),
+        networkId: asText(entry.networkId),
+        chainId: asText(entry.chainId),
+        vmType: asText(entry.vmType),
+        tags: Array.isArray(entry.tags) ? entry.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+        notes: asText(entry.notes),
+        isFavorite: entry.isFavorite === true,
+        addedAt: asText(entry.addedAt),
+        lastUsedAt: asText(entry.lastUsedAt),
+      };
+    }),
+    (index) => `Entry ${index + 1}`
+  );
+}
+
+function unescapeVcardText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Split on commas that aren't escaped
+function splitVcardList(value: string): string[] {
+  const items: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === ',') {
+      items.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(value.slice(start));
+  return items.map(unescapeVcardText);
+}
+
+function parseVcardBook(text: string): AddressBookImport {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r\n[ \t]|\n[ \t]/g, '').split(/\r\n|\n|\r/);
+
+  const cards: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    // Drop parameters ("NOTE;LANGUAGE=en") and groups ("item1.X-...")
+    const name = line.slice(0, separator).split(';')[0].split('.').pop()?.toUpperCase() ?? '';
+    const value = line.slice(separator + 1);
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      current = {};
+    } else if (name === 'END' && value.toUpperCase() === 'VCARD') {
+      if (current) cards.push(current);
+      current = null;
+    } else if (current && !(name in current)) {
+      current[name] = value;
+    }
+  }
+
+  if (cards.length === 0) {
+    throw new Error('The file has no vCard entries');
+  }
+
+  return collect(
+    cards.map((card) => ({
+      name: card.FN !== undefined ? unescapeVcardText(card.FN) : undefined,
+      address: card['X-RAINUM-ADDRESS'],
+      networkId: card['X-RAINUM-NETWORK'] !== undefined ? unescapeVcardText(card['X-RAINUM-NETWORK']) : undefined,
+      chainId: card['X-RAINUM-CHAIN-ID'] !== undefined ? unescapeVcardText(card['X-RAINUM-CHAIN-ID']) : undefined,
+      vmType: card['X-RAINUM-VM'],
+      tags: card.CATEGORIES !== undefined ? splitVcardList(card.CATEGORIES) : undefined,
+      notes: card.NOTE !== undefined ? unescapeVcardText(card.NOTE) : undefined,
+      isFavorite: card['X-RAINUM-FAVORITE'] === '1',
+      addedAt: card.REV,
+      lastUsedAt: card['X-RAINUM-LAST-USED'],
+    })),
+    (index) => `Card ${index + 1}`
+  );
+}
+
+/**
+ * Read an address book file, by extension or else by its content
+ * @throws Error if the file can't be read as any of the formats
+ */
+export function parseAddressBook(text: string, fileName: string = ''): AddressBookImport {
+  const content = text.replace(/^\uFEFF/, '');
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = content.trimStart();
+
+  if (extension === 'json' || (extension !== 'csv' && extension !== 'vcf' && /^[[{]/.test(trimmed))) {
+    return parseJsonBook(content);
+  }
+  if (extension === 'vcf' || extension === 'vcard' || /^BEGIN:VCARD/i.test(trimmed)) {
+    return parseVcardBook(content);
+  }
+  return parseCsvBook(content);
+}
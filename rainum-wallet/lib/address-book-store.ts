@@ -1,5 +1,11 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { Network } from './network-store';
+import type { VMType } from './rainum-api';
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 32;
+export const MAX_NOTES_LENGTH = 500;
 
 export interface SavedAddress {
   id: string;
@@ -8,29 +14,81 @@ export interface SavedAddress {
   addedAt: number;
   isFavorite?: boolean;
   walletAddress?: string; // Which wallet saved this address
+  tags?: string[];
+  notes?: string;
+  networkId?: string; // Network it was saved for - none means any network
+  chainId?: string;
+  vmType?: VMType;
+  lastUsedAt?: number; // Last payment sent to it
 }
 
+/**
+ * Optional details of an entry (everything but name and address)
+ */
+export type AddressDetails = Partial<Pick<SavedAddress, 'tags' | 'notes' | 'networkId' | 'chainId' | 'vmType' | 'isFavorite'>>;
+
+/**
+ * Entry read from an import file
+ */
+export type ImportedAddress = Pick<SavedAddress, 'name' | 'address'> & AddressDetails & Partial<Pick<SavedAddress, 'addedAt' | 'lastUsedAt'>>;
+
 interface AddressBookState {
   addresses: SavedAddress[];
 
   // Actions
-  addAddress: (name: string, address: string, walletAddress: string) => void;
-  updateAddress: (id: string, name: string, address: string) => void;
+  addAddress: (name: string, address: string, walletAddress: string, details?: AddressDetails) => void;
+  updateAddress: (id: string, name: string, address: string, details?: AddressDetails) => void;
   deleteAddress: (id: string) => void;
   toggleFavorite: (id: string) => void;
+  markUsed: (address: string, walletAddress: string) => void;
+  importAddresses: (entries: ImportedAddress[], walletAddress: string) => { added: number; skipped: number };
   getFavorites: (walletAddress: string) => SavedAddress[];
   getAddressByName: (name: string, walletAddress: string) => SavedAddress | undefined;
   searchAddresses: (query: string, walletAddress: string) => SavedAddress[];
   getAddressesForWallet: (walletAddress: string) => SavedAddress[];
 }
 
+/**
+ * Trim tags (unique, at most MAX_TAGS) and notes; drop empty values
+ */
+export function normalizeDetails(details: AddressDetails = {}): AddressDetails {
+  const tags = [...new Set((details.tags || []).map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH)).filter(Boolean))].slice(0, MAX_TAGS);
+  const notes = details.notes?.trim().slice(0, MAX_NOTES_LENGTH);
+  return {
+    tags: tags.length > 0 ? tags : undefined,
+    notes: notes || undefined,
+    networkId: details.networkId || undefined,
+    chainId: details.chainId || undefined,
+    vmType: details.vmType,
+    isFavorite: details.isFavorite || undefined,
+  };
+}
+
+/**
+ * Split a comma separated tag input ("payroll, team") into tags
+ */
+export function parseTags(text: string): string[] {
+  return text.split(',').map((tag) => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Whether an entry was saved for another network than `network`
+ * Chain IDs decide when both sides have one, otherwise the network ID does
+ */
+export function isSavedForOtherNetwork(entry: SavedAddress, network: Pick<Network, 'id' | 'chainId'>): boolean {
+  if (!entry.networkId && !entry.chainId) return false;
+  if (entry.chainId && network.chainId) return entry.chainId !== network.chainId;
+  return !!entry.networkId && entry.networkId !== network.id;
+}
+
 export const useAddressBookStore = create<AddressBookState>()(
   persist(
     (set, get) => ({
       addresses: [],
 
-      addAddress: (name: string, address: string, walletAddress: string) => {
+      addAddress: (name: string, address: string, walletAddress: string, details?: AddressDetails) => {
         const newAddress: SavedAddress = {
+          ...normalizeDetails(details),
           id: Date.now().toString(),
           name,
           address: address.toLowerCase(),
@@ -43,11 +101,11 @@ export const useAddressBookStore = create<AddressBookState>()(
         }));
       },
 
-      updateAddress: (id: string, name: string, address: string) => {
+      updateAddress: (id: string, name: string, address: string, details?: AddressDetails) => {
         set((state) => ({
           addresses: state.addresses.map((addr) =>
             addr.id === id
-              ? { ...addr, name, address: address.toLowerCase() }
+              ? { ...addr, ...(details && { ...normalizeDetails(details), isFavorite: addr.isFavorite }), name, address: address.toLowerCase() }
               : addr
           ),
         }));
@@ -69,6 +127,44 @@ export const useAddressBookStore = create<AddressBookState>()(
         }));
       },
 
+      markUsed: (address: string, walletAddress: string) => {
+        const now = Date.now();
+        set((state) => ({
+          addresses: state.addresses.map((addr) =>
+            addr.address === address.toLowerCase() && addr.walletAddress?.toLowerCase() === walletAddress.toLowerCase()
+              ? { ...addr, lastUsedAt: now }
+              : addr
+          ),
+        }));
+      },
+
+      // Entries already saved for the same address and network are skipped
+      importAddresses: (entries: ImportedAddress[], walletAddress: string) => {
+        const wallet = walletAddress.toLowerCase();
+        const existing = get().addresses.filter((addr) => addr.walletAddress?.toLowerCase() === wallet);
+        const seen = new Set(existing.map((addr) => `${addr.address}:${addr.networkId ?? ''}`));
+
+        const now = Date.now();
+        const added: SavedAddress[] = [];
+        entries.forEach((entry, index) => {
+          const key = `${entry.address.toLowerCase()}:${entry.networkId ?? ''}`;
+          if (seen.has(key)) return;
+          seen.add(key);
+          added.push({
+            ...normalizeDetails(entry),
+            id: `${now}-${index}`,
+            name: entry.name,
+            address: entry.address.toLowerCase(),
+            addedAt: entry.addedAt ?? now,
+            lastUsedAt: entry.lastUsedAt,
+            walletAddress: wallet,
+          });
+        });
+
+        set((state) => ({ addresses: [...state.addresses, ...added] }));
+        return { added: added.length, skipped: entries.length - added.length };
+      },
+
       getAddressesForWallet: (walletAddress: string) => {
         const { addresses } = get();
         return addresses.filter(
@@ -105,7 +201,9 @@ export const useAddressBookStore = create<AddressBookState>()(
         return walletAddresses.filter(
           (addr) =>
             addr.name.toLowerCase().includes(lowerQuery) ||
-            addr.address.toLowerCase().includes(lowerQuery)
+            addr.address.toLowerCase().includes(lowerQuery) ||
+            addr.tags?.some((tag) => tag.toLowerCase().includes(lowerQuery)) ||
+            addr.notes?.toLowerCase().includes(lowerQuery)
         );
       },
     }),
@@ -0,0 +1,161 @@
+/**
+ * Address Poisoning Protection
+ * Attackers send dust (or zero-value) transfers from an address that shares its
+ * first and last characters with one of your counterparties, hoping you copy it
+ * from the history next time. Before a send the recipient is compared against:
+ *   - the address book and addresses this wallet has paid before (trusted)
+ *   - addresses that paid this wallet more than dust (known counterparties, lookalike check only)
+ *   - addresses that only ever sent this wallet dust (suspicious)
+ */
+
+import { useAddressBookStore } from './address-book-store';
+import { getTransactions } from './rainum-api';
+import type { HistoryTransaction } from './transaction-query';
+
+export const LOOKALIKE_MATCH_LENGTH = 4; // Hex characters compared at each end
+export const DUST_THRESHOLD = 1; // Incoming transfers of at most 1 RAIN count as dust
+const RECENT_TRANSACTION_LIMIT = 200;
+
+export type RecipientRiskReason = 'lookalike' | 'dust_sender' | 'first_time';
+
+export interface RecipientWarning {
+  reason: RecipientRiskReason;
+  severity: 'danger' | 'caution';
+  title: string;
+  message: string;
+  similarTo?: { address: string; name?: string; paidYou?: boolean }; // Lookalikes only - paidYou: known as a sender
+}
+
+export interface RecipientRisk {
+  address: string; // Lowercase recipient the check ran for
+  level: 'none' | 'caution' | 'danger';
+  warnings: RecipientWarning[];
+}
+
+export interface KnownCounterparties {
+  contacts: { name: string; address: string }[];
+  transactions: HistoryTransaction[];
+}
+
+/**
+ * Whether two different addresses share their first and last hex characters
+ */
+export function isLookalikeAddress(a: string, b: string, matchLength = LOOKALIKE_MATCH_LENGTH): boolean {
+  const x = a.toLowerCase().replace(/^0x/, '');
+  const y = b.toLowerCase().replace(/^0x/, '');
+  if (x === y || x.length !== y.length) return false;
+  return x.slice(0, matchLength) === y.slice(0, matchLength) && x.slice(-matchLength) === y.slice(-matchLength);
+}
+
+/**
+ * Character positions where two addresses differ (for highlighting)
+ */
+export function getDifferingPositions(a: string, b: string): Set<number> {
+  const positions = new Set<number>();
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i]?.toLowerCase() !== b[i]?.toLowerCase()) positions.add(i);
+  }
+  return positions;
+}
+
+// Amount of a transfer, or null when it is private and not visible to us
+function getKnownAmount(tx: HistoryTransaction): number | null {
+  if (tx.zkp_enabled) {
+    return tx.amount_visible !== null && tx.amount_visible !== undefined ? Number(tx.amount_visible) : null;
+  }
+  return Number(tx.amount) || 0;
+}
+
+function isDustOnly(transfers: HistoryTransaction[]): boolean {
+  return transfers.every((tx) => {
+    const amount = getKnownAmount(tx);
+    return amount !== null && amount <= DUST_THRESHOLD;
+  });
+}
+
+/**
+ * Compare a recipient against the wallet's contacts and history
+ */
+export function analyzeRecipient(recipient: string, walletAddress: string, known: KnownCounterparties): RecipientRisk {
+  const target = recipient.toLowerCase();
+  const wallet = walletAddress.toLowerCase();
+
+  // Trusted: saved contacts and everyone this wallet has paid
+  const trusted = new Map<string, string | undefined>();
+  known.contacts.forEach((contact) => trusted.set(contact.address.toLowerCase(), contact.name));
+  known.transactions.forEach((tx) => {
+    if (tx.from?.toLowerCase() === wallet && tx.to && !trusted.has(tx.to.toLowerCase())) {
+      trusted.set(tx.to.toLowerCase(), undefined);
+    }
+  });
+
+  // Incoming transfers grouped by sender
+  const received = new Map<string, HistoryTransaction[]>();
+  known.transactions.forEach((tx) => {
+    const from = tx.from?.toLowerCase();
+    if (from && from !== wallet && tx.to?.toLowerCase() === wallet) {
+      received.set(from, [...(received.get(from) || []), tx]);
+    }
+  });
+
+  // 🔒 Poisoners also copy addresses that paid you - every sender except dust-only ones is a lookalike target
+  const senders = [...received.entries()]
+    .filter(([address, transfers]) => !trusted.has(address) && !isDustOnly(transfers))
+    .map(([address]) => address);
+
+  const warnings: RecipientWarning[] = [];
+
+  if (!trusted.has(target)) {
+    const similarTrusted = [...trusted.entries()].find(([address]) => isLookalikeAddress(address, target));
+    const similarSender = senders.find((address) => isLookalikeAddress(address, target));
+
+    if (similarTrusted) {
+      const [address, name] = similarTrusted;
+      warnings.push({
+        reason: 'lookalike',
+        severity: 'danger',
+        title: 'Lookalike address',
+        message: `This address starts and ends like ${name ? `your contact "${name}"` : 'an address you have paid before'}, but the characters in the middle are different. This is how address poisoning scams work.`,
+        similarTo: { address, name },
+      });
+    } else if (similarSender) {
+      warnings.push({
+        reason: 'lookalike',
+        severity: 'danger',
+        title: 'Lookalike address',
+        message: 'This address starts and ends like an address that has paid you, but the characters in the middle are different. This is how address poisoning scams work.',
+        similarTo: { address: similarSender, paidYou: true },
+      });
+    }
+
+    const fromTarget = received.get(target) || [];
+    if (fromTarget.length > 0 && isDustOnly(fromTarget)) {
+      warnings.push({
+        reason: 'dust_sender',
+        severity: 'danger',
+        title: 'Only sent you dust',
+        message: `This address has only sent you tiny amounts (${DUST_THRESHOLD} RAIN or less) and you have never paid it. Scammers do this to plant their address in your history.`,
+      });
+    }
+
+    warnings.push({
+      reason: 'first_time',
+      severity: 'caution',
+      title: 'First payment to this address',
+      message: 'You have not sent to this address before and it is not in your address book. Check the full address with the recipient.',
+    });
+  }
+
+  const level = warnings.some((w) => w.severity === 'danger') ? 'danger' : warnings.length > 0 ? 'caution' : 'none';
+  return { address: target, level, warnings };
+}
+
+/**
+ * Check a recipient against the address book and recent history of a wallet
+ * If the history cannot be loaded only the address book is used
+ */
+export async function checkRecipient(recipient: string, walletAddress: string): Promise<RecipientRisk> {
+  const contacts = useAddressBookStore.getState().getAddressesForWallet(walletAddress);
+  const { transactions } = await getTransactions(walletAddress, { limit: RECENT_TRANSACTION_LIMIT });
+  return analyzeRecipient(recipient, walletAddress, { contacts, transactions });
+}
@@ -10,9 +10,22 @@ export type AuditEventType =
   | 'logout'
   | 'wallet_created'
   | 'wallet_imported'
+  | 'account_imported'
+  | 'derivation_scheme_changed'
   | 'transaction_sent'
   | 'transaction_received'
   | 'password_changed'
+  | 'vault_upgraded'
+  | 'vault_integrity_failed'
+  | 'signing_format_changed'
+  | 'network_identity_mismatch'
+  | 'network_bundle_exported'
+  | 'network_bundle_imported'
+  | 'transactions_exported'
+  | 'scheduled_payment_authorized'
+  | 'scheduled_payment_revoked'
+  | 'batch_payout_sent'
+  | 'recipient_warning_overridden'
   | 'biometric_enabled'
   | 'biometric_disabled'
   | 'session_expired'
@@ -204,9 +217,22 @@ export function getAuditLogStats() {
     'logout',
     'wallet_created',
     'wallet_imported',
+    'account_imported',
+    'derivation_scheme_changed',
     'transaction_sent',
     'transaction_received',
     'password_changed',
+    'vault_upgraded',
+    'vault_integrity_failed',
+    'signing_format_changed',
+    'network_identity_mismatch',
+    'network_bundle_exported',
+    'network_bundle_imported',
+    'transactions_exported',
+    'scheduled_payment_authorized',
+    'scheduled_payment_revoked',
+    'batch_payout_sent',
+    'recipient_warning_overridden',
     'biometric_enabled',
     'biometric_disabled',
     'session_expired',
@@ -26,18 +26,22 @@ import {
   getLockoutTimeRemainingFormatted,
 } from './login-rate-limiter';
 import { logAuditEvent } from './audit-log';
+import { revokeAllSpendingCaps } from './payment-scheduler';
+import { clearTransactionCache } from './transaction-cache';
 
 /**
  * Handle wallet creation with WebAuthn biometric authentication
  * @param password - User's password for encrypting mnemonic (fallback)
  * @param router - Next.js router for navigation
  * @param useWebAuthn - Whether to use WebAuthn biometric (default: true)
+ * @param passphrase - Optional BIP39 passphrase (memory only, never saved)
  */
 export async function handleCreateWallet(
   password: string,
   router: AppRouterInstance,
   useWebAuthn: boolean = true,
-  skipExistenceCheck: boolean = false
+  skipExistenceCheck: boolean = false,
+  passphrase: string = ''
 ): Promise<void> {
   try {
     // Validate password
@@ -60,7 +64,7 @@ export async function handleCreateWallet(
     const { address, mnemonic } = await createWalletAPI();
 
     // 2. Save encrypted wallet to localStorage (password fallback)
-    saveWallet(address, mnemonic, password);
+    await saveWallet(address, mnemonic, password);
 
     // 3. Register WebAuthn credential if supported and enabled
     if (useWebAuthn && isWebAuthnSupported()) {
@@ -81,7 +85,7 @@ export async function handleCreateWallet(
     const sessionToken = await sessionManager.createSession(address);
 
     // 5. Update wallet store (in-memory state)
-    useWalletStore.getState().connect(address, mnemonic, password);
+    await useWalletStore.getState().connect(address, mnemonic, password, passphrase);
 
     // 6. Start session monitoring
     sessionManager.startSessionMonitoring(() => {
@@ -113,13 +117,15 @@ export async function handleCreateWallet(
  * @param password - User's password for encrypting mnemonic
  * @param router - Next.js router for navigation
  * @param useWebAuthn - Whether to use WebAuthn biometric (default: true)
+ * @param passphrase - Optional BIP39 passphrase (memory only, never saved)
  */
 export async function handleImportWallet(
   mnemonic: string,
   password: string,
   router: AppRouterInstance,
   useWebAuthn: boolean = true,
-  skipExistenceCheck: boolean = false
+  skipExistenceCheck: boolean = false,
+  passphrase: string = ''
 ): Promise<void> {
   try {
     // Validate inputs
@@ -160,7 +166,7 @@ export async function handleImportWallet(
     }
 
     // 2. Save encrypted wallet to localStorage
-    saveWallet(address, mnemonic, password);
+    await saveWallet(address, mnemonic, password);
 
     // 3. Register WebAuthn credential if supported and enabled
     if (useWebAuthn && isWebAuthnSupported()) {
@@ -181,7 +187,7 @@ export async function handleImportWallet(
     await sessionManager.createSession(address);
 
     // 5. Update wallet store
-    useWalletStore.getState().connect(address, mnemonic, password);
+    await useWalletStore.getState().connect(address, mnemonic, password, passphrase);
 
     // 6. Start session monitoring
     sessionManager.startSessionMonitoring(() => {
@@ -214,14 +220,16 @@ export async function handleImportWallet(
 export async function overwriteAndCreateWallet(
   password: string,
   router: AppRouterInstance,
-  useWebAuthn: boolean = true
+  useWebAuthn: boolean = true,
+  passphrase: string = ''
 ): Promise<void> {
-  // Delete existing wallet
+  // Delete existing wallet (and its cached history)
   deleteWallet();
   deleteWebAuthnCredential();
+  await clearTransactionCache().catch((error) => console.error('Failed to clear transaction cache:', error));
 
   // Now create new wallet (skip existence check)
-  await handleCreateWallet(password, router, useWebAuthn, true);
+  await handleCreateWallet(password, router, useWebAuthn, true, passphrase);
 }
 
 /**
@@ -232,14 +240,16 @@ export async function overwriteAndImportWallet(
   mnemonic: string,
   password: string,
   router: AppRouterInstance,
-  useWebAuthn: boolean = true
+  useWebAuthn: boolean = true,
+  passphrase: string = ''
 ): Promise<void> {
-  // Delete existing wallet
+  // Delete existing wallet (and its cached history)
   deleteWallet();
   deleteWebAuthnCredential();
+  await clearTransactionCache().catch((error) => console.error('Failed to clear transaction cache:', error));
 
   // Now import wallet (skip existence check)
-  await handleImportWallet(mnemonic, password, router, useWebAuthn, true);
+  await handleImportWallet(mnemonic, password, router, useWebAuthn, true, passphrase);
 }
 
 /**
@@ -248,12 +258,14 @@ export async function overwriteAndImportWallet(
  * @param router - Next.js router for navigation
  * @param redirectTo - Optional path to redirect after login
  * @param useWebAuthn - Whether to try WebAuthn first (default: true)
+ * @param passphrase - Optional BIP39 passphrase selecting a hidden wallet (memory only)
  */
 export async function handleLogin(
   password: string | null,
   router: AppRouterInstance,
   redirectTo?: string,
-  useWebAuthn: boolean = true
+  useWebAuthn: boolean = true,
+  passphrase: string = ''
 ): Promise<void> {
   try {
     // Check if login is blocked due to too many failed attempts
@@ -292,7 +304,7 @@ export async function handleLogin(
           throw new Error('Password required for wallet decryption');
         }
 
-        wallet = loadWallet(password);
+        wallet = await loadWallet(password);
         if (!wallet || wallet.address !== address) {
           passwordFailed = true;
           recordFailedAttempt();
@@ -324,7 +336,7 @@ export async function handleLogin(
 
       toast.info('Logging In', 'Decrypting wallet...');
 
-      wallet = loadWallet(password);
+      wallet = await loadWallet(password);
 
       if (!wallet) {
         passwordFailed = true;
@@ -360,7 +372,7 @@ export async function handleLogin(
     await sessionManager.createSession(wallet.address);
 
     // 2. Update wallet store (password available from wallet.password)
-    useWalletStore.getState().connect(wallet.address, wallet.mnemonic, password);
+    await useWalletStore.getState().connect(wallet.address, wallet.mnemonic, password, passphrase);
 
     // 4. Start session monitoring
     sessionManager.startSessionMonitoring(() => {
@@ -443,6 +455,12 @@ export async function handleLogout(
     // 3. Clear wallet store
     useWalletStore.getState().disconnect();
 
+    // 🔒 SECURITY: Delegated spending keys don't outlive the session
+    await revokeAllSpendingCaps().catch((error) => console.error('Failed to revoke spending caps:', error));
+
+    // 🔒 SECURITY: Cached history is not left for the next wallet on this machine
+    await clearTransactionCache().catch((error) => console.error('Failed to clear transaction cache:', error));
+
     // Log logout
     logAuditEvent(
       'logout',
@@ -478,6 +496,8 @@ export async function handleAutoLogout(router: AppRouterInstance): Promise<void>
   sessionManager.stopSessionMonitoring();
   await sessionManager.destroySession(false); // auto-logout, not manual
   useWalletStore.getState().disconnect();
+  await revokeAllSpendingCaps().catch((error) => console.error('Failed to revoke spending caps:', error));
+  await clearTransactionCache().catch((error) => console.error('Failed to clear transaction cache:', error));
 
   // Log session expiration
   logAuditEvent(
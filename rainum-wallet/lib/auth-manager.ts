@@ -1,55 +1,53 @@
 /**
  * Authentication Manager
  * Handles encryption/decryption of sensitive data (mnemonics)
+ *
+ * Secrets are stored in the v3 vault format (see ./vault - AES-256-GCM with scrypt/Argon2id).
+ * Wallets written by older versions (CryptoJS AES-CBC) are still readable and are
+ * re-encrypted into the v3 format the next time they are unlocked.
  */
 
 import CryptoJS from 'crypto-js';
+import {
+  deriveAccountFromMnemonic,
+  LEGACY_DERIVATION_SCHEME,
+  validateDerivationScheme,
+  type DerivationScheme,
+} from './hd-wallet';
+import { getVaultKdf, takeLegacyDerivationScheme } from './wallet-settings';
+import {
+  decryptVault,
+  encryptVault,
+  isVaultFormat,
+  parseVault,
+  serializeVault,
+  VAULT_VERSION,
+  VaultIntegrityError,
+} from './vault';
+import { logAuditEvent } from './audit-log';
 
 /**
- * PBKDF2 configuration constants (OWASP recommendations)
+ * Legacy (v2) PBKDF2 configuration - only used to read vaults written before v3
  */
-const PBKDF2_ITERATIONS = 100000; // 100,000 iterations minimum
-const KEY_SIZE = 256 / 32; // 256-bit key (8 words)
-const SALT_SIZE = 128 / 8; // 128-bit salt (16 bytes)
+const LEGACY_PBKDF2_ITERATIONS = 100000;
+const LEGACY_KEY_SIZE = 256 / 32; // 256-bit key (8 words)
 
 /**
- * Encrypt mnemonic with user password using AES-256 and PBKDF2
- * @param mnemonic - The BIP39 mnemonic phrase
+ * Encrypt mnemonic with user password into a v3 vault (AES-256-GCM, configured KDF)
+ * @param mnemonic - The BIP39 mnemonic phrase (or any other secret string)
  * @param password - User's password (used as encryption key)
- * @returns Object with encrypted data and salt
+ * @returns Object with the serialized vault and its KDF salt
  */
-export function encryptMnemonic(mnemonic: string, password: string): { encrypted: string; salt: string } {
+export async function encryptMnemonic(mnemonic: string, password: string): Promise<{ encrypted: string; salt: string }> {
   if (!mnemonic || !password) {
     throw new Error('Mnemonic and password are required');
   }
 
   try {
-    // Generate random salt for PBKDF2
-    const salt = CryptoJS.lib.WordArray.random(SALT_SIZE);
-
-    // Derive key from password using PBKDF2 with high iteration count
-    const key = CryptoJS.PBKDF2(password, salt, {
-      keySize: KEY_SIZE,
-      iterations: PBKDF2_ITERATIONS
-    });
-
-    // Convert key to base64 string for CryptoJS.AES.encrypt
-    // CryptoJS.AES.encrypt works best with string keys and handles IV automatically
-    const keyString = key.toString(CryptoJS.enc.Base64);
-
-    // Encrypt mnemonic with derived key (uses AES-256-CBC with auto IV)
-    const encrypted = CryptoJS.AES.encrypt(mnemonic, keyString);
-
-    const encryptedString = encrypted.toString();
-    const saltString = salt.toString();
-
-    if (!encryptedString || !saltString) {
-      throw new Error('Encryption failed - invalid output');
-    }
-
+    const vault = await encryptVault(mnemonic, password, getVaultKdf());
     return {
-      encrypted: encryptedString,
-      salt: saltString
+      encrypted: serializeVault(vault),
+      salt: vault.kdf.salt,
     };
   } catch (error) {
     console.error('Encryption error:', error);
@@ -58,43 +56,76 @@ export function encryptMnemonic(mnemonic: string, password: string): { encrypted
 }
 
 /**
- * Decrypt mnemonic with user password
+ * Decrypt mnemonic with user password (v3 vaults and legacy v2 ciphertexts)
  * @param encryptedMnemonic - The encrypted mnemonic string
  * @param password - User's password
- * @param salt - The salt used during encryption
+ * @param salt - The PBKDF2 salt of a legacy ciphertext (v3 vaults carry their own)
  * @returns Decrypted mnemonic or null if password is incorrect
+ * @throws VaultIntegrityError if a v3 vault was modified or is corrupted
  */
-export function decryptMnemonic(encryptedMnemonic: string, password: string, salt: string): string | null {
-  if (!encryptedMnemonic || !password || !salt) {
+export async function decryptMnemonic(encryptedMnemonic: string, password: string, salt: string): Promise<string | null> {
+  if (!encryptedMnemonic || !password) {
     return null;
   }
 
-  try {
-    // Parse salt from hex string
-    const saltWordArray = CryptoJS.enc.Hex.parse(salt);
+  const vault = parseVault(encryptedMnemonic);
+  if (vault) {
+    return decryptVault(vault, password);
+  }
 
-    // Derive same key from password using stored salt
-    const key = CryptoJS.PBKDF2(password, saltWordArray, {
-      keySize: KEY_SIZE,
-      iterations: PBKDF2_ITERATIONS
-    });
+  return salt ? decryptLegacyMnemonic(encryptedMnemonic, password, salt) : null;
+}
+
+/**
+ * Whether a ciphertext is in a pre-v3 (unauthenticated AES-CBC) format
+ */
+export function isLegacyVault(encrypted: string | null | undefined): boolean {
+  return !!encrypted && !isVaultFormat(encrypted);
+}
+
+/**
+ * Whether a ciphertext should be re-encrypted on the next unlock:
+ * legacy format, or a v3 vault using a different KDF than the configured one
+ */
+export function needsVaultUpgrade(encrypted: string | null | undefined): boolean {
+  if (!encrypted) return false;
+  if (isLegacyVault(encrypted)) return true;
 
-    // Convert key to base64 string to match encryption
-    const keyString = key.toString(CryptoJS.enc.Base64);
+  try {
+    return parseVault(encrypted)?.kdf.name !== getVaultKdf();
+  } catch {
+    return false; // Malformed vaults are reported by decryptMnemonic, not silently rewritten
+  }
+}
 
-    // Decrypt mnemonic with derived key (AES-256-CBC with auto IV extraction)
-    const decrypted = CryptoJS.AES.decrypt(encryptedMnemonic, keyString);
+/**
+ * Decrypt a v2 ciphertext (PBKDF2 + CryptoJS AES-256-CBC)
+ * CBC has no authentication tag - a wrong password is detected by an empty or invalid UTF-8 result
+ */
+function decryptLegacyMnemonic(encryptedMnemonic: string, password: string, salt: string): string | null {
+  try {
+    const key = CryptoJS.PBKDF2(password, CryptoJS.enc.Hex.parse(salt), {
+      keySize: LEGACY_KEY_SIZE,
+      iterations: LEGACY_PBKDF2_ITERATIONS
+    });
 
+    const decrypted = CryptoJS.AES.decrypt(encryptedMnemonic, key.toString(CryptoJS.enc.Base64));
     const decryptedString = decrypted.toString(CryptoJS.enc.Utf8);
 
-    // If password is wrong, decryption returns empty string
-    if (!decryptedString || decryptedString.length === 0) {
-      return null;
-    }
+    return decryptedString.length > 0 ? decryptedString : null;
+  } catch {
+    return null; // Malformed UTF-8 = wrong password
+  }
+}
 
-    return decryptedString;
-  } catch (error) {
-    console.error('Decryption failed:', error);
+/**
+ * Decrypt a v1 ciphertext (CryptoJS passphrase mode, no salt)
+ */
+function decryptV1Mnemonic(encryptedMnemonic: string, password: string): string | null {
+  try {
+    const decryptedString = CryptoJS.AES.decrypt(encryptedMnemonic, password).toString(CryptoJS.enc.Utf8);
+    return decryptedString.length > 0 ? decryptedString : null;
+  } catch {
     return null;
   }
 }
@@ -133,11 +164,97 @@ export function validateMnemonicHash(mnemonic: string, hash: string): boolean {
  */
 export interface StoredWallet {
   address: string;
-  encryptedMnemonic: string;
-  salt: string; // PBKDF2 salt for key derivation
+  encryptedMnemonic: string; // v3: serialized vault JSON, v1/v2: CryptoJS base64
+  salt: string; // v3: vault KDF salt (informational), v2: PBKDF2 salt
   mnemonicHash: string;
   createdAt: number;
-  version?: number; // For future migration support
+  version?: number; // 1 = CryptoJS passphrase, 2 = PBKDF2 + AES-CBC, 3 = vault (AES-GCM)
+  derivationScheme?: DerivationScheme; // How this wallet's HD accounts are derived (missing = legacy)
+}
+
+/**
+ * Read a recorded derivation scheme, falling back to the legacy scheme if it is missing or invalid
+ */
+function readDerivationScheme(value: DerivationScheme | undefined): DerivationScheme {
+  if (!value) return LEGACY_DERIVATION_SCHEME;
+  try {
+    validateDerivationScheme(value);
+    return value;
+  } catch (error) {
+    console.error('Invalid derivation scheme on stored wallet - using the legacy scheme:', error);
+    return LEGACY_DERIVATION_SCHEME;
+  }
+}
+
+/**
+ * Decrypt and validate the mnemonic of a stored wallet or backup (any version)
+ * @returns Mnemonic or null if the password is wrong
+ * @throws VaultIntegrityError if the data was modified or is corrupted
+ */
+async function openStoredWallet(
+  wallet: Pick<StoredWallet, 'encryptedMnemonic' | 'salt' | 'mnemonicHash' | 'version'>,
+  password: string
+): Promise<string | null> {
+  if (!password) {
+    return null;
+  }
+
+  const isV3 = isVaultFormat(wallet.encryptedMnemonic);
+  let mnemonic: string | null;
+
+  if (isV3) {
+    mnemonic = await decryptMnemonic(wallet.encryptedMnemonic, password, wallet.salt);
+  } else if (!wallet.version || wallet.version === 1 || !wallet.salt) {
+    console.warn('⚠️ Opening wallet with legacy v1 encryption - it will be upgraded');
+    mnemonic = decryptV1Mnemonic(wallet.encryptedMnemonic, password);
+  } else {
+    mnemonic = decryptLegacyMnemonic(wallet.encryptedMnemonic, password, wallet.salt);
+  }
+
+  if (!mnemonic) {
+    return null; // Wrong password
+  }
+
+  if (!validateMnemonicHash(mnemonic, wallet.mnemonicHash)) {
+    // CBC cannot tell a wrong password from garbage - only an authenticated vault can be "corrupted"
+    if (isV3) {
+      throw new VaultIntegrityError('Wallet data is corrupted - mnemonic hash mismatch');
+    }
+    return null;
+  }
+
+  return mnemonic;
+}
+
+/**
+ * Build the v3 stored wallet record for a mnemonic
+ */
+async function createStoredWallet(
+  address: string,
+  mnemonic: string,
+  password: string,
+  createdAt: number = Date.now(),
+  derivationScheme?: DerivationScheme
+): Promise<StoredWallet> {
+  const { encrypted, salt } = await encryptMnemonic(mnemonic, password);
+
+  return {
+    address,
+    encryptedMnemonic: encrypted,
+    salt,
+    mnemonicHash: hashMnemonic(mnemonic),
+    createdAt,
+    version: VAULT_VERSION,
+    ...(derivationScheme && { derivationScheme }),
+  };
+}
+
+function reportIntegrityFailure(source: string, error: unknown): void {
+  if (error instanceof VaultIntegrityError) {
+    logAuditEvent('vault_integrity_failed', 'security', `Vault integrity check failed (${source})`, {
+      reason: error.message,
+    });
+  }
 }
 
 /**
@@ -145,9 +262,14 @@ export interface StoredWallet {
  * @param address - Wallet address
  * @param mnemonic - Plain text mnemonic
  * @param password - User's password for encryption
+ * @param derivationScheme - How the wallet's HD accounts are derived (new wallets: legacy)
  */
-export function saveWallet(address: string, mnemonic: string, password: string): void {
-  // SECURITY: Validate inputs (async import to avoid circular dependencies)
+export async function saveWallet(
+  address: string,
+  mnemonic: string,
+  password: string,
+  derivationScheme: DerivationScheme = LEGACY_DERIVATION_SCHEME
+): Promise<void> {
   if (!address || typeof address !== 'string') {
     throw new Error('Invalid wallet address');
   }
@@ -160,71 +282,117 @@ export function saveWallet(address: string, mnemonic: string, password: string):
     throw new Error('Password must be at least 8 characters');
   }
 
-  const { encrypted, salt } = encryptMnemonic(mnemonic, password);
-  const mnemonicHash = hashMnemonic(mnemonic);
-
-  const wallet: StoredWallet = {
-    address,
-    encryptedMnemonic: encrypted,
-    salt,
-    mnemonicHash,
-    createdAt: Date.now(),
-    version: 2 // Version 2 uses PBKDF2 with 100k iterations
-  };
-
+  const wallet = await createStoredWallet(address, mnemonic, password, Date.now(), derivationScheme);
   localStorage.setItem('wallet', JSON.stringify(wallet));
+  takeLegacyDerivationScheme(); // The wallet records its own scheme now
 }
 
 /**
  * Load and decrypt wallet from localStorage
+ * Legacy wallets (and vaults using another KDF than configured) are transparently
+ * re-encrypted into the current v3 format after a successful unlock.
  * @param password - User's password
  * @returns Decrypted wallet data or null if wrong password
+ * @throws VaultIntegrityError if the stored vault was modified or is corrupted
  */
-export function loadWallet(password: string): { address: string; mnemonic: string } | null {
+export async function loadWallet(
+  password: string
+): Promise<{ address: string; mnemonic: string; derivationScheme: DerivationScheme } | null> {
   const walletData = localStorage.getItem('wallet');
   if (!walletData) {
     return null;
   }
 
+  let wallet: StoredWallet;
   try {
-    const wallet: StoredWallet = JSON.parse(walletData);
-
-    let mnemonic: string | null = null;
-
-    // Check wallet version for backward compatibility
-    if (!wallet.version || wallet.version === 1 || !wallet.salt) {
-      // Old version (v1): Use legacy CryptoJS.AES.decrypt (less secure)
-      console.warn('⚠️ Loading wallet with legacy encryption. Please re-import to upgrade security.');
-      try {
-        const bytes = CryptoJS.AES.decrypt(wallet.encryptedMnemonic, password);
-        mnemonic = bytes.toString(CryptoJS.enc.Utf8);
-      } catch (error) {
-        console.error('Legacy decryption failed:', error);
-        return null;
-      }
-    } else {
-      // New version (v2): Use PBKDF2 with salt
-      mnemonic = decryptMnemonic(wallet.encryptedMnemonic, password, wallet.salt);
-    }
+    wallet = JSON.parse(walletData);
+  } catch (error) {
+    console.error('Failed to load wallet:', error);
+    return null;
+  }
+
+  let mnemonic: string | null;
+  try {
+    mnemonic = await openStoredWallet(wallet, password);
+  } catch (error) {
+    reportIntegrityFailure('stored wallet', error);
+    throw error;
+  }
+
+  if (!mnemonic) {
+    return null;
+  }
 
-    if (!mnemonic || mnemonic.length === 0) {
-      return null; // Wrong password
+  // 🔒 MIGRATION: Re-encrypt legacy / outdated vaults now that the password is known
+  if (wallet.version !== VAULT_VERSION || needsVaultUpgrade(wallet.encryptedMnemonic)) {
+    try {
+      const upgraded = await createStoredWallet(
+        wallet.address,
+        mnemonic,
+        password,
+        wallet.createdAt || Date.now(),
+        wallet.derivationScheme
+      );
+      localStorage.setItem('wallet', JSON.stringify(upgraded));
+      logAuditEvent('vault_upgraded', 'security', `Wallet vault upgraded to v${VAULT_VERSION}`, {
+        address: wallet.address,
+        fromVersion: wallet.version || 1,
+        kdf: getVaultKdf(),
+      });
+    } catch (error) {
+      // Keep the old vault - it still opens, the upgrade is retried on the next unlock
+      console.error('Vault upgrade failed:', error);
     }
+  }
+
+  return {
+    address: wallet.address,
+    mnemonic,
+    derivationScheme: getStoredDerivationScheme(),
+  };
+}
 
-    // Validate decrypted mnemonic
-    if (!validateMnemonicHash(mnemonic, wallet.mnemonicHash)) {
-      console.error('Wallet data corrupted: hash mismatch');
-      return null;
+/**
+ * How the stored wallet derives its HD accounts (legacy unless changed for this wallet)
+ */
+export function getStoredDerivationScheme(): DerivationScheme {
+  const walletData = typeof window !== 'undefined' ? localStorage.getItem('wallet') : null;
+  if (!walletData) {
+    return LEGACY_DERIVATION_SCHEME;
+  }
+
+  let wallet: StoredWallet;
+  try {
+    wallet = JSON.parse(walletData);
+  } catch {
+    return LEGACY_DERIVATION_SCHEME;
+  }
+
+  // MIGRATION: The scheme used to be a browser-wide setting - move it onto the wallet it was set for
+  if (!wallet.derivationScheme) {
+    const previous = takeLegacyDerivationScheme();
+    if (!previous) {
+      return LEGACY_DERIVATION_SCHEME;
     }
+    localStorage.setItem('wallet', JSON.stringify({ ...wallet, derivationScheme: previous }));
+    return readDerivationScheme(previous);
+  }
 
-    return {
-      address: wallet.address,
-      mnemonic
-    };
-  } catch (error) {
-    console.error('Failed to load wallet:', error);
-    return null;
+  return readDerivationScheme(wallet.derivationScheme);
+}
+
+/**
+ * Record the derivation scheme on the stored wallet
+ * Use useWalletStore().setDerivationScheme() instead - it also re-derives the accounts
+ */
+export function saveStoredDerivationScheme(scheme: DerivationScheme): void {
+  const walletData = localStorage.getItem('wallet');
+  if (!walletData) {
+    throw new Error('No wallet found');
   }
+
+  const wallet: StoredWallet = JSON.parse(walletData);
+  localStorage.setItem('wallet', JSON.stringify({ ...wallet, derivationScheme: scheme }));
 }
 
 /**
@@ -240,29 +408,32 @@ export function hasStoredWallet(): boolean {
  */
 export function deleteWallet(): void {
   localStorage.removeItem('wallet');
+  // A scheme left over from before schemes were per wallet must not carry over to the next one
+  takeLegacyDerivationScheme();
 }
 
 /**
  * Change wallet password
+ * Works for every vault version; the wallet is always re-encrypted as v3
  * @param oldPassword - Current password
  * @param newPassword - New password
  * @returns True if password was changed successfully
  */
-export function changePassword(oldPassword: string, newPassword: string): boolean {
+export async function changePassword(oldPassword: string, newPassword: string): Promise<boolean> {
   // Validate new password
   if (!newPassword || typeof newPassword !== 'string' || newPassword.length < 8) {
     throw new Error('New password must be at least 8 characters');
   }
 
-  // Load wallet with old password
-  const wallet = loadWallet(oldPassword);
+  // Load wallet with old password (integrity failures propagate)
+  const wallet = await loadWallet(oldPassword);
   if (!wallet) {
     throw new Error('Incorrect current password');
   }
 
   // Re-encrypt with new password
   try {
-    saveWallet(wallet.address, wallet.mnemonic, newPassword);
+    await saveWallet(wallet.address, wallet.mnemonic, newPassword, wallet.derivationScheme);
     return true;
   } catch (error) {
     console.error('Failed to change password:', error);
@@ -272,6 +443,7 @@ export function changePassword(oldPassword: string, newPassword: string): boolea
 
 /**
  * Export encrypted wallet backup to JSON
+ * The stored vault is exported as-is (v3, or legacy if the wallet was not unlocked since upgrading)
  * @returns JSON string of encrypted wallet data
  */
 export function exportWalletBackup(): string {
@@ -281,17 +453,19 @@ export function exportWalletBackup(): string {
   }
 
   const wallet: StoredWallet = JSON.parse(walletData);
+  const isV3 = isVaultFormat(wallet.encryptedMnemonic);
 
   // Create backup object with metadata
   const backup = {
-    version: wallet.version || 2,
+    version: isV3 ? VAULT_VERSION : wallet.version || 2,
     address: wallet.address,
     encryptedMnemonic: wallet.encryptedMnemonic,
     salt: wallet.salt,
     mnemonicHash: wallet.mnemonicHash,
     createdAt: wallet.createdAt,
+    derivationScheme: wallet.derivationScheme,
     exportedAt: Date.now(),
-    backupVersion: '1.0.0',
+    backupVersion: isV3 ? '2.0.0' : '1.0.0',
   };
 
   return JSON.stringify(backup, null, 2);
@@ -299,17 +473,20 @@ export function exportWalletBackup(): string {
 
 /**
  * Verify wallet backup without importing
- * @param backupJson - JSON string of backup data
+ * @param backupJson - JSON string of backup data (v1/v2 or v3 vault)
  * @param password - Password to verify the backup
+ * @param passphrase - Optional BIP39 passphrase; the backup only holds the mnemonic,
+ *                     so the hidden wallet it opens is derived here
  * @returns Object with verification result and details
  */
-export function verifyWalletBackup(backupJson: string, password: string): {
+export async function verifyWalletBackup(backupJson: string, password: string, passphrase: string = ''): Promise<{
   valid: boolean;
   address?: string;
+  passphraseUsed?: boolean; // address is the first account of the passphrase wallet
   createdAt?: number;
   version?: number;
   error?: string;
-} {
+}> {
   try {
     const backup = JSON.parse(backupJson);
 
@@ -322,9 +499,7 @@ export function verifyWalletBackup(backupJson: string, password: string): {
     }
 
     // Verify we can decrypt with the provided password
-    const mnemonic = backup.salt
-      ? decryptMnemonic(backup.encryptedMnemonic, password, backup.salt)
-      : null;
+    const mnemonic = await openStoredWallet(backup, password);
 
     if (!mnemonic) {
       return {
@@ -333,18 +508,13 @@ export function verifyWalletBackup(backupJson: string, password: string): {
       };
     }
 
-    // Validate decrypted mnemonic
-    if (!validateMnemonicHash(mnemonic, backup.mnemonicHash)) {
-      return {
-        valid: false,
-        error: 'Backup data is corrupted - hash mismatch',
-      };
-    }
-
     // Backup is valid
     return {
       valid: true,
-      address: backup.address,
+      address: passphrase
+        ? deriveAccountFromMnemonic(mnemonic, 0, passphrase, readDerivationScheme(backup.derivationScheme)).address
+        : backup.address,
+      passphraseUsed: !!passphrase,
       createdAt: backup.createdAt,
       version: backup.version || 1,
     };
@@ -359,11 +529,13 @@ export function verifyWalletBackup(backupJson: string, password: string): {
 
 /**
  * Import encrypted wallet backup from JSON
+ * Legacy backups are re-encrypted into a v3 vault before they are stored
  * @param backupJson - JSON string of backup data
  * @param password - Password to verify the backup
  * @returns True if import successful
+ * @throws VaultIntegrityError if the backup was modified or is corrupted
  */
-export function importWalletBackup(backupJson: string, password: string): boolean {
+export async function importWalletBackup(backupJson: string, password: string): Promise<boolean> {
   try {
     const backup = JSON.parse(backupJson);
 
@@ -373,33 +545,31 @@ export function importWalletBackup(backupJson: string, password: string): boolea
     }
 
     // Verify we can decrypt with the provided password
-    const mnemonic = backup.salt
-      ? decryptMnemonic(backup.encryptedMnemonic, password, backup.salt)
-      : null;
+    const mnemonic = await openStoredWallet(backup, password);
 
     if (!mnemonic) {
       throw new Error('Incorrect password for this backup');
     }
 
-    // Validate decrypted mnemonic
-    if (!validateMnemonicHash(mnemonic, backup.mnemonicHash)) {
-      throw new Error('Backup data is corrupted');
-    }
-
-    // Create wallet object
-    const wallet: StoredWallet = {
-      address: backup.address,
-      encryptedMnemonic: backup.encryptedMnemonic,
-      salt: backup.salt,
-      mnemonicHash: backup.mnemonicHash,
-      createdAt: backup.createdAt || Date.now(),
-      version: backup.version || 2,
-    };
+    const derivationScheme = readDerivationScheme(backup.derivationScheme);
+    const wallet: StoredWallet = needsVaultUpgrade(backup.encryptedMnemonic)
+      ? await createStoredWallet(backup.address, mnemonic, password, backup.createdAt || Date.now(), derivationScheme)
+      : {
+          address: backup.address,
+          encryptedMnemonic: backup.encryptedMnemonic,
+          salt: backup.salt,
+          mnemonicHash: backup.mnemonicHash,
+          createdAt: backup.createdAt || Date.now(),
+          version: VAULT_VERSION,
+          derivationScheme,
+        };
 
     // Save to localStorage
     localStorage.setItem('wallet', JSON.stringify(wallet));
+    takeLegacyDerivationScheme();
     return true;
   } catch (error) {
+    reportIntegrityFailure('backup import', error);
     console.error('Failed to import backup:', error);
     throw error;
   }
@@ -409,8 +579,9 @@ export function importWalletBackup(backupJson: string, password: string): boolea
  * Verify that a password is correct for the current wallet
  * @param password - Password to verify
  * @returns True if password is correct, false otherwise
+ * @throws VaultIntegrityError if the stored vault was modified or is corrupted
  */
-export function verifyPassword(password: string): boolean {
-  const wallet = loadWallet(password);
+export async function verifyPassword(password: string): Promise<boolean> {
+  const wallet = await loadWallet(password);
   return wallet !== null;
 }
@@ -0,0 +1,498 @@
+/**
+ * Batch Payouts
+ * Payroll mode: import a CSV of address, amount and memo, check every row,
+ * then send the batch one transfer at a time from the active account.
+ *
+ * - Each transfer goes through the transaction builder, so the nonce manager
+ *   hands out consecutive nonces and the pending tracker follows every row.
+ * - Row progress is stored as it happens. The batch stops on the first failed
+ *   row and resumes with the rows that weren't sent.
+ * - Memos stay in the wallet: they're saved as the transaction's note and
+ *   written to the receipt.
+ *
+ * 🔒 SECURITY: A row that was being sent when the tab closed is never resent
+ * on its own - unless the tracker saw its broadcast, the user has to check it
+ * and either mark it sent or queue it again.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useNetworkStore } from './network-store';
+import { usePendingTransactionsStore } from './pending-transactions';
+import { useTransactionLabelsStore } from './transaction-labels-store';
+import { useAddressBookStore } from './address-book-store';
+import { sanitizeAddress, sanitizeAmount } from './input-sanitizer';
+import { csvCell, parseCsv } from './csv';
+import { accountExists, estimateGas, getBalance, getTransferFee, sendTransaction } from './rainum-api';
+
+export const MAX_PAYOUT_ROWS = 500;
+const MAX_BATCHES = 20; // Oldest finished batches are dropped beyond this
+const MAX_MEMO_LENGTH = 140;
+
+export type PayoutPriority = 'low' | 'standard' | 'high';
+export type PayoutRowStatus = 'invalid' | 'ready' | 'sending' | 'sent' | 'failed' | 'unconfirmed';
+export type PayoutBatchStatus = 'ready' | 'sending' | 'stopped' | 'completed';
+
+// estimateGas names the send priorities differently
+const ESTIMATE_PRIORITIES: Record<PayoutPriority, 'economy' | 'standard' | 'express'> = {
+  low: 'economy',
+  standard: 'standard',
+  high: 'express',
+};
+
+export interface PayoutRow {
+  line: number; // Row number in the CSV file (header included)
+  address: string; // Lowercased once valid
+  amount: string; // Whole RAIN
+  memo?: string;
+  status: PayoutRowStatus;
+  error?: string; // Why the row is invalid or failed
+  warning?: string; // Sendable, but worth a second look
+  nonce?: number;
+  hash?: string;
+  trackedId?: string; // Pending tracker entry of the broadcast
+  startedAt?: number; // ms
+  sentAt?: number; // ms
+}
+
+export interface PayoutFeeEstimate {
+  feePerTransfer: number; // Whole RAIN
+  totalFees: number;
+  totalAmount: number;
+  balance: number;
+  sufficient: boolean;
+  estimated: boolean; // false if the node couldn't estimate and the standard fee was used
+}
+
+export interface PayoutBatch {
+  id: string;
+  networkId: string;
+  from: string;
+  accountIndex: number;
+  fileName: string;
+  priority: PayoutPriority;
+  rows: PayoutRow[];
+  status: PayoutBatchStatus;
+  statusReason?: string;
+  fees?: PayoutFeeEstimate;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+/**
+ * A CSV row before it has been checked
+ */
+export interface ParsedPayoutRow {
+  line: number;
+  address: string;
+  amount: string;
+  memo?: string;
+}
+
+interface BatchPayoutState {
+  batches: PayoutBatch[]; // Newest first
+
+  // Actions
+  addBatch: (batch: PayoutBatch) => void;
+  updateBatch: (id: string, update: (batch: PayoutBatch) => PayoutBatch) => void;
+  updateRow: (id: string, line: number, changes: Partial<PayoutRow>) => void;
+  removeBatch: (id: string) => void;
+}
+
+export const useBatchPayoutStore = create<BatchPayoutState>()(
+  persist(
+    (set) => ({
+      batches: [],
+
+      addBatch: (batch) => {
+        set((state) => {
+          const batches = [batch, ...state.batches];
+          const completed = batches.filter((b) => b.status === 'completed');
+          const keep = Math.max(0, MAX_BATCHES - (batches.length - completed.length));
+          const dropped = new Set(completed.slice(keep).map((b) => b.id));
+          return { batches: batches.filter((b) => !dropped.has(b.id)) };
+        });
+      },
+
+      updateBatch: (id, update) => {
+        set((state) => ({
+          batches: state.batches.map((batch) => (batch.id === id ? { ...update(batch), updatedAt: Date.now() } : batch)),
+        }));
+      },
+
+      updateRow: (id, line, changes) => {
+        set((state) => ({
+          batches: state.batches.map((batch) =>
+            batch.id === id
+              ? { ...batch, rows: batch.rows.map((row) => (row.line === line ? { ...row, ...changes } : row)), updatedAt: Date.now() }
+              : batch
+          ),
+        }));
+      },
+
+      removeBatch: (id) => {
+        set((state) => ({ batches: state.batches.filter((batch) => batch.id !== id) }));
+      },
+    }),
+    {
+      name: 'rainum-batch-payouts',
+      // A batch that was sending when the tab closed is stopped, and its
+      // in-flight row waits for the user (see reconcileInterruptedRows)
+      onRehydrateStorage: () => (state) => {
+        if (!state) return;
+        state.batches = state.batches.map((batch) =>
+          batch.status !== 'sending'
+            ? batch
+            : {
+                ...batch,
+                status: 'stopped',
+                statusReason: 'Interrupted - the wallet was closed while the batch was sending',
+                rows: batch.rows.map((row) => (row.status === 'sending' ? { ...row, status: 'unconfirmed' } : row)),
+              }
+        );
+      },
+    }
+  )
+);
+
+const runningBatches = new Set<string>();
+const stopRequests = new Set<string>();
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function getBatch(id: string): PayoutBatch {
+  const batch = useBatchPayoutStore.getState().batches.find((b) => b.id === id);
+  if (!batch) {
+    throw new Error('Batch not found');
+  }
+  return batch;
+}
+
+/**
+ * Read payout rows from a CSV file
+ * Columns are address, amount, memo - or any order if the file has a header
+ * row naming them (address/recipient/to, amount, memo/note/description).
+ * @throws Error if the file has no rows or more than MAX_PAYOUT_ROWS
+ */
+export function parsePayoutCsv(text: string): ParsedPayoutRow[] {
+  const lines = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = { address: 0, amount: 1, memo: 2 };
+
+  // "Amount (RAIN)" and the like count as "amount"
+  const header = lines[0]?.map((cell) => cell.trim().toLowerCase().replace(/\s*\(.*\)$/, ''));
+  const find = (names: string[]) => header?.findIndex((cell) => names.includes(cell)) ?? -1;
+  const hasHeader = !!header && !header[0]?.startsWith('0x') && find(['amount']) >= 0;
+  if (hasHeader) {
+    columns.address = find(['address', 'recipient', 'to', 'wallet']);
+    columns.amount = find(['amount']);
+    columns.memo = find(['memo', 'note', 'description', 'reference']);
+    if (columns.address < 0) {
+      throw new Error('The header row has no address column');
+    }
+  }
+
+  const rows = lines
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''))
+    .map(({ cells, line }) => ({
+      line,
+      address: (cells[columns.address] ?? '').trim(),
+      amount: (cells[columns.amount] ?? '').trim(),
+      memo: columns.memo >= 0 ? (cells[columns.memo] ?? '').trim().slice(0, MAX_MEMO_LENGTH) || undefined : undefined,
+    }));
+
+  if (rows.length === 0) {
+    throw new Error('The file has no payout rows');
+  }
+  if (rows.length > MAX_PAYOUT_ROWS) {
+    throw new Error(`A batch can have at most ${MAX_PAYOUT_ROWS} rows`);
+  }
+  return rows;
+}
+
+/**
+ * Check every row: address and amount format, no payment to the sender, and
+ * whether the recipient has any activity yet (accountExists). Unknown and
+ * repeated recipients are sendable but get a warning.
+ */
+export async function validatePayoutRows(
+  parsed: ParsedPayoutRow[],
+  from: string,
+  onProgress?: (checked: number, total: number) => void
+): Promise<PayoutRow[]> {
+  const counts = new Map<string, number>();
+  const rows: PayoutRow[] = parsed.map((row) => {
+    const address = sanitizeAddress(row.address);
+    if (!address) {
+      return { ...row, status: 'invalid', error: 'Invalid address - must be 0x followed by 40 hex characters' };
+    }
+    if (sameAddress(address, from)) {
+      return { ...row, address, status: 'invalid', error: 'Cannot pay the sending account' };
+    }
+
+    const amount = sanitizeAmount(row.amount.replace(/[,\s]/g, ''));
+    const value = amount === null ? NaN : parseFloat(amount);
+    if (amount === null || !(value > 0)) {
+      return { ...row, address, status: 'invalid', error: 'Amount must be a positive number' };
+    }
+    if (!Number.isInteger(value)) {
+      return { ...row, address, status: 'invalid', error: 'RAIN supports whole numbers only' };
+    }
+
+    counts.set(address, (counts.get(address) || 0) + 1);
+    return { ...row, address, amount: String(value), status: 'ready' };
+  });
+
+  // One lookup per recipient
+  const recipients = [...counts.keys()];
+  const known = new Map<string, boolean>();
+  for (const [index, address] of recipients.entries()) {
+    known.set(address, await accountExists(address));
+    onProgress?.(index + 1, recipients.length);
+  }
+
+  return rows.map((row) => {
+    if (row.status !== 'ready') return row;
+    const warnings = [
+      (counts.get(row.address) || 0) > 1 && 'Recipient appears more than once',
+      known.get(row.address) === false && 'No activity on this address yet',
+    ].filter(Boolean);
+    return warnings.length > 0 ? { ...row, warning: warnings.join(' · ') } : row;
+  });
+}
+
+/**
+ * Total of the rows still to send, their fees (estimateGas) and whether the
+ * account's balance covers both
+ */
+export async function estimatePayoutFees(from: string, rows: PayoutRow[], priority: PayoutPriority): Promise<PayoutFeeEstimate> {
+  const pending = rows.filter((row) => row.status === 'ready' || row.status === 'failed');
+  const totalAmount = pending.reduce((sum, row) => sum + Number(row.amount), 0);
+
+  let feePerTransfer = getTransferFee(priority);
+  let estimated = false;
+  if (pending.length > 0) {
+    try {
+      const estimate = await estimateGas({ from, to: pending[0].address, amount: pending[0].amount, priority: ESTIMATE_PRIORITIES[priority], tier: 1 });
+      if (estimate.success) {
+        // Costs come back in micro-RAIN
+        feePerTransfer = Math.ceil(estimate.estimate.priority_options[ESTIMATE_PRIORITIES[priority]].total_gas_cost / 1_000_000);
+        estimated = true;
+      }
+    } catch (error) {
+      console.error('Batch fee estimate failed, using the standard fee:', error);
+    }
+  }
+
+  const totalFees = feePerTransfer * pending.length;
+  const balance = await getBalance(from);
+  return { feePerTransfer, totalFees, totalAmount, balance, sufficient: balance >= totalAmount + totalFees, estimated };
+}
+
+/**
+ * Store a checked batch for the active network
+ */
+export function createPayoutBatch(params: {
+  from: string;
+  accountIndex: number;
+  fileName: string;
+  priority: PayoutPriority;
+  rows: PayoutRow[];
+  fees?: PayoutFeeEstimate;
+}): PayoutBatch {
+  if (!params.rows.some((row) => row.status === 'ready')) {
+    throw new Error('The batch has no valid rows to send');
+  }
+
+  const now = Date.now();
+  const batch: PayoutBatch = {
+    ...params,
+    id: `payout-${now}`,
+    networkId: useNetworkStore.getState().currentNetwork.id,
+    status: 'ready',
+    createdAt: now,
+    updatedAt: now,
+  };
+  useBatchPayoutStore.getState().addBatch(batch);
+  return batch;
+}
+
+/**
+ * The tracker's record of a row's broadcast, if there is one
+ */
+function findBroadcast(batch: PayoutBatch, row: PayoutRow) {
+  return usePendingTransactionsStore
+    .getState()
+    .getAccountTransactions(batch.networkId, batch.from)
+    .find(
+      (tx) =>
+        sameAddress(tx.to, row.address) &&
+        tx.amount === row.amount &&
+        tx.submittedAt >= (row.startedAt ?? Infinity) &&
+        !tx.replacement
+    );
+}
+
+/**
+ * Settle interrupted rows the tracker saw broadcast; the rest stay unconfirmed
+ */
+function reconcileInterruptedRows(id: string): void {
+  const batch = getBatch(id);
+  const { updateRow } = useBatchPayoutStore.getState();
+
+  for (const row of batch.rows.filter((r) => r.status === 'unconfirmed' && !r.trackedId)) {
+    const tracked = findBroadcast(batch, row);
+    if (tracked) {
+      updateRow(id, row.line, {
+        status: 'sent',
+        nonce: tracked.nonce,
+        hash: tracked.hash,
+        trackedId: tracked.id,
+        sentAt: tracked.submittedAt,
+      });
+    }
+  }
+}
+
+/**
+ * Resolve an unconfirmed row after checking the account's history
+ */
+export function resolveUnconfirmedRow(id: string, line: number, wasSent: boolean): void {
+  const row = getBatch(id).rows.find((r) => r.line === line);
+  if (row?.status !== 'unconfirmed') return;
+  useBatchPayoutStore.getState().updateRow(id, line, wasSent ? { status: 'sent', sentAt: row.startedAt } : { status: 'ready' });
+}
+
+export function isPayoutBatchRunning(id: string): boolean {
+  return runningBatches.has(id);
+}
+
+/**
+ * Stop after the row that is being sent
+ */
+export function stopPayoutBatch(id: string): void {
+  if (runningBatches.has(id)) stopRequests.add(id);
+}
+
+/**
+ * Send every ready (and previously failed) row in order
+ * Stops on the first failure - resume by calling this again.
+ * @returns Number of rows sent in this run
+ */
+export async function runPayoutBatch(id: string, mnemonic: string): Promise<number> {
+  if (runningBatches.has(id)) {
+    throw new Error('This batch is already sending');
+  }
+
+  const batch = getBatch(id);
+  if (batch.networkId !== useNetworkStore.getState().currentNetwork.id) {
+    throw new Error(`This batch was created on ${batch.networkId} - switch back to that network to send it`);
+  }
+
+  reconcileInterruptedRows(id);
+  const { updateBatch, updateRow } = useBatchPayoutStore.getState();
+
+  runningBatches.add(id);
+  stopRequests.delete(id);
+  updateBatch(id, (b) => ({ ...b, status: 'sending', statusReason: undefined }));
+
+  let sent = 0;
+  let stopReason: string | undefined;
+  try {
+    const queue = getBatch(id).rows.filter((row) => row.status === 'ready' || row.status === 'failed');
+
+    for (const row of queue) {
+      if (stopRequests.has(id)) {
+        stopReason = 'Stopped by user';
+        break;
+      }
+
+      const startedAt = Date.now();
+      updateRow(id, row.line, { status: 'sending', error: undefined, startedAt });
+
+      try {
+        const result = await sendTransaction(batch.from, row.address, row.amount, batch.priority, mnemonic, false, 'full', batch.accountIndex, 'evm');
+        if (!result.success) {
+          // Rejected outright - nothing was sent, so resuming may send it again
+          const message = result.message || 'The node rejected the transaction';
+          updateRow(id, row.line, { status: 'failed', error: message });
+          stopReason = `Row ${row.line} failed: ${message}`;
+          break;
+        }
+
+        const tracked = findBroadcast(batch, { ...row, startedAt });
+        const hash = result.hash || tracked?.hash;
+        updateRow(id, row.line, { status: 'sent', nonce: tracked?.nonce, hash, trackedId: tracked?.id, sentAt: Date.now() });
+        if (hash && row.memo) {
+          useTransactionLabelsStore.getState().addLabel(hash, row.memo, 'payment');
+        }
+        useAddressBookStore.getState().markUsed(row.address, batch.from);
+        sent++;
+      } catch (error) {
+        // 🔒 A timeout or dropped connection may come after the node accepted the transfer -
+        // like an interrupted tab, the user checks the history before it is sent again
+        const message = error instanceof Error ? error.message : 'Unable to send transaction';
+        updateRow(id, row.line, { status: 'unconfirmed', error: message });
+        stopReason = `Row ${row.line} may not have been sent (${message}) - check it before resuming`;
+        break;
+      }
+    }
+  } finally {
+    runningBatches.delete(id);
+    stopRequests.delete(id);
+
+    const done = getBatch(id).rows.every((row) => row.status === 'sent' || row.status === 'invalid');
+    updateBatch(id, (b) => ({
+      ...b,
+      status: done ? 'completed' : 'stopped',
+      statusReason: done ? undefined : stopReason ?? 'Some rows still need attention',
+      completedAt: done ? Date.now() : undefined,
+    }));
+  }
+
+  return sent;
+}
+
+/**
+ * Receipt of a batch as CSV: one line per row with its outcome, then totals
+ */
+export function formatPayoutReceipt(batch: PayoutBatch): string {
+  const sentRows = batch.rows.filter((row) => row.status === 'sent');
+  const totalSent = sentRows.reduce((sum, row) => sum + Number(row.amount), 0);
+  const fee = batch.fees?.feePerTransfer ?? getTransferFee(batch.priority);
+
+  const lines = [
+    ['Row', 'Recipient', 'Amount (RAIN)', 'Memo', 'Status', 'Nonce', 'Transaction Hash', 'Sent At', 'Error'].join(','),
+    ...batch.rows.map((row) =>
+      [
+        row.line,
+        row.address,
+        row.amount,
+        row.memo,
+        row.status,
+        row.nonce,
+        row.hash,
+        row.sentAt ? new Date(row.sentAt).toISOString() : undefined,
+        row.error,
+      ].map(csvCell).join(',')
+    ),
+    '',
+    ['Batch', batch.id].map(csvCell).join(','),
+    ['Network', batch.networkId].map(csvCell).join(','),
+    ['From', batch.from].map(csvCell).join(','),
+    ['Source File', batch.fileName].map(csvCell).join(','),
+    ['Rows Sent', `${sentRows.length} of ${batch.rows.length}`].map(csvCell).join(','),
+    ['Total Sent (RAIN)', totalSent].map(csvCell).join(','),
+    ['Estimated Fees (RAIN)', fee * sentRows.length].map(csvCell).join(','),
+    ['Generated', new Date().toISOString()].map(csvCell).join(','),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function getPayoutReceiptFileName(batch: PayoutBatch): string {
+  return `rainum-payout-receipt-${new Date(batch.createdAt).toISOString().slice(0, 10)}-${batch.id.slice(-6)}.csv`;
+}
@@ -1,6 +1,7 @@
 import { sha256 } from '@noble/hashes/sha2.js';
 import { validateMnemonic, mnemonicToSeedSync } from 'bip39';
 import nacl from 'tweetnacl';
+import type { VMType } from './rainum-api';
 // All amounts are now in RAIN directly (no micro-RAIN conversion)
 
 /**
@@ -68,6 +69,8 @@ export async function getPublicKey(secretKey: Uint8Array): Promise<Uint8Array> {
  * Create transaction signing message that matches Rust implementation
  * MATCHES Dashboard implementation exactly (all u64)
  *
+ * ⚠️ LEGACY: not bound to a chain - only used when legacy signing is explicitly enabled
+ *
  * Rust code (persistence.rs:167-173):
  * hasher.update(tx.from.as_bytes());
  * hasher.update(tx.to.as_bytes());
@@ -120,6 +123,77 @@ function createTransactionMessage(
   return hash;
 }
 
+/**
+ * Which transaction (or staking) signing message is produced
+ * - v2: domain-separated, commits to the chain ID and VM type (default)
+ * - legacy: createTransactionMessage() - valid on every chain, opt-in only
+ */
+export type SigningDomain =
+  | { format: 'v2'; chainId: string; vmType: VMType }
+  | { format: 'legacy' };
+
+export const SIGNING_FORMAT_VERSION = 2;
+const SIGNING_DOMAIN_TAG = 'RAINUM_TX';
+const STAKING_DOMAIN_TAG = 'RAINUM_STAKE';
+const VM_TYPE_IDS: Record<VMType, number> = { evm: 0, move: 1 };
+
+/**
+ * Create the v2 (domain-separated) transaction signing message
+ * Canonical layout (SHA256 over):
+ *   "RAINUM_TX" || 0x00 || version u8 || chain_id u64 LE || vm_type u8 (0 = evm, 1 = move) ||
+ *   from (UTF-8) || 0x00 || to (UTF-8) || 0x00 ||
+ *   amount u64 LE || timestamp u64 LE || nonce u64 LE || gas_price u64 LE || gas_limit u64 LE
+ *
+ * 🔒 A signature made for one chain can't be replayed on another (Devnet -> Mainnet)
+ */
+function createTransactionMessageV2(
+  chainId: string,
+  vmType: VMType,
+  from: string,
+  to: string,
+  amount: string,
+  timestamp: number,
+  nonce: number,
+  gasPrice: number,
+  gasLimit: number
+): Uint8Array {
+  if (!/^[0-9]+$/.test(chainId)) {
+    throw new Error(`Invalid chain ID: ${chainId}`);
+  }
+  if (!(vmType in VM_TYPE_IDS)) {
+    throw new Error(`Invalid VM type: ${vmType}`);
+  }
+
+  const encoder = new TextEncoder();
+
+  const header = new ArrayBuffer(1 + 8 + 1);
+  const headerView = new DataView(header);
+  headerView.setUint8(0, SIGNING_FORMAT_VERSION);
+  headerView.setBigUint64(1, BigInt(chainId), true);
+  headerView.setUint8(9, VM_TYPE_IDS[vmType]);
+
+  const buffer = new ArrayBuffer(8 * 5); // 5 u64 fields
+  const view = new DataView(buffer);
+  view.setBigUint64(0, BigInt(Math.floor(parseFloat(amount))), true);
+  view.setBigUint64(8, BigInt(timestamp), true);
+  view.setBigUint64(16, BigInt(nonce), true);
+  view.setBigUint64(24, BigInt(gasPrice), true);
+  view.setBigUint64(32, BigInt(gasLimit), true);
+
+  const messageData = new Uint8Array([
+    ...encoder.encode(SIGNING_DOMAIN_TAG),
+    0,
+    ...new Uint8Array(header),
+    ...encoder.encode(from),
+    0,
+    ...encoder.encode(to),
+    0,
+    ...new Uint8Array(buffer),
+  ]);
+
+  return sha256(messageData);
+}
+
 /**
  * Sign transaction data with Ed25519 private key using TweetNaCl
  * Matches Rust blockchain's signature verification
@@ -135,18 +209,13 @@ export async function signTransaction(
   nonce: number,
   timestamp: number,
   gasPrice: number = 0.0,
-  gasLimit: number = 21000
+  gasLimit: number = 21000,
+  domain: SigningDomain
 ): Promise<{ signature: string; publicKey: string }> {
   // Create signing message (SHA256 hash of transaction data)
-  const message = createTransactionMessage(
-    from,
-    to,
-    amount,
-    timestamp,
-    nonce,
-    gasPrice,
-    gasLimit
-  );
+  const message = domain.format === 'v2'
+    ? createTransactionMessageV2(domain.chainId, domain.vmType, from, to, amount, timestamp, nonce, gasPrice, gasLimit)
+    : createTransactionMessage(from, to, amount, timestamp, nonce, gasPrice, gasLimit);
 
   // Sign the HASHED message with TweetNaCl (detached signature)
   const signature = nacl.sign.detached(message, secretKey);
@@ -165,6 +234,164 @@ export async function signTransaction(
   };
 }
 
+/**
+ * Create staking action signing message
+ * Canonical layout (SHA256 over):
+ *   [v2 only: "RAINUM_STAKE" || 0x00 || version u8 || chain_id u64 LE ||]
+ *   action (UTF-8) || 0x00 || validator (UTF-8) || amount u64 LE || nonce u64 LE || timestamp u64 LE
+ *   [|| payload hash (32 bytes) - actions with more fields, see hashStakingPayload()]
+ *
+ * The action tag is NUL-terminated so "unstake" can never be re-read as "un" + "stake..."
+ * 🔒 v2 commits to the chain ID like transfers do, so a Devnet delegation can't be replayed on Mainnet
+ */
+function createStakingMessage(
+  action: string,
+  validator: string,
+  amount: number,
+  nonce: number,
+  timestamp: number,
+  domain: SigningDomain,
+  payloadHash?: string
+): Uint8Array {
+  const encoder = new TextEncoder();
+
+  let prefix = new Uint8Array(0);
+  if (domain.format === 'v2') {
+    if (!/^[0-9]+$/.test(domain.chainId)) {
+      throw new Error(`Invalid chain ID: ${domain.chainId}`);
+    }
+
+    const header = new ArrayBuffer(1 + 8);
+    const headerView = new DataView(header);
+    headerView.setUint8(0, SIGNING_FORMAT_VERSION);
+    headerView.setBigUint64(1, BigInt(domain.chainId), true);
+    prefix = new Uint8Array([...encoder.encode(STAKING_DOMAIN_TAG), 0, ...new Uint8Array(header)]);
+  }
+
+  const actionBytes = encoder.encode(action);
+  const validatorBytes = encoder.encode(validator.toLowerCase());
+
+  const buffer = new ArrayBuffer(8 * 3); // 3 u64 fields
+  const view = new DataView(buffer);
+
+  // Round to whole RAIN tokens since blockchain uses u64 (no decimals)
+  view.setBigUint64(0, BigInt(Math.floor(amount)), true); // amount as u64 RAIN
+  view.setBigUint64(8, BigInt(nonce), true);              // nonce as u64
+  view.setBigUint64(16, BigInt(timestamp), true);         // timestamp as u64
+
+  const messageData = new Uint8Array([
+    ...prefix,
+    ...actionBytes,
+    0,
+    ...validatorBytes,
+    ...new Uint8Array(buffer),
+    ...(payloadHash ? hexToBytes(payloadHash) : []),
+  ]);
+
+  return sha256(messageData);
+}
+
+/**
+ * Hash the fields of a staking action beyond (validator, amount) so the signature covers them too,
+ * e.g. the tier and validator keys of a registration
+ * SHA256 over the fields as UTF-8, each NUL-terminated, in the order given
+ */
+export function hashStakingPayload(fields: (string | number)[]): string {
+  const encoder = new TextEncoder();
+  const bytes = fields.flatMap((field) => [...encoder.encode(String(field)), 0]);
+  return bytesToHex(sha256(new Uint8Array(bytes)));
+}
+
+/**
+ * Sign a staking action (delegate, undelegate, validator stake operations)
+ *
+ * SECURITY NOTE: Caller must securely wipe the secretKey from memory after use
+ * using securelyWipeMemory() from hd-wallet.ts
+ */
+export async function signStakingAction(
+  secretKey: Uint8Array,
+  action: string,
+  validator: string,
+  amount: number,
+  nonce: number,
+  timestamp: number,
+  domain: SigningDomain,
+  payloadHash?: string
+): Promise<{ signature: string; publicKey: string }> {
+  const message = createStakingMessage(action, validator, amount, nonce, timestamp, domain, payloadHash);
+
+  const signature = nacl.sign.detached(message, secretKey);
+  const publicKey = await getPublicKey(secretKey);
+
+  // SECURITY: Clear sensitive message buffer from memory
+  for (let i = 0; i < message.length; i++) {
+    message[i] = 0;
+  }
+
+  return {
+    signature: bytesToHex(signature),
+    publicKey: bytesToHex(publicKey),
+  };
+}
+
+/**
+ * Create the message for signing arbitrary wallet data (exported bundles, not transactions)
+ * 🔒 Domain-separated so a data signature can never be replayed as a transaction or staking signature:
+ * SHA256("RAINUM_DATA" || 0x00 || purpose || 0x00 || data)
+ */
+function createDataMessage(purpose: string, data: Uint8Array): Uint8Array {
+  const encoder = new TextEncoder();
+  return sha256(new Uint8Array([
+    ...encoder.encode('RAINUM_DATA'),
+    0,
+    ...encoder.encode(purpose),
+    0,
+    ...data,
+  ]));
+}
+
+/**
+ * Sign wallet data for a given purpose (e.g. 'network-bundle')
+ *
+ * SECURITY NOTE: Caller must securely wipe the secretKey from memory after use
+ * using securelyWipeMemory() from hd-wallet.ts
+ */
+export async function signData(
+  secretKey: Uint8Array,
+  purpose: string,
+  data: Uint8Array
+): Promise<{ signature: string; publicKey: string }> {
+  const message = createDataMessage(purpose, data);
+  const signature = nacl.sign.detached(message, secretKey);
+  const publicKey = await getPublicKey(secretKey);
+
+  return {
+    signature: bytesToHex(signature),
+    publicKey: bytesToHex(publicKey),
+  };
+}
+
+/**
+ * Verify a signature produced by signData()
+ */
+export function verifyDataSignature(
+  publicKeyHex: string,
+  purpose: string,
+  data: Uint8Array,
+  signatureHex: string
+): boolean {
+  try {
+    const publicKey = hexToBytes(publicKeyHex);
+    const signature = hexToBytes(signatureHex);
+    if (publicKey.length !== nacl.sign.publicKeyLength || signature.length !== nacl.sign.signatureLength) {
+      return false;
+    }
+    return nacl.sign.detached.verify(createDataMessage(purpose, data), signature, publicKey);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Convert hex string to Uint8Array
  */
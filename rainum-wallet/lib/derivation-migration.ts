@@ -0,0 +1,139 @@
+/**
+ * Derivation Scheme Migration
+ * Sweeps funds from the accounts of the current derivation scheme (e.g. the legacy
+ * m/44'/60'/0'/0/{index} path) to the same account indices under a new scheme,
+ * then switches the wallet to the new scheme.
+ *
+ * Each account is swept with one signed transfer of its whole balance minus the network fee.
+ * Sweeping is resumable: re-planning skips accounts that are already empty.
+ */
+
+import { deriveAccountFromMnemonic, isSameDerivationScheme, type DerivationScheme } from './hd-wallet';
+import { useWalletStore, isHDAccount, type WalletAccount } from './wallet-store';
+import { logAuditEvent } from './audit-log';
+
+export type SweepStatus = 'pending' | 'skipped' | 'sent' | 'failed';
+
+export interface SweepItem {
+  index: number;
+  name: string;
+  from: string; // Address under the current scheme
+  to: string; // Address of the same index under the target scheme
+  balance: number;
+  fee: number;
+  amount: number; // balance - fee, whole RAIN
+  status: SweepStatus;
+  reason?: string; // Why the item was skipped or failed
+}
+
+const SWEEP_PRIORITY = 'low';
+
+/**
+ * Build the sweep plan for every HD account of the wallet
+ * Accounts whose balance does not cover the fee are marked as skipped.
+ */
+export async function planDerivationSweep(
+  mnemonic: string,
+  passphrase: string,
+  accounts: WalletAccount[],
+  target: DerivationScheme
+): Promise<SweepItem[]> {
+  const current = useWalletStore.getState().derivationScheme;
+  if (isSameDerivationScheme(current, target)) {
+    throw new Error('The wallet already uses this derivation scheme');
+  }
+
+  const { getBalance, getTransferFee } = await import('./rainum-api');
+  const fee = getTransferFee(SWEEP_PRIORITY);
+
+  const items: SweepItem[] = [];
+  for (const account of accounts.filter(isHDAccount)) {
+    const to = deriveAccountFromMnemonic(mnemonic, account.index, passphrase, target).address;
+    const balance = await getBalance(account.address);
+    const amount = Math.floor(balance - fee);
+
+    items.push({
+      index: account.index,
+      name: account.name,
+      from: account.address,
+      to,
+      balance,
+      fee,
+      amount: Math.max(amount, 0),
+      status: amount > 0 ? 'pending' : 'skipped',
+      reason: amount > 0 ? undefined : balance > 0 ? 'Balance does not cover the network fee' : 'No funds',
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Send every pending (or previously failed) sweep transfer, one account at a time
+ * Transfers are signed with the current scheme, so the wallet must not switch
+ * schemes until this has finished (see completeDerivationMigration).
+ */
+export async function executeDerivationSweep(
+  items: SweepItem[],
+  mnemonic: string,
+  onProgress?: (items: SweepItem[]) => void
+): Promise<SweepItem[]> {
+  const { sendTransaction } = await import('./rainum-api');
+  const results = items.map((item) => ({ ...item }));
+
+  for (const item of results) {
+    if (item.status !== 'pending' && item.status !== 'failed') continue; // Failed items are retried
+
+    try {
+      const response = await sendTransaction(
+        item.from,
+        item.to,
+        item.amount.toString(),
+        SWEEP_PRIORITY,
+        mnemonic,
+        false,
+        'full',
+        item.index
+      );
+
+      if (response.success) {
+        item.status = 'sent';
+      } else {
+        item.status = 'failed';
+        item.reason = response.message || 'Transaction rejected';
+      }
+    } catch (err) {
+      item.status = 'failed';
+      item.reason = err instanceof Error ? err.message : 'Transaction failed';
+    }
+
+    onProgress?.(results.map((r) => ({ ...r })));
+  }
+
+  return results;
+}
+
+/**
+ * Switch the wallet to the target scheme once every account has been swept
+ * @throws Error if any transfer failed (the wallet stays on the current scheme so it can be retried)
+ */
+export function completeDerivationMigration(items: SweepItem[], target: DerivationScheme): void {
+  const failed = items.filter((item) => item.status === 'failed' || item.status === 'pending');
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} account${failed.length === 1 ? ' was' : 's were'} not swept - retry before switching`);
+  }
+
+  const previous = useWalletStore.getState().derivationScheme;
+  useWalletStore.getState().setDerivationScheme(target);
+
+  logAuditEvent(
+    'derivation_scheme_changed',
+    'account',
+    `Migrated accounts from ${previous.pathTemplate} to ${target.pathTemplate}`,
+    {
+      from: previous,
+      to: target,
+      sweptAccounts: items.filter((item) => item.status === 'sent').length,
+    }
+  );
+}
@@ -1,23 +1,130 @@
 import { HDKey } from '@scure/bip32';
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha512 } from '@noble/hashes/sha2.js';
 import { mnemonicToSeedSync } from 'bip39';
 import nacl from 'tweetnacl';
 import { deriveAddressFromPublicKey } from './crypto';
 
 /**
- * HD Wallet implementation for Ed25519 using BIP32
- * Derivation path: m/44'/60'/0'/0/{index}
- * - 44' = BIP44
- * - 60' = Ethereum coin type (we use same for compatibility)
- * - 0' = Account 0 (hardened)
- * - 0 = External chain
- * - index = Account index (0, 1, 2, ...)
+ * HD Wallet implementation for Ed25519
+ *
+ * Each wallet selects a derivation scheme:
+ * - legacy (default): BIP32 over secp256k1, child key used as Ed25519 seed
+ *   Derivation path: m/44'/60'/0'/0/{index}
+ *   - 44' = BIP44
+ *   - 60' = Ethereum coin type (we use same for compatibility)
+ *   - 0' = Account 0 (hardened)
+ *   - 0 = External chain
+ *   - index = Account index (0, 1, 2, ...)
+ * - slip10: SLIP-0010 Ed25519, all segments hardened (hardware wallet / Ed25519 chain compatible)
+ *   Derivation path: m/44'/60'/{index}'/0'/0'
+ * - custom: any path template with either algorithm
  */
 
 export interface DerivedAccount {
   index: number;
+  path: string; // Concrete derivation path
   address: string;
   publicKey: Uint8Array;
-  privateKey: Uint8Array; // 32-byte seed for Ed25519
+  privateKey: Uint8Array; // 64-byte Ed25519 secret key (seed + public key)
+}
+
+export type DerivationAlgorithm = 'bip32-secp256k1' | 'slip10-ed25519';
+
+export interface DerivationScheme {
+  id: 'legacy' | 'slip10' | 'custom';
+  algorithm: DerivationAlgorithm;
+  pathTemplate: string; // "{index}" is replaced by the account index
+}
+
+export const LEGACY_DERIVATION_SCHEME: DerivationScheme = {
+  id: 'legacy',
+  algorithm: 'bip32-secp256k1',
+  pathTemplate: "m/44'/60'/0'/0/{index}",
+};
+
+export const SLIP10_DERIVATION_SCHEME: DerivationScheme = {
+  id: 'slip10',
+  algorithm: 'slip10-ed25519',
+  pathTemplate: "m/44'/60'/{index}'/0'/0'",
+};
+
+const HARDENED_OFFSET = 0x80000000;
+const MAX_INDEX = HARDENED_OFFSET - 1; // BIP44 index range 0 to 2^31 - 1
+const MAX_PATH_DEPTH = 10;
+const SLIP10_ED25519_CURVE_KEY = new TextEncoder().encode('ed25519 seed');
+
+/**
+ * Fill an account index into a path template
+ * @throws Error if the index or resulting path is invalid
+ */
+export function formatDerivationPath(pathTemplate: string, index: number): string {
+  // 🔒 SECURITY: Validate account index bounds (prevent overflow/underflow)
+  if (!Number.isInteger(index)) {
+    throw new Error('Account index must be an integer');
+  }
+
+  if (index < 0) {
+    throw new Error('Account index must be non-negative');
+  }
+
+  if (index > MAX_INDEX) {
+    throw new Error(`Account index must not exceed ${MAX_INDEX}`);
+  }
+
+  const path = pathTemplate.replace('{index}', String(index));
+  parseDerivationPath(path); // Validates the result
+  return path;
+}
+
+/**
+ * Parse "m/44'/60'/0'" into child numbers (hardened segments include the 2^31 offset)
+ */
+function parseDerivationPath(path: string): number[] {
+  const parts = path.trim().split('/');
+  if (parts[0] !== 'm') {
+    throw new Error('Derivation path must start with "m/"');
+  }
+
+  const segments = parts.slice(1);
+  if (segments.length === 0 || segments.length > MAX_PATH_DEPTH) {
+    throw new Error(`Derivation path must have 1 to ${MAX_PATH_DEPTH} segments`);
+  }
+
+  return segments.map((segment) => {
+    const match = segment.match(/^(\d+)(['h]?)$/);
+    if (!match) {
+      throw new Error(`Invalid derivation path segment "${segment}"`);
+    }
+
+    const value = parseInt(match[1], 10);
+    if (value > MAX_INDEX) {
+      throw new Error(`Derivation path segment "${segment}" is out of range`);
+    }
+
+    return match[2] ? value + HARDENED_OFFSET : value;
+  });
+}
+
+/**
+ * Validate a derivation scheme (used before saving a custom template)
+ * @throws Error describing the problem
+ */
+export function validateDerivationScheme(scheme: DerivationScheme): void {
+  const placeholders = scheme.pathTemplate.split('{index}').length - 1;
+  if (placeholders !== 1) {
+    throw new Error('Path template must contain {index} exactly once');
+  }
+
+  const samplePath = formatDerivationPath(scheme.pathTemplate, 0);
+
+  if (scheme.algorithm === 'slip10-ed25519' && parseDerivationPath(samplePath).some((s) => s < HARDENED_OFFSET)) {
+    throw new Error("SLIP-0010 Ed25519 paths must be fully hardened (every segment ends with ')");
+  }
+}
+
+export function isSameDerivationScheme(a: DerivationScheme, b: DerivationScheme): boolean {
+  return a.algorithm === b.algorithm && a.pathTemplate === b.pathTemplate;
 }
 
 /**
@@ -40,9 +147,10 @@ export function securelyWipeMemory(buffer: Uint8Array): void {
 
 /**
  * Derive HD wallet master key from mnemonic
+ * An optional BIP39 passphrase ("25th word") selects a different hidden wallet from the same seed
  */
-export function getMasterKeyFromMnemonic(mnemonic: string): HDKey {
-  const seed = mnemonicToSeedSync(mnemonic, '');
+export function getMasterKeyFromMnemonic(mnemonic: string, passphrase: string = ''): HDKey {
+  const seed = mnemonicToSeedSync(mnemonic, passphrase);
 
   // 🔒 CRITICAL SECURITY: Wipe seed after deriving master key
   try {
@@ -60,60 +168,123 @@ export function getMasterKeyFromMnemonic(mnemonic: string): HDKey {
   }
 }
 
+/**
+ * Run fn with the BIP39 seed of a mnemonic, wiping the seed afterwards
+ */
+function withSeed<T>(mnemonic: string, passphrase: string, fn: (seed: Uint8Array) => T): T {
+  const seed = mnemonicToSeedSync(mnemonic, passphrase);
+  try {
+    return fn(seed);
+  } finally {
+    // 🔒 CRITICAL SECURITY: Wipe the full BIP39 seed from memory
+    seed.fill(0);
+  }
+}
+
 /**
  * Derive account at specific index from mnemonic
- * Path: m/44'/60'/0'/0/{index}
+ * Path and algorithm come from the wallet's derivation scheme (legacy m/44'/60'/0'/0/{index} by default)
  */
 export function deriveAccountFromMnemonic(
   mnemonic: string,
-  index: number
+  index: number,
+  passphrase: string = '',
+  scheme: DerivationScheme = LEGACY_DERIVATION_SCHEME
 ): DerivedAccount {
-  const masterKey = getMasterKeyFromMnemonic(mnemonic);
-  return deriveAccountFromMasterKey(masterKey, index);
+  return withSeed(mnemonic, passphrase, (seed) => deriveAccountFromSeed(seed, index, scheme));
+}
+
+/**
+ * Derive account at specific index from a BIP39 seed
+ */
+function deriveAccountFromSeed(seed: Uint8Array, index: number, scheme: DerivationScheme): DerivedAccount {
+  if (scheme.algorithm === 'slip10-ed25519') {
+    return deriveSlip10Account(seed, index, scheme.pathTemplate);
+  }
+  return deriveAccountFromMasterKey(HDKey.fromMasterSeed(seed), index, scheme.pathTemplate);
 }
 
 /**
- * Derive account at specific index from master key
+ * Derive account at specific index from master key (secp256k1 BIP32)
  */
 export function deriveAccountFromMasterKey(
   masterKey: HDKey,
-  index: number
+  index: number,
+  pathTemplate: string = LEGACY_DERIVATION_SCHEME.pathTemplate
 ): DerivedAccount {
-  // 🔒 SECURITY: Validate account index bounds (prevent overflow/underflow)
-  if (!Number.isInteger(index)) {
-    throw new Error('Account index must be an integer');
+  // 🔒 SECURITY: Validate account index bounds and path (prevent overflow/underflow)
+  const path = formatDerivationPath(pathTemplate, index);
+  const derived = masterKey.derive(path);
+
+  if (!derived.privateKey) {
+    throw new Error('Failed to derive private key');
   }
 
-  if (index < 0) {
-    throw new Error('Account index must be non-negative');
+  // For Ed25519, we use the derived secp256k1 private key as seed
+  const privateKeySeed = derived.privateKey.slice(0, 32);
+  try {
+    return accountFromEd25519Seed(index, path, privateKeySeed);
+  } finally {
+    securelyWipeMemory(privateKeySeed);
   }
+}
 
-  // BIP44 specifies index range 0 to 2^31 - 1 (non-hardened)
-  const MAX_INDEX = 2147483647; // 2^31 - 1
-  if (index > MAX_INDEX) {
-    throw new Error(`Account index must not exceed ${MAX_INDEX}`);
+/**
+ * Derive account at specific index with SLIP-0010 (Ed25519, hardened segments only)
+ */
+function deriveSlip10Account(seed: Uint8Array, index: number, pathTemplate: string): DerivedAccount {
+  const path = formatDerivationPath(pathTemplate, index);
+  const privateKeySeed = deriveSlip10Ed25519Key(seed, parseDerivationPath(path));
+  try {
+    return accountFromEd25519Seed(index, path, privateKeySeed);
+  } finally {
+    securelyWipeMemory(privateKeySeed);
   }
+}
 
-  // Derivation path: m/44'/60'/0'/0/{index}
-  const path = `m/44'/60'/0'/0/${index}`;
-  const derived = masterKey.derive(path);
+/**
+ * SLIP-0010 private key derivation for the ed25519 curve
+ * Every segment must be hardened (ed25519 has no public child derivation)
+ * @returns 32-byte Ed25519 seed
+ */
+function deriveSlip10Ed25519Key(seed: Uint8Array, segments: number[]): Uint8Array {
+  let I = hmac(sha512, SLIP10_ED25519_CURVE_KEY, seed);
+  let key = I.slice(0, 32);
+  let chainCode = I.slice(32);
+  securelyWipeMemory(I);
 
-  if (!derived.privateKey) {
-    throw new Error('Failed to derive private key');
+  for (const segment of segments) {
+    if (segment < HARDENED_OFFSET) {
+      throw new Error('SLIP-0010 Ed25519 derivation only supports hardened path segments');
+    }
+
+    // data = 0x00 || key || ser32(segment)
+    const data = new Uint8Array(37);
+    data.set(key, 1);
+    new DataView(data.buffer).setUint32(33, segment);
+
+    I = hmac(sha512, chainCode, data);
+    securelyWipeMemory(data);
+    securelyWipeMemory(key);
+    securelyWipeMemory(chainCode);
+
+    key = I.slice(0, 32);
+    chainCode = I.slice(32);
+    securelyWipeMemory(I);
   }
 
-  // For Ed25519, we use the derived private key as seed
-  const privateKeySeed = derived.privateKey.slice(0, 32);
+  securelyWipeMemory(chainCode);
+  return key;
+}
 
+function accountFromEd25519Seed(index: number, path: string, privateKeySeed: Uint8Array): DerivedAccount {
   // Generate Ed25519 keypair from seed
   const keypair = nacl.sign.keyPair.fromSeed(privateKeySeed);
 
-  // Derive address from public key
-  const address = deriveAddressFromPublicKey(keypair.publicKey);
-
   return {
     index,
-    address,
+    path,
+    address: deriveAddressFromPublicKey(keypair.publicKey),
     publicKey: keypair.publicKey,
     privateKey: keypair.secretKey, // 64-byte secret key (seed + public key)
   };
@@ -124,16 +295,17 @@ export function deriveAccountFromMasterKey(
  */
 export function deriveMultipleAccounts(
   mnemonic: string,
-  count: number
+  count: number,
+  passphrase: string = '',
+  scheme: DerivationScheme = LEGACY_DERIVATION_SCHEME
 ): DerivedAccount[] {
-  const masterKey = getMasterKeyFromMnemonic(mnemonic);
-  const accounts: DerivedAccount[] = [];
-
-  for (let i = 0; i < count; i++) {
-    accounts.push(deriveAccountFromMasterKey(masterKey, i));
-  }
-
-  return accounts;
+  return withSeed(mnemonic, passphrase, (seed) => {
+    const accounts: DerivedAccount[] = [];
+    for (let i = 0; i < count; i++) {
+      accounts.push(deriveAccountFromSeed(seed, i, scheme));
+    }
+    return accounts;
+  });
 }
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * Imported Private Keys
+ * Parsing and validation of standalone Ed25519 keys that are not part of the HD tree:
+ * - raw 64-byte TweetNaCl secret key (hex, as exported from Backup & Export)
+ * - encrypted account keystore file in the wallet vault format (createAccountKeystore(), Backup & Export)
+ *
+ * SECURITY NOTE: Callers must wipe returned secret keys with securelyWipeMemory()
+ */
+
+import nacl from 'tweetnacl';
+import { bytesToHex, deriveAddressFromPublicKey, hexToBytes } from './crypto';
+import { decryptVault, encryptVault, parseVault, serializeVault, type EncryptedVault } from './vault';
+import { getVaultKdf } from './wallet-settings';
+
+export const ACCOUNT_KEYSTORE_TYPE = 'rainum-account-keystore';
+
+/**
+ * Encrypted account keystore file
+ */
+export interface AccountKeystore {
+  type: typeof ACCOUNT_KEYSTORE_TYPE;
+  version: 2;
+  address: string;
+  crypto: EncryptedVault;
+}
+
+/**
+ * Parse a hex-encoded 64-byte Ed25519 secret key (seed || public key)
+ * @throws Error if the key is malformed or its public half does not match the seed
+ */
+export function parseSecretKeyHex(input: string): Uint8Array {
+  const hex = input.trim().replace(/^0x/i, '');
+
+  if (!/^[a-fA-F0-9]+$/.test(hex)) {
+    throw new Error('Private key must be hexadecimal');
+  }
+
+  if (hex.length !== 128) {
+    throw new Error('Private key must be a 64-byte Ed25519 secret key (128 hex characters)');
+  }
+
+  const secretKey = hexToBytes(hex);
+
+  // 🔒 The last 32 bytes must be the public key of the first 32 (rejects truncated/tampered keys)
+  const expected = nacl.sign.keyPair.fromSeed(secretKey.slice(0, 32));
+  if (bytesToHex(expected.publicKey) !== bytesToHex(secretKey.slice(32))) {
+    throw new Error('Private key is corrupted - public key does not match');
+  }
+
+  return secretKey;
+}
+
+/**
+ * Encrypt a secret key as an account keystore file
+ * The key is encrypted in the wallet vault format (AES-256-GCM, KDF parameters in `crypto.kdf`)
+ * @returns Keystore JSON string
+ */
+export async function createAccountKeystore(secretKey: Uint8Array, password: string): Promise<string> {
+  if (!password || password.length < 8) {
+    throw new Error('Keystore password must be at least 8 characters');
+  }
+
+  const keystore: AccountKeystore = {
+    type: ACCOUNT_KEYSTORE_TYPE,
+    version: 2,
+    address: getAddressFromSecretKey(secretKey),
+    crypto: await encryptVault(JSON.stringify({ secret_key_hex: bytesToHex(secretKey) }), password, getVaultKdf()),
+  };
+
+  return JSON.stringify(keystore, null, 2);
+}
+
+/**
+ * Decrypt an account keystore file
+ * @returns 64-byte secret key
+ * @throws VaultIntegrityError if the keystore was modified or is corrupted
+ */
+export async function decryptAccountKeystore(json: string, password: string): Promise<Uint8Array> {
+  let keystore: Partial<AccountKeystore>;
+  try {
+    keystore = JSON.parse(json);
+  } catch {
+    throw new Error('Keystore is not valid JSON');
+  }
+
+  if (keystore.type !== ACCOUNT_KEYSTORE_TYPE || !keystore.crypto) {
+    throw new Error('Not a Rainum account keystore file');
+  }
+
+  const vault = keystore.version === 2 ? parseVault(serializeVault(keystore.crypto)) : null;
+  if (!vault) {
+    throw new Error('Unsupported keystore version');
+  }
+
+  const decrypted = await decryptVault(vault, password);
+  if (!decrypted) {
+    throw new Error('Incorrect keystore password');
+  }
+
+  let secretKeyHex: string;
+  try {
+    secretKeyHex = JSON.parse(decrypted).secret_key_hex;
+  } catch {
+    throw new Error('Keystore contents are corrupted');
+  }
+
+  const secretKey = parseSecretKeyHex(secretKeyHex || '');
+
+  if (keystore.address && getAddressFromSecretKey(secretKey).toLowerCase() !== keystore.address.toLowerCase()) {
+    throw new Error('Keystore address does not match its key');
+  }
+
+  return secretKey;
+}
+
+/**
+ * Wallet address of a 64-byte secret key
+ */
+export function getAddressFromSecretKey(secretKey: Uint8Array): string {
+  return deriveAddressFromPublicKey(secretKey.slice(32));
+}
@@ -0,0 +1,274 @@
+/**
+ * Network Bundles & Deep Links
+ * Share custom network configurations between wallets.
+ *
+ * - Bundles: JSON file with one or more networks, signed by a wallet account so the
+ *   receiver can see who exported it and that nothing was changed on the way
+ * - Deep links: /?addNetwork=<base64url> carries a single network (or a whole bundle)
+ *
+ * Nothing is added or switched without the user confirming it, and every imported
+ * network goes through the same identity verification as a manually added one.
+ */
+
+import { deriveAddressFromPublicKey, hexToBytes, verifyDataSignature } from './crypto';
+import { validateNetwork, type Network } from './network-store';
+import type { Signer, TransactionSignature } from './transaction-builder';
+
+export const NETWORK_BUNDLE_TYPE = 'rainum-network-bundle';
+export const NETWORK_BUNDLE_VERSION = 1;
+const SIGNATURE_PURPOSE = 'network-bundle';
+
+export const ADD_NETWORK_PARAM = 'addNetwork';
+export const SWITCH_NETWORK_PARAM = 'switchNetwork';
+
+const MAX_BUNDLE_NETWORKS = 50;
+
+/**
+ * Network fields that travel in a bundle (health, active endpoint etc. stay local)
+ */
+export type SharedNetwork = Pick<Network, 'id' | 'name' | 'rpcUrl' | 'rpcUrls' | 'explorerUrl' | 'chainId' | 'genesisHash'>;
+
+export interface NetworkBundle {
+  type: typeof NETWORK_BUNDLE_TYPE;
+  version: number;
+  created_at: number; // Unix seconds
+  networks: SharedNetwork[];
+  signer?: {
+    address: string;
+    signature: TransactionSignature;
+  };
+}
+
+export type BundleSignatureStatus =
+  | { status: 'valid'; address: string }
+  | { status: 'unsigned' }
+  | { status: 'invalid'; reason: string };
+
+function toSharedNetwork(network: Network | SharedNetwork): SharedNetwork {
+  return {
+    id: network.id,
+    name: network.name,
+    rpcUrl: network.rpcUrl,
+    rpcUrls: network.rpcUrls && network.rpcUrls.length > 0 ? [...network.rpcUrls] : undefined,
+    explorerUrl: network.explorerUrl || '',
+    chainId: network.chainId,
+    genesisHash: network.genesisHash,
+  };
+}
+
+/**
+ * Bytes covered by the bundle signature (everything except the signer block)
+ */
+function getSignedBytes(bundle: NetworkBundle): Uint8Array {
+  const { type, version, created_at, networks } = bundle;
+  return new TextEncoder().encode(JSON.stringify({ type, version, created_at, networks }));
+}
+
+/**
+ * Export networks as a bundle signed by a wallet account
+ */
+export async function createNetworkBundle(networks: Network[], signer: Signer): Promise<NetworkBundle> {
+  if (networks.length === 0) {
+    throw new Error('There are no custom networks to export');
+  }
+
+  const bundle: NetworkBundle = {
+    type: NETWORK_BUNDLE_TYPE,
+    version: NETWORK_BUNDLE_VERSION,
+    created_at: Math.floor(Date.now() / 1000),
+    networks: networks.map(toSharedNetwork),
+  };
+
+  const signature = await signer.signData(SIGNATURE_PURPOSE, getSignedBytes(bundle));
+  return { ...bundle, signer: { address: signer.address, signature } };
+}
+
+function parseSharedNetwork(value: unknown, position: number): SharedNetwork {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Network ${position} is not an object`);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const optionalString = (field: string): string | undefined => {
+    const v = raw[field];
+    if (v === undefined || v === null || v === '') return undefined;
+    if (typeof v !== 'string') throw new Error(`Network ${position}: ${field} must be a string`);
+    return v;
+  };
+
+  const name = optionalString('name');
+  const rpcUrls = raw.rpcUrls;
+  if (rpcUrls !== undefined && (!Array.isArray(rpcUrls) || rpcUrls.some((url) => typeof url !== 'string'))) {
+    throw new Error(`Network ${position}: rpcUrls must be a list of URLs`);
+  }
+
+  const genesisHash = optionalString('genesisHash');
+  if (genesisHash && !/^(0x)?[0-9a-fA-F]+$/.test(genesisHash)) {
+    throw new Error(`Network ${position}: genesisHash is not a hex string`);
+  }
+
+  const network: SharedNetwork = {
+    id: optionalString('id') || (name || '').toLowerCase().replace(/\s+/g, '-'),
+    name: name || '',
+    rpcUrl: optionalString('rpcUrl') || '',
+    rpcUrls: rpcUrls as string[] | undefined,
+    explorerUrl: optionalString('explorerUrl') || '',
+    chainId: raw.chainId === undefined || raw.chainId === null ? undefined : String(raw.chainId),
+    genesisHash: genesisHash?.toLowerCase(),
+  };
+
+  const validation = validateNetwork(network);
+  if (!validation.valid) {
+    throw new Error(`${network.name || `Network ${position}`}: ${validation.errors[0]}`);
+  }
+
+  return network;
+}
+
+/**
+ * Parse and validate a bundle from JSON text
+ * A single network object (as carried by deep links) is wrapped in an unsigned bundle.
+ * @throws Error describing the first invalid field
+ */
+export function parseNetworkBundle(json: string): NetworkBundle {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Not a network bundle');
+  }
+
+  if (data.type !== NETWORK_BUNDLE_TYPE) {
+    if ('rpcUrl' in data) {
+      return {
+        type: NETWORK_BUNDLE_TYPE,
+        version: NETWORK_BUNDLE_VERSION,
+        created_at: Math.floor(Date.now() / 1000),
+        networks: [parseSharedNetwork(data, 1)],
+      };
+    }
+    throw new Error('Not a network bundle');
+  }
+
+  if (data.version !== NETWORK_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${String(data.version)}`);
+  }
+
+  if (!Array.isArray(data.networks) || data.networks.length === 0) {
+    throw new Error('The bundle contains no networks');
+  }
+  if (data.networks.length > MAX_BUNDLE_NETWORKS) {
+    throw new Error(`A bundle can contain at most ${MAX_BUNDLE_NETWORKS} networks`);
+  }
+
+  const bundle: NetworkBundle = {
+    type: NETWORK_BUNDLE_TYPE,
+    version: NETWORK_BUNDLE_VERSION,
+    created_at: typeof data.created_at === 'number' ? data.created_at : 0,
+    // Re-serialized from the raw values so the signature check sees exactly what was signed
+    networks: data.networks as SharedNetwork[],
+  };
+
+  // Validate without altering what the signature covers
+  data.networks.forEach((network, i) => parseSharedNetwork(network, i + 1));
+
+  const signer = data.signer as NetworkBundle['signer'] | undefined;
+  if (signer !== undefined) {
+    if (
+      !signer ||
+      typeof signer.address !== 'string' ||
+      typeof signer.signature?.signature_hex !== 'string' ||
+      typeof signer.signature?.public_key_hex !== 'string'
+    ) {
+      throw new Error('The bundle signature is malformed');
+    }
+    bundle.signer = signer;
+  }
+
+  return bundle;
+}
+
+/**
+ * Check who signed a bundle and that it wasn't modified afterwards
+ */
+export function verifyNetworkBundle(bundle: NetworkBundle): BundleSignatureStatus {
+  if (!bundle.signer) {
+    return { status: 'unsigned' };
+  }
+
+  const { address, signature } = bundle.signer;
+  if (!verifyDataSignature(signature.public_key_hex, SIGNATURE_PURPOSE, getSignedBytes(bundle), signature.signature_hex)) {
+    return { status: 'invalid', reason: 'The signature does not match the bundle contents' };
+  }
+
+  const signerAddress = deriveAddressFromPublicKey(hexToBytes(signature.public_key_hex));
+  if (signerAddress.toLowerCase() !== address.toLowerCase()) {
+    return { status: 'invalid', reason: 'The signing key does not belong to the stated address' };
+  }
+
+  return { status: 'valid', address: signerAddress };
+}
+
+/**
+ * Networks of a (parsed) bundle, normalized and ready to verify and add
+ */
+export function getBundleNetworks(bundle: NetworkBundle): Network[] {
+  return bundle.networks.map((network, i) => ({ ...parseSharedNetwork(network, i + 1), isCustom: true }));
+}
+
+export function serializeNetworkBundle(bundle: NetworkBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * File name used when downloading a bundle
+ */
+export function getNetworkBundleFilename(bundle: NetworkBundle): string {
+  const date = new Date(bundle.created_at * 1000).toISOString().slice(0, 10);
+  return `rainum-networks-${date}.json`;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * Deep link that opens the add-network confirmation for one network
+ */
+export function createAddNetworkLink(network: Network, origin: string = window.location.origin): string {
+  return `${origin}/?${ADD_NETWORK_PARAM}=${toBase64Url(JSON.stringify(toSharedNetwork(network)))}`;
+}
+
+/**
+ * Deep link that asks to switch to a known network
+ */
+export function createSwitchNetworkLink(networkId: string, origin: string = window.location.origin): string {
+  return `${origin}/?${SWITCH_NETWORK_PARAM}=${encodeURIComponent(networkId)}`;
+}
+
+/**
+ * Decode the ?addNetwork= value of a deep link (a single network or a whole bundle)
+ * @throws Error if the value isn't a valid network
+ */
+export function parseAddNetworkParam(value: string): NetworkBundle {
+  let json: string;
+  try {
+    json = fromBase64Url(value.trim());
+  } catch {
+    throw new Error('The network link is damaged');
+  }
+  return parseNetworkBundle(json);
+}
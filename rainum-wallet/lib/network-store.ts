@@ -1,36 +1,146 @@
 /**
  * Network Store - Manages blockchain network selection
  * Supports mainnet, testnet, and custom RPC networks
+ *
+ * Every network has a prioritized list of RPC endpoints (rpcUrl first, then rpcUrls and
+ * user-added backups). The health monitor (rpc-health-monitor.ts) records latency and block
+ * height per endpoint, and requests go to the active endpoint: the first healthy one, in
+ * priority order, that is in sync with the others.
+ *
+ * 🔒 Custom networks pin the genesis hash their node reported when they were added. The pin is
+ * re-verified on every switch and before signing, and endpoints reporting another chain are never used.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { logAuditEvent } from './audit-log';
 
 export interface Network {
   id: string;
   name: string;
-  rpcUrl: string;
+  rpcUrl: string; // Primary endpoint
+  rpcUrls?: string[]; // Fallback endpoints, in priority order
   explorerUrl: string;
   chainId?: string;
+  genesisHash?: string; // Pinned when the network was added - the node must keep reporting it
   isCustom?: boolean;
 }
 
+export type HealthStatus = 'healthy' | 'degraded' | 'offline';
+
+export interface EndpointHealth {
+  url: string;
+  status: HealthStatus;
+  latencyMs: number | null;
+  blockHeight: number | null;
+  blocksBehind: number | null; // Relative to the highest endpoint of the same network
+  chainId: string | null;
+  genesisHash: string | null;
+  lastChecked: number;
+  error?: string;
+}
+
+/**
+ * What a node says about the chain it serves (/status)
+ */
+export interface NodeIdentity {
+  chainId: string | null;
+  genesisHash: string | null;
+}
+
+export type IdentityCheck =
+  | { status: 'verified' } // Node reports the pinned genesis hash
+  | { status: 'unpinned' } // Nothing pinned for this network - only the chain ID is checked
+  | { status: 'mismatch'; message: string }
+  | { status: 'error'; message: string };
+
 interface NetworkStore {
   currentNetwork: Network;
   defaultNetwork: Network | null;
   customNetworks: Network[];
-  networkHealth: Record<string, 'healthy' | 'degraded' | 'offline'>;
+  networkHealth: Record<string, HealthStatus>;
+  backupRpcUrls: Record<string, string[]>; // networkId -> endpoints added by the user
+  endpointHealth: Record<string, EndpointHealth>; // url -> last check
+  activeRpcUrls: Record<string, string>; // networkId -> endpoint requests go to
+  identityChecks: Record<string, IdentityCheck>; // networkId -> result of the last identity check
 
   // Actions
   switchNetwork: (network: Network) => void;
   setDefaultNetwork: (network: Network) => void;
   addCustomNetwork: (network: Network) => void;
   removeCustomNetwork: (networkId: string) => void;
-  updateNetworkHealth: (networkId: string, status: 'healthy' | 'degraded' | 'offline') => void;
+  updateNetworkHealth: (networkId: string, status: HealthStatus) => void;
+  addBackupRpcUrl: (networkId: string, rpcUrl: string) => void;
+  removeBackupRpcUrl: (networkId: string, rpcUrl: string) => void;
+  updateEndpointHealth: (networkId: string, results: EndpointHealth[]) => void;
+  reportEndpointFailure: (rpcUrl: string, error: string) => string | null;
+  verifyNetworkIdentity: (network?: Network) => Promise<IdentityCheck>;
   getNetworkById: (networkId: string) => Network | undefined;
+  getNetworkEndpoints: (network: Network) => string[];
   getCurrentRpcUrl: () => string;
 }
 
+// An endpoint more than this many blocks behind the highest one is treated as out of sync
+export const MAX_BLOCK_LAG = 5;
+
+const HEALTH_RANK: Record<HealthStatus, number> = { healthy: 0, degraded: 1, offline: 2 };
+
+function normalizeRpcUrl(rpcUrl: string): string {
+  return rpcUrl.trim().replace(/\/+$/, '');
+}
+
+/**
+ * Recompute blocksBehind for a network's endpoints from their latest checks
+ */
+function withSyncState(endpoints: string[], health: Record<string, EndpointHealth>): Record<string, EndpointHealth> {
+  const heights = endpoints
+    .map((url) => health[url])
+    .filter((h): h is EndpointHealth => !!h && h.status !== 'offline' && h.blockHeight !== null)
+    .map((h) => h.blockHeight as number);
+  const maxHeight = heights.length > 0 ? Math.max(...heights) : null;
+
+  const next = { ...health };
+  for (const url of endpoints) {
+    const h = next[url];
+    if (!h) continue;
+    next[url] = {
+      ...h,
+      blocksBehind: maxHeight !== null && h.blockHeight !== null && h.status !== 'offline'
+        ? maxHeight - h.blockHeight
+        : null,
+    };
+  }
+  return next;
+}
+
+/**
+ * Pick the endpoint requests should go to
+ * In-sync endpoints beat lagging ones, then healthy beats degraded (unchecked counts as degraded),
+ * then configured priority. If every endpoint is offline the primary is kept.
+ */
+function selectActiveEndpoint(endpoints: string[], health: Record<string, EndpointHealth>): string {
+  const candidates = endpoints
+    .map((url, priority) => ({ url, priority, health: health[url] }))
+    .filter((c) => c.health?.status !== 'offline');
+
+  if (candidates.length === 0) {
+    return endpoints[0];
+  }
+
+  const score = (c: (typeof candidates)[number]) => {
+    const lagging = (c.health?.blocksBehind ?? 0) > MAX_BLOCK_LAG ? 1 : 0;
+    const rank = c.health ? HEALTH_RANK[c.health.status] : HEALTH_RANK.degraded;
+    return [lagging, rank, c.priority];
+  };
+
+  candidates.sort((a, b) => {
+    const sa = score(a);
+    const sb = score(b);
+    return sa[0] - sb[0] || sa[1] - sb[1] || sa[2] - sb[2];
+  });
+  return candidates[0].url;
+}
+
 // Default networks with official Rainum Chain IDs
 // Chain ID Structure:
 // - Mainnet: 999 (3 nines - official Rainum mainnet)
@@ -84,6 +194,10 @@ export const useNetworkStore = create<NetworkStore>()(
       defaultNetwork: null,
       customNetworks: [],
       networkHealth: {},
+      backupRpcUrls: {},
+      endpointHealth: {},
+      activeRpcUrls: {},
+      identityChecks: {},
 
       switchNetwork: (network: Network) => {
         console.log(`Switching to network: ${network.name} (${network.rpcUrl})`);
@@ -95,6 +209,9 @@ export const useNetworkStore = create<NetworkStore>()(
             detail: { network }
           }));
         }
+
+        // 🔒 Re-verify the pinned identity (signing re-checks it too, so this is not awaited)
+        void get().verifyNetworkIdentity(network);
       },
 
       setDefaultNetwork: (network: Network) => {
@@ -132,7 +249,7 @@ export const useNetworkStore = create<NetworkStore>()(
         console.log(`Removed custom network: ${networkId}`);
       },
 
-      updateNetworkHealth: (networkId: string, status: 'healthy' | 'degraded' | 'offline') => {
+      updateNetworkHealth: (networkId: string, status: HealthStatus) => {
         set((state) => ({
           networkHealth: {
             ...state.networkHealth,
@@ -141,6 +258,121 @@ export const useNetworkStore = create<NetworkStore>()(
         }));
       },
 
+      addBackupRpcUrl: (networkId: string, rpcUrl: string) => {
+        const url = normalizeRpcUrl(rpcUrl);
+        const network = get().getNetworkById(networkId);
+        if (!network) {
+          throw new Error('Unknown network');
+        }
+        if (get().getNetworkEndpoints(network).includes(url)) {
+          throw new Error('This endpoint is already configured for the network');
+        }
+
+        set((state) => ({
+          backupRpcUrls: {
+            ...state.backupRpcUrls,
+            [networkId]: [...(state.backupRpcUrls[networkId] || []), url],
+          },
+        }));
+        console.log(`Added RPC endpoint for ${network.name}: ${url}`);
+      },
+
+      removeBackupRpcUrl: (networkId: string, rpcUrl: string) => {
+        set((state) => {
+          const activeRpcUrls = { ...state.activeRpcUrls };
+          if (activeRpcUrls[networkId] === rpcUrl) {
+            delete activeRpcUrls[networkId]; // Re-selected on the next health check
+          }
+          return {
+            backupRpcUrls: {
+              ...state.backupRpcUrls,
+              [networkId]: (state.backupRpcUrls[networkId] || []).filter((url) => url !== rpcUrl),
+            },
+            activeRpcUrls,
+          };
+        });
+      },
+
+      updateEndpointHealth: (networkId: string, results: EndpointHealth[]) => {
+        const network = get().getNetworkById(networkId);
+        if (!network) return;
+
+        const endpoints = get().getNetworkEndpoints(network);
+        const health = { ...get().endpointHealth };
+        for (const result of results) {
+          // 🔒 An endpoint serving another chain is never failed over to
+          const identity = result.status === 'offline' ? null : checkNodeIdentity(network, result);
+          health[result.url] = identity?.status === 'mismatch'
+            ? { ...result, status: 'offline', error: identity.message }
+            : result;
+        }
+
+        const endpointHealth = withSyncState(endpoints, health);
+        const active = selectActiveEndpoint(endpoints, endpointHealth);
+        const previous = get().activeRpcUrls[networkId];
+
+        set((state) => ({
+          endpointHealth,
+          activeRpcUrls: { ...state.activeRpcUrls, [networkId]: active },
+          networkHealth: { ...state.networkHealth, [networkId]: endpointHealth[active]?.status ?? 'offline' },
+        }));
+
+        if (previous && previous !== active) {
+          console.warn(`RPC failover on ${network.name}: ${previous} -> ${active}`);
+        }
+      },
+
+      reportEndpointFailure: (rpcUrl: string, error: string) => {
+        const network = get().currentNetwork;
+        const previous = get().endpointHealth[rpcUrl];
+
+        get().updateEndpointHealth(network.id, [{
+          url: rpcUrl,
+          status: 'offline',
+          latencyMs: null,
+          blockHeight: previous?.blockHeight ?? null,
+          blocksBehind: null,
+          chainId: previous?.chainId ?? null,
+          genesisHash: previous?.genesisHash ?? null,
+          lastChecked: Date.now(),
+          error,
+        }]);
+
+        const next = get().activeRpcUrls[network.id];
+        return next && next !== rpcUrl ? next : null;
+      },
+
+      verifyNetworkIdentity: async (network?: Network) => {
+        const target = network ?? get().currentNetwork;
+        const endpoints = get().getNetworkEndpoints(target);
+        const rpcUrl = get().activeRpcUrls[target.id] ?? endpoints[0];
+
+        let result: IdentityCheck;
+        try {
+          result = checkNodeIdentity(target, await fetchNodeIdentity(rpcUrl));
+        } catch (err) {
+          result = { status: 'error', message: err instanceof Error ? err.message : 'Node unreachable' };
+        }
+
+        set((state) => ({ identityChecks: { ...state.identityChecks, [target.id]: result } }));
+
+        if (result.status === 'mismatch') {
+          logAuditEvent('network_identity_mismatch', 'security', `${target.name}: ${result.message}`, {
+            network: target.id,
+            rpcUrl,
+            pinnedGenesisHash: target.genesisHash,
+          });
+
+          if (typeof window !== 'undefined') {
+            window.dispatchEvent(new CustomEvent('rainum:network-identity-mismatch', {
+              detail: { network: target, message: result.message }
+            }));
+          }
+        }
+
+        return result;
+      },
+
       getNetworkById: (networkId: string) => {
         const builtInNetworks = Object.values(NETWORKS);
         const customNetworks = get().customNetworks;
@@ -148,8 +380,24 @@ export const useNetworkStore = create<NetworkStore>()(
         return [...builtInNetworks, ...customNetworks].find(n => n.id === networkId);
       },
 
+      getNetworkEndpoints: (network: Network) => {
+        // Built-in networks are resolved by id so a persisted copy picks up new endpoints
+        const definition = get().getNetworkById(network.id) ?? network;
+        const urls = [
+          definition.rpcUrl,
+          ...(definition.rpcUrls || []),
+          ...(get().backupRpcUrls[network.id] || []),
+        ].map(normalizeRpcUrl);
+
+        return Array.from(new Set(urls.filter((url) => url.length > 0)));
+      },
+
       getCurrentRpcUrl: () => {
-        return get().currentNetwork.rpcUrl;
+        const { currentNetwork, activeRpcUrls } = get();
+        const endpoints = get().getNetworkEndpoints(currentNetwork);
+        const active = activeRpcUrls[currentNetwork.id];
+
+        return active && endpoints.includes(active) ? active : endpoints[0] ?? currentNetwork.rpcUrl;
       },
     }),
     {
@@ -158,6 +406,7 @@ export const useNetworkStore = create<NetworkStore>()(
         currentNetwork: state.currentNetwork,
         defaultNetwork: state.defaultNetwork,
         customNetworks: state.customNetworks,
+        backupRpcUrls: state.backupRpcUrls,
       }),
     }
   )
@@ -172,15 +421,27 @@ export function getAllNetworks(): Network[] {
 }
 
 /**
- * Check if a network is reachable
+ * Check a single RPC endpoint: reachability, latency and block height (from /status)
  */
-export async function checkNetworkHealth(rpcUrl: string): Promise<'healthy' | 'degraded' | 'offline'> {
+export async function checkEndpointHealth(rpcUrl: string): Promise<EndpointHealth> {
+  const url = normalizeRpcUrl(rpcUrl);
+  const result: EndpointHealth = {
+    url,
+    status: 'offline',
+    latencyMs: null,
+    blockHeight: null,
+    blocksBehind: null,
+    chainId: null,
+    genesisHash: null,
+    lastChecked: Date.now(),
+  };
+
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
 
     const startTime = Date.now();
-    const response = await fetch(`${rpcUrl}/status`, {
+    const response = await fetch(`${url}/status`, {
       signal: controller.signal,
     });
     const responseTime = Date.now() - startTime;
@@ -188,23 +449,175 @@ export async function checkNetworkHealth(rpcUrl: string): Promise<'healthy' | 'd
     clearTimeout(timeoutId);
 
     if (!response.ok) {
-      return 'offline';
+      return { ...result, error: `HTTP ${response.status}` };
     }
 
+    const data = await response.json().catch(() => null);
+    const height = Number(data?.block_height);
+
     // Healthy if response time < 1s, degraded if 1-3s
-    if (responseTime < 1000) {
-      return 'healthy';
-    } else if (responseTime < 3000) {
-      return 'degraded';
-    } else {
-      return 'offline';
-    }
+    return {
+      ...result,
+      status: responseTime < 1000 ? 'healthy' : responseTime < 3000 ? 'degraded' : 'offline',
+      latencyMs: responseTime,
+      blockHeight: Number.isFinite(height) && height >= 0 ? height : null,
+      ...parseNodeIdentity(data),
+    };
   } catch (error) {
     console.error('Network health check failed:', error);
-    return 'offline';
+    return { ...result, error: error instanceof Error ? error.message : 'Unreachable' };
   }
 }
 
+/**
+ * Read the chain ID and genesis hash from a /status response
+ */
+export function parseNodeIdentity(status: unknown): NodeIdentity {
+  const data = (status && typeof status === 'object' ? status : {}) as Record<string, unknown>;
+  const chainId = data.chain_id ?? data.chainId;
+  const genesisHash = data.genesis_hash ?? data.genesisHash;
+
+  return {
+    chainId: chainId === undefined || chainId === null ? null : String(chainId),
+    genesisHash: typeof genesisHash === 'string' && genesisHash.length > 0 ? genesisHash.toLowerCase() : null,
+  };
+}
+
+/**
+ * Ask a node which chain it serves
+ * @throws Error if the node can't be reached
+ */
+export async function fetchNodeIdentity(rpcUrl: string): Promise<NodeIdentity> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+  try {
+    const response = await fetch(`${normalizeRpcUrl(rpcUrl)}/status`, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Node returned HTTP ${response.status}`);
+    }
+    return parseNodeIdentity(await response.json());
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new Error('Node did not respond within 5 seconds');
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Compare what a node reports against the network's chain ID and pinned genesis hash
+ */
+export function checkNodeIdentity(network: Network, identity: NodeIdentity): IdentityCheck {
+  if (network.chainId && identity.chainId !== null && identity.chainId !== network.chainId) {
+    return { status: 'mismatch', message: `Node reports chain ${identity.chainId}, expected ${network.chainId}` };
+  }
+
+  if (!network.genesisHash) {
+    return { status: 'unpinned' };
+  }
+
+  if (!identity.genesisHash) {
+    return { status: 'mismatch', message: 'Node no longer reports a genesis hash' };
+  }
+
+  if (identity.genesisHash !== network.genesisHash.toLowerCase()) {
+    return { status: 'mismatch', message: 'Node reports a different genesis hash than the one pinned for this network' };
+  }
+
+  return { status: 'verified' };
+}
+
+/**
+ * Networks (other than the one being checked) that already use a chain ID
+ * A new network claiming one of these is either a duplicate or an impersonation attempt.
+ */
+export function findNetworksWithChainId(chainId: string, excludeId?: string): Network[] {
+  return getAllNetworks().filter((n) => n.chainId === chainId && n.id !== excludeId);
+}
+
+export interface NetworkVerification {
+  network: Network; // Chain ID filled in from the node and genesis hash pinned
+  identity: NodeIdentity;
+  errors: string[]; // The network must not be added
+  warnings: string[]; // The user has to acknowledge these before it is added
+}
+
+/**
+ * Verify a network that is about to be added: ask the node which chain it serves,
+ * check the fallback endpoints serve the same chain, and flag chain IDs that belong
+ * to a network the wallet already knows (impersonation)
+ * A genesis hash already set on the network (e.g. from an imported bundle) must match the node.
+ * @throws Error if the primary RPC URL can't be reached
+ */
+export async function verifyNewNetwork(network: Network): Promise<NetworkVerification> {
+  const identity = await fetchNodeIdentity(network.rpcUrl);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (network.chainId && identity.chainId !== null && identity.chainId !== network.chainId) {
+    errors.push(`The node reports chain ID ${identity.chainId}, not ${network.chainId}.`);
+  }
+
+  const chainId = network.chainId || identity.chainId;
+  if (!chainId) {
+    errors.push('The node does not report a chain ID - enter it manually.');
+  } else if (identity.chainId === null) {
+    warnings.push(`The node does not report a chain ID, so chain ${chainId} cannot be verified.`);
+  }
+
+  if (network.genesisHash && identity.genesisHash !== network.genesisHash.toLowerCase()) {
+    errors.push('The node reports a different genesis hash than the one this network was shared with.');
+  } else if (!identity.genesisHash) {
+    warnings.push('The node does not report a genesis hash. Its identity cannot be pinned, so a replaced node will not be detected.');
+  }
+
+  // Fallback endpoints must serve the same chain as the primary one
+  for (const url of network.rpcUrls || []) {
+    try {
+      const fallback = await fetchNodeIdentity(url);
+      if (
+        (fallback.chainId !== null && fallback.chainId !== chainId) ||
+        (identity.genesisHash && fallback.genesisHash !== identity.genesisHash)
+      ) {
+        errors.push(`${url} serves a different chain than the primary RPC URL.`);
+      }
+    } catch {
+      warnings.push(`${url} could not be reached - it will only be used once it reports the pinned identity.`);
+    }
+  }
+
+  // Impersonation: a chain ID that belongs to a network the wallet already knows
+  for (const existing of chainId ? findNetworksWithChainId(chainId, network.id) : []) {
+    warnings.push(
+      existing.isCustom
+        ? `Your custom network "${existing.name}" already uses chain ID ${chainId}.`
+        : `Chain ID ${chainId} belongs to ${existing.name}, and this RPC URL is not an official ${existing.name} endpoint. ` +
+          `A node impersonating ${existing.name} can trick you into signing transactions meant for it.`
+    );
+  }
+
+  return {
+    network: {
+      ...network,
+      chainId: chainId || undefined,
+      genesisHash: identity.genesisHash || undefined,
+    },
+    identity,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Check if a network is reachable
+ */
+export async function checkNetworkHealth(rpcUrl: string): Promise<HealthStatus> {
+  return (await checkEndpointHealth(rpcUrl)).status;
+}
+
 /**
  * Validate custom network configuration
  */
@@ -221,6 +634,16 @@ export function validateNetwork(network: Partial<Network>): { valid: boolean; er
     errors.push('RPC URL must start with http:// or https://');
   }
 
+  if (network.chainId && !/^\d+$/.test(network.chainId)) {
+    errors.push('Chain ID must be a number');
+  }
+
+  for (const rpcUrl of network.rpcUrls || []) {
+    if (!rpcUrl.startsWith('http://') && !rpcUrl.startsWith('https://')) {
+      errors.push(`Fallback RPC URL must start with http:// or https:// (${rpcUrl})`);
+    }
+  }
+
   if (network.explorerUrl && network.explorerUrl.trim().length > 0) {
     if (!network.explorerUrl.startsWith('http://') && !network.explorerUrl.startsWith('https://')) {
       errors.push('Explorer URL must start with http:// or https://');
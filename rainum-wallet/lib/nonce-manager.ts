@@ -0,0 +1,372 @@
+/**
+ * Nonce Manager
+ * Hands out account nonces locally so consecutive sends (manual, scheduled,
+ * contract deployments) never sign two transactions with the same nonce.
+ *
+ * A nonce is `reserved` while its transaction is being built and signed,
+ * `broadcast` once the node accepted it, and forgotten when the chain nonce
+ * moves past it. Reservations for one account are handed out one at a time.
+ *
+ * Pre-signed scheduled payments hold theirs as `scheduled` until their due
+ * time. A manual send may still take such a nonce - the payment scheduler
+ * notices and re-signs its queue on top.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useNetworkStore } from './network-store';
+import type { NonceReservation } from './transaction-builder';
+
+export type NonceStatus = 'reserved' | 'broadcast' | 'scheduled';
+
+const RESERVATION_TTL_MS = 2 * 60 * 1000; // Reserved but never broadcast (closed tab, crash) -> free again
+export const STUCK_AFTER_MS = 5 * 60 * 1000; // Lowest broadcast nonce still not mined -> stuck
+
+export interface NonceEntry {
+  nonce: number;
+  status: NonceStatus;
+  reservedAt: number; // ms
+  broadcastAt?: number; // ms
+  kind?: string; // Payload kind that used the nonce
+  jobId?: string; // Scheduler job holding a `scheduled` nonce
+}
+
+export interface AccountNonces {
+  chainNonce: number; // Next nonce the node expects (last seen)
+  syncedAt: number; // ms
+  entries: NonceEntry[];
+}
+
+export interface AccountNonceStatus {
+  chainNonce: number;
+  nextNonce: number; // What the next reservation would get
+  inFlight: NonceEntry[]; // Reserved, broadcast or scheduled, lowest first
+  gaps: number[]; // Nonces below a broadcast one that nothing will ever fill
+  stuck: number | null; // Lowest broadcast nonce that has been waiting too long
+}
+
+interface NonceState {
+  accounts: Record<string, AccountNonces>; // `${networkId}:${address}`
+
+  // Actions
+  syncChainNonce: (address: string, chainNonce: number) => void;
+  markReserved: (address: string, nonce: number) => void;
+  markBroadcast: (address: string, nonce: number, kind?: string) => void;
+  releaseNonce: (address: string, nonce: number) => void;
+  releaseScheduled: (address: string, jobIds: string[]) => void;
+  resetAccount: (address: string) => void;
+}
+
+/**
+ * Store key of an account's nonces on a network
+ */
+export function nonceAccountKey(networkId: string, address: string): string {
+  return `${networkId}:${address.toLowerCase()}`;
+}
+
+function accountKey(address: string): string {
+  return nonceAccountKey(useNetworkStore.getState().currentNetwork.id, address);
+}
+
+/**
+ * Drop nonces the chain has used and reservations nobody finished
+ */
+function pruneEntries(entries: NonceEntry[], chainNonce: number, now: number): NonceEntry[] {
+  return entries.filter(
+    (entry) => entry.nonce >= chainNonce && (entry.status !== 'reserved' || now - entry.reservedAt < RESERVATION_TTL_MS)
+  );
+}
+
+/**
+ * Scheduled nonces don't count as taken - a send made now goes before a payment due later
+ */
+function lowestFreeNonce(account: AccountNonces): number {
+  const taken = new Set(account.entries.filter((entry) => entry.status !== 'scheduled').map((entry) => entry.nonce));
+  let nonce = account.chainNonce;
+  while (taken.has(nonce)) nonce++;
+  return nonce;
+}
+
+function emptyAccount(): AccountNonces {
+  return { chainNonce: 0, syncedAt: 0, entries: [] };
+}
+
+export const useNonceStore = create<NonceState>()(
+  persist(
+    (set) => ({
+      accounts: {},
+
+      syncChainNonce: (address, chainNonce) => {
+        const key = accountKey(address);
+        set((state) => {
+          const account = state.accounts[key] || emptyAccount();
+          // The node never moves backwards - a lower answer is a stale or failing node
+          const latest = Math.max(account.chainNonce, chainNonce);
+          return {
+            accounts: {
+              ...state.accounts,
+              [key]: { chainNonce: latest, syncedAt: Date.now(), entries: pruneEntries(account.entries, latest, Date.now()) },
+            },
+          };
+        });
+      },
+
+      markReserved: (address, nonce) => {
+        const key = accountKey(address);
+        set((state) => {
+          const account = state.accounts[key] || emptyAccount();
+          const entries = account.entries.filter((entry) => entry.nonce !== nonce);
+          return {
+            accounts: {
+              ...state.accounts,
+              [key]: {
+                ...account,
+                entries: [...entries, { nonce, status: 'reserved' as const, reservedAt: Date.now() }].sort((a, b) => a.nonce - b.nonce),
+              },
+            },
+          };
+        });
+      },
+
+      markBroadcast: (address, nonce, kind) => {
+        const key = accountKey(address);
+        set((state) => {
+          const account = state.accounts[key] || emptyAccount();
+          const now = Date.now();
+          const existing = account.entries.find((entry) => entry.nonce === nonce);
+          const entry: NonceEntry = {
+            nonce,
+            status: 'broadcast',
+            reservedAt: existing?.reservedAt ?? now,
+            broadcastAt: now,
+            kind,
+          };
+          return {
+            accounts: {
+              ...state.accounts,
+              [key]: {
+                ...account,
+                entries: [...account.entries.filter((e) => e.nonce !== nonce), entry].sort((a, b) => a.nonce - b.nonce),
+              },
+            },
+          };
+        });
+      },
+
+      releaseNonce: (address, nonce) => {
+        const key = accountKey(address);
+        set((state) => {
+          const account = state.accounts[key];
+          if (!account) return state;
+          return {
+            accounts: {
+              ...state.accounts,
+              [key]: { ...account, entries: account.entries.filter((entry) => entry.nonce !== nonce) },
+            },
+          };
+        });
+      },
+
+      releaseScheduled: (address, jobIds) => {
+        const key = accountKey(address);
+        set((state) => {
+          const account = state.accounts[key];
+          if (!account) return state;
+          return {
+            accounts: {
+              ...state.accounts,
+              [key]: {
+                ...account,
+                entries: account.entries.filter(
+                  (entry) => entry.status !== 'scheduled' || !entry.jobId || !jobIds.includes(entry.jobId)
+                ),
+              },
+            },
+          };
+        });
+      },
+
+      resetAccount: (address) => {
+        const key = accountKey(address);
+        set((state) => {
+          const accounts = { ...state.accounts };
+          delete accounts[key];
+          return { accounts };
+        });
+      },
+    }),
+    {
+      name: 'rainum-nonces',
+    }
+  )
+);
+
+// One reservation at a time per account (in this tab)
+const accountLocks = new Map<string, Promise<unknown>>();
+
+function withAccountLock<T>(address: string, task: () => Promise<T>): Promise<T> {
+  const key = accountKey(address);
+  const previous = accountLocks.get(key) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  accountLocks.set(key, next);
+  return next.finally(() => {
+    if (accountLocks.get(key) === next) accountLocks.delete(key);
+  });
+}
+
+async function syncFromChain(address: string): Promise<AccountNonces> {
+  const { getAccountNonce } = await import('./rainum-api');
+  const chainNonce = await getAccountNonce(address);
+  useNonceStore.getState().syncChainNonce(address, chainNonce);
+  return useNonceStore.getState().accounts[accountKey(address)];
+}
+
+/**
+ * Reserve the next nonce for an account
+ * Picks the lowest nonce at or above the chain nonce that no other local
+ * transaction holds, so released nonces are reused before new ones.
+ * Pass `nonce` to pin a specific one (replacing or filling a stuck nonce).
+ */
+export function reserveNonce(address: string, nonce?: number): Promise<NonceReservation> {
+  return withAccountLock(address, async () => {
+    const account = await syncFromChain(address);
+    const reserved = nonce ?? lowestFreeNonce(account);
+
+    if (reserved < account.chainNonce) {
+      throw new Error(`Nonce ${reserved} was already used on chain (next nonce is ${account.chainNonce})`);
+    }
+
+    const held = account.entries.find((entry) => entry.nonce === reserved);
+    if (held?.status === 'reserved') {
+      throw new Error(`Nonce ${reserved} is held by a transaction that is still being signed`);
+    }
+
+    // Pinned nonces usually replace a broadcast one - keep that until the replacement is accepted
+    const replaced = held?.status === 'broadcast';
+    if (!replaced) useNonceStore.getState().markReserved(address, reserved);
+
+    let settled = false;
+    return {
+      nonce: reserved,
+      commit: (kind?: string) => {
+        if (settled) return;
+        settled = true;
+        useNonceStore.getState().markBroadcast(address, reserved, kind);
+      },
+      release: () => {
+        if (settled) return;
+        settled = true;
+        if (!replaced) useNonceStore.getState().releaseNonce(address, reserved);
+      },
+    };
+  });
+}
+
+/**
+ * Hold consecutive free nonces for pre-signed payments, one per job ID given
+ * Nonces the jobs held before are released first, so a queue that was
+ * displaced by a manual send is renumbered in one go.
+ */
+export function reserveScheduledNonces(address: string, jobIds: string[]): Promise<number[]> {
+  return withAccountLock(address, async () => {
+    const store = useNonceStore.getState();
+    store.releaseScheduled(address, Array.from(new Set(jobIds)));
+
+    const account = await syncFromChain(address);
+    const taken = new Set(account.entries.map((entry) => entry.nonce));
+    const now = Date.now();
+    const held: NonceEntry[] = [];
+    let nonce = account.chainNonce;
+
+    for (const jobId of jobIds) {
+      while (taken.has(nonce)) nonce++;
+      held.push({ nonce, status: 'scheduled', reservedAt: now, jobId });
+      nonce++;
+    }
+
+    const key = accountKey(address);
+    useNonceStore.setState((state) => {
+      const current = state.accounts[key] || emptyAccount();
+      return {
+        accounts: {
+          ...state.accounts,
+          [key]: { ...current, entries: [...current.entries, ...held].sort((a, b) => a.nonce - b.nonce) },
+        },
+      };
+    });
+
+    return held.map((entry) => entry.nonce);
+  });
+}
+
+/**
+ * Whether a pre-signed payment can still be broadcast with its nonce:
+ * the job still holds it, and every nonce below it down to the chain nonce
+ * is already broadcast (otherwise it would sit behind a gap)
+ */
+export function isScheduledNonceReady(address: string, nonce: number, jobId: string): boolean {
+  const account = useNonceStore.getState().accounts[accountKey(address)];
+  if (!account || nonce < account.chainNonce) return false;
+
+  const entries = new Map(account.entries.map((entry) => [entry.nonce, entry]));
+  const own = entries.get(nonce);
+  if (own?.status !== 'scheduled' || own.jobId !== jobId) return false;
+
+  for (let below = account.chainNonce; below < nonce; below++) {
+    if (entries.get(below)?.status !== 'broadcast') return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a job still holds a nonce (a manual send hasn't taken it)
+ */
+export function isScheduledNonceHeld(address: string, nonce: number, jobId: string): boolean {
+  const account = useNonceStore.getState().accounts[accountKey(address)];
+  const entry = account?.entries.find((e) => e.nonce === nonce);
+  return !!account && nonce >= account.chainNonce && entry?.status === 'scheduled' && entry.jobId === jobId;
+}
+
+/**
+ * Next nonce without reserving it (offline envelopes, previews)
+ */
+export async function peekNonce(address: string): Promise<number> {
+  return lowestFreeNonce(await syncFromChain(address));
+}
+
+/**
+ * In-flight nonces, gaps and the stuck nonce (if any) for an account
+ * A gap blocks every broadcast nonce above it until it is filled.
+ */
+export function getNonceStatus(address: string, now: number = Date.now()): AccountNonceStatus {
+  return summarizeNonces(useNonceStore.getState().accounts[accountKey(address)], now);
+}
+
+/**
+ * Same as getNonceStatus, for an account read from the store
+ */
+export function summarizeNonces(stored: AccountNonces | undefined, now: number = Date.now()): AccountNonceStatus {
+  const account = stored || emptyAccount();
+  const inFlight = pruneEntries(account.entries, account.chainNonce, now);
+  const broadcast = inFlight.filter((entry) => entry.status === 'broadcast');
+  const highest = broadcast.length > 0 ? broadcast[broadcast.length - 1].nonce : account.chainNonce - 1;
+  const held = new Set(inFlight.map((entry) => entry.nonce));
+
+  const gaps: number[] = [];
+  for (let nonce = account.chainNonce; nonce < highest; nonce++) {
+    if (!held.has(nonce)) gaps.push(nonce);
+  }
+
+  const lowest = broadcast[0];
+  const stuck = lowest && lowest.nonce === account.chainNonce && now - (lowest.broadcastAt ?? lowest.reservedAt) > STUCK_AFTER_MS
+    ? lowest.nonce
+    : null;
+
+  return {
+    chainNonce: account.chainNonce,
+    nextNonce: lowestFreeNonce({ ...account, entries: inFlight }),
+    inFlight,
+    gaps,
+    stuck,
+  };
+}
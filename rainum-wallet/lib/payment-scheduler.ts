@@ -0,0 +1,671 @@
+/**
+ * Payment Scheduler
+ * Runs scheduled and recurring payments without the mnemonic in memory.
+ * The user authorizes each payment up front in one of two ways:
+ *
+ * - Pre-signed batch: the next N payments are signed right away, each with
+ *   its own nonce held as `scheduled` in the nonce manager, and broadcast
+ *   when they fall due. If another transaction takes one of those nonces the
+ *   queue is re-signed as soon as the wallet is unlocked again.
+ * - Spending cap: the account key is delegated under a cap (amount + fees)
+ *   and an expiry, see spending-keys.ts. Due payments are signed on the spot
+ *   while they fit the cap.
+ *
+ * Every attempt is written to the run log as executed, skipped, failed or
+ * retried. Payments only run while a wallet tab is open - anything that fell
+ * due in between runs on the next visit.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useNetworkStore } from './network-store';
+import { useScheduledTxStore } from './scheduled-tx-store';
+import { useRecurringTxStore } from './recurring-tx-store';
+import { getOccurrences, type RecurrenceRule } from './recurrence-rule';
+import { isScheduledNonceReady, reserveScheduledNonces, useNonceStore } from './nonce-manager';
+import {
+  broadcastSignedEnvelope,
+  getAccountNonce,
+  getTransferFee,
+  presignTransfers,
+  sendTransferWithSigner,
+} from './rainum-api';
+import { createKeySigner, withAccountPrivateKey } from './transaction-builder';
+import { clearSpendingKeys, deleteSpendingKey, storeSpendingKey, withSpendingKey } from './spending-keys';
+import type { SignedEnvelope } from './transaction-envelope';
+import { toast } from './toast-store';
+
+export const MAX_PRESIGNED_PAYMENTS = 12;
+export const MAX_SPENDING_CAP_DAYS = 90;
+const MAX_ATTEMPTS = 3; // Per payment, the last failure is final
+const RETRY_DELAY_MS = 2 * 60 * 1000; // Grows with every attempt
+const MAX_RUNS = 200;
+
+export type SchedulerJobKind = 'presigned' | 'allowance';
+export type SchedulerJobStatus = 'active' | 'needs_signature' | 'completed' | 'expired' | 'revoked';
+export type SchedulerRunResult = 'executed' | 'skipped' | 'failed' | 'retried';
+
+/**
+ * Payment a job pays out: a one-off (scheduled-tx-store) or a recurring one (recurring-tx-store)
+ */
+export interface PaymentSource {
+  type: 'scheduled' | 'recurring';
+  id: string;
+}
+
+/**
+ * What the user agreed to for one payment (picked in the scheduler dialog)
+ */
+export type PaymentAuthorization =
+  | { kind: 'presigned'; source: PaymentSource; count: number }
+  | { kind: 'allowance'; source: PaymentSource; cap: number; expiresAt: number };
+
+export interface PresignedPayment {
+  id: string;
+  dueAt: number; // ms
+  nonce: number | null; // null until signed
+  envelope?: SignedEnvelope;
+  status: 'waiting' | 'sent' | 'skipped' | 'failed';
+  attempts: number;
+  nextAttemptAt?: number; // ms, after a failed broadcast
+}
+
+export interface SchedulerJob {
+  id: string;
+  kind: SchedulerJobKind;
+  networkId: string;
+  from: string;
+  accountIndex: number;
+  source: PaymentSource;
+  label?: string;
+  to: string;
+  amount: string; // Whole RAIN per payment
+  priority: string;
+  status: SchedulerJobStatus;
+  statusReason?: string;
+  createdAt: number;
+  updatedAt: number;
+
+  // Pre-signed batch
+  payments?: PresignedPayment[];
+
+  // Spending cap (whole RAIN, fees included)
+  cap?: number;
+  spent?: number;
+  expiresAt?: number; // ms
+  retry?: { dueAt: number; attempts: number; nextAttemptAt: number };
+}
+
+export interface SchedulerRun {
+  id: string;
+  jobId: string;
+  jobKind: SchedulerJobKind;
+  label?: string;
+  to: string;
+  amount: string;
+  dueAt: number;
+  ranAt: number;
+  result: SchedulerRunResult;
+  detail?: string; // Why it was skipped, failed or retried
+  hash?: string;
+}
+
+interface PaymentSchedulerState {
+  jobs: SchedulerJob[];
+  runs: SchedulerRun[]; // Newest first
+
+  // Actions
+  addJob: (job: SchedulerJob) => void;
+  updateJob: (id: string, update: (job: SchedulerJob) => SchedulerJob) => void;
+  removeJob: (id: string) => void;
+  recordRun: (run: Omit<SchedulerRun, 'id' | 'ranAt'>) => void;
+  clearRuns: () => void;
+}
+
+export const usePaymentSchedulerStore = create<PaymentSchedulerState>()(
+  persist(
+    (set) => ({
+      jobs: [],
+      runs: [],
+
+      addJob: (job) => {
+        set((state) => ({ jobs: [...state.jobs, job] }));
+      },
+
+      updateJob: (id, update) => {
+        set((state) => ({
+          jobs: state.jobs.map((job) => (job.id === id ? { ...update(job), updatedAt: Date.now() } : job)),
+        }));
+      },
+
+      removeJob: (id) => {
+        set((state) => ({ jobs: state.jobs.filter((job) => job.id !== id) }));
+      },
+
+      recordRun: (run) => {
+        const ranAt = Date.now();
+        set((state) => ({
+          runs: [{ ...run, id: `${run.jobId}:${ranAt}:${state.runs.length}`, ranAt }, ...state.runs].slice(0, MAX_RUNS),
+        }));
+      },
+
+      clearRuns: () => {
+        set({ runs: [] });
+      },
+    }),
+    {
+      name: 'rainum-payment-scheduler',
+    }
+  )
+);
+
+interface ResolvedSource {
+  to: string;
+  amount: string;
+  priority: string;
+  label?: string;
+  active: boolean; // Not paused or ended (recurring) / not paid yet (one-off)
+  nextDueAt: number;
+  rule?: RecurrenceRule;
+}
+
+function currentNetworkId(): string {
+  return useNetworkStore.getState().currentNetwork.id;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+function resolveSource(source: PaymentSource): ResolvedSource | null {
+  if (source.type === 'scheduled') {
+    const tx = useScheduledTxStore.getState().transactions.find((t) => t.id === source.id);
+    return tx
+      ? { to: tx.to, amount: tx.amount, priority: tx.priority || 'standard', label: tx.label, active: !tx.executed, nextDueAt: tx.scheduledTime }
+      : null;
+  }
+
+  const tx = useRecurringTxStore.getState().transactions.find((t) => t.id === source.id);
+  return tx
+    ? { to: tx.to, amount: tx.amount, priority: 'standard', label: tx.label, active: tx.isActive && !tx.ended, nextDueAt: tx.nextExecution, rule: tx.rule }
+    : null;
+}
+
+/**
+ * Due times of the next `count` payments of a source
+ * A one-off only has one; a recurring rule may end sooner
+ */
+function upcomingDueTimes(source: ResolvedSource, count: number): number[] {
+  if (!source.rule) return [source.nextDueAt];
+  return [source.nextDueAt, ...getOccurrences(source.rule, source.nextDueAt, count - 1)];
+}
+
+function markSourcePaid(source: PaymentSource): void {
+  if (source.type === 'scheduled') {
+    useScheduledTxStore.getState().markExecuted(source.id);
+  } else {
+    useRecurringTxStore.getState().updateLastExecuted(source.id);
+  }
+}
+
+function markSourceMissed(source: PaymentSource): void {
+  if (source.type === 'recurring') {
+    useRecurringTxStore.getState().skipNextExecution(source.id);
+  }
+}
+
+function isOpen(job: SchedulerJob): boolean {
+  return job.status === 'active' || job.status === 'needs_signature';
+}
+
+/**
+ * Authorization that currently covers a payment, if any
+ * The unlocked-only executor (useScheduledTransactions) leaves these alone
+ */
+export function getOpenJobForSource(source: PaymentSource): SchedulerJob | undefined {
+  return usePaymentSchedulerStore
+    .getState()
+    .jobs.find((job) => isOpen(job) && job.source.type === source.type && job.source.id === source.id);
+}
+
+/**
+ * Network fee plus amount of one payment (what a spending cap is charged)
+ */
+export function getPaymentCost(amount: string, priority: string): number {
+  return (Number(amount) || 0) + getTransferFee(priority);
+}
+
+function newJob(
+  kind: SchedulerJobKind,
+  source: PaymentSource,
+  resolved: ResolvedSource,
+  address: string,
+  accountIndex: number
+): SchedulerJob {
+  const now = Date.now();
+  return {
+    id: `${kind}-${source.type}-${source.id}-${now}`,
+    kind,
+    networkId: currentNetworkId(),
+    from: address,
+    accountIndex,
+    source,
+    label: resolved.label,
+    to: resolved.to,
+    amount: resolved.amount,
+    priority: resolved.priority,
+    status: 'active',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function checkAuthorizable(source: PaymentSource): ResolvedSource {
+  const resolved = resolveSource(source);
+  if (!resolved) {
+    throw new Error('Scheduled payment not found');
+  }
+  if (!resolved.active) {
+    throw new Error(source.type === 'recurring' ? 'This recurring payment is paused or has ended' : 'This payment was already sent');
+  }
+  if (getOpenJobForSource(source)) {
+    throw new Error('This payment is already authorized');
+  }
+  return resolved;
+}
+
+function openPresignedJobs(address: string): SchedulerJob[] {
+  const networkId = currentNetworkId();
+  return usePaymentSchedulerStore
+    .getState()
+    .jobs.filter((job) => job.kind === 'presigned' && job.networkId === networkId && sameAddress(job.from, address) && isOpen(job));
+}
+
+/**
+ * (Re-)sign every waiting pre-signed payment of an account
+ * All of them get fresh consecutive nonces in due order, so one call repairs a
+ * queue that a manual send or a failed payment pushed out of line.
+ */
+export async function signPaymentQueue(address: string, mnemonic: string): Promise<void> {
+  const jobs = openPresignedJobs(address);
+  const waiting = jobs
+    .flatMap((job) => (job.payments || []).filter((p) => p.status === 'waiting').map((payment) => ({ job, payment })))
+    .sort((a, b) => a.payment.dueAt - b.payment.dueAt);
+  if (waiting.length === 0) return;
+
+  const jobIds = jobs.map((job) => job.id);
+  const nonces = await reserveScheduledNonces(address, waiting.map(({ job }) => job.id));
+
+  let envelopes: SignedEnvelope[];
+  try {
+    envelopes = await presignTransfers(
+      address,
+      waiting.map(({ job }, i) => ({ to: job.to, amount: job.amount, priority: job.priority, nonce: nonces[i] })),
+      mnemonic,
+      jobs[0].accountIndex
+    );
+  } catch (error) {
+    useNonceStore.getState().releaseScheduled(address, jobIds);
+    jobIds.forEach((id) =>
+      usePaymentSchedulerStore.getState().updateJob(id, (job) => ({
+        ...job,
+        status: 'needs_signature',
+        statusReason: `Signing failed: ${errorMessage(error, 'unknown error')}`,
+      }))
+    );
+    throw error;
+  }
+
+  const signed = new Map(waiting.map(({ payment }, i) => [payment.id, { nonce: nonces[i], envelope: envelopes[i] }]));
+  jobIds.forEach((id) =>
+    usePaymentSchedulerStore.getState().updateJob(id, (job) => ({
+      ...job,
+      status: 'active',
+      statusReason: undefined,
+      payments: job.payments?.map((payment) => {
+        const update = signed.get(payment.id);
+        return update ? { ...payment, ...update, attempts: 0, nextAttemptAt: undefined } : payment;
+      }),
+    }))
+  );
+}
+
+/**
+ * Pre-sign the next `count` payments of a scheduled or recurring payment
+ */
+export async function authorizePresignedBatch({
+  source,
+  count,
+  address,
+  accountIndex,
+  mnemonic,
+}: {
+  source: PaymentSource;
+  count: number;
+  address: string;
+  accountIndex: number;
+  mnemonic: string;
+}): Promise<SchedulerJob> {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_PRESIGNED_PAYMENTS) {
+    throw new Error(`Pre-sign between 1 and ${MAX_PRESIGNED_PAYMENTS} payments`);
+  }
+
+  const resolved = checkAuthorizable(source);
+  const job = newJob('presigned', source, resolved, address, accountIndex);
+  job.payments = upcomingDueTimes(resolved, count).map((dueAt, i) => ({
+    id: `${job.id}:${i}`,
+    dueAt,
+    nonce: null,
+    status: 'waiting',
+    attempts: 0,
+  }));
+
+  usePaymentSchedulerStore.getState().addJob(job);
+  try {
+    await signPaymentQueue(address, mnemonic);
+  } catch (error) {
+    usePaymentSchedulerStore.getState().removeJob(job.id);
+    throw error;
+  }
+  return job;
+}
+
+/**
+ * Let the scheduler sign a payment's runs itself, up to `cap` RAIN (fees included) until `expiresAt`
+ */
+export async function authorizeSpendingCap({
+  source,
+  cap,
+  expiresAt,
+  address,
+  accountIndex,
+  mnemonic,
+}: {
+  source: PaymentSource;
+  cap: number;
+  expiresAt: number;
+  address: string;
+  accountIndex: number;
+  mnemonic: string;
+}): Promise<SchedulerJob> {
+  const resolved = checkAuthorizable(source);
+
+  if (!Number.isInteger(cap) || cap <= 0) {
+    throw new Error('Spending cap must be a whole amount of RAIN');
+  }
+  if (cap < getPaymentCost(resolved.amount, resolved.priority)) {
+    throw new Error('Spending cap does not cover a single payment and its fee');
+  }
+
+  const now = Date.now();
+  if (!Number.isFinite(expiresAt) || expiresAt <= now || expiresAt > now + MAX_SPENDING_CAP_DAYS * 24 * 60 * 60 * 1000) {
+    throw new Error(`Authorization must expire within ${MAX_SPENDING_CAP_DAYS} days`);
+  }
+
+  const job: SchedulerJob = { ...newJob('allowance', source, resolved, address, accountIndex), cap, spent: 0, expiresAt };
+
+  await withAccountPrivateKey(mnemonic, { index: accountIndex, address }, (privateKey) =>
+    storeSpendingKey(job.id, address, privateKey)
+  );
+
+  usePaymentSchedulerStore.getState().addJob(job);
+  return job;
+}
+
+/**
+ * Stop a job: pre-signed nonces are handed back, a delegated key is destroyed
+ */
+export async function revokeJob(id: string): Promise<void> {
+  const job = usePaymentSchedulerStore.getState().jobs.find((j) => j.id === id);
+  if (!job) return;
+
+  if (job.kind === 'allowance') {
+    await deleteSpendingKey(job.id);
+  } else if (job.networkId === currentNetworkId()) {
+    useNonceStore.getState().releaseScheduled(job.from, [job.id]);
+  }
+
+  usePaymentSchedulerStore.getState().updateJob(id, (j) => ({ ...j, status: 'revoked', statusReason: 'Revoked' }));
+}
+
+/**
+ * Revoke every spending cap (logout) - pre-signed batches stay valid
+ */
+export async function revokeAllSpendingCaps(): Promise<void> {
+  await clearSpendingKeys();
+  usePaymentSchedulerStore.getState().jobs
+    .filter((job) => job.kind === 'allowance' && isOpen(job))
+    .forEach((job) =>
+      usePaymentSchedulerStore.getState().updateJob(job.id, (j) => ({ ...j, status: 'revoked', statusReason: 'Revoked on logout' }))
+    );
+}
+
+function record(job: SchedulerJob, dueAt: number, result: SchedulerRunResult, detail?: string, hash?: string): void {
+  usePaymentSchedulerStore.getState().recordRun({
+    jobId: job.id,
+    jobKind: job.kind,
+    label: job.label,
+    to: job.to,
+    amount: job.amount,
+    dueAt,
+    result,
+    detail,
+    hash,
+  });
+
+  const payment = `${job.amount} RAIN to ${job.to.slice(0, 8)}...${job.to.slice(-6)}${job.label ? ` (${job.label})` : ''}`;
+  switch (result) {
+    case 'executed':
+      toast.success('Scheduled Payment Sent', payment, 7000);
+      break;
+    case 'skipped':
+      toast.warning('Scheduled Payment Skipped', `${payment}: ${detail}`, 10000);
+      break;
+    case 'failed':
+      toast.error('Scheduled Payment Failed', `${payment}: ${detail}`, 10000);
+      break;
+  }
+}
+
+/**
+ * Close out one pre-signed payment; the job completes with its last payment
+ */
+function settlePayment(job: SchedulerJob, payment: PresignedPayment, result: Exclude<SchedulerRunResult, 'retried'>, detail?: string, hash?: string): void {
+  const status: PresignedPayment['status'] = result === 'executed' ? 'sent' : result;
+  usePaymentSchedulerStore.getState().updateJob(job.id, (j) => {
+    const payments = j.payments?.map((p) => (p.id === payment.id ? { ...p, status } : p));
+    const done = !payments?.some((p) => p.status === 'waiting');
+    return {
+      ...j,
+      payments,
+      status: done ? 'completed' : j.status,
+      statusReason: done ? 'All pre-signed payments ran' : j.statusReason,
+    };
+  });
+  record(job, payment.dueAt, result, detail, hash);
+}
+
+/**
+ * Broadcast due pre-signed payments in nonce order
+ */
+async function runPresignedPayments(address: string, mnemonic: string | undefined, now: number): Promise<void> {
+  let synced = false;
+  let resigned = false;
+
+  for (let step = 0; step < MAX_PRESIGNED_PAYMENTS * 4; step++) {
+    const head = openPresignedJobs(address)
+      .flatMap((job) => (job.payments || []).filter((p) => p.status === 'waiting').map((payment) => ({ job, payment })))
+      .sort((a, b) => a.payment.dueAt - b.payment.dueAt)[0];
+    if (!head || head.payment.dueAt > now || (head.payment.nextAttemptAt ?? 0) > now) return;
+    const { job, payment } = head;
+
+    const source = resolveSource(job.source);
+    if (!source) {
+      await revokeJob(job.id);
+      record(job, payment.dueAt, 'skipped', 'The scheduled payment was deleted');
+      continue;
+    }
+    if (!source.active) {
+      if (payment.nonce !== null) useNonceStore.getState().releaseNonce(address, payment.nonce);
+      settlePayment(job, payment, 'skipped', job.source.type === 'recurring' ? 'Recurring payment is paused or has ended' : 'Already sent');
+      continue;
+    }
+
+    if (!synced) {
+      synced = true;
+      useNonceStore.getState().syncChainNonce(address, await getAccountNonce(address));
+    }
+
+    if (!payment.envelope || payment.nonce === null || !isScheduledNonceReady(address, payment.nonce, job.id)) {
+      if (mnemonic && !resigned) {
+        resigned = true;
+        try {
+          await signPaymentQueue(address, mnemonic);
+        } catch (error) {
+          console.error('Failed to re-sign scheduled payments:', error);
+          return;
+        }
+        continue;
+      }
+
+      if (job.status !== 'needs_signature') {
+        const reason = 'Its nonce was used by another transaction - unlock the wallet to re-sign';
+        usePaymentSchedulerStore.getState().updateJob(job.id, (j) => ({ ...j, status: 'needs_signature', statusReason: reason }));
+        record(job, payment.dueAt, 'skipped', reason);
+      }
+      return;
+    }
+
+    try {
+      const result = await broadcastSignedEnvelope(payment.envelope);
+      if (result.success === false) {
+        throw new Error(result.message || 'Rejected by the node');
+      }
+      settlePayment(job, payment, 'executed', undefined, result.hash);
+      markSourcePaid(job.source);
+    } catch (error) {
+      const detail = errorMessage(error, 'Broadcast failed');
+      const attempts = payment.attempts + 1;
+
+      if (attempts < MAX_ATTEMPTS) {
+        usePaymentSchedulerStore.getState().updateJob(job.id, (j) => ({
+          ...j,
+          payments: j.payments?.map((p) =>
+            p.id === payment.id ? { ...p, attempts, nextAttemptAt: now + RETRY_DELAY_MS * attempts } : p
+          ),
+        }));
+        record(job, payment.dueAt, 'retried', `Attempt ${attempts} of ${MAX_ATTEMPTS}: ${detail}`);
+        return;
+      }
+
+      // Payments behind it are renumbered on the next pass
+      useNonceStore.getState().releaseNonce(address, payment.nonce);
+      settlePayment(job, payment, 'failed', detail);
+      markSourceMissed(job.source);
+    }
+  }
+}
+
+/**
+ * Sign and send due payments that fit their spending cap
+ */
+async function runSpendingCaps(address: string, now: number): Promise<void> {
+  const networkId = currentNetworkId();
+  const jobs = usePaymentSchedulerStore
+    .getState()
+    .jobs.filter((job) => job.kind === 'allowance' && job.status === 'active' && job.networkId === networkId && sameAddress(job.from, address));
+
+  for (const job of jobs) {
+    const update = (patch: Partial<SchedulerJob>) =>
+      usePaymentSchedulerStore.getState().updateJob(job.id, (j) => ({ ...j, ...patch }));
+
+    if ((job.expiresAt ?? 0) <= now) {
+      await deleteSpendingKey(job.id);
+      update({ status: 'expired', statusReason: 'Authorization expired' });
+      continue;
+    }
+
+    const source = resolveSource(job.source);
+    if (!source) {
+      await revokeJob(job.id);
+      continue;
+    }
+    if (!source.active || source.nextDueAt > now) continue;
+    if (job.retry && job.retry.dueAt === source.nextDueAt && job.retry.nextAttemptAt > now) continue;
+
+    // 🔒 The key only pays what was authorized - an edited payment needs a new authorization
+    if (!sameAddress(source.to, job.to) || source.amount !== job.amount) {
+      await revokeJob(job.id);
+      update({ statusReason: 'Payment changed after it was authorized' });
+      record(job, source.nextDueAt, 'skipped', `Payment is now ${source.amount} RAIN to ${source.to} - authorize it again`);
+      continue;
+    }
+
+    const cost = getPaymentCost(job.amount, job.priority);
+    if ((job.spent ?? 0) + cost > (job.cap ?? 0)) {
+      await deleteSpendingKey(job.id);
+      update({ status: 'completed', statusReason: 'Spending cap used up' });
+      record(job, source.nextDueAt, 'skipped', `Needs ${cost} RAIN, ${(job.cap ?? 0) - (job.spent ?? 0)} RAIN of the cap left`);
+      continue;
+    }
+
+    try {
+      const signer = createKeySigner(job.from, (fn) => withSpendingKey(job.id, job.from, fn));
+      const result = await sendTransferWithSigner(signer, job.to, job.amount, job.priority);
+      if (result.success === false) {
+        throw new Error(result.message || 'Rejected by the node');
+      }
+
+      const done = job.source.type === 'scheduled';
+      update({
+        spent: (job.spent ?? 0) + cost,
+        retry: undefined,
+        status: done ? 'completed' : 'active',
+        statusReason: done ? 'Payment sent' : undefined,
+      });
+      if (done) await deleteSpendingKey(job.id);
+      record(job, source.nextDueAt, 'executed', undefined, result.hash);
+      markSourcePaid(job.source);
+    } catch (error) {
+      const detail = errorMessage(error, 'Payment failed');
+      const attempts = job.retry?.dueAt === source.nextDueAt ? job.retry.attempts + 1 : 1;
+
+      if (attempts < MAX_ATTEMPTS) {
+        update({ retry: { dueAt: source.nextDueAt, attempts, nextAttemptAt: now + RETRY_DELAY_MS * attempts } });
+        record(job, source.nextDueAt, 'retried', `Attempt ${attempts} of ${MAX_ATTEMPTS}: ${detail}`);
+        continue;
+      }
+
+      update({ retry: undefined });
+      record(job, source.nextDueAt, 'failed', detail);
+      if (job.source.type === 'scheduled') {
+        await deleteSpendingKey(job.id);
+        update({ status: 'completed', statusReason: 'Payment failed' });
+      } else {
+        markSourceMissed(job.source);
+      }
+    }
+  }
+}
+
+let running = false;
+
+/**
+ * One scheduler pass for an account on the current network
+ * `mnemonic` is optional - it's only used to re-sign a displaced pre-signed queue
+ */
+export async function runDuePayments(address: string, mnemonic?: string, now: number = Date.now()): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    await runSpendingCaps(address, now);
+    await runPresignedPayments(address, mnemonic, now);
+  } finally {
+    running = false;
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Pending Transaction Tracker
+ * Follows every broadcast until the chain settles it:
+ *   pending -> confirmed (confirmation count grows with each block)
+ *           -> failed    (included, but the node reports it as failed)
+ *           -> dropped   (the nonce was used by another transaction, or it never got mined)
+ *
+ * The transaction builder records each broadcast (hash, nonce, payload);
+ * usePendingTransactions feeds in WebSocket events and polling results.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { toast } from './toast-store';
+import { useNonceStore } from './nonce-manager';
+import type { VMType } from './rainum-api';
+
+export type TrackedTransactionState = 'pending' | 'confirmed' | 'failed' | 'dropped';
+export type ReplacementKind = 'speed_up' | 'cancel';
+
+/**
+ * Transfer options needed to resubmit the same transfer (speed-up)
+ */
+export interface TransferPayload {
+  priority: string;
+  enableZKP: boolean;
+  privacyLevel: string;
+  vmType: VMType;
+}
+
+export const FINAL_CONFIRMATIONS = 6; // Confirmed transactions stop being watched here
+export const DROP_TIMEOUT_MS = 10 * 60 * 1000; // Never seen on chain after this long -> dropped
+const NONCE_GRACE_MS = 30 * 1000; // History may lag behind the account nonce
+const MAX_TRACKED_PER_ACCOUNT = 20; // Settled transactions kept for the dashboard
+
+export interface TrackedTransaction {
+  id: string; // `${networkId}:${from}:${nonce}:${submittedAt}`
+  networkId: string;
+  hash?: string; // Only when the node returns one
+  kind: string; // Payload kind (transfer, evm_deploy, move_publish)
+  from: string;
+  to: string;
+  amount: string;
+  nonce: number;
+  gasPrice: number;
+  gasLimit: number;
+  submittedAt: number; // ms
+  updatedAt: number; // ms
+  state: TrackedTransactionState;
+  blockId?: number;
+  confirmations: number;
+  error?: string;
+  transfer?: TransferPayload;
+  replacement?: ReplacementKind; // This transaction replaces another with the same nonce
+  replacedBy?: string; // Id of the replacement that got included instead of this one
+}
+
+export interface BroadcastRecord {
+  networkId: string;
+  hash?: string;
+  kind: string;
+  from: string;
+  to: string;
+  amount: string;
+  nonce: number;
+  gasPrice: number;
+  gasLimit: number;
+  transfer?: TransferPayload;
+  replacement?: ReplacementKind;
+}
+
+/**
+ * A transaction as the node reports it (history entry or WebSocket event)
+ */
+export interface ObservedTransaction {
+  hash?: string;
+  from?: string;
+  to?: string;
+  amount?: number | string;
+  nonce?: number;
+  block_id?: number;
+  status?: string;
+  timestamp?: number;
+  error?: string;
+}
+
+/**
+ * What the wallet currently knows about one account on chain
+ */
+export interface AccountObservation {
+  transactions?: ObservedTransaction[];
+  accountNonce?: number; // Next nonce the node expects from the account
+  headHeight?: number;
+  now?: number;
+}
+
+const FAILED_STATUSES = ['failed', 'reverted', 'rejected', 'error'];
+
+function isSettled(tx: TrackedTransaction): boolean {
+  return tx.state === 'failed'
+    || tx.state === 'dropped'
+    || (tx.state === 'confirmed' && tx.confirmations >= FINAL_CONFIRMATIONS);
+}
+
+/**
+ * Transactions still worth watching (pending, or confirmed but not yet final)
+ */
+export function isWatched(tx: TrackedTransaction): boolean {
+  return !isSettled(tx);
+}
+
+function sameAddress(a?: string, b?: string): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Does an observed transaction correspond to a tracked broadcast?
+ * By hash when both have one, otherwise by sender + nonce (recipient and amount
+ * tell a cancellation from the transfer it cancels), and as a last resort by
+ * sender, recipient and amount after the broadcast time
+ */
+export function matchesTracked(tracked: TrackedTransaction, observed: ObservedTransaction): boolean {
+  if (tracked.hash && observed.hash) {
+    return tracked.hash.toLowerCase() === observed.hash.toLowerCase();
+  }
+  if (!sameAddress(tracked.from, observed.from)) return false;
+
+  const samePayload = (observed.to === undefined || sameAddress(tracked.to, observed.to))
+    && (observed.amount === undefined || String(observed.amount) === tracked.amount);
+  if (typeof observed.nonce === 'number') return observed.nonce === tracked.nonce && samePayload;
+
+  return samePayload
+    && observed.to !== undefined
+    && (observed.timestamp ?? 0) * 1000 >= tracked.submittedAt - 60 * 1000;
+}
+
+/**
+ * Once one transaction with a nonce is included, the others with that nonce never will be
+ */
+function settleReplaced(transactions: TrackedTransaction[], now: number): TrackedTransaction[] {
+  const included = new Map<string, TrackedTransaction>();
+  transactions.forEach((tx) => {
+    if (tx.state !== 'confirmed' && tx.state !== 'failed') return;
+    const key = `${tx.networkId}:${tx.from.toLowerCase()}:${tx.nonce}`;
+    const current = included.get(key);
+    // Without hashes a speed-up and its original both match - the newer one wins
+    if (!current || tx.submittedAt > current.submittedAt) included.set(key, tx);
+  });
+
+  return transactions.map((tx) => {
+    const winner = included.get(`${tx.networkId}:${tx.from.toLowerCase()}:${tx.nonce}`);
+    if (!winner || winner.id === tx.id || tx.replacedBy === winner.id) return tx;
+
+    const error = winner.replacement === 'cancel'
+      ? 'Cancelled'
+      : winner.replacement === 'speed_up'
+        ? 'Replaced by a speed-up'
+        : 'The original transaction was included first';
+    return { ...tx, state: 'dropped', confirmations: 0, blockId: undefined, error, replacedBy: winner.id, updatedAt: now };
+  });
+}
+
+// An included transaction has one confirmation, plus one per block on top of it
+function confirmationsAt(blockId: number | undefined, headHeight: number | undefined): number {
+  if (blockId === undefined || headHeight === undefined) return 1;
+  return Math.max(1, headHeight - blockId + 1);
+}
+
+/**
+ * Next state of a tracked transaction given what the node reports
+ * Returns the same object when nothing changed
+ */
+export function reconcileTrackedTransaction(
+  tracked: TrackedTransaction,
+  observation: AccountObservation
+): TrackedTransaction {
+  if (isSettled(tracked)) return tracked;
+
+  const now = observation.now ?? Date.now();
+  const observed = observation.transactions?.find((tx) => matchesTracked(tracked, tx));
+
+  if (observed) {
+    const status = observed.status?.toLowerCase();
+    if (status && FAILED_STATUSES.includes(status)) {
+      return {
+        ...tracked,
+        hash: tracked.hash || observed.hash,
+        state: 'failed',
+        blockId: observed.block_id,
+        error: observed.error,
+        updatedAt: now,
+      };
+    }
+
+    // Still waiting in the mempool
+    if (status === 'pending' && observed.block_id === undefined) {
+      return tracked.hash || !observed.hash ? tracked : { ...tracked, hash: observed.hash, updatedAt: now };
+    }
+
+    // Nodes that don't report the block count from the head at inclusion
+    const blockId = observed.block_id ?? tracked.blockId ?? observation.headHeight;
+    const confirmations = Math.max(tracked.confirmations, confirmationsAt(blockId, observation.headHeight));
+    if (tracked.state === 'confirmed' && confirmations === tracked.confirmations && blockId === tracked.blockId) {
+      return tracked;
+    }
+    return {
+      ...tracked,
+      hash: tracked.hash || observed.hash,
+      state: 'confirmed',
+      blockId,
+      confirmations,
+      updatedAt: now,
+    };
+  }
+
+  // Already included - only the block height moves
+  if (tracked.state === 'confirmed') {
+    const confirmations = confirmationsAt(tracked.blockId, observation.headHeight);
+    return confirmations > tracked.confirmations ? { ...tracked, confirmations, updatedAt: now } : tracked;
+  }
+
+  // The nonce was consumed, but not by this transaction
+  const nonceUsed = observation.accountNonce !== undefined && observation.accountNonce > tracked.nonce;
+  if (nonceUsed && observation.transactions && now - tracked.submittedAt > NONCE_GRACE_MS) {
+    return { ...tracked, state: 'dropped', error: 'Nonce was used by another transaction', updatedAt: now };
+  }
+
+  if (!nonceUsed && now - tracked.submittedAt > DROP_TIMEOUT_MS) {
+    return { ...tracked, state: 'dropped', error: 'Not included by the network', updatedAt: now };
+  }
+
+  return tracked;
+}
+
+function shortHash(tx: TrackedTransaction): string {
+  return tx.hash ? `${tx.hash.slice(0, 10)}...` : `nonce ${tx.nonce}`;
+}
+
+function describe(tx: TrackedTransaction): string {
+  if (tx.replacement === 'cancel') {
+    return `Cancellation of nonce ${tx.nonce}`;
+  }
+  if (tx.kind === 'transfer') {
+    return `${tx.amount} RAIN to ${tx.to.slice(0, 8)}...${tx.to.slice(-6)}`;
+  }
+  return tx.kind === 'evm_deploy' ? 'Contract deployment' : tx.kind === 'move_publish' ? 'Move module publication' : tx.kind;
+}
+
+function notifyTransition(previous: TrackedTransaction, next: TrackedTransaction): void {
+  if (previous.state === next.state) return;
+
+  switch (next.state) {
+    case 'confirmed':
+      if (next.replacement === 'cancel') {
+        toast.success('Transaction Cancelled', `Nonce ${next.nonce} was used by an empty transfer to yourself`, 7000);
+      } else if (next.replacement === 'speed_up') {
+        toast.success('Speed-up Confirmed', `${describe(next)} included in block ${next.blockId ?? '?'}`, 7000);
+      } else {
+        toast.success('Transaction Confirmed', `${describe(next)} included in block ${next.blockId ?? '?'}`, 7000);
+      }
+      break;
+    case 'failed':
+      toast.error('Transaction Failed', `${describe(next)} (${shortHash(next)}): ${next.error || 'rejected by the network'}`, 10000);
+      break;
+    case 'dropped':
+      // The replacement's own toast covers it
+      if (next.replacedBy) break;
+      toast.warning('Transaction Dropped', `${describe(next)} (${shortHash(next)}): ${next.error}`, 10000);
+      break;
+  }
+}
+
+interface PendingTransactionsState {
+  transactions: TrackedTransaction[];
+
+  // Actions
+  recordBroadcast: (record: BroadcastRecord) => void;
+  reconcileAccount: (networkId: string, address: string, observation: AccountObservation) => void;
+  dismiss: (id: string) => void;
+  clearSettled: (networkId: string, address: string) => void;
+  getAccountTransactions: (networkId: string, address: string) => TrackedTransaction[];
+}
+
+export const usePendingTransactionsStore = create<PendingTransactionsState>()(
+  persist(
+    (set, get) => ({
+      transactions: [],
+
+      recordBroadcast: (record) => {
+        const now = Date.now();
+        const tracked: TrackedTransaction = {
+          ...record,
+          id: `${record.networkId}:${record.from.toLowerCase()}:${record.nonce}:${now}`,
+          submittedAt: now,
+          updatedAt: now,
+          state: 'pending',
+          confirmations: 0,
+        };
+
+        set((state) => {
+          const others = state.transactions;
+          const account = others.filter(
+            (tx) => tx.networkId === tracked.networkId && sameAddress(tx.from, tracked.from)
+          );
+          const overflow = new Set(
+            account.filter((tx) => !isWatched(tx)).slice(0, Math.max(0, account.length + 1 - MAX_TRACKED_PER_ACCOUNT)).map((tx) => tx.id)
+          );
+          return { transactions: [...others.filter((tx) => !overflow.has(tx.id)), tracked] };
+        });
+      },
+
+      reconcileAccount: (networkId, address, observation) => {
+        const transitions: [TrackedTransaction, TrackedTransaction][] = [];
+
+        const now = observation.now ?? Date.now();
+        let updated: TrackedTransaction[] = [];
+
+        set((state) => {
+          const reconciled = state.transactions.map((tx) =>
+            tx.networkId !== networkId || !sameAddress(tx.from, address) ? tx : reconcileTrackedTransaction(tx, observation)
+          );
+          updated = settleReplaced(reconciled, now);
+          updated.forEach((next, index) => {
+            const previous = state.transactions[index];
+            if (next !== previous) transitions.push([previous, next]);
+          });
+          return { transactions: updated };
+        });
+
+        transitions.forEach(([previous, next]) => {
+          notifyTransition(previous, next);
+          // A nonce that never made it on chain is free again (or a gap to fill) -
+          // unless a replacement with that nonce is still on its way
+          const stillHeld = updated.some(
+            (tx) => tx.id !== next.id && tx.nonce === next.nonce && tx.networkId === next.networkId
+              && sameAddress(tx.from, next.from) && isWatched(tx)
+          );
+          if (next.state === 'dropped' && previous.state !== 'dropped' && !next.replacedBy && !stillHeld) {
+            useNonceStore.getState().releaseNonce(next.from, next.nonce);
+          }
+        });
+      },
+
+      dismiss: (id) => {
+        set((state) => ({
+          transactions: state.transactions.filter((tx) => tx.id !== id),
+        }));
+      },
+
+      clearSettled: (networkId, address) => {
+        set((state) => ({
+          transactions: state.transactions.filter(
+            (tx) => tx.networkId !== networkId || !sameAddress(tx.from, address) || isWatched(tx)
+          ),
+        }));
+      },
+
+      getAccountTransactions: (networkId, address) => {
+        return get().transactions
+          .filter((tx) => tx.networkId === networkId && sameAddress(tx.from, address))
+          .sort((a, b) => b.submittedAt - a.submittedAt);
+      },
+    }),
+    {
+      name: 'rainum-pending-transactions',
+    }
+  )
+);
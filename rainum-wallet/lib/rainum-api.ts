@@ -3,7 +3,38 @@
  * Connects to blockchain backend via network store
  */
 
-import { useNetworkStore } from './network-store';
+import { useNetworkStore, parseNodeIdentity, checkNodeIdentity, type NodeIdentity } from './network-store';
+import { isLegacySigningEnabled } from './wallet-settings';
+import type { SigningDomain } from './crypto';
+import {
+  TransactionBuilder,
+  createHttpTransport,
+  createAccountSigner,
+  type PayloadDefinition,
+  type Signer,
+  type UnsignedTransaction,
+} from './transaction-builder';
+import type { ValidatorKeyProofs } from './validator-keys';
+import { MAX_ACCOUNT_ID } from './wallet-store';
+import {
+  ENVELOPE_VERSION,
+  SIGNED_ENVELOPE_TYPE,
+  UNSIGNED_ENVELOPE_TYPE,
+  getEnvelopeSigningDomain,
+  type SignedEnvelope,
+  type UnsignedEnvelope,
+} from './transaction-envelope';
+import {
+  MAX_TRANSACTION_PAGE_SIZE,
+  getTransactionDirection,
+  queryTransactions,
+  toTransactionQueryParams,
+  type HistoryTransaction,
+  type TransactionPage,
+  type TransactionQuery,
+} from './transaction-query';
+import { usePendingTransactionsStore, type ReplacementKind, type TrackedTransaction } from './pending-transactions';
+import { peekNonce, reserveNonce, useNonceStore } from './nonce-manager';
 
 // All amounts are now in RAIN directly (no micro-RAIN conversion)
 
@@ -20,8 +51,171 @@ function getApiBase(): string {
   return process.env.NEXT_PUBLIC_API_URL || 'http://127.0.0.1:8080';
 }
 
-// IMPORTANT: Always use getApiBase() in fetch calls, not a constant
-// This ensures network switching works correctly
+// IMPORTANT: Always use rpcFetch() for node requests, not a constant base URL
+// This ensures network switching and endpoint failover work correctly
+
+// Gateway errors mean the endpoint is up but can't reach its node - worth trying another one
+const FAILOVER_STATUSES = [502, 503, 504];
+
+/**
+ * fetch() a path on the active RPC endpoint of the selected network
+ * If the endpoint can't be reached it is marked offline and the request is retried on the
+ * next endpoint picked by the network store. Other HTTP errors are returned to the caller.
+ * Re-sending a signed transaction to another endpoint is safe: the nonce prevents double execution.
+ */
+async function rpcFetch(path: string, init?: RequestInit): Promise<Response> {
+  if (typeof window === 'undefined') {
+    return fetch(`${getApiBase()}${path}`, init);
+  }
+
+  const store = useNetworkStore.getState();
+  const attempts = Math.max(1, store.getNetworkEndpoints(store.currentNetwork).length);
+
+  for (let attempt = 1; ; attempt++) {
+    const rpcUrl = getApiBase();
+    let failure: string;
+
+    try {
+      const res = await fetch(`${rpcUrl}${path}`, init);
+      if (!FAILOVER_STATUSES.includes(res.status) || attempt >= attempts) {
+        return res;
+      }
+      failure = `HTTP ${res.status}`;
+
+      const next = useNetworkStore.getState().reportEndpointFailure(rpcUrl, failure);
+      if (!next) return res;
+    } catch (err) {
+      if (init?.signal?.aborted || attempt >= attempts) throw err;
+      failure = err instanceof Error ? err.message : 'Network error';
+
+      const next = useNetworkStore.getState().reportEndpointFailure(rpcUrl, failure);
+      if (!next) throw err;
+    }
+
+    console.warn(`RPC endpoint ${rpcUrl} failed (${failure}), retrying ${path} on ${getApiBase()}`);
+  }
+}
+
+/**
+ * Signing domain for new transactions and staking actions on the selected network
+ * 🔒 Both commit to the network's chain ID unless legacy signing was explicitly enabled
+ */
+function getSigningDomain(vmType: VMType): SigningDomain {
+  if (isLegacySigningEnabled()) {
+    return { format: 'legacy' };
+  }
+
+  const network = useNetworkStore.getState().currentNetwork;
+  if (!network.chainId) {
+    throw new Error(`${network.name} has no chain ID - set one in the network settings before signing`);
+  }
+
+  return { format: 'v2', chainId: network.chainId, vmType };
+}
+
+const NODE_CHAIN_ID_TTL = 60 * 1000;
+let nodeIdentityCache: { rpcUrl: string; identity: NodeIdentity; fetchedAt: number } | null = null;
+
+/**
+ * Chain ID and genesis hash reported by the active endpoint (/status)
+ * @throws Error if the node can't be reached (signing is refused rather than unchecked)
+ */
+async function fetchActiveNodeIdentity(): Promise<NodeIdentity> {
+  const res = await rpcFetch('/status');
+  if (!res.ok) {
+    throw new Error(`Could not verify the node's chain ID (HTTP ${res.status})`);
+  }
+
+  const identity = parseNodeIdentity(await res.json());
+  nodeIdentityCache = { rpcUrl: getApiBase(), identity, fetchedAt: Date.now() }; // Endpoint that answered
+  return identity;
+}
+
+/**
+ * Chain ID reported by the connected node (/status), cached per RPC URL for a minute
+ * @returns null if the node doesn't report one
+ * @throws Error if the node can't be reached (signing is refused rather than unchecked)
+ */
+export async function getNodeChainId(): Promise<string | null> {
+  if (nodeIdentityCache && nodeIdentityCache.rpcUrl === getApiBase() && Date.now() - nodeIdentityCache.fetchedAt < NODE_CHAIN_ID_TTL) {
+    return nodeIdentityCache.identity.chainId;
+  }
+
+  return (await fetchActiveNodeIdentity()).chainId;
+}
+
+/**
+ * Refuse to continue if the selected network has a pinned genesis hash and the node
+ * no longer reports it (node replaced, DNS hijacked, RPC URL pointed at another chain)
+ * 🔒 Always asks the node - not served from the chain ID cache
+ */
+export async function verifyNodeIdentity(): Promise<void> {
+  const network = useNetworkStore.getState().currentNetwork;
+  if (!network.genesisHash) {
+    return;
+  }
+
+  const result = checkNodeIdentity(network, await fetchActiveNodeIdentity());
+  if (result.status === 'mismatch') {
+    // Records the failure and notifies the UI
+    void useNetworkStore.getState().verifyNetworkIdentity(network);
+    throw new Error(`Signing refused - ${network.name} node identity changed: ${result.message}`);
+  }
+}
+
+/**
+ * Hand every accepted transaction to the pending-transaction tracker
+ * Staking actions use their own scheme and aren't followed
+ */
+function trackBroadcast(tx: UnsignedTransaction, response: unknown): void {
+  if (tx.scheme !== 'transaction' || typeof response !== 'object' || response === null) {
+    return;
+  }
+
+  const result = response as { success?: boolean; hash?: unknown; tx_hash?: unknown; transaction_hash?: unknown };
+  if (result.success === false) {
+    return;
+  }
+
+  const hash = [result.hash, result.tx_hash, result.transaction_hash].find(
+    (value): value is string => typeof value === 'string' && value.length > 0
+  );
+
+  // Transfers keep their options so they can be resubmitted with a higher fee
+  const transfer = tx.kind === TRANSFER.kind ? (tx.params as TransferParams) : undefined;
+
+  usePendingTransactionsStore.getState().recordBroadcast({
+    networkId: useNetworkStore.getState().currentNetwork.id,
+    hash,
+    kind: tx.kind,
+    from: tx.from,
+    to: tx.to,
+    amount: tx.amount,
+    nonce: tx.nonce,
+    gasPrice: tx.gasPrice,
+    gasLimit: tx.gasLimit,
+    transfer: transfer && {
+      priority: transfer.priority,
+      enableZKP: transfer.enableZKP,
+      privacyLevel: transfer.privacyLevel,
+      vmType: transfer.vmType,
+    },
+    replacement: transfer?.replacement,
+  });
+}
+
+/**
+ * Shared builder for every write call (nonce -> sign -> POST)
+ */
+const txBuilder = new TransactionBuilder({
+  transport: createHttpTransport(rpcFetch),
+  getNonce: peekNonce,
+  reserveNonce,
+  getSigningDomain,
+  getNodeChainId,
+  verifyNodeIdentity,
+  onBroadcast: trackBroadcast,
+});
 
 export interface WalletCreateResponse {
   success: boolean;
@@ -54,6 +248,7 @@ export interface TransactionResponse {
   success: boolean;
   message: string;
   shard_id?: number;
+  hash?: string; // Returned by nodes that hash on submission
 }
 
 export interface AccountBalance {
@@ -67,7 +262,7 @@ export interface AccountBalance {
  */
 export async function createWallet(): Promise<WalletCreateResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/wallet/create`, {
+    const res = await rpcFetch(`/wallet/create`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -91,7 +286,7 @@ export async function createWallet(): Promise<WalletCreateResponse> {
  */
 export async function loginWallet(mnemonic: string): Promise<WalletCreateResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/wallet/login`, {
+    const res = await rpcFetch(`/wallet/login`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -110,6 +305,25 @@ export async function loginWallet(mnemonic: string): Promise<WalletCreateRespons
   }
 }
 
+/**
+ * Look up an account on the node
+ * Only "not found" (404) means the account doesn't exist - see accountExists() for the lenient version
+ * @throws Error if the node can't be reached or fails to answer
+ */
+export async function fetchAccountState(address: string): Promise<{ exists: boolean; balance: number }> {
+  const res = await rpcFetch(`/account/${address.toLowerCase()}`);
+
+  if (res.status === 404) {
+    return { exists: false, balance: 0 };
+  }
+  if (!res.ok) {
+    throw new Error(`Account lookup failed (HTTP ${res.status})`);
+  }
+
+  const data = await res.json();
+  return { exists: data.exists === true, balance: Number(data.balance) || 0 };
+}
+
 /**
  * Check if account exists
  */
@@ -117,7 +331,7 @@ export async function accountExists(address: string): Promise<boolean> {
   try {
     // Normalize address to lowercase for consistent backend lookup
     const normalizedAddress = address.toLowerCase();
-    const res = await fetch(`${getApiBase()}/account/${normalizedAddress}`);
+    const res = await rpcFetch(`/account/${normalizedAddress}`);
 
     console.log('accountExists API response status:', res.status);
 
@@ -150,7 +364,7 @@ export async function getBalance(address: string): Promise<number> {
   try {
     // Normalize address to lowercase for consistent backend lookup
     const normalizedAddress = address.toLowerCase();
-    const res = await fetch(`${getApiBase()}/account/${normalizedAddress}`);
+    const res = await rpcFetch(`/account/${normalizedAddress}`);
 
     if (!res.ok) {
       return 0;
@@ -171,7 +385,7 @@ export async function getAccountNonce(address: string): Promise<number> {
   try {
     // Normalize address to lowercase for consistent backend lookup
     const normalizedAddress = address.toLowerCase();
-    const res = await fetch(`${getApiBase()}/account/nonce/${normalizedAddress}`);
+    const res = await rpcFetch(`/account/nonce/${normalizedAddress}`);
 
     if (!res.ok) {
       return 0;
@@ -185,6 +399,60 @@ export async function getAccountNonce(address: string): Promise<number> {
   }
 }
 
+interface TransferParams {
+  from: string;
+  to: string;
+  amount: string;
+  priority: string;
+  enableZKP: boolean;
+  privacyLevel: string;
+  vmType: VMType;
+  gasPrice?: number; // Overrides the priority tier (replacements)
+  replacement?: ReplacementKind; // Set when this transfer replaces one with the same nonce
+}
+
+// Gas price and limit based on priority (in RAIN)
+export const TRANSFER_GAS_PRICES: Record<string, number> = {
+  low: 1,      // 1 RAIN per gas = 21,000 RAIN fee
+  standard: 2,  // 2 RAIN per gas = 42,000 RAIN fee
+  high: 5,      // 5 RAIN per gas = 105,000 RAIN fee
+};
+export const TRANSFER_GAS_LIMIT = 21000; // Standard transaction gas limit
+
+/**
+ * Network fee of a plain transfer at the given priority (whole RAIN)
+ */
+export function getTransferFee(priority: string = 'standard'): number {
+  return (TRANSFER_GAS_PRICES[priority] || 2) * TRANSFER_GAS_LIMIT;
+}
+
+const TRANSFER: PayloadDefinition<TransferParams> = {
+  kind: 'transfer',
+  endpoint: '/transaction',
+  sender: (p) => p.from,
+  vmType: (p) => p.vmType,
+  signingFields: (p) => ({
+    to: p.to,
+    amount: p.amount,
+    gasPrice: p.gasPrice ?? (TRANSFER_GAS_PRICES[p.priority] || 2),
+    gasLimit: TRANSFER_GAS_LIMIT,
+  }),
+  requestBody: (tx) => ({
+    from: tx.from,
+    to: tx.to,
+    amount: tx.amount,
+    priority: tx.params.priority,
+    signature: tx.signature,
+    timestamp: tx.timestamp,
+    nonce: tx.nonce,
+    gas_price: tx.gasPrice,
+    gas_limit: tx.gasLimit,
+    zkp_enabled: tx.params.enableZKP,
+    privacy_level: tx.params.privacyLevel,
+    vm_type: tx.params.vmType,  // Include VM type
+  }),
+};
+
 /**
  * Send transaction with Ed25519 signature
  */
@@ -220,8 +488,8 @@ export async function sendTransaction(
       throw new Error('Invalid transaction amount');
     }
 
-    // Validate account index
-    const sanitizedAccountIndex = sanitizeInteger(accountIndex, 0, 999);
+    // Validate account index (HD index or imported account id)
+    const sanitizedAccountIndex = sanitizeInteger(accountIndex, 0, MAX_ACCOUNT_ID);
     if (sanitizedAccountIndex === null) {
       throw new Error('Invalid account index');
     }
@@ -248,69 +516,6 @@ export async function sendTransaction(
       throw new Error('WALLET_LOCKED');
     }
 
-    let signature = undefined;
-    let nonce = 0;
-    let timestamp = 0;
-
-    // Gas price and limit based on priority (in RAIN)
-    const gasPrices: Record<string, number> = {
-      low: 1,      // 1 RAIN per gas = 21,000 RAIN fee
-      standard: 2,  // 2 RAIN per gas = 42,000 RAIN fee
-      high: 5,      // 5 RAIN per gas = 105,000 RAIN fee
-    };
-    const gasLimit = 21000; // Standard transaction gas limit
-    const gasPrice = gasPrices[priority] || 2;
-
-    // Sign the transaction with Ed25519 (REQUIRED by blockchain)
-    const { deriveAccountFromMnemonic, securelyWipeMemory } = await import('./hd-wallet');
-    const {
-      signTransaction: signTx,
-      getPublicKey,
-      deriveAddressFromPublicKey,
-    } = await import('./crypto');
-
-    // Get nonce and timestamp
-    nonce = await getAccountNonce(from);
-    timestamp = Math.floor(Date.now() / 1000);
-
-    // Derive private key from mnemonic using HD wallet path
-    const derivedAccount = deriveAccountFromMnemonic(mnemonic, accountIndex);
-    const privateKey = derivedAccount.privateKey;
-
-    // Get public key
-    const publicKey = await getPublicKey(privateKey);
-
-    // Derive address from public key (should match 'from')
-    const derivedAddress = deriveAddressFromPublicKey(publicKey);
-
-    // Case-insensitive comparison (Ethereum addresses are case-insensitive)
-    if (derivedAddress.toLowerCase() !== from.toLowerCase()) {
-      // SECURITY: Clear private key before throwing error
-      securelyWipeMemory(privateKey);
-      throw new Error('Derived address does not match transaction "from" address');
-    }
-
-    // Sign transaction with ALL fields including gas_price and gas_limit
-    const sig = await signTx(
-      privateKey,
-      from,
-      to,
-      amount,
-      nonce,
-      timestamp,
-      gasPrice,
-      gasLimit
-    );
-
-    // SECURITY: Immediately wipe private key from memory after signing
-    securelyWipeMemory(privateKey);
-    securelyWipeMemory(derivedAccount.publicKey); // Also wipe public key buffer
-
-    signature = {
-      signature_hex: sig.signature,
-      public_key_hex: sig.publicKey,
-    };
-
     // Amount is already in RAIN (backend uses RAIN directly)
     // Round to whole RAIN since blockchain uses u64 (no decimals)
     const amountInRain = Math.floor(parseFloat(amount));
@@ -319,33 +524,22 @@ export async function sendTransaction(
       throw new Error('Amount must be greater than 0');
     }
 
-    const res = await fetch(`${getApiBase()}/transaction`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    // Sign the transaction with Ed25519 (REQUIRED by blockchain)
+    const signer = createAccountSigner(mnemonic, { index: accountIndex, address: from });
+
+    return await txBuilder.submit<TransferParams, TransactionResponse>(
+      TRANSFER,
+      {
         from,
         to,
         amount: amountInRain.toString(),
         priority,
-        signature,  // Always present (mnemonic is required)
-        timestamp,  // Always present (mnemonic is required)
-        nonce,      // Always present (mnemonic is required)
-        gas_price: gasPrice,
-        gas_limit: gasLimit,
-        zkp_enabled: enableZKP,
-        privacy_level: privacyLevel,
-        vm_type: vmType,  // Include VM type
-      }),
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ message: 'Unknown error' }));
-      throw new Error(errorData.message || `HTTP error! status: ${res.status}`);
-    }
-
-    return await res.json();
+        enableZKP,
+        privacyLevel,
+        vmType,
+      },
+      signer
+    );
   } catch (error: any) {
     console.error('Failed to send transaction:', error);
     throw error;
@@ -353,42 +547,436 @@ export async function sendTransaction(
 }
 
 /**
- * Get transaction history for address
+ * Fill or cancel a stuck nonce with a zero-value transfer to the sender itself
+ * Filling a gap lets the transactions queued behind it through; on a nonce that
+ * is already waiting it replaces the original if the node takes the higher fee
+ * (pass `gasPrice` above the original's - see transaction-replacement.ts)
  */
-export async function getTransactions(address: string): Promise<any[]> {
-  try {
-    // Normalize address to lowercase for consistent backend lookup
-    const normalizedAddress = address.toLowerCase();
-    const res = await fetch(`${getApiBase()}/transactions/${normalizedAddress}`, {
-      cache: 'no-store',  // Disable caching to always get fresh transaction data
-      headers: {
-        'Cache-Control': 'no-cache'
-      }
-    });
+export async function cancelNonce(
+  from: string,
+  nonce: number,
+  mnemonic?: string,
+  accountIndex: number = 0,
+  gasPrice?: number
+): Promise<TransactionResponse> {
+  if (!mnemonic) {
+    throw new Error('WALLET_LOCKED');
+  }
 
-    if (!res.ok) {
-      return [];
+  const { sanitizeAddress } = await import('./input-sanitizer');
+  const sanitizedFrom = sanitizeAddress(from);
+  if (!sanitizedFrom) {
+    throw new Error('Invalid sender address format');
+  }
+
+  if (!Number.isInteger(nonce) || nonce < 0) {
+    throw new Error('Invalid nonce');
+  }
+
+  const signer = createAccountSigner(mnemonic, { index: accountIndex, address: sanitizedFrom });
+  return txBuilder.submit<TransferParams, TransactionResponse>(
+    TRANSFER,
+    {
+      from: sanitizedFrom,
+      to: sanitizedFrom,
+      amount: '0',
+      priority: 'high',
+      enableZKP: false,
+      privacyLevel: 'none',
+      vmType: 'evm',
+      gasPrice,
+      replacement: 'cancel',
+    },
+    signer,
+    { nonce }
+  );
+}
+
+/**
+ * Resubmit a pending transfer with the same nonce at a higher gas price
+ * Whichever of the two the network includes first wins - they move the same funds
+ */
+export async function speedUpTransaction(
+  original: TrackedTransaction,
+  gasPrice: number,
+  mnemonic?: string,
+  accountIndex: number = 0
+): Promise<TransactionResponse> {
+  if (!mnemonic) {
+    throw new Error('WALLET_LOCKED');
+  }
+
+  if (original.kind !== TRANSFER.kind || !original.transfer) {
+    throw new Error('Only transfers can be sped up');
+  }
+
+  if (!Number.isFinite(gasPrice) || gasPrice <= original.gasPrice) {
+    throw new Error(`Gas price must be higher than the original ${original.gasPrice}`);
+  }
+
+  const signer = createAccountSigner(mnemonic, { index: accountIndex, address: original.from });
+  return txBuilder.submit<TransferParams, TransactionResponse>(
+    TRANSFER,
+    {
+      from: original.from,
+      to: original.to,
+      amount: original.amount,
+      ...original.transfer,
+      gasPrice,
+      replacement: 'speed_up',
+    },
+    signer,
+    { nonce: original.nonce }
+  );
+}
+
+/**
+ * Build an unsigned transfer envelope for offline (air-gapped) signing
+ * Nonce and chain ID are taken from the currently selected network
+ */
+export async function prepareOfflineTransaction(
+  from: string,
+  to: string,
+  amount: string,
+  priority: string = 'standard',
+  enableZKP: boolean = false,
+  privacyLevel: string = 'full',
+  vmType: VMType = 'evm'
+): Promise<UnsignedEnvelope> {
+  // SECURITY: Sanitize all user inputs
+  const { sanitizeAddress, sanitizeAmount } = await import('./input-sanitizer');
+
+  const sanitizedFrom = sanitizeAddress(from);
+  if (!sanitizedFrom) {
+    throw new Error('Invalid sender address format');
+  }
+
+  const sanitizedTo = sanitizeAddress(to);
+  if (!sanitizedTo) {
+    throw new Error('Invalid recipient address format');
+  }
+
+  const sanitizedAmount = sanitizeAmount(amount);
+  if (!sanitizedAmount) {
+    throw new Error('Invalid transaction amount');
+  }
+
+  const amountInRain = Math.floor(parseFloat(sanitizedAmount));
+  if (amountInRain <= 0 || !isFinite(amountInRain)) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  const tx = await txBuilder.build(TRANSFER, {
+    from: sanitizedFrom,
+    to: sanitizedTo,
+    amount: amountInRain.toString(),
+    priority,
+    enableZKP,
+    privacyLevel,
+    vmType,
+  });
+
+  return { type: UNSIGNED_ENVELOPE_TYPE, ...toEnvelopeFields(tx) };
+}
+
+/**
+ * Envelope fields of a built transfer
+ */
+function toEnvelopeFields(tx: UnsignedTransaction<TransferParams>): Omit<UnsignedEnvelope, 'type'> {
+  const network = useNetworkStore.getState().currentNetwork;
+
+  return {
+    version: ENVELOPE_VERSION,
+    chain_id: tx.domain.format === 'v2' ? tx.domain.chainId : network.chainId ?? null,
+    network: network.name,
+    vm_type: tx.params.vmType,
+    signing_format: tx.domain.format,
+    from: tx.from,
+    to: tx.to,
+    amount: tx.amount,
+    nonce: tx.nonce,
+    gas_price: tx.gasPrice,
+    gas_limit: tx.gasLimit,
+    timestamp: tx.timestamp,
+    priority: tx.params.priority,
+    zkp_enabled: tx.params.enableZKP,
+    privacy_level: tx.params.privacyLevel,
+  };
+}
+
+/**
+ * Transfer to sign now and broadcast later with a fixed nonce
+ */
+export interface PresignedTransferRequest {
+  to: string;
+  amount: string; // Whole RAIN
+  nonce: number;
+  priority?: string;
+}
+
+/**
+ * Sign transfers ahead of time (pre-authorized scheduled payments)
+ * The returned envelopes are broadcast with broadcastSignedEnvelope() when
+ * they fall due - no mnemonic is needed at that point.
+ */
+export async function presignTransfers(
+  from: string,
+  payments: PresignedTransferRequest[],
+  mnemonic?: string,
+  accountIndex: number = 0
+): Promise<SignedEnvelope[]> {
+  if (!mnemonic) {
+    throw new Error('WALLET_LOCKED');
+  }
+
+  const { sanitizeAddress, sanitizeAmount } = await import('./input-sanitizer');
+  const sanitizedFrom = sanitizeAddress(from);
+  if (!sanitizedFrom) {
+    throw new Error('Invalid sender address format');
+  }
+
+  const signer = createAccountSigner(mnemonic, { index: accountIndex, address: sanitizedFrom });
+  const envelopes: SignedEnvelope[] = [];
+
+  for (const payment of payments) {
+    const sanitizedTo = sanitizeAddress(payment.to);
+    if (!sanitizedTo) {
+      throw new Error('Invalid recipient address format');
     }
 
-    const data = await res.json();
+    const amountInRain = Math.floor(parseFloat(sanitizeAmount(payment.amount) || '0'));
+    if (amountInRain <= 0 || !isFinite(amountInRain)) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    if (!Number.isInteger(payment.nonce) || payment.nonce < 0) {
+      throw new Error('Invalid nonce');
+    }
+
+    const tx = await txBuilder.build(
+      TRANSFER,
+      {
+        from: sanitizedFrom,
+        to: sanitizedTo,
+        amount: amountInRain.toString(),
+        priority: payment.priority || 'standard',
+        enableZKP: false,
+        privacyLevel: 'full',
+        vmType: 'evm',
+      },
+      payment.nonce
+    );
+    const signed = await txBuilder.sign(tx, signer);
+
+    envelopes.push({ type: SIGNED_ENVELOPE_TYPE, ...toEnvelopeFields(tx), signature: signed.signature });
+  }
+
+  return envelopes;
+}
+
+/**
+ * Send a transfer signed by a delegated signer (spending-cap scheduled payments)
+ */
+export async function sendTransferWithSigner(
+  signer: Signer,
+  to: string,
+  amount: string,
+  priority: string = 'standard'
+): Promise<TransactionResponse> {
+  const { sanitizeAddress, sanitizeAmount } = await import('./input-sanitizer');
+
+  const sanitizedTo = sanitizeAddress(to);
+  if (!sanitizedTo) {
+    throw new Error('Invalid recipient address format');
+  }
+
+  const amountInRain = Math.floor(parseFloat(sanitizeAmount(amount) || '0'));
+  if (amountInRain <= 0 || !isFinite(amountInRain)) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  return txBuilder.submit<TransferParams, TransactionResponse>(
+    TRANSFER,
+    {
+      from: signer.address,
+      to: sanitizedTo,
+      amount: amountInRain.toString(),
+      priority,
+      enableZKP: false,
+      privacyLevel: 'full',
+      vmType: 'evm',
+    },
+    signer
+  );
+}
+
+/**
+ * Broadcast an envelope signed on an offline machine through /transaction
+ */
+export async function broadcastSignedEnvelope(envelope: SignedEnvelope): Promise<TransactionResponse> {
+  const network = useNetworkStore.getState().currentNetwork;
+
+  // 🔒 SECURITY: Never replay a transaction prepared for another chain
+  if (envelope.chain_id && network.chainId && envelope.chain_id !== network.chainId) {
+    throw new Error(
+      `Envelope was prepared for chain ${envelope.chain_id}, but ${network.name} is chain ${network.chainId}`
+    );
+  }
 
-    // API returns {incoming: [...], outgoing: [...]}
-    // Combine them into a single array
-    if (data && typeof data === 'object' && 'incoming' in data && 'outgoing' in data) {
-      const allTransactions = [
-        ...data.outgoing.map((tx: any) => ({ ...tx, direction: 'outgoing' })),
-        ...data.incoming.map((tx: any) => ({ ...tx, direction: 'incoming' }))
-      ];
+  const domain = getEnvelopeSigningDomain(envelope);
+  if (domain.format === 'v2') {
+    await txBuilder.verifyChain(domain.chainId);
+  }
+
+  const result = await txBuilder.send<TransferParams, TransactionResponse>(TRANSFER, {
+    kind: TRANSFER.kind,
+    scheme: 'transaction',
+    domain,
+    from: envelope.from,
+    to: envelope.to,
+    amount: envelope.amount,
+    gasPrice: envelope.gas_price,
+    gasLimit: envelope.gas_limit,
+    nonce: envelope.nonce,
+    timestamp: envelope.timestamp,
+    params: {
+      from: envelope.from,
+      to: envelope.to,
+      amount: envelope.amount,
+      priority: envelope.priority,
+      enableZKP: envelope.zkp_enabled,
+      privacyLevel: envelope.privacy_level,
+      vmType: envelope.vm_type,
+    },
+    signature: envelope.signature,
+  });
+
+  // Keep local nonce reservations from handing out the envelope's nonce again
+  if (result.success !== false) {
+    useNonceStore.getState().markBroadcast(envelope.from, envelope.nonce, TRANSFER.kind);
+  }
+  return result;
+}
+
+/**
+ * Cursor for incremental history sync: only transactions at or after it are requested
+ */
+export interface TransactionCursor {
+  timestamp?: number; // Unix seconds
+  block?: number;
+}
+
+/**
+ * Combine a history response into one list
+ * Nodes answer with {incoming: [...], outgoing: [...]}, or {transactions, next_cursor} when they page
+ */
+function parseHistoryResponse(data: unknown, address: string): TransactionPage<HistoryTransaction> {
+  const response = (data && typeof data === 'object' ? data : {}) as {
+    incoming?: HistoryTransaction[];
+    outgoing?: HistoryTransaction[];
+    transactions?: HistoryTransaction[];
+    next_cursor?: unknown;
+  };
+
+  // API returns {incoming: [...], outgoing: [...]}
+  // Combine them into a single array
+  if (Array.isArray(response.incoming) && Array.isArray(response.outgoing)) {
+    const allTransactions: HistoryTransaction[] = [
+      ...response.outgoing.map((tx) => ({ ...tx, direction: 'outgoing' as const })),
+      ...response.incoming.map((tx) => ({ ...tx, direction: 'incoming' as const }))
+    ];
 
-      // Sort by timestamp (most recent first)
-      return allTransactions.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+    // Sort by timestamp (most recent first)
+    return {
+      transactions: allTransactions.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0)),
+      nextCursor: null,
+    };
+  }
+
+  if (Array.isArray(response.transactions)) {
+    return {
+      transactions: response.transactions.map((tx) => ({ ...tx, direction: tx.direction || getTransactionDirection(tx, address) })),
+      nextCursor: typeof response.next_cursor === 'string' && response.next_cursor ? response.next_cursor : null,
+    };
+  }
+
+  // Fallback if API format changes
+  return { transactions: Array.isArray(data) ? data : [], nextCursor: null };
+}
+
+async function requestTransactionHistory(address: string, params: URLSearchParams): Promise<unknown> {
+  // Normalize address to lowercase for consistent backend lookup
+  const normalizedAddress = address.toLowerCase();
+  const suffix = params.toString() ? `?${params}` : '';
+
+  const res = await rpcFetch(`/transactions/${normalizedAddress}${suffix}`, {
+    cache: 'no-store',  // Disable caching to always get fresh transaction data
+    headers: {
+      'Cache-Control': 'no-cache'
     }
+  });
 
-    // Fallback if API format changes
-    return Array.isArray(data) ? data : [];
+  if (!res.ok) {
+    throw new Error(`Failed to load transactions (HTTP ${res.status})`);
+  }
+
+  return res.json();
+}
+
+/**
+ * Fetch transaction history for an address (incoming + outgoing, newest first)
+ * With a cursor only newer transactions are requested; nodes that ignore the cursor
+ * return the full history, so callers must merge by hash.
+ * @throws Error if the node can't be reached or answers with an error
+ */
+export async function fetchTransactionHistory(address: string, since?: TransactionCursor): Promise<any[]> {
+  const params = new URLSearchParams();
+  if (since?.timestamp !== undefined) params.set('since_timestamp', String(since.timestamp));
+  if (since?.block !== undefined) params.set('since_block', String(since.block));
+
+  const transactions: any[] = [];
+  const seenCursors = new Set<string>();
+  for (;;) {
+    const page = parseHistoryResponse(await requestTransactionHistory(address, params), address);
+    transactions.push(...page.transactions);
+
+    // Paging nodes: follow the cursor until the whole range is fetched
+    if (!page.nextCursor || seenCursors.has(page.nextCursor)) break;
+    seenCursors.add(page.nextCursor);
+    params.set('cursor', page.nextCursor);
+    params.set('limit', String(MAX_TRANSACTION_PAGE_SIZE));
+  }
+
+  return transactions;
+}
+
+/**
+ * Get one page of transaction history for address
+ * Filters and the cursor are sent to the node; nodes without server-side queries return the
+ * full history, which is then filtered and paged here with the same semantics.
+ * Throws if the node can't be reached - see getTransactions() for the lenient version
+ */
+export async function fetchTransactionPage(address: string, query: TransactionQuery = {}): Promise<TransactionPage<HistoryTransaction>> {
+  const data = await requestTransactionHistory(address, toTransactionQueryParams(query));
+  const page = parseHistoryResponse(data, address);
+
+  // Nodes that page answer with {transactions, next_cursor} - already filtered
+  if (data && typeof data === 'object' && Array.isArray((data as { transactions?: unknown }).transactions)) {
+    return page;
+  }
+  return queryTransactions(page.transactions, address, query);
+}
+
+/**
+ * Get one page of transaction history for address (see fetchTransactionPage())
+ * Returns an empty page if the node can't be reached (see transaction-cache.ts for offline history)
+ */
+export async function getTransactions(address: string, query: TransactionQuery = {}): Promise<TransactionPage<HistoryTransaction>> {
+  try {
+    return await fetchTransactionPage(address, query);
   } catch (error) {
     console.error('Failed to get transactions:', error);
-    return [];
+    return { transactions: [], nextCursor: null };
   }
 }
 
@@ -399,7 +987,7 @@ export async function requestFromFaucet(address: string): Promise<any> {
   try {
     // Normalize address to lowercase for consistent backend lookup
     const normalizedAddress = address.toLowerCase();
-    const res = await fetch(`${getApiBase()}/faucet`, {
+    const res = await rpcFetch(`/faucet`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -445,53 +1033,12 @@ export interface DelegationInfo {
   delegated_at?: number;
 }
 
-/**
- * Register as a validator
- */
-export async function registerValidator(
-  address: string,
-  stake: number,
-  tier: number
-): Promise<any> {
-  try {
-    // Generate dummy keys for now (in production, derive from wallet private key)
-    const ed25519PublicKey = '0'.repeat(64); // 32 bytes hex
-    const blsPublicKey = '0'.repeat(96); // 48 bytes hex
-    const vrfPublicKey = '0'.repeat(64); // 32 bytes hex
-
-    // Stake is already in RAIN (backend uses RAIN directly)
-    const res = await fetch(`${getApiBase()}/validator/register`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        address,
-        stake,
-        tier,
-        ed25519_public_key_hex: ed25519PublicKey,
-        bls_public_key_hex: blsPublicKey,
-        vrf_public_key_hex: vrfPublicKey,
-      }),
-    });
-
-    const data = await res.json();
-
-    if (!res.ok || !data.success) {
-      throw new Error(data.message || `HTTP error! status: ${res.status}`);
-    }
-
-    return data;
-  } catch (error) {
-    console.error('Failed to register validator:', error);
-    throw error;
-  }
-}
-
 /**
  * Get all validators
  */
 export async function getValidators(): Promise<ValidatorInfo[]> {
   try {
-    const res = await fetch(`${getApiBase()}/validators`);
+    const res = await rpcFetch(`/validators`);
 
     if (!res.ok) {
       throw new Error(`HTTP error! status: ${res.status}`);
@@ -527,7 +1074,7 @@ export async function getValidators(): Promise<ValidatorInfo[]> {
  */
 export async function getValidatorInfo(address: string): Promise<ValidatorInfo | null> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/${address}`);
+    const res = await rpcFetch(`/validator/${address}`);
 
     if (!res.ok) {
       if (res.status === 404) return null;
@@ -566,6 +1113,173 @@ export async function getValidatorInfo(address: string): Promise<ValidatorInfo |
   }
 }
 
+interface StakingParams {
+  address: string;   // Signer (delegator or validator operator)
+  validator: string; // Validator the action applies to
+  amount: number;    // RAIN amount (new tier for upgrade_tier, 0 when unused)
+  payloadHash?: string; // hashStakingPayload() over the action's other fields, when it has any
+}
+
+/**
+ * Build a staking payload definition
+ * Signed over (chain ID, action, validator, amount, nonce, timestamp, payload hash) - see signStakingAction()
+ */
+function stakingAction<P extends StakingParams = StakingParams>(
+  action: string,
+  endpoint: PayloadDefinition<P>['endpoint'],
+  fields: (p: P) => Record<string, unknown>
+): PayloadDefinition<P> {
+  return {
+    kind: action,
+    scheme: 'staking',
+    endpoint,
+    sender: (p) => p.address,
+    signingFields: (p) => ({
+      to: p.validator,
+      amount: p.amount.toString(),
+      gasPrice: 0,
+      gasLimit: 0,
+      payloadHash: p.payloadHash,
+    }),
+    requestBody: (tx) => ({
+      ...fields(tx.params),
+      nonce: tx.nonce,
+      timestamp: tx.timestamp,
+      signature: tx.signature,
+    }),
+  };
+}
+
+const DELEGATE = stakingAction('delegate', '/delegate', (p) => ({
+  delegator: p.address,
+  validator: p.validator,
+  amount: p.amount.toString(),
+}));
+
+const UNDELEGATE = stakingAction('undelegate', '/undelegate', (p) => ({
+  delegator: p.address,
+  validator: p.validator,
+  amount: p.amount.toString(),
+}));
+
+const UNJAIL = stakingAction('unjail', '/validator/unjail', (p) => ({
+  address: p.address,
+}));
+
+const ADD_STAKE = stakingAction('add_stake', '/validator/add-stake', (p) => ({
+  address: p.address,
+  amount: p.amount,
+}));
+
+const UPGRADE_TIER = stakingAction('upgrade_tier', '/validator/upgrade-tier', (p) => ({
+  address: p.address,
+  new_tier: p.amount,
+}));
+
+const UNSTAKE = stakingAction('unstake', '/validator/unstake', (p) => ({
+  address: p.address,
+  amount: p.amount,
+}));
+
+const WITHDRAW = stakingAction('withdraw', (p) => `/validator/withdraw/${p.address}`, (p) => ({
+  address: p.address,
+}));
+
+/**
+ * Sign and submit a staking action for an HD wallet account
+ * 🔒 SECURITY: Client-side signing (private keys NEVER sent to backend)
+ */
+async function submitStakingAction<P extends StakingParams, R>(
+  definition: PayloadDefinition<P>,
+  params: P,
+  mnemonic: string | undefined,
+  accountIndex: number
+): Promise<R> {
+  if (!mnemonic) {
+    throw new Error('WALLET_LOCKED');
+  }
+
+  // Amounts are u64 whole RAIN on chain - a fraction would be signed and sent as different values
+  if (!Number.isSafeInteger(params.amount) || params.amount < 0) {
+    throw new Error('Staking amount must be a whole number of RAIN');
+  }
+
+  const signer = createAccountSigner(mnemonic, { index: accountIndex, address: params.address });
+  return txBuilder.submit<P, R>(definition, params, signer);
+}
+
+interface RegisterValidatorParams extends StakingParams {
+  tier: number;
+  keys: ValidatorKeyProofs;
+}
+
+const REGISTER_VALIDATOR = stakingAction<RegisterValidatorParams>('register_validator', '/validator/register', (p) => ({
+  address: p.address,
+  stake: p.amount,
+  tier: p.tier,
+  ...p.keys,
+}));
+
+/**
+ * Register as a validator
+ * Derives dedicated Ed25519, BLS12-381 and VRF keys from the HD seed,
+ * proves possession of each and signs the registration with the account key
+ */
+export async function registerValidator(
+  address: string,
+  stake: number,
+  tier: number,
+  mnemonic: string,
+  accountIndex: number = 0,
+  passphrase: string = ''
+): Promise<ValidatorStakeResponse> {
+  try {
+    if (!mnemonic) {
+      throw new Error('WALLET_LOCKED');
+    }
+
+    const { deriveValidatorKeys, createProofsOfPossession, wipeValidatorKeys } = await import('./validator-keys');
+    const { hashStakingPayload } = await import('./crypto');
+
+    const validatorKeys = deriveValidatorKeys(mnemonic, accountIndex, passphrase);
+    let keys: ValidatorKeyProofs;
+    try {
+      keys = createProofsOfPossession(validatorKeys, address);
+    } finally {
+      // SECURITY: Validator secret keys are never kept after signing the proofs
+      wipeValidatorKeys(validatorKeys);
+    }
+
+    // 🔒 The signature covers the tier and every key and proof, so none can be swapped in transit
+    const payloadHash = hashStakingPayload([
+      tier,
+      keys.ed25519_public_key_hex,
+      keys.bls_public_key_hex,
+      keys.vrf_public_key_hex,
+      keys.ed25519_pop_hex,
+      keys.bls_pop_hex,
+      keys.vrf_pop_hex,
+    ]);
+
+    // Stake is already in RAIN (backend uses RAIN directly)
+    const data = await submitStakingAction<RegisterValidatorParams, ValidatorStakeResponse>(
+      REGISTER_VALIDATOR,
+      { address, validator: address, amount: stake, tier, keys, payloadHash },
+      mnemonic,
+      accountIndex
+    );
+
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to register validator');
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Failed to register validator:', error);
+    throw error;
+  }
+}
+
 /**
  * Delegate tokens to a validator
  * 🔒 SECURITY: Client-side signing (private keys NEVER sent to backend)
@@ -578,36 +1292,16 @@ export async function delegateToValidator(
   accountIndex: number = 0
 ): Promise<any> {
   try {
-    // TODO: Backend needs to accept signatures for delegation
-    // For now, we remove private_key transmission (critical security fix)
-    // Backend needs to be updated to accept signature + public_key instead
-
     // Amount is already in RAIN (backend uses RAIN directly)
-    const res = await fetch(`${getApiBase()}/delegate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        delegator: delegatorAddress,
-        validator: validatorAddress,
-        amount: amount.toString(),
-        // 🔒 REMOVED: private_key (critical security vulnerability)
-        // Backend needs update to verify signature instead
-      }),
-    });
-
-    // Try to parse as JSON, fall back to text if it fails
-    let data;
-    const contentType = res.headers.get('content-type');
-    if (contentType && contentType.includes('application/json')) {
-      data = await res.json();
-    } else {
-      const text = await res.text();
-      // If response is not JSON, wrap it in an error object
-      data = { success: false, message: text };
-    }
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      DELEGATE,
+      { address: delegatorAddress, validator: validatorAddress, amount },
+      mnemonic,
+      accountIndex
+    );
 
-    if (!res.ok || !data.success) {
-      throw new Error(data.message || `HTTP error! status: ${res.status}`);
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to delegate');
     }
 
     return data;
@@ -629,34 +1323,16 @@ export async function undelegateFromValidator(
   accountIndex: number = 0
 ): Promise<any> {
   try {
-    // TODO: Backend needs to accept signatures for undelegation
-    // For now, we remove private_key transmission (critical security fix)
-
     // Amount is already in RAIN (backend uses RAIN directly)
-    const res = await fetch(`${getApiBase()}/undelegate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        delegator: delegatorAddress,
-        validator: validatorAddress,
-        amount: amount.toString(),
-        // 🔒 REMOVED: private_key (critical security vulnerability)
-      }),
-    });
-
-    // Try to parse as JSON, fall back to text if it fails
-    let data;
-    const contentType = res.headers.get('content-type');
-    if (contentType && contentType.includes('application/json')) {
-      data = await res.json();
-    } else {
-      const text = await res.text();
-      // If response is not JSON, wrap it in an error object
-      data = { success: false, message: text };
-    }
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      UNDELEGATE,
+      { address: delegatorAddress, validator: validatorAddress, amount },
+      mnemonic,
+      accountIndex
+    );
 
-    if (!res.ok || !data.success) {
-      throw new Error(data.message || `HTTP error! status: ${res.status}`);
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to undelegate');
     }
 
     return data;
@@ -671,7 +1347,7 @@ export async function undelegateFromValidator(
  */
 export async function getDelegations(address: string): Promise<DelegationInfo[]> {
   try {
-    const res = await fetch(`${getApiBase()}/delegations/${address}`);
+    const res = await rpcFetch(`/delegations/${address}`);
 
     if (!res.ok) {
       if (res.status === 404) return [];
@@ -704,20 +1380,15 @@ export async function unjailValidator(
   accountIndex: number = 0
 ): Promise<any> {
   try {
-    // TODO: Backend needs to accept signatures for unjail
-    const res = await fetch(`${getApiBase()}/validator/unjail`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        address,
-        // 🔒 REMOVED: private_key (critical security vulnerability)
-      }),
-    });
-
-    const data = await res.json();
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      UNJAIL,
+      { address, validator: address, amount: 0 },
+      mnemonic,
+      accountIndex
+    );
 
-    if (!res.ok || !data.success) {
-      throw new Error(data.message || `HTTP error! status: ${res.status}`);
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to unjail validator');
     }
 
     return data;
@@ -735,16 +1406,10 @@ export async function updateValidatorProfile(params: {
   website?: string;
 }): Promise<any> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/update-profile`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(params),
-    });
-
-    const data = await res.json();
+    const data = await txBuilder.transport.post<ValidatorStakeResponse>('/validator/update-profile', params);
 
-    if (!res.ok || !data.success) {
-      throw new Error(data.message || `HTTP error! status: ${res.status}`);
+    if (!data.success) {
+      throw new Error(data.message || 'Failed to update validator profile');
     }
 
     return data;
@@ -789,35 +1454,21 @@ export interface UnbondingStatus {
 
 /**
  * Add more stake to existing validator
+ * 🔒 SECURITY: Signed with the validator operator key
  */
-export async function addValidatorStake(address: string, amount: number): Promise<ValidatorStakeResponse> {
+export async function addValidatorStake(
+  address: string,
+  amount: number,
+  mnemonic: string,
+  accountIndex: number = 0
+): Promise<ValidatorStakeResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/add-stake`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ address, amount }),
-    });
-
-    // Check response status before parsing JSON
-    if (!res.ok) {
-      // Try to read error message from response text
-      const errorText = await res.text();
-      let errorMessage = `HTTP error! status: ${res.status}`;
-
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch {
-        // If not JSON, use the text as error message
-        errorMessage = errorText || errorMessage;
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await res.json();
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      ADD_STAKE,
+      { address, validator: address, amount },
+      mnemonic,
+      accountIndex
+    );
 
     if (!data.success) {
       throw new Error(data.message || 'Failed to add validator stake');
@@ -832,35 +1483,21 @@ export async function addValidatorStake(address: string, amount: number): Promis
 
 /**
  * Upgrade validator tier
+ * 🔒 SECURITY: Signed with the validator operator key (amount field carries the new tier)
  */
-export async function upgradeValidatorTier(address: string, newTier: number): Promise<ValidatorStakeResponse> {
+export async function upgradeValidatorTier(
+  address: string,
+  newTier: number,
+  mnemonic: string,
+  accountIndex: number = 0
+): Promise<ValidatorStakeResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/upgrade-tier`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ address, new_tier: newTier }),
-    });
-
-    // Check response status before parsing JSON
-    if (!res.ok) {
-      // Try to read error message from response text
-      const errorText = await res.text();
-      let errorMessage = `HTTP error! status: ${res.status}`;
-
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch {
-        // If not JSON, use the text as error message
-        errorMessage = errorText || errorMessage;
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await res.json();
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      UPGRADE_TIER,
+      { address, validator: address, amount: newTier },
+      mnemonic,
+      accountIndex
+    );
 
     if (!data.success) {
       throw new Error(data.message || 'Failed to upgrade validator tier');
@@ -875,35 +1512,21 @@ export async function upgradeValidatorTier(address: string, newTier: number): Pr
 
 /**
  * Start unbonding (unstaking)
+ * 🔒 SECURITY: Signed with the validator operator key
  */
-export async function unstakeValidator(address: string, amount: number): Promise<ValidatorStakeResponse> {
+export async function unstakeValidator(
+  address: string,
+  amount: number,
+  mnemonic: string,
+  accountIndex: number = 0
+): Promise<ValidatorStakeResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/unstake`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ address, amount }),
-    });
-
-    // Check response status before parsing JSON
-    if (!res.ok) {
-      // Try to read error message from response text
-      const errorText = await res.text();
-      let errorMessage = `HTTP error! status: ${res.status}`;
-
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch {
-        // If not JSON, use the text as error message
-        errorMessage = errorText || errorMessage;
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await res.json();
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      UNSTAKE,
+      { address, validator: address, amount },
+      mnemonic,
+      accountIndex
+    );
 
     if (!data.success) {
       throw new Error(data.message || 'Failed to unstake validator');
@@ -918,34 +1541,20 @@ export async function unstakeValidator(address: string, amount: number): Promise
 
 /**
  * Withdraw completed unbonding
+ * 🔒 SECURITY: Signed with the validator operator key
  */
-export async function withdrawValidator(address: string): Promise<ValidatorStakeResponse> {
+export async function withdrawValidator(
+  address: string,
+  mnemonic: string,
+  accountIndex: number = 0
+): Promise<ValidatorStakeResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/withdraw/${address}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Check response status before parsing JSON
-    if (!res.ok) {
-      // Try to read error message from response text
-      const errorText = await res.text();
-      let errorMessage = `HTTP error! status: ${res.status}`;
-
-      try {
-        const errorData = JSON.parse(errorText);
-        errorMessage = errorData.message || errorMessage;
-      } catch {
-        // If not JSON, use the text as error message
-        errorMessage = errorText || errorMessage;
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data = await res.json();
+    const data = await submitStakingAction<StakingParams, ValidatorStakeResponse>(
+      WITHDRAW,
+      { address, validator: address, amount: 0 },
+      mnemonic,
+      accountIndex
+    );
 
     if (!data.success) {
       throw new Error(data.message || 'Failed to withdraw validator');
@@ -963,7 +1572,7 @@ export async function withdrawValidator(address: string): Promise<ValidatorStake
  */
 export async function getUnbondingStatus(address: string): Promise<UnbondingStatus> {
   try {
-    const res = await fetch(`${getApiBase()}/validator/${address}/unbonding`);
+    const res = await rpcFetch(`/validator/${address}/unbonding`);
 
     if (!res.ok) {
       throw new Error(`HTTP error! status: ${res.status}`);
@@ -1061,7 +1670,7 @@ export interface GasEstimateResponse {
  */
 export async function getGasPrice(): Promise<GasPriceResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/gas/price`);
+    const res = await rpcFetch(`/gas/price`);
 
     if (!res.ok) {
       throw new Error(`HTTP error! status: ${res.status}`);
@@ -1074,12 +1683,44 @@ export async function getGasPrice(): Promise<GasPriceResponse> {
   }
 }
 
+export interface PricePoint {
+  timestamp: number; // Unix seconds
+  usd: number; // USD per RAIN
+}
+
+/**
+ * Get historical RAIN/USD prices between two timestamps (oldest first)
+ * Returns an empty list if the node has no price history
+ */
+export async function getRainPriceHistory(from: number, to: number): Promise<PricePoint[]> {
+  try {
+    const res = await rpcFetch(`/price/history?from=${Math.floor(from)}&to=${Math.ceil(to)}`);
+
+    if (!res.ok) {
+      return [];
+    }
+
+    const data = await res.json();
+    const points: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.prices) ? data.prices : [];
+    return points
+      .filter((p): p is PricePoint =>
+        !!p && typeof p === 'object' &&
+        typeof (p as PricePoint).timestamp === 'number' &&
+        typeof (p as PricePoint).usd === 'number'
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error('Failed to get price history:', error);
+    return [];
+  }
+}
+
 /**
  * Estimate gas for a transaction with priority options
  */
 export async function estimateGas(request: GasEstimateRequest): Promise<GasEstimateResponse> {
   try {
-    const res = await fetch(`${getApiBase()}/gas/estimate`, {
+    const res = await rpcFetch(`/gas/estimate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -1155,11 +1796,12 @@ export async function getBlockchainStatus(): Promise<{
   block_height: number;
   network: string;
   connected: boolean;
+  chain_id?: string;
   average_block_time?: number;
   total_accounts?: number;
 } | null> {
   try {
-    const res = await fetch(`${getApiBase()}/status`);
+    const res = await rpcFetch(`/status`);
 
     if (!res.ok) {
       return null;
@@ -1170,6 +1812,7 @@ export async function getBlockchainStatus(): Promise<{
       block_height: data.block_height || 0,
       network: data.network || 'mainnet',
       connected: true,
+      chain_id: data.chain_id !== undefined && data.chain_id !== null ? String(data.chain_id) : undefined,
       average_block_time: data.average_block_time,
       total_accounts: data.total_accounts
     };
@@ -1224,6 +1867,64 @@ export interface PublishMoveModuleResponse {
   error?: string;
 }
 
+interface EVMDeployParams {
+  deployer: string;
+  bytecode: string;
+  constructorArgs?: string;
+  gasLimit: number;
+  gasPrice: number;
+}
+
+const EVM_DEPLOY: PayloadDefinition<EVMDeployParams> = {
+  kind: 'evm_deploy',
+  endpoint: '/contract/deploy',
+  sender: (p) => p.deployer,
+  vmType: () => 'evm',
+  signingFields: (p) => ({
+    to: '0x0000000000000000000000000000000000000000', // Contract deployment uses zero address
+    amount: '0', // No value transfer
+    gasPrice: p.gasPrice,
+    gasLimit: p.gasLimit,
+  }),
+  requestBody: (tx) => ({
+    deployer: tx.from,
+    bytecode: tx.params.bytecode,
+    constructor_args: tx.params.constructorArgs,
+    gas_limit: tx.gasLimit,
+    gas_price: tx.gasPrice,
+    timestamp: tx.timestamp,
+    nonce: tx.nonce,
+    signature: tx.signature,
+  }),
+};
+
+interface MovePublishParams {
+  sender: string;
+  bytecode: string;
+  gasLimit: number;
+}
+
+const MOVE_PUBLISH: PayloadDefinition<MovePublishParams> = {
+  kind: 'move_publish',
+  endpoint: '/move/publish',
+  sender: (p) => p.sender,
+  vmType: () => 'move',
+  signingFields: (p) => ({
+    to: '0x0000000000000000000000000000000000000001', // Move module publication
+    amount: '0',
+    gasPrice: 1, // Gas price for Move
+    gasLimit: p.gasLimit,
+  }),
+  requestBody: (tx) => ({
+    sender: tx.from,
+    bytecode: tx.params.bytecode,
+    gas_limit: tx.gasLimit,
+    timestamp: tx.timestamp,
+    nonce: tx.nonce,
+    signature: tx.signature,
+  }),
+};
+
 /**
  * Deploy EVM smart contract
  */
@@ -1237,65 +1938,16 @@ export async function deployEVMContract(
   accountIndex: number = 0
 ): Promise<DeployEVMContractResponse> {
   try {
-    // Get nonce and timestamp
-    const nonce = await getAccountNonce(deployer);
-    const timestamp = Math.floor(Date.now() / 1000);
-
-    let signature = undefined;
-
     // Sign if mnemonic provided
-    if (mnemonic) {
-      const { deriveAccountFromMnemonic, securelyWipeMemory } = await import('./hd-wallet');
-      const { signTransaction: signTx, getPublicKey } = await import('./crypto');
-
-      const derivedAccount = deriveAccountFromMnemonic(mnemonic, accountIndex);
-      const privateKey = derivedAccount.privateKey;
-      const publicKey = await getPublicKey(privateKey);
-
-      // Sign deployment transaction
-      const sig = await signTx(
-        privateKey,
-        deployer,
-        '0x0000000000000000000000000000000000000000', // Contract deployment uses zero address
-        '0', // No value transfer
-        nonce,
-        timestamp,
-        gasPrice,
-        gasLimit
-      );
-
-      securelyWipeMemory(privateKey);
-      securelyWipeMemory(derivedAccount.publicKey);
-
-      signature = {
-        signature_hex: sig.signature,
-        public_key_hex: sig.publicKey,
-      };
-    }
-
-    const res = await fetch(`${getApiBase()}/contract/deploy`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        deployer,
-        bytecode,
-        constructor_args: constructorArgs,
-        gas_limit: gasLimit,
-        gas_price: gasPrice,
-        timestamp,
-        nonce,
-        signature,
-      }),
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-    }
-
-    return await res.json();
+    const signer = mnemonic
+      ? createAccountSigner(mnemonic, { index: accountIndex, address: deployer })
+      : undefined;
+
+    return await txBuilder.submit<EVMDeployParams, DeployEVMContractResponse>(
+      EVM_DEPLOY,
+      { deployer, bytecode, constructorArgs, gasLimit, gasPrice },
+      signer
+    );
   } catch (error: any) {
     console.error('Failed to deploy EVM contract:', error);
     throw error;
@@ -1313,63 +1965,16 @@ export async function publishMoveModule(
   accountIndex: number = 0
 ): Promise<PublishMoveModuleResponse> {
   try {
-    // Get nonce and timestamp
-    const nonce = await getAccountNonce(sender);
-    const timestamp = Math.floor(Date.now() / 1000);
-
-    let signature = undefined;
-
     // Sign if mnemonic provided
-    if (mnemonic) {
-      const { deriveAccountFromMnemonic, securelyWipeMemory } = await import('./hd-wallet');
-      const { signTransaction: signTx, getPublicKey } = await import('./crypto');
-
-      const derivedAccount = deriveAccountFromMnemonic(mnemonic, accountIndex);
-      const privateKey = derivedAccount.privateKey;
-      const publicKey = await getPublicKey(privateKey);
-
-      // Sign module publication
-      const sig = await signTx(
-        privateKey,
-        sender,
-        '0x0000000000000000000000000000000000000001', // Move module publication
-        '0',
-        nonce,
-        timestamp,
-        1, // Gas price for Move
-        gasLimit
-      );
-
-      securelyWipeMemory(privateKey);
-      securelyWipeMemory(derivedAccount.publicKey);
-
-      signature = {
-        signature_hex: sig.signature,
-        public_key_hex: sig.publicKey,
-      };
-    }
-
-    const res = await fetch(`${getApiBase()}/move/publish`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        sender,
-        bytecode,
-        gas_limit: gasLimit,
-        timestamp,
-        nonce,
-        signature,
-      }),
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(errorData.error || `HTTP error! status: ${res.status}`);
-    }
-
-    return await res.json();
+    const signer = mnemonic
+      ? createAccountSigner(mnemonic, { index: accountIndex, address: sender })
+      : undefined;
+
+    return await txBuilder.submit<MovePublishParams, PublishMoveModuleResponse>(
+      MOVE_PUBLISH,
+      { sender, bytecode, gasLimit },
+      signer
+    );
   } catch (error: any) {
     console.error('Failed to publish Move module:', error);
     throw error;
@@ -0,0 +1,308 @@
+/**
+ * Recurrence Rules
+ * RFC 5545 (RRULE) style schedules for recurring payments:
+ * every N days / weeks / months, chosen weekdays, a fixed day of the month
+ * or its last business day, an end date or occurrence count, in a time zone.
+ *
+ * Occurrences are worked out on the calendar of the rule's time zone, so
+ * "09:00 on the 31st" stays 09:00 across DST changes and falls on the last
+ * day of shorter months instead of drifting into the next one.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+export const MAX_INTERVAL = 365;
+export const MAX_COUNT = 1000;
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N days / weeks / months
+  byWeekday?: Weekday[]; // Weekly: days of the week (default: the start date's)
+  monthDay?: number; // Monthly: 1-31, shorter months use their last day (default: the start date's)
+  lastBusinessDay?: boolean; // Monthly: last Monday-Friday of the month instead of monthDay
+  start: string; // YYYY-MM-DD, first possible occurrence (DTSTART)
+  time: string; // HH:MM wall-clock time in timeZone
+  timeZone: string; // IANA name, e.g. Europe/Copenhagen
+  until?: string; // YYYY-MM-DD, last possible occurrence date (inclusive)
+  count?: number; // Total occurrences, counted from start
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STEPS = 20000; // Safety net for rules that never match
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+function parseDate(value: string): CalendarDate | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  return date.month >= 1 && date.month <= 12 && date.day >= 1 && date.day <= daysInMonth(date.year, date.month)
+    ? date
+    : null;
+}
+
+function formatDate({ year, month, day }: CalendarDate): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Days since 1970-01-01 - plain calendar arithmetic, no time zone involved
+function toDayNumber({ year, month, day }: CalendarDate): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): CalendarDate {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// 0 = Monday ... 6 = Sunday
+function weekdayIndex(dayNumber: number): number {
+  return (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant (ms, local minus UTC)
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a time zone
+ * A time skipped by a DST change moves forward by the size of the gap
+ */
+function zonedTimeToInstant(date: CalendarDate, time: string, timeZone: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hours, minutes);
+
+  // Offsets either side of a possible DST change - a time that happens twice uses the first
+  const before = getTimeZoneOffset(wallClock - DAY_MS, timeZone);
+  const after = getTimeZoneOffset(wallClock + DAY_MS, timeZone);
+  const matches = [before, after]
+    .map((offset) => wallClock - offset)
+    .filter((instant) => getTimeZoneOffset(instant, timeZone) === wallClock - instant);
+  return matches.length > 0 ? Math.min(...matches) : wallClock - before;
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ */
+export function getZonedDate(instant: number, timeZone: string): string {
+  return formatDate(fromDayNumber(Math.floor((instant + getTimeZoneOffset(instant, timeZone)) / DAY_MS)));
+}
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * What's wrong with a rule, or null if it can be scheduled
+ */
+export function validateRule(rule: RecurrenceRule): string | null {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_INTERVAL) {
+    return `Repeat every 1 to ${MAX_INTERVAL}`;
+  }
+  const start = parseDate(rule.start);
+  if (!start) return 'Invalid start date';
+  if (!TIME_PATTERN.test(rule.time)) return 'Invalid time';
+  if (!isValidTimeZone(rule.timeZone)) return 'Unknown time zone';
+
+  if (rule.freq === 'weekly' && rule.byWeekday && rule.byWeekday.length === 0) {
+    return 'Pick at least one weekday';
+  }
+  if (rule.freq === 'monthly' && !rule.lastBusinessDay && rule.monthDay !== undefined
+    && (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31)) {
+    return 'Day of month must be 1-31';
+  }
+
+  if (rule.until !== undefined) {
+    const until = parseDate(rule.until);
+    if (!until) return 'Invalid end date';
+    if (toDayNumber(until) < toDayNumber(start)) return 'End date is before the start date';
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_COUNT)) {
+    return `Number of payments must be 1-${MAX_COUNT}`;
+  }
+  return null;
+}
+
+function lastBusinessDay(year: number, month: number): number {
+  let day = daysInMonth(year, month);
+  while (weekdayIndex(toDayNumber({ year, month, day })) > 4) day--;
+  return day;
+}
+
+/**
+ * Candidate dates of the rule in order, before `until` / `count` are applied
+ */
+function* candidateDates(rule: RecurrenceRule, start: CalendarDate): Generator<number> {
+  const startDay = toDayNumber(start);
+
+  if (rule.freq === 'daily') {
+    for (let step = 0; ; step++) yield startDay + step * rule.interval;
+  } else if (rule.freq === 'weekly') {
+    const days = (rule.byWeekday?.length ? rule.byWeekday : [WEEKDAYS[weekdayIndex(startDay)]])
+      .map((weekday) => WEEKDAYS.indexOf(weekday))
+      .sort((a, b) => a - b);
+    const firstMonday = startDay - weekdayIndex(startDay);
+
+    for (let week = 0; ; week += rule.interval) {
+      for (const offset of days) {
+        const day = firstMonday + week * 7 + offset;
+        if (day >= startDay) yield day;
+      }
+    }
+  } else {
+    for (let months = 0; ; months += rule.interval) {
+      const index = start.year * 12 + (start.month - 1) + months;
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      const day = rule.lastBusinessDay
+        ? lastBusinessDay(year, month)
+        : Math.min(rule.monthDay ?? start.day, daysInMonth(year, month));
+      const dayNumber = toDayNumber({ year, month, day });
+      if (dayNumber >= startDay) yield dayNumber;
+    }
+  }
+}
+
+/**
+ * Occurrences (ms) strictly after `after`, at most `limit` of them
+ * The count limit is applied from the start date, so occurrences that
+ * already passed still use up the rule's count.
+ */
+export function getOccurrences(rule: RecurrenceRule, after: number, limit: number): number[] {
+  const start = parseDate(rule.start);
+  if (!start || limit <= 0 || validateRule(rule)) return [];
+
+  const until = rule.until ? toDayNumber(parseDate(rule.until) as CalendarDate) : Infinity;
+  const occurrences: number[] = [];
+  let seen = 0;
+  let steps = 0;
+
+  for (const dayNumber of candidateDates(rule, start)) {
+    if (dayNumber > until || ++steps > MAX_STEPS) break;
+    if (rule.count !== undefined && seen >= rule.count) break;
+    seen++;
+
+    const instant = zonedTimeToInstant(fromDayNumber(dayNumber), rule.time, rule.timeZone);
+    if (instant > after) {
+      occurrences.push(instant);
+      if (occurrences.length >= limit) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Next occurrence after `after`, or null once the rule has ended
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: number): number | null {
+  return getOccurrences(rule, after, 1)[0] ?? null;
+}
+
+/**
+ * Rule for an instant in the local time zone, repeating like the old daily / weekly / monthly options
+ */
+export function createRule(freq: RecurrenceFrequency, first: number, timeZone: string = getLocalTimeZone()): RecurrenceRule {
+  const offset = getTimeZoneOffset(first, timeZone);
+  const local = new Date(first + offset);
+  const time = `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+  return { freq, interval: 1, start: getZonedDate(first, timeZone), time, timeZone };
+}
+
+/**
+ * RFC 5545 text of a rule (DTSTART + RRULE lines)
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  }
+  if (rule.freq === 'monthly') {
+    if (rule.lastBusinessDay) {
+      parts.push('BYDAY=MO,TU,WE,TH,FR', 'BYSETPOS=-1');
+    } else if (rule.monthDay !== undefined && rule.monthDay > 28) {
+      // Last day up to monthDay - the 31st becomes the 30th / 28th in shorter months
+      parts.push(`BYMONTHDAY=${Array.from({ length: rule.monthDay - 27 }, (_, i) => 28 + i).join(',')}`, 'BYSETPOS=-1');
+    } else if (rule.monthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`);
+    }
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return `DTSTART;TZID=${rule.timeZone}:${rule.start.replace(/-/g, '')}T${rule.time.replace(':', '')}00\nRRULE:${parts.join(';')}`;
+}
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+}
+
+/**
+ * Short description, e.g. "Every 2 weeks on Mon, Thu at 09:00 (Europe/Copenhagen), 10 times"
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    text += ` on ${rule.byWeekday.map((weekday) => WEEKDAY_NAMES[weekday]).join(', ')}`;
+  }
+  if (rule.freq === 'monthly') {
+    text += rule.lastBusinessDay
+      ? ' on the last business day'
+      : ` on the ${ordinal(rule.monthDay ?? parseDate(rule.start)?.day ?? 1)}`;
+  }
+
+  text += ` at ${rule.time} (${rule.timeZone})`;
+  if (rule.until) text += `, until ${rule.until}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  return text;
+}
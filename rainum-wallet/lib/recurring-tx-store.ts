@@ -1,15 +1,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-
-export type RecurringFrequency = 'daily' | 'weekly' | 'monthly';
+import { createRule, getNextOccurrence, validateRule, type RecurrenceRule } from './recurrence-rule';
 
 export interface RecurringTransaction {
   id: string;
   to: string;
   amount: string;
-  frequency: RecurringFrequency;
+  rule: RecurrenceRule;
   label?: string;
-  isActive: boolean;
+  isActive: boolean; // false while paused
+  pausedAt?: number;
+  ended?: boolean; // The rule has no occurrences left (end date / count reached)
   lastExecuted?: number;
   nextExecution: number;
   createdAt: number;
@@ -19,29 +20,20 @@ interface RecurringTxState {
   transactions: RecurringTransaction[];
 
   // Actions
-  addRecurring: (to: string, amount: string, frequency: RecurringFrequency, label?: string) => void;
+  addRecurring: (to: string, amount: string, rule: RecurrenceRule, label?: string) => void;
   toggleActive: (id: string) => void;
   deleteRecurring: (id: string) => void;
   updateLastExecuted: (id: string) => void;
+  skipNextExecution: (id: string) => void;
   getDueTransactions: () => RecurringTransaction[];
 }
 
-const getNextExecutionTime = (frequency: RecurringFrequency, from: number = Date.now()): number => {
-  const date = new Date(from);
-
-  switch (frequency) {
-    case 'daily':
-      date.setDate(date.getDate() + 1);
-      break;
-    case 'weekly':
-      date.setDate(date.getDate() + 7);
-      break;
-    case 'monthly':
-      date.setMonth(date.getMonth() + 1);
-      break;
-  }
-
-  return date.getTime();
+/**
+ * Move a payment to its next occurrence after `after` (or mark it ended)
+ */
+const advance = (tx: RecurringTransaction, after: number): RecurringTransaction => {
+  const next = getNextOccurrence(tx.rule, after);
+  return next === null ? { ...tx, ended: true } : { ...tx, nextExecution: next, ended: false };
 };
 
 export const useRecurringTxStore = create<RecurringTxState>()(
@@ -49,16 +41,26 @@ export const useRecurringTxStore = create<RecurringTxState>()(
     (set, get) => ({
       transactions: [],
 
-      addRecurring: (to: string, amount: string, frequency: RecurringFrequency, label?: string) => {
+      addRecurring: (to: string, amount: string, rule: RecurrenceRule, label?: string) => {
+        const problem = validateRule(rule);
+        if (problem) {
+          throw new Error(problem);
+        }
+
         const now = Date.now();
+        const nextExecution = getNextOccurrence(rule, now);
+        if (nextExecution === null) {
+          throw new Error('The schedule has no upcoming payments');
+        }
+
         const newTx: RecurringTransaction = {
           id: now.toString(),
           to,
           amount,
-          frequency,
+          rule,
           label,
           isActive: true,
-          nextExecution: getNextExecutionTime(frequency, now),
+          nextExecution,
           createdAt: now,
         };
 
@@ -67,13 +69,17 @@ export const useRecurringTxStore = create<RecurringTxState>()(
         }));
       },
 
+      // Resuming keeps the rule and continues with the first occurrence from now on -
+      // payments that fell due while paused are not made up
       toggleActive: (id: string) => {
+        const now = Date.now();
         set((state) => ({
-          transactions: state.transactions.map((tx) =>
-            tx.id === id
-              ? { ...tx, isActive: !tx.isActive }
-              : tx
-          ),
+          transactions: state.transactions.map((tx) => {
+            if (tx.id !== id) return tx;
+            return tx.isActive
+              ? { ...tx, isActive: false, pausedAt: now }
+              : { ...advance(tx, now), isActive: true, pausedAt: undefined };
+          }),
         }));
       },
 
@@ -88,26 +94,43 @@ export const useRecurringTxStore = create<RecurringTxState>()(
         set((state) => ({
           transactions: state.transactions.map((tx) =>
             tx.id === id
-              ? {
-                  ...tx,
-                  lastExecuted: now,
-                  nextExecution: getNextExecutionTime(tx.frequency, now),
-                }
+              ? { ...advance(tx, Math.max(now, tx.nextExecution)), lastExecuted: now }
               : tx
           ),
         }));
       },
 
+      // Move past an occurrence that was not paid (failed or skipped)
+      skipNextExecution: (id: string) => {
+        set((state) => ({
+          transactions: state.transactions.map((tx) =>
+            tx.id === id ? advance(tx, tx.nextExecution) : tx
+          ),
+        }));
+      },
+
       getDueTransactions: () => {
         const { transactions } = get();
         const now = Date.now();
         return transactions.filter(
-          (tx) => tx.isActive && tx.nextExecution <= now
+          (tx) => tx.isActive && !tx.ended && tx.nextExecution <= now
         );
       },
     }),
     {
       name: 'rainum-recurring-transactions',
+      version: 1,
+      // v0 stored a plain daily / weekly / monthly frequency
+      migrate: (persisted, version) => {
+        const state = persisted as { transactions?: (RecurringTransaction & { frequency?: 'daily' | 'weekly' | 'monthly' })[] };
+        if (version === 0 && state.transactions) {
+          state.transactions = state.transactions.map(({ frequency, ...tx }) => ({
+            ...tx,
+            rule: tx.rule ?? createRule(frequency ?? 'monthly', tx.nextExecution),
+          }));
+        }
+        return state as RecurringTxState;
+      },
     }
   )
 );
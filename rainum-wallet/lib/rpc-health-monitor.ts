@@ -0,0 +1,85 @@
+/**
+ * RPC Health Monitor
+ * Periodically checks every RPC endpoint of the selected network (latency + block height)
+ * and feeds the results to the network store, which picks the endpoint requests go to.
+ *
+ * - One shared interval no matter how many components start the monitor
+ * - Re-checks immediately after a network switch (or as soon as the running round is done)
+ * - Skips ticks while the tab is hidden
+ */
+
+import { useNetworkStore, checkEndpointHealth, type Network } from './network-store';
+
+export const DEFAULT_MONITOR_INTERVAL = 15000;
+
+let subscribers = 0;
+let intervalId: ReturnType<typeof setInterval> | null = null;
+let inFlight: Promise<void> | null = null;
+let recheckQueued = false; // Network switched while a round was running
+
+/**
+ * Check all endpoints of a network once (defaults to the selected network)
+ */
+export async function refreshNetworkEndpoints(network?: Network): Promise<void> {
+  const store = useNetworkStore.getState();
+  const target = network ?? store.currentNetwork;
+  const endpoints = store.getNetworkEndpoints(target);
+
+  const results = await Promise.all(endpoints.map((url) => checkEndpointHealth(url)));
+  useNetworkStore.getState().updateEndpointHealth(target.id, results);
+}
+
+function tick(): void {
+  if (typeof document !== 'undefined' && document.hidden) return;
+  if (inFlight) return; // Previous round still waiting on slow endpoints
+
+  inFlight = refreshNetworkEndpoints()
+    .catch((error) => console.error('RPC health check failed:', error))
+    .finally(() => {
+      inFlight = null;
+      // The round that just ended may have checked the previous network
+      if (recheckQueued && subscribers > 0) {
+        recheckQueued = false;
+        tick();
+      }
+    });
+}
+
+function handleNetworkChanged(): void {
+  if (inFlight) {
+    recheckQueued = true;
+    return;
+  }
+  tick();
+}
+
+/**
+ * Start the background monitor
+ * @returns Function that stops it again (the interval is cleared when the last subscriber stops)
+ */
+export function startRpcHealthMonitor(intervalMs: number = DEFAULT_MONITOR_INTERVAL): () => void {
+  if (typeof window === 'undefined') {
+    return () => {};
+  }
+
+  subscribers++;
+  if (subscribers === 1) {
+    tick();
+    intervalId = setInterval(tick, intervalMs);
+    window.addEventListener('rainum:network-changed', handleNetworkChanged);
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+
+    subscribers--;
+    if (subscribers === 0 && intervalId) {
+      clearInterval(intervalId);
+      intervalId = null;
+      recheckQueued = false;
+      window.removeEventListener('rainum:network-changed', handleNetworkChanged);
+    }
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Spending Keys
+ * Account keys delegated to the payment scheduler under a spending cap.
+ *
+ * The private key is encrypted with an AES-GCM key generated as
+ * non-extractable, and both live in IndexedDB. Script running in this origin
+ * can still ask the browser to decrypt, so the scheduler only does that for a
+ * payment its cap and expiry allow, and the key is wiped right after signing.
+ * A copied database or storage dump is useless without this browser profile.
+ *
+ * 🔒 SECURITY: Delegations are revoked on logout and when they expire.
+ */
+
+import { deriveAddressFromPublicKey } from './crypto';
+import { securelyWipeMemory } from './hd-wallet';
+
+const DB_NAME = 'rainum-spending-keys';
+const DB_VERSION = 1;
+const KEY_STORE = 'keys';
+
+interface StoredSpendingKey {
+  id: string; // Scheduler job ID
+  address: string;
+  wrappingKey: CryptoKey; // Non-extractable AES-GCM key
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+  createdAt: number; // ms
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and create on first use) the key database
+ * @returns null if IndexedDB or WebCrypto isn't available
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(KEY_STORE)) {
+          db.createObjectStore(KEY_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Spending key storage unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Encrypt and store an account key for a scheduler job
+ * The caller keeps ownership of `privateKey` (and wipes it)
+ */
+export async function storeSpendingKey(id: string, address: string, privateKey: Uint8Array): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    throw new Error('Spending caps need IndexedDB and WebCrypto, which this browser does not provide');
+  }
+
+  const wrappingKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  // WebCrypto wants a copy backed by its own ArrayBuffer - wiped as soon as it's encrypted
+  const plaintext = new Uint8Array(privateKey);
+  let ciphertext: ArrayBuffer;
+  try {
+    ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, plaintext);
+  } finally {
+    securelyWipeMemory(plaintext);
+  }
+
+  const record: StoredSpendingKey = { id, address: address.toLowerCase(), wrappingKey, iv, ciphertext, createdAt: Date.now() };
+  await requestToPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(record));
+}
+
+/**
+ * Decrypt a job's key for one use, check it still belongs to the account, wipe it
+ * @throws Error if the delegation was revoked or the key doesn't match
+ */
+export async function withSpendingKey<T>(
+  id: string,
+  address: string,
+  fn: (privateKey: Uint8Array) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const record = db
+    ? await requestToPromise<StoredSpendingKey | undefined>(db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(id))
+    : undefined;
+
+  if (!record || record.address !== address.toLowerCase()) {
+    throw new Error('Spending authorization was revoked');
+  }
+
+  const privateKey = new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, record.wrappingKey, record.ciphertext)
+  );
+
+  // 🔒 CRITICAL SECURITY: Use try-finally to ensure key is ALWAYS wiped
+  try {
+    if (deriveAddressFromPublicKey(privateKey.slice(32)).toLowerCase() !== record.address) {
+      throw new Error('Delegated key does not match the paying account');
+    }
+    return await fn(privateKey);
+  } finally {
+    securelyWipeMemory(privateKey);
+  }
+}
+
+export async function deleteSpendingKey(id: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  await requestToPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).delete(id));
+}
+
+/**
+ * Revoke every delegation (logout, wallet reset)
+ */
+export async function clearSpendingKeys(): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+  await requestToPromise(db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).clear());
+}
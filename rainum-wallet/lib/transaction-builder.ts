@@ -0,0 +1,388 @@
+/**
+ * Transaction Builder & Signer
+ * Single path for every write call: build a canonical unsigned payload,
+ * sign it with the key of a wallet account, hand it to a transport
+ *
+ * 🔒 SECURITY: Key material only ever lives inside a Signer. Payload
+ * definitions describe WHAT is signed and WHERE it is sent, never HOW.
+ */
+
+import type { WalletAccount } from './wallet-store';
+import type { SigningDomain } from './crypto';
+import type { VMType } from './rainum-api';
+
+/**
+ * Ed25519 signature attached to a write request (backend wire format)
+ */
+export interface TransactionSignature {
+  signature_hex: string;
+  public_key_hex: string;
+}
+
+/**
+ * Which canonical message the signer produces
+ * - transaction: createTransactionMessageV2() in crypto.ts (chain ID, VM type, from, to, amount, gas),
+ *   or createTransactionMessage() when the transaction's domain is 'legacy'
+ * - staking: createStakingMessage() in crypto.ts (chain ID, action, validator, amount, payload hash)
+ * Both commit to the chain ID unless the domain is 'legacy'
+ */
+export type SigningScheme = 'transaction' | 'staking';
+
+/**
+ * Fields covered by the transaction signature
+ * For the staking scheme `to` is the validator and gas fields are unused (0)
+ */
+export interface SigningFields {
+  to: string;
+  amount: string; // Whole RAIN (u64 on chain)
+  gasPrice: number;
+  gasLimit: number;
+  payloadHash?: string; // Staking scheme: hash of the action's other fields (hashStakingPayload() in crypto.ts)
+}
+
+/**
+ * Canonical unsigned transaction produced by the builder
+ */
+export interface UnsignedTransaction<P = unknown> extends SigningFields {
+  kind: string;
+  scheme: SigningScheme;
+  domain: SigningDomain; // Chain (+ VM for the transaction scheme) the signature commits to
+  from: string;
+  nonce: number;
+  timestamp: number; // Unix seconds
+  params: P;
+}
+
+export interface SignedTransaction<P = unknown> extends UnsignedTransaction<P> {
+  signature: TransactionSignature;
+}
+
+/**
+ * Describes one transaction kind
+ * A new kind only needs one of these - it never touches key material
+ */
+export interface PayloadDefinition<P> {
+  kind: string; // Also the signed action tag for the staking scheme
+  scheme?: SigningScheme; // Default: 'transaction'
+  vmType?: (params: P) => VMType; // Default: 'evm'
+  endpoint: string | ((params: P) => string);
+  sender: (params: P) => string;
+  signingFields: (params: P) => SigningFields;
+  requestBody: (tx: UnsignedTransaction<P> & { signature?: TransactionSignature }) => Record<string, unknown>;
+}
+
+/**
+ * Signs canonical transactions (and domain-separated wallet data) for one account
+ */
+export interface Signer {
+  address: string;
+  sign: (tx: UnsignedTransaction) => Promise<TransactionSignature>;
+  signData: (purpose: string, data: Uint8Array) => Promise<TransactionSignature>; // See signData() in crypto.ts
+}
+
+/**
+ * Delivers a request body to the blockchain backend
+ */
+export interface Transport {
+  post: <T = unknown>(path: string, body?: unknown) => Promise<T>;
+}
+
+/**
+ * Hands a callback the raw key of a wallet account, then wipes it
+ */
+export type KeyProvider = <T>(fn: (privateKey: Uint8Array) => Promise<T>) => Promise<T>;
+
+/**
+ * Resolve a wallet account's private key for one use
+ * HD accounts derive their key from the mnemonic, imported accounts use their
+ * decrypted key from the wallet store. The key is checked against the account
+ * address and wiped as soon as `fn` settles.
+ */
+export async function withAccountPrivateKey<T>(
+  mnemonic: string,
+  account: Pick<WalletAccount, 'index' | 'address'>,
+  fn: (privateKey: Uint8Array) => Promise<T>
+): Promise<T> {
+  const { deriveAccountFromMnemonic, securelyWipeMemory } = await import('./hd-wallet');
+  const { deriveAddressFromPublicKey } = await import('./crypto');
+  const { useWalletStore, isImportedAccount, isWatchOnlyAccount } = await import('./wallet-store');
+
+  const walletState = useWalletStore.getState();
+  const storedAccount = walletState.accounts.find((a) => a.index === account.index);
+
+  if (isWatchOnlyAccount(storedAccount)) {
+    throw new Error('Watch-only accounts cannot sign transactions');
+  }
+
+  let privateKey: Uint8Array;
+  if (isImportedAccount(storedAccount)) {
+    const importedKey = walletState.getPrivateKey(account.index);
+    if (!importedKey) {
+      throw new Error('WALLET_LOCKED');
+    }
+    privateKey = importedKey;
+  } else {
+    // The in-memory BIP39 passphrase selects which (hidden) wallet the mnemonic opens
+    const derivedAccount = deriveAccountFromMnemonic(
+      mnemonic,
+      account.index,
+      walletState.passphrase || '',
+      walletState.derivationScheme
+    );
+    securelyWipeMemory(derivedAccount.publicKey);
+    privateKey = derivedAccount.privateKey;
+  }
+
+  // 🔒 CRITICAL SECURITY: Use try-finally to ensure key is ALWAYS wiped
+  try {
+    // Case-insensitive comparison (addresses are case-insensitive)
+    const signerAddress = deriveAddressFromPublicKey(privateKey.slice(32));
+    if (signerAddress.toLowerCase() !== account.address.toLowerCase()) {
+      throw new Error('Derived address does not match the signing account');
+    }
+
+    return await fn(privateKey);
+  } finally {
+    securelyWipeMemory(privateKey);
+  }
+}
+
+/**
+ * Signer for a wallet account (HD-derived from the mnemonic, or imported)
+ */
+export function createAccountSigner(
+  mnemonic: string,
+  account: Pick<WalletAccount, 'index' | 'address'>
+): Signer {
+  return createKeySigner(account.address, (fn) => withAccountPrivateKey(mnemonic, account, fn));
+}
+
+/**
+ * Signer around a key provider
+ * The provider hands the raw key to the callback and wipes it afterwards.
+ */
+export function createKeySigner(address: string, withKey: KeyProvider): Signer {
+  return {
+    address,
+    sign: async (tx: UnsignedTransaction) => {
+      if (tx.from.toLowerCase() !== address.toLowerCase()) {
+        throw new Error('Derived address does not match transaction "from" address');
+      }
+
+      const { signTransaction, signStakingAction } = await import('./crypto');
+
+      return withKey(async (privateKey) => {
+        const sig = tx.scheme === 'staking'
+          ? await signStakingAction(
+              privateKey,
+              tx.kind,
+              tx.to,
+              parseFloat(tx.amount),
+              tx.nonce,
+              tx.timestamp,
+              tx.domain,
+              tx.payloadHash
+            )
+          : await signTransaction(
+              privateKey,
+              tx.from,
+              tx.to,
+              tx.amount,
+              tx.nonce,
+              tx.timestamp,
+              tx.gasPrice,
+              tx.gasLimit,
+              tx.domain
+            );
+
+        return {
+          signature_hex: sig.signature,
+          public_key_hex: sig.publicKey,
+        };
+      });
+    },
+    signData: async (purpose: string, data: Uint8Array) => {
+      const { signData } = await import('./crypto');
+
+      return withKey(async (privateKey) => {
+        const sig = await signData(privateKey, purpose, data);
+        return {
+          signature_hex: sig.signature,
+          public_key_hex: sig.publicKey,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Create an HTTP transport for the Rainum REST API
+ * @param request - Fetches a path on the node; resolved per request so network switching and failover keep working
+ */
+export function createHttpTransport(request: (path: string, init: RequestInit) => Promise<Response>): Transport {
+  return {
+    post: async <T = unknown>(path: string, body?: unknown): Promise<T> => {
+      const res = await request(path, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      // Read as text first - backend sometimes answers errors in plain text
+      const text = await res.text();
+      let data: { message?: string; error?: string } | null = null;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        data = null;
+      }
+
+      if (!res.ok) {
+        throw new Error(data?.message || data?.error || text || `HTTP error! status: ${res.status}`);
+      }
+
+      if (data === null) {
+        throw new Error(text || 'Invalid response from server');
+      }
+
+      return data as unknown as T;
+    },
+  };
+}
+
+/**
+ * A nonce held for one submission (see nonce-manager.ts)
+ */
+export interface NonceReservation {
+  nonce: number;
+  commit: (kind?: string) => void; // The node accepted the transaction
+  release: () => void; // It never reached the node - the nonce can be reused
+}
+
+/**
+ * Builds, signs and submits transactions
+ */
+export class TransactionBuilder {
+  constructor(
+    private readonly options: {
+      transport: Transport;
+      getNonce: (address: string) => Promise<number>; // Next free nonce, not reserved (build() on its own)
+      reserveNonce: (address: string, nonce?: number) => Promise<NonceReservation>; // Held for a whole submit()
+      getSigningDomain: (vmType: VMType) => SigningDomain; // From the selected network + settings
+      getNodeChainId: () => Promise<string | null>; // Chain ID reported by the connected node
+      verifyNodeIdentity: () => Promise<void>; // Throws if the node no longer matches the network's pinned identity
+      onBroadcast?: (tx: UnsignedTransaction, response: unknown) => void; // Called once the node accepted a payload
+    }
+  ) {}
+
+  get transport(): Transport {
+    return this.options.transport;
+  }
+
+  /**
+   * Produce the canonical unsigned payload (fetches nonce, stamps time)
+   */
+  async build<P>(definition: PayloadDefinition<P>, params: P, nonce?: number): Promise<UnsignedTransaction<P>> {
+    const from = definition.sender(params);
+    nonce ??= await this.options.getNonce(from);
+    const scheme = definition.scheme || 'transaction';
+
+    return {
+      kind: definition.kind,
+      scheme,
+      domain: this.options.getSigningDomain(definition.vmType?.(params) || 'evm'),
+      from,
+      ...definition.signingFields(params),
+      nonce,
+      timestamp: Math.floor(Date.now() / 1000),
+      params,
+    };
+  }
+
+  /**
+   * Refuse to continue unless the connected node is on the given chain
+   * Nodes that don't report a chain ID can't be checked and are accepted
+   */
+  async verifyChain(chainId: string): Promise<void> {
+    const nodeChainId = await this.options.getNodeChainId();
+    if (nodeChainId !== null && nodeChainId !== chainId) {
+      throw new Error(
+        `Chain ID mismatch: the node reports chain ${nodeChainId}, but the selected network is chain ${chainId}`
+      );
+    }
+  }
+
+  /**
+   * Sign an unsigned payload with the given account signer
+   * 🔒 Nothing is signed against a node whose identity changed, and domain-separated
+   * payloads are only signed if the node is on the chain they commit to
+   */
+  async sign<P>(tx: UnsignedTransaction<P>, signer: Signer): Promise<SignedTransaction<P>> {
+    if (signer.address.toLowerCase() !== tx.from.toLowerCase()) {
+      throw new Error('Signer does not match transaction "from" address');
+    }
+
+    await this.options.verifyNodeIdentity();
+
+    if (tx.domain.format === 'v2') {
+      await this.verifyChain(tx.domain.chainId);
+    }
+
+    const signature = await signer.sign(tx);
+    return { ...tx, signature };
+  }
+
+  /**
+   * Hand a (signed) payload to the transport
+   */
+  async send<P, R>(
+    definition: PayloadDefinition<P>,
+    tx: UnsignedTransaction<P> & { signature?: TransactionSignature }
+  ): Promise<R> {
+    const endpoint = typeof definition.endpoint === 'function'
+      ? definition.endpoint(tx.params)
+      : definition.endpoint;
+
+    // Tell the node which message layout the signature covers
+    const domainFields = tx.domain.format === 'v2'
+      ? { signature_version: 2, chain_id: tx.domain.chainId }
+      : { signature_version: 1 };
+
+    const response = await this.options.transport.post<R>(endpoint, { ...definition.requestBody(tx), ...domainFields });
+    this.options.onBroadcast?.(tx, response);
+    return response;
+  }
+
+  /**
+   * Build, sign (when a signer is given) and send in one step
+   * The nonce is reserved for the whole submission - pass `nonce` to replace
+   * a transaction that is already waiting with that nonce
+   */
+  async submit<P, R>(
+    definition: PayloadDefinition<P>,
+    params: P,
+    signer?: Signer,
+    options: { nonce?: number } = {}
+  ): Promise<R> {
+    const reservation = await this.options.reserveNonce(definition.sender(params), options.nonce);
+
+    try {
+      const unsigned = await this.build(definition, params, reservation.nonce);
+      const tx = signer ? await this.sign(unsigned, signer) : unsigned;
+      const response = await this.send<P, R>(definition, tx);
+
+      // Rejected responses don't throw - the nonce was not used either way
+      if ((response as { success?: boolean } | null)?.success === false) {
+        reservation.release();
+      } else {
+        reservation.commit(definition.kind);
+      }
+      return response;
+    } catch (error) {
+      reservation.release();
+      throw error;
+    }
+  }
+}
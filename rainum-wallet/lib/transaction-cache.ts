@@ -0,0 +1,302 @@
+/**
+ * Transaction History Cache
+ * Keeps every account's transaction history in IndexedDB, keyed by network + address,
+ * so history shows instantly and stays available while the node is unreachable.
+ *
+ * - Incremental sync: only transactions at or after the sync cursor are requested
+ *   (highest seen timestamp/block, moved back to the oldest still-pending transaction)
+ * - Live updates: new_transaction WebSocket events are written straight into the cache
+ * - Without IndexedDB (SSR, some private modes) every call falls back to the network
+ */
+
+import { useNetworkStore } from './network-store';
+import type { TransactionCursor } from './rainum-api';
+
+const DB_NAME = 'rainum-wallet';
+const DB_VERSION = 1;
+const TX_STORE = 'transactions';
+const SYNC_STORE = 'transaction_sync';
+
+// Re-request a little history before the cursor so transactions stamped in the same second aren't missed
+const CURSOR_OVERLAP_SECONDS = 60;
+
+/**
+ * Transaction as returned by the node (plus direction); only the fields the cache relies on are typed
+ */
+export interface CachedTransaction {
+  hash: string;
+  timestamp?: number;
+  block_id?: number;
+  status?: string;
+  direction?: 'incoming' | 'outgoing';
+  [field: string]: unknown;
+}
+
+interface StoredTransaction {
+  account: string; // `${networkId}:${address}`
+  hash: string;
+  timestamp: number;
+  tx: CachedTransaction;
+}
+
+export interface SyncState {
+  account: string;
+  highestTimestamp: number | null;
+  highestBlock: number | null;
+  lastSyncedAt: number | null;
+}
+
+export interface HistorySyncResult {
+  transactions: CachedTransaction[]; // Full cached history after the sync, newest first
+  updated: number; // Transactions added or changed by this sync
+  offline: boolean; // The node couldn't be reached - transactions come from the cache only
+  lastSyncedAt: number | null;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function accountKey(networkId: string, address: string): string {
+  return `${networkId}:${address.toLowerCase()}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Open (and create on first use) the cache database
+ * @returns null if IndexedDB isn't available
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TX_STORE)) {
+          const store = db.createObjectStore(TX_STORE, { keyPath: ['account', 'hash'] });
+          store.createIndex('account', 'account');
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE, { keyPath: 'account' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Transaction cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+function sortNewestFirst(transactions: CachedTransaction[]): CachedTransaction[] {
+  return transactions.sort((a, b) => (b.timestamp || 0) - (a.timestamp || 0));
+}
+
+function isPending(tx: CachedTransaction): boolean {
+  return typeof tx.status === 'string' && tx.status.toLowerCase() === 'pending';
+}
+
+/**
+ * Cached history of an account, newest first (empty if nothing is cached)
+ */
+export async function getCachedTransactions(
+  address: string,
+  networkId: string = useNetworkStore.getState().currentNetwork.id
+): Promise<CachedTransaction[]> {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const tx = db.transaction(TX_STORE, 'readonly');
+    const records = await requestToPromise<StoredTransaction[]>(
+      tx.objectStore(TX_STORE).index('account').getAll(accountKey(networkId, address))
+    );
+    return sortNewestFirst(records.map((record) => record.tx));
+  } catch (error) {
+    console.error('Failed to read transaction cache:', error);
+    return [];
+  }
+}
+
+async function getSyncState(db: IDBDatabase, account: string): Promise<SyncState> {
+  const tx = db.transaction(SYNC_STORE, 'readonly');
+  const state = await requestToPromise<SyncState | undefined>(tx.objectStore(SYNC_STORE).get(account));
+  return state ?? { account, highestTimestamp: null, highestBlock: null, lastSyncedAt: null };
+}
+
+/**
+ * Write transactions into the cache (existing entries are updated, e.g. pending -> confirmed)
+ * @param markSynced - The transactions are a sync result: advance the sync cursor
+ * @returns How many entries were added or changed
+ */
+export async function cacheTransactions(
+  address: string,
+  transactions: CachedTransaction[],
+  networkId: string = useNetworkStore.getState().currentNetwork.id,
+  markSynced: boolean = false
+): Promise<number> {
+  const db = await openDatabase();
+  if (!db) return 0;
+
+  const account = accountKey(networkId, address);
+  const state = await getSyncState(db, account);
+
+  const tx = db.transaction([TX_STORE, SYNC_STORE], 'readwrite');
+  const store = tx.objectStore(TX_STORE);
+  let updated = 0;
+  let highestTimestamp = state.highestTimestamp;
+  let highestBlock = state.highestBlock;
+
+  // One read for the whole account keeps large histories fast
+  const existingRecords = await requestToPromise<StoredTransaction[]>(store.index('account').getAll(account));
+  const existingByHash = new Map(existingRecords.map((record) => [record.hash, record]));
+
+  for (const transaction of transactions) {
+    if (!transaction?.hash) continue;
+
+    const existing = existingByHash.get(transaction.hash);
+    const merged = existing ? { ...existing.tx, ...transaction } : transaction;
+    if (!existing || JSON.stringify(existing.tx) !== JSON.stringify(merged)) {
+      store.put({ account, hash: transaction.hash, timestamp: merged.timestamp || 0, tx: merged } satisfies StoredTransaction);
+      updated++;
+    }
+
+    // Only a sync moves the cursor - a live event doesn't prove nothing was missed before it
+    if (!markSynced) continue;
+    if (typeof merged.timestamp === 'number') {
+      highestTimestamp = Math.max(highestTimestamp ?? 0, merged.timestamp);
+    }
+    if (typeof merged.block_id === 'number') {
+      highestBlock = Math.max(highestBlock ?? 0, merged.block_id);
+    }
+  }
+
+  tx.objectStore(SYNC_STORE).put({
+    account,
+    highestTimestamp,
+    highestBlock,
+    lastSyncedAt: markSynced ? Date.now() : state.lastSyncedAt,
+  } satisfies SyncState);
+
+  await transactionDone(tx);
+  return updated;
+}
+
+/**
+ * Where the next incremental sync starts: the highest seen timestamp/block, moved back
+ * to the oldest pending transaction so its confirmation is picked up
+ */
+function getSyncCursor(state: SyncState, cached: CachedTransaction[]): TransactionCursor | undefined {
+  if (state.lastSyncedAt === null || state.highestTimestamp === null) {
+    return undefined; // Never fully synced - fetch everything
+  }
+
+  const pending = cached.filter(isPending).map((tx) => tx.timestamp || 0);
+  const timestamp = Math.min(state.highestTimestamp, ...pending);
+
+  return {
+    timestamp: Math.max(0, timestamp - CURSOR_OVERLAP_SECONDS),
+    block: pending.length === 0 && state.highestBlock !== null ? state.highestBlock : undefined,
+  };
+}
+
+/**
+ * Bring an account's cached history up to date with the node
+ * If the node can't be reached the cached history is returned with offline = true.
+ */
+export async function syncTransactionHistory(address: string): Promise<HistorySyncResult> {
+  const networkId = useNetworkStore.getState().currentNetwork.id;
+  const { fetchTransactionHistory } = await import('./rainum-api');
+  const db = await openDatabase();
+
+  // No cache available - behave like a plain fetch
+  if (!db) {
+    try {
+      const transactions = await fetchTransactionHistory(address);
+      return { transactions, updated: transactions.length, offline: false, lastSyncedAt: Date.now() };
+    } catch (error) {
+      console.error('Failed to sync transactions:', error);
+      return { transactions: [], updated: 0, offline: true, lastSyncedAt: null };
+    }
+  }
+
+  const account = accountKey(networkId, address);
+  const [state, cached] = await Promise.all([getSyncState(db, account), getCachedTransactions(address, networkId)]);
+
+  let fetched: CachedTransaction[];
+  try {
+    fetched = await fetchTransactionHistory(address, getSyncCursor(state, cached));
+  } catch (error) {
+    console.warn('Node unreachable, serving cached transaction history:', error);
+    return { transactions: cached, updated: 0, offline: true, lastSyncedAt: state.lastSyncedAt };
+  }
+
+  // The user may have switched networks while the request was running
+  if (useNetworkStore.getState().currentNetwork.id !== networkId) {
+    return { transactions: cached, updated: 0, offline: false, lastSyncedAt: state.lastSyncedAt };
+  }
+
+  const updated = await cacheTransactions(address, fetched, networkId, true);
+  return {
+    transactions: updated > 0 ? await getCachedTransactions(address, networkId) : cached,
+    updated,
+    offline: false,
+    lastSyncedAt: Date.now(),
+  };
+}
+
+/**
+ * Store a transaction pushed by the node (new_transaction WebSocket event)
+ */
+export async function cacheLiveTransaction(
+  address: string,
+  transaction: CachedTransaction,
+  direction: 'incoming' | 'outgoing'
+): Promise<void> {
+  try {
+    await cacheTransactions(address, [{ ...transaction, direction }]);
+  } catch (error) {
+    console.error('Failed to cache live transaction:', error);
+  }
+}
+
+/**
+ * Drop cached history (all of it, or one account on one network)
+ */
+export async function clearTransactionCache(address?: string, networkId?: string): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  const tx = db.transaction([TX_STORE, SYNC_STORE], 'readwrite');
+  if (address && networkId) {
+    const account = accountKey(networkId, address);
+    const keys = await requestToPromise(tx.objectStore(TX_STORE).index('account').getAllKeys(account));
+    keys.forEach((key) => tx.objectStore(TX_STORE).delete(key));
+    tx.objectStore(SYNC_STORE).delete(account);
+  } else {
+    tx.objectStore(TX_STORE).clear();
+    tx.objectStore(SYNC_STORE).clear();
+  }
+  await transactionDone(tx);
+}
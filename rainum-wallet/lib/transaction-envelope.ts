@@ -0,0 +1,292 @@
+/**
+ * Offline Transaction Envelopes
+ * Air-gapped signing: the online wallet exports an unsigned transfer,
+ * an offline machine signs it, the online wallet broadcasts the result.
+ *
+ * Envelopes travel as a JSON file or as an animated QR sequence
+ * (one frame per chunk, reassembled in any order on the scanning side).
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, deriveAddressFromPublicKey, hexToBytes } from './crypto';
+import { createAccountSigner, type TransactionSignature } from './transaction-builder';
+import type { VMType } from './rainum-api';
+import type { SigningDomain } from './crypto';
+
+export const UNSIGNED_ENVELOPE_TYPE = 'rainum-unsigned-tx';
+export const SIGNED_ENVELOPE_TYPE = 'rainum-signed-tx';
+export const ENVELOPE_VERSION = 2; // v2 adds signing_format (v1 envelopes are always signed in the legacy format)
+
+// QR frame format: RNTX:<envelope id>:<index>/<total>:<chunk>
+const FRAME_PREFIX = 'RNTX';
+const DEFAULT_FRAME_SIZE = 200; // Characters per frame - keeps QR density scannable
+const MAX_ENVELOPE_LENGTH = 8192; // Characters - a transfer envelope is well under 2 KB
+const MAX_FRAMES = Math.ceil(MAX_ENVELOPE_LENGTH / DEFAULT_FRAME_SIZE);
+
+/**
+ * Unsigned transfer exactly as it will be signed
+ */
+export interface UnsignedEnvelope {
+  type: typeof UNSIGNED_ENVELOPE_TYPE;
+  version: number;
+  chain_id: string | null;
+  network: string; // Informational only
+  vm_type: VMType;
+  signing_format: SigningDomain['format']; // 'v2' signatures commit to chain_id + vm_type
+  from: string;
+  to: string;
+  amount: string; // Whole RAIN
+  nonce: number;
+  gas_price: number;
+  gas_limit: number;
+  timestamp: number; // Unix seconds
+  priority: string;
+  zkp_enabled: boolean;
+  privacy_level: string;
+}
+
+export interface SignedEnvelope extends Omit<UnsignedEnvelope, 'type'> {
+  type: typeof SIGNED_ENVELOPE_TYPE;
+  signature: TransactionSignature;
+}
+
+export type TransactionEnvelope = UnsignedEnvelope | SignedEnvelope;
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const HEX_PATTERN = /^[a-fA-F0-9]+$/;
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Parse and validate an envelope (unsigned or signed) from JSON text
+ * @throws Error describing the first invalid field
+ */
+export function parseEnvelope(json: string): TransactionEnvelope {
+  if (json.length > MAX_ENVELOPE_LENGTH) {
+    throw new Error('Envelope is too large');
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Envelope is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new Error('Envelope is not valid JSON');
+  }
+
+  if (data.type !== UNSIGNED_ENVELOPE_TYPE && data.type !== SIGNED_ENVELOPE_TYPE) {
+    throw new Error('Not a Rainum transaction envelope');
+  }
+
+  if (data.version !== 1 && data.version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${data.version}`);
+  }
+
+  // v1 envelopes predate domain separation
+  if (data.version === 1) {
+    data.signing_format = 'legacy';
+  }
+
+  if (typeof data.from !== 'string' || !ADDRESS_PATTERN.test(data.from)) {
+    throw new Error('Envelope has an invalid sender address');
+  }
+
+  if (typeof data.to !== 'string' || !ADDRESS_PATTERN.test(data.to)) {
+    throw new Error('Envelope has an invalid recipient address');
+  }
+
+  if (typeof data.amount !== 'string' || !/^[1-9][0-9]*$/.test(data.amount)) {
+    throw new Error('Envelope amount must be a positive whole number of RAIN');
+  }
+
+  for (const field of ['nonce', 'gas_price', 'gas_limit', 'timestamp'] as const) {
+    if (!isNonNegativeInteger(data[field])) {
+      throw new Error(`Envelope field "${field}" must be a non-negative integer`);
+    }
+  }
+
+  if (data.vm_type !== 'evm' && data.vm_type !== 'move') {
+    throw new Error('Envelope has an invalid VM type');
+  }
+
+  if (data.chain_id !== null && typeof data.chain_id !== 'string') {
+    throw new Error('Envelope has an invalid chain ID');
+  }
+
+  if (data.signing_format !== 'v2' && data.signing_format !== 'legacy') {
+    throw new Error('Envelope has an invalid signing format');
+  }
+
+  if (data.signing_format === 'v2' && (typeof data.chain_id !== 'string' || !/^[0-9]+$/.test(data.chain_id))) {
+    throw new Error('Envelope must name the chain it is signed for');
+  }
+
+  if (data.type === SIGNED_ENVELOPE_TYPE) {
+    const signature = data.signature as Partial<TransactionSignature> | undefined;
+    if (
+      !signature ||
+      typeof signature.signature_hex !== 'string' ||
+      typeof signature.public_key_hex !== 'string' ||
+      signature.signature_hex.length !== 128 ||
+      signature.public_key_hex.length !== 64 ||
+      !HEX_PATTERN.test(signature.signature_hex) ||
+      !HEX_PATTERN.test(signature.public_key_hex)
+    ) {
+      throw new Error('Envelope has an invalid signature');
+    }
+
+    // The signing key must belong to the sender
+    const signerAddress = deriveAddressFromPublicKey(hexToBytes(signature.public_key_hex));
+    if (signerAddress.toLowerCase() !== data.from.toLowerCase()) {
+      throw new Error('Envelope was not signed by the sender address');
+    }
+  }
+
+  return data as unknown as TransactionEnvelope;
+}
+
+/**
+ * Signing domain an envelope commits to
+ */
+export function getEnvelopeSigningDomain(envelope: TransactionEnvelope): SigningDomain {
+  return envelope.signing_format === 'v2' && envelope.chain_id
+    ? { format: 'v2', chainId: envelope.chain_id, vmType: envelope.vm_type }
+    : { format: 'legacy' };
+}
+
+/**
+ * Sign an unsigned envelope on the offline machine
+ * Uses the same account signer (signTransaction) as online transfers
+ * The offline machine can't ask a node for its chain ID - the online wallet checks it before broadcasting
+ */
+export async function signEnvelope(
+  envelope: UnsignedEnvelope,
+  mnemonic: string,
+  accountIndex: number
+): Promise<SignedEnvelope> {
+  const { isLegacySigningEnabled } = await import('./wallet-settings');
+  const domain = getEnvelopeSigningDomain(envelope);
+
+  // 🔒 Chain-independent signatures are opt-in on the signing machine too
+  if (domain.format === 'legacy' && !isLegacySigningEnabled()) {
+    throw new Error('This envelope uses the legacy signing format - enable legacy signing in Advanced settings to sign it');
+  }
+
+  const signer = createAccountSigner(mnemonic, { index: accountIndex, address: envelope.from });
+
+  const signature = await signer.sign({
+    kind: 'transfer',
+    scheme: 'transaction',
+    domain,
+    from: envelope.from,
+    to: envelope.to,
+    amount: envelope.amount,
+    gasPrice: envelope.gas_price,
+    gasLimit: envelope.gas_limit,
+    nonce: envelope.nonce,
+    timestamp: envelope.timestamp,
+    params: envelope,
+  });
+
+  return {
+    ...envelope,
+    type: SIGNED_ENVELOPE_TYPE,
+    signature,
+  };
+}
+
+export function serializeEnvelope(envelope: TransactionEnvelope): string {
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * File name used when downloading an envelope
+ */
+export function getEnvelopeFilename(envelope: TransactionEnvelope): string {
+  const kind = envelope.type === SIGNED_ENVELOPE_TYPE ? 'signed' : 'unsigned';
+  return `rainum-${kind}-tx-${envelope.from.slice(2, 10)}-${envelope.nonce}.json`;
+}
+
+/**
+ * Split an envelope into QR frames for an animated QR sequence
+ */
+export function encodeEnvelopeFrames(
+  envelope: TransactionEnvelope,
+  frameSize: number = DEFAULT_FRAME_SIZE
+): string[] {
+  const json = JSON.stringify(envelope);
+  const id = bytesToHex(sha256(new TextEncoder().encode(json))).slice(0, 8);
+  const total = Math.ceil(json.length / frameSize);
+
+  const frames: string[] = [];
+  for (let i = 0; i < total; i++) {
+    const chunk = json.slice(i * frameSize, (i + 1) * frameSize);
+    frames.push(`${FRAME_PREFIX}:${id}:${i + 1}/${total}:${chunk}`);
+  }
+  return frames;
+}
+
+export interface FrameProgress {
+  received: number;
+  total: number;
+  envelope: TransactionEnvelope | null; // Set once every frame has been scanned
+}
+
+/**
+ * Collects scanned QR frames until the envelope is complete
+ * Frames may arrive in any order and repeat; frames of another envelope reset the collection
+ */
+export function createFrameAssembler() {
+  let currentId: string | null = null;
+  let chunks: string[] = [];
+
+  return {
+    add(frame: string): FrameProgress {
+      const match = frame.match(/^RNTX:([a-f0-9]{8}):(\d+)\/(\d+):([\s\S]*)$/);
+
+      // A plain JSON envelope in a single QR code
+      if (!match) {
+        return { received: 1, total: 1, envelope: parseEnvelope(frame) };
+      }
+
+      const [, id, indexText, totalText, chunk] = match;
+      const index = parseInt(indexText, 10);
+      const total = parseInt(totalText, 10);
+
+      // 🔒 The frame count sizes the buffer - a crafted frame must not allocate millions of slots
+      if (total < 1 || total > MAX_FRAMES || index < 1 || index > total) {
+        throw new Error('Invalid QR frame');
+      }
+
+      if (id !== currentId || chunks.length !== total) {
+        currentId = id;
+        chunks = new Array(total).fill(undefined);
+      }
+
+      chunks[index - 1] = chunk;
+      const received = chunks.filter((c) => c !== undefined).length;
+
+      if (received < total) {
+        return { received, total, envelope: null };
+      }
+
+      const json = chunks.join('');
+      if (bytesToHex(sha256(new TextEncoder().encode(json))).slice(0, 8) !== id) {
+        chunks = new Array(total).fill(undefined);
+        throw new Error('QR sequence is corrupted, please rescan');
+      }
+
+      return { received, total, envelope: parseEnvelope(json) };
+    },
+
+    reset() {
+      currentId = null;
+      chunks = [];
+    },
+  };
+}
@@ -0,0 +1,649 @@
+/**
+ * Transaction History Export
+ * Accounting exports of one or all accounts over a date range.
+ *
+ * - Formats: CSV (configurable columns), OFX / QFX (Quicken) and JSON
+ * - Rows join labels and categories, address-book names, gas fees and the USD value
+ *   at the time of each transaction
+ * - Every export comes with a manifest holding the file's SHA-256, signed by a wallet
+ *   account, so auditors can check the file wasn't altered (verifyExportManifest)
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, deriveAddressFromPublicKey, hexToBytes, verifyDataSignature } from './crypto';
+import { useNetworkStore } from './network-store';
+import { useTransactionLabelsStore, type TransactionLabel } from './transaction-labels-store';
+import { useAddressBookStore } from './address-book-store';
+import { csvCell } from './csv';
+import { syncTransactionHistory, type CachedTransaction } from './transaction-cache';
+import { getTransactionDirection, matchesTransactionFilters } from './transaction-query';
+import type { PricePoint } from './rainum-api';
+import type { Signer, TransactionSignature } from './transaction-builder';
+
+export type ExportFormat = 'csv' | 'ofx' | 'qfx' | 'json';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'ofx', label: 'OFX', extension: 'ofx', mimeType: 'application/x-ofx' },
+  { value: 'qfx', label: 'QFX (Quicken)', extension: 'qfx', mimeType: 'application/vnd.intu.qfx' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+export const EXPORT_MANIFEST_TYPE = 'rainum-export-manifest';
+export const EXPORT_MANIFEST_VERSION = 1;
+const SIGNATURE_PURPOSE = 'transaction-export';
+
+// RAIN reference price (same as the dashboard) - used when neither the transaction nor the node has a price
+export const REFERENCE_RAIN_USD_PRICE = 0.10;
+const PRICE_LOOKBACK_SECONDS = 7 * 24 * 60 * 60; // How far before a transaction (or statement end) a price is looked up
+
+export interface ExportRow {
+  date: string; // ISO 8601, UTC
+  timestamp: number | null; // Unix seconds
+  account: string;
+  account_name: string;
+  hash: string;
+  block: number | null;
+  status: string;
+  direction: 'incoming' | 'outgoing';
+  from: string;
+  from_name: string;
+  to: string;
+  to_name: string;
+  counterparty: string;
+  counterparty_name: string;
+  amount: number; // RAIN
+  fee: number; // RAIN, paid by this account (outgoing only)
+  net_amount: number; // RAIN, signed balance change for this account
+  gas_used: number | null;
+  gas_price: number | null;
+  usd_price: number; // USD per RAIN at transaction time
+  usd_value: number;
+  fee_usd: number;
+  net_usd: number;
+  price_source: 'transaction' | 'node' | 'reference';
+  category: string;
+  note: string;
+  vm_type: string;
+  private: boolean;
+}
+
+export type ExportColumnId = keyof ExportRow;
+
+export const EXPORT_COLUMNS: { id: ExportColumnId; label: string }[] = [
+  { id: 'date', label: 'Date (UTC)' },
+  { id: 'account', label: 'Account' },
+  { id: 'account_name', label: 'Account Name' },
+  { id: 'hash', label: 'Transaction Hash' },
+  { id: 'block', label: 'Block' },
+  { id: 'status', label: 'Status' },
+  { id: 'direction', label: 'Direction' },
+  { id: 'from', label: 'From' },
+  { id: 'from_name', label: 'From Name' },
+  { id: 'to', label: 'To' },
+  { id: 'to_name', label: 'To Name' },
+  { id: 'counterparty', label: 'Counterparty' },
+  { id: 'counterparty_name', label: 'Counterparty Name' },
+  { id: 'amount', label: 'Amount (RAIN)' },
+  { id: 'fee', label: 'Fee (RAIN)' },
+  { id: 'net_amount', label: 'Net (RAIN)' },
+  { id: 'gas_used', label: 'Gas Used' },
+  { id: 'gas_price', label: 'Gas Price' },
+  { id: 'usd_price', label: 'RAIN/USD' },
+  { id: 'usd_value', label: 'Value (USD)' },
+  { id: 'fee_usd', label: 'Fee (USD)' },
+  { id: 'net_usd', label: 'Net (USD)' },
+  { id: 'price_source', label: 'Price Source' },
+  { id: 'category', label: 'Category' },
+  { id: 'note', label: 'Note' },
+  { id: 'vm_type', label: 'VM' },
+  { id: 'private', label: 'Private (ZKP)' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = [
+  'date',
+  'account',
+  'hash',
+  'direction',
+  'counterparty',
+  'counterparty_name',
+  'amount',
+  'fee',
+  'net_amount',
+  'usd_price',
+  'usd_value',
+  'net_usd',
+  'price_source',
+  'category',
+  'note',
+  'status',
+];
+
+export interface ExportAccount {
+  address: string;
+  name: string;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  accounts: ExportAccount[];
+  fromDate?: number; // Unix seconds, inclusive
+  toDate?: number; // Unix seconds, inclusive
+  columns?: ExportColumnId[]; // CSV only (default: DEFAULT_EXPORT_COLUMNS)
+  includePending?: boolean;
+}
+
+export interface ExportManifest {
+  type: typeof EXPORT_MANIFEST_TYPE;
+  version: number;
+  created_at: number; // Unix seconds
+  file_name: string;
+  format: ExportFormat;
+  sha256: string; // Hex SHA-256 of the exported file
+  row_count: number;
+  accounts: string[];
+  network: { id: string; name: string; chain_id: string | null };
+  date_range: { from: number | null; to: number | null };
+  signer?: {
+    address: string;
+    signature: TransactionSignature;
+  };
+}
+
+export interface TransactionExport {
+  fileName: string;
+  mimeType: string;
+  content: string;
+  rowCount: number;
+  manifest: ExportManifest;
+}
+
+export type ManifestVerification =
+  | { status: 'valid'; address: string }
+  | { status: 'invalid'; reason: string };
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Fee paid for a transaction, in RAIN
+ */
+function getTransactionFee(tx: CachedTransaction): number {
+  const total = toNumber(tx.total_fee) ?? toNumber(tx.fee_paid);
+  if (total !== null) return total;
+
+  const gasUsed = toNumber(tx.gas_used);
+  const gasPrice = toNumber(tx.gas_price);
+  return gasUsed !== null && gasPrice !== null ? gasUsed * gasPrice : 0;
+}
+
+/**
+ * Latest price at or before a timestamp
+ * Null if the timestamp predates every point - a later price is not the price at that time
+ */
+function findPriceAt(points: PricePoint[], timestamp: number): number | null {
+  let low = 0;
+  let high = points.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].timestamp <= timestamp) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 ? points[found].usd : null;
+}
+
+interface RowContext {
+  labels: Record<string, TransactionLabel>;
+  names: Map<string, string>; // lowercase address -> contact or account name
+  prices: PricePoint[];
+}
+
+/**
+ * Amount, fee and signed balance change of a transaction for one account, in RAIN
+ */
+function getAmounts(tx: CachedTransaction, direction: ExportRow['direction']): { amount: number; fee: number; netAmount: number } {
+  // Private transactions: the decrypted amount if this wallet can see it
+  const visible = toNumber(tx.amount_visible);
+  const amount = (tx.zkp_enabled && visible !== null ? visible : toNumber(tx.amount)) ?? 0;
+  const fee = direction === 'outgoing' ? getTransactionFee(tx) : 0;
+  // A failed transaction moves no funds, but the sender still pays the fee
+  const failed = String(tx.status || '').toLowerCase() === 'failed';
+  const moved = failed ? 0 : amount;
+  return { amount, fee, netAmount: direction === 'outgoing' ? -(moved + fee) : moved };
+}
+
+function isPending(tx: CachedTransaction): boolean {
+  return !tx.status || String(tx.status).toLowerCase() === 'pending';
+}
+
+function toExportRow(tx: CachedTransaction, account: ExportAccount, context: RowContext): ExportRow {
+  const direction = getTransactionDirection(tx, account.address);
+  const from = String(tx.from || '');
+  const to = String(tx.to || '');
+  const counterparty = direction === 'outgoing' ? to : from;
+  const nameOf = (address: string) => context.names.get(address.toLowerCase()) || '';
+  const { amount, fee, netAmount } = getAmounts(tx, direction);
+
+  const timestamp = toNumber(tx.timestamp);
+  const recordedPrice = toNumber(tx.usd_price) ?? toNumber(tx.price_usd);
+  const nodePrice = timestamp !== null ? findPriceAt(context.prices, timestamp) : null;
+  const usdPrice = recordedPrice ?? nodePrice ?? REFERENCE_RAIN_USD_PRICE;
+  const priceSource: ExportRow['price_source'] =
+    recordedPrice !== null ? 'transaction' : nodePrice !== null ? 'node' : 'reference';
+
+  const label = context.labels[tx.hash];
+
+  return {
+    date: timestamp !== null ? new Date(timestamp * 1000).toISOString() : '',
+    timestamp,
+    account: account.address,
+    account_name: account.name,
+    hash: tx.hash,
+    block: toNumber(tx.block_id) ?? toNumber(tx.block_height),
+    status: String(tx.status || 'pending'),
+    direction,
+    from,
+    from_name: nameOf(from),
+    to,
+    to_name: nameOf(to),
+    counterparty,
+    counterparty_name: nameOf(counterparty),
+    amount,
+    fee,
+    net_amount: netAmount,
+    gas_used: toNumber(tx.gas_used),
+    gas_price: toNumber(tx.gas_price),
+    usd_price: usdPrice,
+    usd_value: round(amount * usdPrice, 2),
+    fee_usd: round(fee * usdPrice, 2),
+    net_usd: round(netAmount * usdPrice, 2),
+    price_source: priceSource,
+    category: label?.category || '',
+    note: label?.note || '',
+    vm_type: String(tx.vm_type || 'evm'),
+    private: !!tx.zkp_enabled,
+  };
+}
+
+/**
+ * Collect the rows of an export (history is synced first; offline the cached history is used)
+ */
+export async function collectExportRows(options: ExportOptions): Promise<ExportRow[]> {
+  const { getRainPriceHistory } = await import('./rainum-api');
+
+  const histories = await Promise.all(
+    options.accounts.map(async (account) => ({
+      account,
+      transactions: (await syncTransactionHistory(account.address)).transactions,
+    }))
+  );
+
+  const inRange = histories.map(({ account, transactions }) => ({
+    account,
+    transactions: transactions.filter((tx) => {
+      if (isPending(tx) && !options.includePending) return false;
+      return matchesTransactionFilters(tx, account.address, { fromDate: options.fromDate, toDate: options.toDate });
+    }),
+  }));
+
+  // Own accounts first, contacts override with the name the user gave them
+  const names = new Map<string, string>();
+  options.accounts.forEach((account) => names.set(account.address.toLowerCase(), account.name));
+  useAddressBookStore.getState().addresses.forEach((entry) => names.set(entry.address.toLowerCase(), entry.name));
+
+  const timestamps = inRange.flatMap(({ transactions }) =>
+    transactions.map((tx) => tx.timestamp).filter((t): t is number => typeof t === 'number')
+  );
+  const prices = timestamps.length > 0
+    ? await getRainPriceHistory(Math.min(...timestamps) - PRICE_LOOKBACK_SECONDS, Math.max(...timestamps))
+    : [];
+
+  const context: RowContext = { labels: useTransactionLabelsStore.getState().labels, names, prices };
+
+  return inRange
+    .flatMap(({ account, transactions }) => transactions.map((tx) => toExportRow(tx, account, context)))
+    .sort((a, b) => (a.timestamp ?? Infinity) - (b.timestamp ?? Infinity) || a.account.localeCompare(b.account));
+}
+
+export function formatExportCsv(rows: ExportRow[], columns: ExportColumnId[] = DEFAULT_EXPORT_COLUMNS): string {
+  const selected = EXPORT_COLUMNS.filter((column) => columns.includes(column.id));
+  if (selected.length === 0) {
+    throw new Error('Select at least one column');
+  }
+
+  const lines = [
+    selected.map((column) => csvCell(column.label)).join(','),
+    ...rows.map((row) => selected.map((column) => csvCell(row[column.id])).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+function ofxDate(timestamp: number): string {
+  const iso = new Date(timestamp * 1000).toISOString(); // 2024-01-31T12:34:56.000Z
+  return `${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}[0:GMT]`;
+}
+
+// OFX 1.x is SGML in an 8-bit charset: plain ASCII, markup characters escaped
+function ofxText(value: string, maxLength: number): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[^\x20-\x7e]/g, '')
+    .slice(0, maxLength)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function ofxAmount(value: number): string {
+  return value.toFixed(2);
+}
+
+export interface OfxStatementBalance {
+  account: string;
+  balanceUsd: number;
+  asOf: number; // Unix seconds
+}
+
+/**
+ * Balance of each account at the end of a statement, in USD at the node's price for that time
+ * The current balance minus everything that settled after `asOf`.
+ */
+async function getStatementBalances(accounts: ExportAccount[], asOf: number): Promise<OfxStatementBalance[]> {
+  const { fetchAccountState, getRainPriceHistory } = await import('./rainum-api');
+
+  const price = findPriceAt(await getRainPriceHistory(asOf - PRICE_LOOKBACK_SECONDS, asOf), asOf);
+  if (price === null) {
+    throw new Error('The node has no RAIN/USD price for the end of the statement - export CSV or JSON instead');
+  }
+
+  return Promise.all(
+    accounts.map(async (account) => {
+      // 🔒 A failed balance lookup must fail the export, not become a closing balance of 0
+      const [{ balance }, history] = await Promise.all([
+        fetchAccountState(account.address),
+        syncTransactionHistory(account.address),
+      ]);
+      if (history.offline) {
+        throw new Error('Unable to reach the node - the statement balance cannot be calculated offline');
+      }
+
+      const settledLater = history.transactions.filter((tx) => !isPending(tx) && (toNumber(tx.timestamp) ?? 0) > asOf);
+      const balanceAtEnd = settledLater.reduce(
+        (sum, tx) => sum - getAmounts(tx, getTransactionDirection(tx, account.address)).netAmount,
+        balance
+      );
+      return { account: account.address, balanceUsd: round(balanceAtEnd * price, 2), asOf };
+    })
+  );
+}
+
+/**
+ * OFX 1.02 bank statements (one per account), amounts in USD at transaction time
+ * QFX is the same document with Quicken's INTU.BID sign-on field.
+ */
+export function formatExportOfx(
+  rows: ExportRow[],
+  accounts: ExportAccount[],
+  balances: OfxStatementBalance[],
+  options: { qfx: boolean; chainId: string | null; fromDate?: number; toDate?: number }
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const posted = rows.filter((row) => row.timestamp !== null && row.status.toLowerCase() !== 'pending');
+  const stamps = posted.map((row) => row.timestamp as number);
+  const start = options.fromDate ?? (stamps.length > 0 ? Math.min(...stamps) : now);
+  const end = options.toDate ?? now;
+
+  const statements = accounts.map((account, i) => {
+    const accountRows = posted.filter((row) => row.account === account.address);
+    const balance = balances.find((b) => b.account === account.address);
+
+    const transactions = accountRows.map((row) => {
+      const memo = [
+        `${row.amount} RAIN @ ${row.usd_price} USD`,
+        row.fee > 0 ? `fee ${row.fee} RAIN` : '',
+        row.category,
+        row.note,
+        row.status.toLowerCase() === 'failed' ? 'FAILED' : '',
+      ].filter(Boolean).join(' | ');
+
+      return [
+        '<STMTTRN>',
+        `<TRNTYPE>${row.direction === 'outgoing' ? 'DEBIT' : 'CREDIT'}`,
+        `<DTPOSTED>${ofxDate(row.timestamp as number)}`,
+        `<TRNAMT>${ofxAmount(row.net_usd)}`,
+        `<FITID>${ofxText(row.hash, 255)}`,
+        `<NAME>${ofxText(row.counterparty_name || row.counterparty || 'Unknown', 32)}`,
+        `<MEMO>${ofxText(memo, 255)}`,
+        '</STMTTRN>',
+      ].join('\n');
+    });
+
+    return [
+      '<STMTTRNRS>',
+      `<TRNUID>${i + 1}`,
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      '<STMTRS>',
+      '<CURDEF>USD',
+      '<BANKACCTFROM>',
+      `<BANKID>${ofxText(options.chainId || 'RAINUM', 9)}`,
+      // OFX 1.02 suggests 22 characters - the full address is kept so accounts stay unambiguous
+      `<ACCTID>${ofxText(account.address, 42)}`,
+      '<ACCTTYPE>CHECKING',
+      '</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      `<DTSTART>${ofxDate(start)}`,
+      `<DTEND>${ofxDate(end)}`,
+      ...transactions,
+      '</BANKTRANLIST>',
+      `<LEDGERBAL><BALAMT>${ofxAmount(balance?.balanceUsd ?? 0)}<DTASOF>${ofxDate(balance?.asOf ?? end)}</LEDGERBAL>`,
+      '</STMTRS>',
+      '</STMTTRNRS>',
+    ].join('\n');
+  });
+
+  return [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1>',
+    '<SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(now)}`,
+    '<LANGUAGE>ENG',
+    '<FI><ORG>Rainum<FID>RAINUM</FI>',
+    // Web Connect imports: Quicken asks which account to import into
+    ...(options.qfx ? ['<INTU.BID>00000'] : []),
+    '</SONRS>',
+    '</SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1>',
+    ...statements,
+    '</BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\n');
+}
+
+export function formatExportJson(
+  rows: ExportRow[],
+  options: ExportOptions,
+  network: ExportManifest['network']
+): string {
+  return JSON.stringify({
+    type: 'rainum-transaction-export',
+    version: 1,
+    created_at: Math.floor(Date.now() / 1000),
+    network,
+    accounts: options.accounts,
+    date_range: { from: options.fromDate ?? null, to: options.toDate ?? null },
+    transactions: rows,
+  }, null, 2);
+}
+
+function hashContent(content: string): string {
+  return bytesToHex(sha256(new TextEncoder().encode(content)));
+}
+
+/**
+ * Bytes covered by the manifest signature (everything except the signer block)
+ */
+function getManifestSignedBytes(manifest: ExportManifest): Uint8Array {
+  const { type, version, created_at, file_name, format, sha256: hash, row_count, accounts, network, date_range } = manifest;
+  return new TextEncoder().encode(JSON.stringify({
+    type, version, created_at, file_name, format, sha256: hash, row_count, accounts, network, date_range,
+  }));
+}
+
+export function getExportFileName(options: ExportOptions): string {
+  const format = EXPORT_FORMATS.find((f) => f.value === options.format);
+  const scope = options.accounts.length === 1 ? options.accounts[0].address.slice(0, 10) : 'all-accounts';
+  const day = (t?: number) => (t !== undefined ? new Date(t * 1000).toISOString().slice(0, 10) : null);
+  const range = [day(options.fromDate) || 'start', day(options.toDate) || 'now'].join('_');
+  return `rainum-transactions-${scope}-${range}.${format?.extension || options.format}`;
+}
+
+/**
+ * Build an export and its signed manifest
+ * @param signer - Account that signs the manifest
+ */
+export async function createTransactionExport(options: ExportOptions, signer: Signer): Promise<TransactionExport> {
+  if (options.accounts.length === 0) {
+    throw new Error('Select at least one account');
+  }
+  if (options.fromDate !== undefined && options.toDate !== undefined && options.fromDate > options.toDate) {
+    throw new Error('The start date is after the end date');
+  }
+
+  const format = EXPORT_FORMATS.find((f) => f.value === options.format);
+  if (!format) {
+    throw new Error(`Unsupported export format: ${options.format}`);
+  }
+
+  const rows = await collectExportRows(options);
+  const { currentNetwork } = useNetworkStore.getState();
+  const network = { id: currentNetwork.id, name: currentNetwork.name, chain_id: currentNetwork.chainId ?? null };
+
+  let content: string;
+  switch (options.format) {
+    case 'csv':
+      content = formatExportCsv(rows, options.columns);
+      break;
+    case 'json':
+      content = formatExportJson(rows, options, network);
+      break;
+    default: {
+      // OFX amounts are USD only - a made-up price would end up in the books unnoticed
+      const unpriced = rows.filter((row) => row.price_source === 'reference').length;
+      if (unpriced > 0) {
+        throw new Error(
+          `${unpriced} transaction${unpriced === 1 ? ' has' : 's have'} no recorded USD price - export CSV or JSON instead, where the Price Source column marks them`
+        );
+      }
+
+      const balances = await getStatementBalances(options.accounts, options.toDate ?? Math.floor(Date.now() / 1000));
+      content = formatExportOfx(rows, options.accounts, balances, {
+        qfx: options.format === 'qfx',
+        chainId: network.chain_id,
+        fromDate: options.fromDate,
+        toDate: options.toDate,
+      });
+    }
+  }
+
+  const unsigned: ExportManifest = {
+    type: EXPORT_MANIFEST_TYPE,
+    version: EXPORT_MANIFEST_VERSION,
+    created_at: Math.floor(Date.now() / 1000),
+    file_name: getExportFileName(options),
+    format: options.format,
+    sha256: hashContent(content),
+    row_count: rows.length,
+    accounts: options.accounts.map((account) => account.address),
+    network,
+    date_range: { from: options.fromDate ?? null, to: options.toDate ?? null },
+  };
+
+  const signature = await signer.signData(SIGNATURE_PURPOSE, getManifestSignedBytes(unsigned));
+
+  return {
+    fileName: unsigned.file_name,
+    mimeType: format.mimeType,
+    content,
+    rowCount: rows.length,
+    manifest: { ...unsigned, signer: { address: signer.address, signature } },
+  };
+}
+
+export function getManifestFileName(manifest: ExportManifest): string {
+  return `${manifest.file_name}.manifest.json`;
+}
+
+/**
+ * Parse a manifest file
+ * @throws Error if it isn't an export manifest
+ */
+export function parseExportManifest(json: string): ExportManifest {
+  let data: Partial<ExportManifest>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+
+  if (!data || data.type !== EXPORT_MANIFEST_TYPE) {
+    throw new Error('Not an export manifest');
+  }
+  if (data.version !== EXPORT_MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest version ${String(data.version)}`);
+  }
+  if (typeof data.sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(data.sha256)) {
+    throw new Error('The manifest has no valid file hash');
+  }
+
+  return data as ExportManifest;
+}
+
+/**
+ * Check an exported file against its manifest: the file hash must match and the
+ * manifest must carry a valid signature of the stated account
+ */
+export function verifyExportManifest(manifest: ExportManifest, content: string): ManifestVerification {
+  if (!manifest.signer) {
+    return { status: 'invalid', reason: 'The manifest is not signed' };
+  }
+
+  const { address, signature } = manifest.signer;
+  if (!verifyDataSignature(signature.public_key_hex, SIGNATURE_PURPOSE, getManifestSignedBytes(manifest), signature.signature_hex)) {
+    return { status: 'invalid', reason: 'The manifest signature is invalid - the manifest was modified' };
+  }
+
+  const signerAddress = deriveAddressFromPublicKey(hexToBytes(signature.public_key_hex));
+  if (signerAddress.toLowerCase() !== address.toLowerCase()) {
+    return { status: 'invalid', reason: 'The signing key does not belong to the stated address' };
+  }
+
+  if (hashContent(content) !== manifest.sha256) {
+    return { status: 'invalid', reason: 'The file does not match the manifest - it was altered or is a different export' };
+  }
+
+  return { status: 'valid', address: signerAddress };
+}
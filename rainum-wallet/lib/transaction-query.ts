@@ -0,0 +1,307 @@
+/**
+ * Transaction History Queries
+ * One query model for transaction history, used by getTransactions (server-side when the
+ * node supports it) and by the history view on top of the local cache.
+ *
+ * - Filters: direction, status, date range, amount range, counterparty, VM type, ZKP
+ * - Cursor pagination: the cursor points at the last transaction of the previous page,
+ *   so pages stay stable while new transactions arrive
+ * - Local-only filters: full-text search over hashes, labels and address-book names,
+ *   and label categories (TRANSACTION_CATEGORIES) - labels never leave the device
+ */
+
+import type { VMType } from './rainum-api';
+import type { TransactionCategory, TransactionLabel } from './transaction-labels-store';
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 25;
+export const MAX_TRANSACTION_PAGE_SIZE = 200;
+
+export type TransactionSort = 'newest' | 'oldest' | 'amount';
+
+export interface TransactionFilters {
+  direction?: 'incoming' | 'outgoing';
+  status?: 'confirmed' | 'pending';
+  fromDate?: number; // Unix seconds, inclusive
+  toDate?: number; // Unix seconds, inclusive
+  minAmount?: number; // RAIN
+  maxAmount?: number; // RAIN
+  counterparty?: string; // Full address or address fragment
+  vmType?: VMType;
+  zkp?: boolean; // true = private transactions only, false = public only
+}
+
+export interface TransactionQuery extends TransactionFilters {
+  sort?: TransactionSort;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface TransactionPage<T = HistoryTransaction> {
+  transactions: T[];
+  nextCursor: string | null; // null when there are no more pages
+}
+
+/**
+ * Filters that need data only this wallet has (labels, address book)
+ */
+export interface LocalTransactionFilters {
+  search?: string;
+  categories?: TransactionCategory[];
+}
+
+export interface LocalSearchContext {
+  labels: Record<string, TransactionLabel>; // keyed by transaction hash
+  contacts: { name: string; address: string }[];
+}
+
+/**
+ * Transaction fields the query relies on (node transactions carry more)
+ */
+export interface HistoryTransaction {
+  hash: string;
+  from?: string;
+  to?: string;
+  amount?: number;
+  amount_visible?: number | null;
+  timestamp?: number;
+  status?: string;
+  direction?: 'incoming' | 'outgoing';
+  vm_type?: string;
+  zkp_enabled?: boolean;
+}
+
+/**
+ * Direction of a transaction as seen from an account
+ */
+export function getTransactionDirection(tx: HistoryTransaction, address: string): 'incoming' | 'outgoing' {
+  if (tx.from) {
+    return tx.from.toLowerCase() === address.toLowerCase() ? 'outgoing' : 'incoming';
+  }
+  return tx.direction || 'incoming';
+}
+
+/**
+ * Amount used for filtering and sorting (the decrypted amount for private transactions)
+ */
+function getComparableAmount(tx: HistoryTransaction): number {
+  if (tx.zkp_enabled && tx.amount_visible !== null && tx.amount_visible !== undefined) {
+    return Number(tx.amount_visible);
+  }
+  return Number(tx.amount) || 0;
+}
+
+export function matchesTransactionFilters(
+  tx: HistoryTransaction,
+  address: string,
+  filters: TransactionFilters
+): boolean {
+  if (filters.direction && getTransactionDirection(tx, address) !== filters.direction) {
+    return false;
+  }
+
+  if (filters.status && (tx.status || 'pending').toLowerCase() !== filters.status) {
+    return false;
+  }
+
+  // Pending transactions have no timestamp yet - a date range excludes them
+  if (filters.fromDate !== undefined && (!tx.timestamp || tx.timestamp < filters.fromDate)) {
+    return false;
+  }
+  if (filters.toDate !== undefined && (!tx.timestamp || tx.timestamp > filters.toDate)) {
+    return false;
+  }
+
+  const amount = getComparableAmount(tx);
+  if (filters.minAmount !== undefined && amount < filters.minAmount) {
+    return false;
+  }
+  if (filters.maxAmount !== undefined && amount > filters.maxAmount) {
+    return false;
+  }
+
+  if (filters.counterparty) {
+    const needle = filters.counterparty.trim().toLowerCase();
+    const counterparty = getTransactionDirection(tx, address) === 'outgoing' ? tx.to : tx.from;
+    if (!counterparty?.toLowerCase().includes(needle)) {
+      return false;
+    }
+  }
+
+  // Transactions from before VM tagging are EVM (same default as the history badges)
+  if (filters.vmType && (tx.vm_type || 'evm').toLowerCase() !== filters.vmType) {
+    return false;
+  }
+
+  if (filters.zkp !== undefined && !!tx.zkp_enabled !== filters.zkp) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Full-text search: every word must appear in the hash, an address, the label note or
+ * category, or the address-book name of either side
+ */
+export function matchesTransactionSearch(
+  tx: HistoryTransaction,
+  search: string,
+  context: LocalSearchContext
+): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const label = context.labels[tx.hash];
+  const parties = [tx.from, tx.to].filter((a): a is string => !!a).map((a) => a.toLowerCase());
+  const names = context.contacts
+    .filter((contact) => parties.includes(contact.address.toLowerCase()))
+    .map((contact) => contact.name);
+
+  const haystack = [tx.hash, ...parties, label?.note, label?.category, ...names]
+    .filter((value): value is string => !!value)
+    .join('\n')
+    .toLowerCase();
+
+  return terms.every((term) => haystack.includes(term));
+}
+
+function compareTransactions(a: HistoryTransaction, b: HistoryTransaction, sort: TransactionSort): number {
+  let diff: number;
+  switch (sort) {
+    case 'oldest':
+      diff = (a.timestamp || 0) - (b.timestamp || 0);
+      break;
+    case 'amount':
+      diff = getComparableAmount(b) - getComparableAmount(a);
+      break;
+    default:
+      diff = (b.timestamp || 0) - (a.timestamp || 0);
+  }
+  // Hash breaks ties so the order (and every cursor) is total
+  return diff !== 0 ? diff : a.hash.localeCompare(b.hash);
+}
+
+export function encodeTransactionCursor(tx: HistoryTransaction, sort: TransactionSort): string {
+  const key = sort === 'amount' ? getComparableAmount(tx) : tx.timestamp || 0;
+  return btoa(JSON.stringify([sort, key, tx.hash]));
+}
+
+/**
+ * @throws Error if the cursor is malformed or belongs to another sort order
+ */
+function decodeTransactionCursor(cursor: string, sort: TransactionSort): HistoryTransaction {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(atob(cursor));
+  } catch {
+    throw new Error('Invalid transaction cursor');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 3 || typeof parsed[1] !== 'number' || typeof parsed[2] !== 'string') {
+    throw new Error('Invalid transaction cursor');
+  }
+  if (parsed[0] !== sort) {
+    throw new Error('The cursor belongs to a different sort order');
+  }
+
+  const [, key, hash] = parsed as [TransactionSort, number, string];
+  return sort === 'amount' ? { hash, amount: key } : { hash, timestamp: key };
+}
+
+export function clampPageSize(limit?: number): number {
+  if (!limit || !Number.isFinite(limit)) return DEFAULT_TRANSACTION_PAGE_SIZE;
+  return Math.min(MAX_TRANSACTION_PAGE_SIZE, Math.max(1, Math.floor(limit)));
+}
+
+/**
+ * All transactions matching a query, in query order (no paging)
+ */
+export function filterTransactions<T extends HistoryTransaction>(
+  transactions: T[],
+  address: string,
+  query: TransactionQuery = {},
+  local?: LocalTransactionFilters & { context?: LocalSearchContext }
+): T[] {
+  let matching = transactions.filter((tx) => tx?.hash && matchesTransactionFilters(tx, address, query));
+
+  if (local?.categories && local.categories.length > 0) {
+    const categories = local.categories;
+    const labels = local.context?.labels || {};
+    matching = matching.filter((tx) => {
+      const category = labels[tx.hash]?.category;
+      return !!category && categories.includes(category);
+    });
+  }
+
+  if (local?.search && local.context) {
+    const { search, context } = local;
+    matching = matching.filter((tx) => matchesTransactionSearch(tx, search, context));
+  }
+
+  const sort = query.sort || 'newest';
+  return matching.sort((a, b) => compareTransactions(a, b, sort));
+}
+
+/**
+ * Page of an already filtered and sorted list (see filterTransactions)
+ */
+export function paginateTransactions<T extends HistoryTransaction>(
+  sorted: T[],
+  sort: TransactionSort = 'newest',
+  cursor?: string | null,
+  limit?: number
+): TransactionPage<T> {
+  const pageSize = clampPageSize(limit);
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeTransactionCursor(cursor, sort);
+    start = sorted.findIndex((tx) => compareTransactions(tx, after, sort) > 0);
+    if (start === -1) start = sorted.length;
+  }
+
+  const page = sorted.slice(start, start + pageSize);
+  const hasMore = start + pageSize < sorted.length;
+
+  return {
+    transactions: page,
+    nextCursor: hasMore && page.length > 0 ? encodeTransactionCursor(page[page.length - 1], sort) : null,
+  };
+}
+
+/**
+ * Filter, sort and page a transaction list
+ */
+export function queryTransactions<T extends HistoryTransaction>(
+  transactions: T[],
+  address: string,
+  query: TransactionQuery = {},
+  local?: LocalTransactionFilters & { context?: LocalSearchContext }
+): TransactionPage<T> {
+  const sorted = filterTransactions(transactions, address, query, local);
+  return paginateTransactions(sorted, query.sort || 'newest', query.cursor, query.limit);
+}
+
+/**
+ * URL query parameters understood by nodes with server-side history queries
+ */
+export function toTransactionQueryParams(query: TransactionQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | boolean | null | undefined) => {
+    if (value !== undefined && value !== null && value !== '') params.set(key, String(value));
+  };
+
+  set('cursor', query.cursor);
+  set('limit', clampPageSize(query.limit));
+  set('sort', query.sort);
+  set('direction', query.direction);
+  set('status', query.status);
+  set('from_timestamp', query.fromDate);
+  set('to_timestamp', query.toDate);
+  set('min_amount', query.minAmount);
+  set('max_amount', query.maxAmount);
+  set('counterparty', query.counterparty?.trim().toLowerCase());
+  set('vm_type', query.vmType);
+  set('zkp', query.zkp);
+  return params;
+}
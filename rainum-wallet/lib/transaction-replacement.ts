@@ -0,0 +1,97 @@
+/**
+ * Transaction Replacement (Speed up / Cancel)
+ * A pending transaction is replaced by signing another one with the same nonce
+ * at a higher gas price:
+ *   - Speed up: the same transfer again
+ *   - Cancel:   a zero-value transfer to yourself
+ * Nodes only take a replacement that pays noticeably more than what it replaces.
+ */
+
+import { TRANSFER_GAS_LIMIT, TRANSFER_GAS_PRICES, type GasPriceResponse } from './rainum-api';
+import type { ReplacementKind, TrackedTransaction } from './pending-transactions';
+
+export const REPLACEMENT_BUMP = 1.1; // At least 10% above the original gas price
+
+export interface ReplacementFeeOption {
+  id: string;
+  label: string;
+  gasPrice: number; // RAIN per gas
+  fee: number; // Whole RAIN
+  extraFee: number; // Above the original fee
+}
+
+/**
+ * Lowest gas price a node accepts for a replacement
+ */
+export function getMinimumReplacementGasPrice(originalGasPrice: number): number {
+  return Math.max(Math.ceil(originalGasPrice * REPLACEMENT_BUMP), originalGasPrice + 1);
+}
+
+export function canSpeedUp(tx: TrackedTransaction): boolean {
+  return tx.state === 'pending' && tx.kind === 'transfer' && !!tx.transfer && tx.replacement !== 'cancel';
+}
+
+export function canCancel(tx: TrackedTransaction): boolean {
+  return tx.state === 'pending' && tx.replacement !== 'cancel';
+}
+
+/**
+ * A cancellation is a plain transfer, whatever it replaces
+ */
+function getReplacementGasLimit(tx: TrackedTransaction, kind: ReplacementKind): number {
+  return kind === 'cancel' ? TRANSFER_GAS_LIMIT : tx.gasLimit;
+}
+
+/**
+ * Fee choices for a replacement: the wallet's priority tiers and the node's
+ * current tiers, whichever clear the minimum bump, plus the minimum itself
+ */
+export function getReplacementFeeOptions(
+  tx: TrackedTransaction,
+  kind: ReplacementKind,
+  gasPrices: GasPriceResponse | null
+): ReplacementFeeOption[] {
+  const minimum = getMinimumReplacementGasPrice(tx.gasPrice);
+  const originalFee = tx.gasPrice * tx.gasLimit;
+  const gasLimit = getReplacementGasLimit(tx, kind);
+
+  const candidates: { id: string; label: string; gasPrice: number }[] = [
+    { id: 'minimum', label: 'Minimum increase', gasPrice: minimum },
+    ...Object.entries(TRANSFER_GAS_PRICES).map(([priority, gasPrice]) => ({
+      id: priority,
+      label: `${priority.charAt(0).toUpperCase()}${priority.slice(1)} priority`,
+      gasPrice,
+    })),
+  ];
+
+  if (gasPrices) {
+    (['economy', 'standard', 'express'] as const).forEach((tier) => {
+      const gasPrice = Math.ceil(gasPrices.total_gas_price[tier]);
+      if (Number.isFinite(gasPrice)) {
+        candidates.push({ id: `network-${tier}`, label: `Network ${tier}`, gasPrice });
+      }
+    });
+  }
+
+  const seen = new Set<number>();
+  return candidates
+    .filter((option) => option.gasPrice >= minimum)
+    .sort((a, b) => a.gasPrice - b.gasPrice)
+    .filter((option) => {
+      if (seen.has(option.gasPrice)) return false;
+      seen.add(option.gasPrice);
+      return true;
+    })
+    .map((option) => {
+      const fee = option.gasPrice * gasLimit;
+      return { ...option, fee, extraFee: fee - originalFee };
+    });
+}
+
+/**
+ * What the replacement moves in total (amount + fee, whole RAIN)
+ */
+export function getReplacementCost(tx: TrackedTransaction, kind: ReplacementKind, gasPrice: number): number {
+  const fee = gasPrice * getReplacementGasLimit(tx, kind);
+  return kind === 'cancel' ? fee : fee + (Number(tx.amount) || 0);
+}
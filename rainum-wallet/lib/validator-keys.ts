@@ -0,0 +1,224 @@
+/**
+ * Validator Key Management
+ * Derives the consensus keys a validator node needs from the HD seed:
+ * - Ed25519 node identity key
+ * - BLS12-381 aggregation key (min-pubkey-size: G1 public key, G2 signatures)
+ * - VRF key (ECVRF-EDWARDS25519, same curve as Ed25519)
+ *
+ * Every key lives on its own hardened derivation path, so none of them
+ * can be linked to (or leak) the spending key of the wallet account.
+ *
+ * The derivation is Rainum's own (BIP32 paths, BLS scalar expanded with HKDF) -
+ * it is not EIP-2333, so these keys can't be recreated by Ethereum staking tools.
+ * Only accounts of the recovery phrase have validator keys.
+ */
+
+import { HDKey } from '@scure/bip32';
+import { bls12_381 } from '@noble/curves/bls12-381.js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import nacl from 'tweetnacl';
+import { getMasterKeyFromMnemonic, securelyWipeMemory } from './hd-wallet';
+import { EXTERNAL_ACCOUNT_INDEX_BASE } from './wallet-store';
+import { bytesToHex } from './crypto';
+import { encryptVault } from './vault';
+import { getVaultKdf } from './wallet-settings';
+
+/**
+ * Hardened derivation paths per validator key (index = wallet account index)
+ */
+export const VALIDATOR_KEY_PATHS = {
+  ed25519: (index: number) => `m/44'/60'/1'/0'/${index}'`,
+  vrf: (index: number) => `m/44'/60'/2'/0'/${index}'`,
+  bls: (index: number) => `m/12381'/3600'/${index}'/0'/0'`, // BIP32 path (not EIP-2333 derivation)
+};
+
+// Domain separation tags for proofs of possession
+const POP_DOMAIN = 'RAINUM-VALIDATOR-POP-V1';
+const BLS_POP_DST = 'BLS_POP_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+const BLS_KEYGEN_SALT = 'BLS-SIG-KEYGEN-SALT-';
+
+export interface ValidatorKeyPair {
+  publicKey: Uint8Array;
+  secretKey: Uint8Array; // Ed25519/VRF: 64-byte TweetNaCl secret key, BLS: 32-byte scalar
+}
+
+export interface ValidatorKeys {
+  accountIndex: number;
+  ed25519: ValidatorKeyPair;
+  bls: ValidatorKeyPair;
+  vrf: ValidatorKeyPair;
+}
+
+/**
+ * Hex-encoded public keys and proofs of possession (registration payload)
+ */
+export interface ValidatorKeyProofs {
+  ed25519_public_key_hex: string;
+  bls_public_key_hex: string;
+  vrf_public_key_hex: string;
+  ed25519_pop_hex: string;
+  bls_pop_hex: string;
+  vrf_pop_hex: string;
+}
+
+/**
+ * Derive raw 32-byte child key material at a hardened path
+ */
+function deriveChildSeed(masterKey: HDKey, path: string): Uint8Array {
+  const derived = masterKey.derive(path);
+
+  try {
+    if (!derived.privateKey) {
+      throw new Error('Failed to derive validator key');
+    }
+
+    return derived.privateKey.slice(0, 32);
+  } finally {
+    derived.wipePrivateData();
+  }
+}
+
+function deriveEd25519Pair(masterKey: HDKey, path: string): ValidatorKeyPair {
+  const seed = deriveChildSeed(masterKey, path);
+  try {
+    const keypair = nacl.sign.keyPair.fromSeed(seed);
+    return { publicKey: keypair.publicKey, secretKey: keypair.secretKey };
+  } finally {
+    securelyWipeMemory(seed);
+  }
+}
+
+function deriveBlsPair(masterKey: HDKey, path: string): ValidatorKeyPair {
+  const ikm = deriveChildSeed(masterKey, path);
+  // Expand to the 48 bytes noble needs for an unbiased scalar (salt taken from the IETF KeyGen)
+  const okm = hkdf(sha256, ikm, new TextEncoder().encode(BLS_KEYGEN_SALT), new Uint8Array(0), 48);
+  try {
+    const { secretKey, publicKey } = bls12_381.longSignatures.keygen(okm);
+    return { publicKey: publicKey.toBytes(true), secretKey };
+  } finally {
+    securelyWipeMemory(ikm);
+    securelyWipeMemory(okm);
+  }
+}
+
+/**
+ * Derive the full validator key set for a wallet account
+ *
+ * The BIP39 passphrase must match the one the account was derived with
+ *
+ * SECURITY NOTE: Caller must wipe the secret keys with wipeValidatorKeys()
+ */
+export function deriveValidatorKeys(
+  mnemonic: string,
+  accountIndex: number,
+  passphrase: string = ''
+): ValidatorKeys {
+  if (!Number.isInteger(accountIndex) || accountIndex < 0) {
+    throw new Error('Account index must be a non-negative integer');
+  }
+  if (accountIndex >= EXTERNAL_ACCOUNT_INDEX_BASE) {
+    throw new Error('Imported accounts cannot run a validator');
+  }
+
+  const masterKey = getMasterKeyFromMnemonic(mnemonic, passphrase);
+
+  try {
+    return {
+      accountIndex,
+      ed25519: deriveEd25519Pair(masterKey, VALIDATOR_KEY_PATHS.ed25519(accountIndex)),
+      bls: deriveBlsPair(masterKey, VALIDATOR_KEY_PATHS.bls(accountIndex)),
+      vrf: deriveEd25519Pair(masterKey, VALIDATOR_KEY_PATHS.vrf(accountIndex)),
+    };
+  } finally {
+    masterKey.wipePrivateData();
+  }
+}
+
+/**
+ * Securely wipe all secret keys of a validator key set
+ */
+export function wipeValidatorKeys(keys: ValidatorKeys): void {
+  securelyWipeMemory(keys.ed25519.secretKey);
+  securelyWipeMemory(keys.bls.secretKey);
+  securelyWipeMemory(keys.vrf.secretKey);
+}
+
+/**
+ * Ed25519-style proof of possession, bound to the operator address
+ * SHA256(domain || 0x00 || keyType || 0x00 || operator || publicKey)
+ */
+function createEd25519Pop(keyType: 'ed25519' | 'vrf', pair: ValidatorKeyPair, operatorAddress: string): string {
+  const encoder = new TextEncoder();
+  const message = sha256(new Uint8Array([
+    ...encoder.encode(POP_DOMAIN),
+    0,
+    ...encoder.encode(keyType),
+    0,
+    ...encoder.encode(operatorAddress.toLowerCase()),
+    ...pair.publicKey,
+  ]));
+
+  return bytesToHex(nacl.sign.detached(message, pair.secretKey));
+}
+
+/**
+ * Sign a proof of possession for every validator key
+ * BLS uses the standard POP ciphersuite (signature over the compressed public key)
+ */
+export function createProofsOfPossession(keys: ValidatorKeys, operatorAddress: string): ValidatorKeyProofs {
+  const blsMessage = bls12_381.longSignatures.hash(keys.bls.publicKey, BLS_POP_DST);
+  const blsPop = bls12_381.longSignatures.sign(blsMessage, keys.bls.secretKey);
+
+  return {
+    ed25519_public_key_hex: bytesToHex(keys.ed25519.publicKey),
+    bls_public_key_hex: bytesToHex(keys.bls.publicKey),
+    vrf_public_key_hex: bytesToHex(keys.vrf.publicKey),
+    ed25519_pop_hex: createEd25519Pop('ed25519', keys.ed25519, operatorAddress),
+    bls_pop_hex: blsPop.toHex(true),
+    vrf_pop_hex: createEd25519Pop('vrf', keys.vrf, operatorAddress),
+  };
+}
+
+/**
+ * Export validator keys as an encrypted keystore for node operators
+ * Secret keys are encrypted in the wallet vault format (AES-256-GCM, KDF parameters in `crypto.kdf`)
+ * @returns Keystore JSON string
+ */
+export async function exportValidatorKeystore(
+  keys: ValidatorKeys,
+  operatorAddress: string,
+  password: string
+): Promise<string> {
+  if (!password || password.length < 8) {
+    throw new Error('Keystore password must be at least 8 characters');
+  }
+
+  const secrets = JSON.stringify({
+    ed25519_secret_key_hex: bytesToHex(keys.ed25519.secretKey.slice(0, 32)),
+    bls_secret_key_hex: bytesToHex(keys.bls.secretKey),
+    vrf_secret_key_hex: bytesToHex(keys.vrf.secretKey.slice(0, 32)),
+  });
+
+  const vault = await encryptVault(secrets, password, getVaultKdf());
+
+  const keystore = {
+    type: 'rainum-validator-keystore',
+    version: 2,
+    operator: operatorAddress.toLowerCase(),
+    paths: {
+      ed25519: VALIDATOR_KEY_PATHS.ed25519(keys.accountIndex),
+      bls: VALIDATOR_KEY_PATHS.bls(keys.accountIndex),
+      vrf: VALIDATOR_KEY_PATHS.vrf(keys.accountIndex),
+    },
+    public_keys: {
+      ed25519: bytesToHex(keys.ed25519.publicKey),
+      bls: bytesToHex(keys.bls.publicKey),
+      vrf: bytesToHex(keys.vrf.publicKey),
+    },
+    crypto: vault,
+    createdAt: Date.now(),
+  };
+
+  return JSON.stringify(keystore, null, 2);
+}
@@ -0,0 +1,253 @@
+/**
+ * Wallet Vault (format v3)
+ * Authenticated encryption for secrets kept under the wallet password
+ * (mnemonic, imported account keys, exported keystores).
+ *
+ * - AES-256-GCM via WebCrypto: any modification of the ciphertext fails the auth tag
+ * - Key derived with scrypt or Argon2id; the KDF name, cost parameters and salt are stored in the vault
+ * - A key-check value tells a wrong password apart from a tampered or corrupted vault
+ *
+ * Vaults written before v3 (CryptoJS AES-CBC, no authentication) are still read by
+ * auth-manager and re-encrypted into this format on the next unlock.
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import { bytesToHex, hexToBytes } from './crypto';
+
+export const VAULT_VERSION = 3;
+export const VAULT_CIPHER = 'aes-256-gcm';
+
+export type VaultKdfName = 'scrypt' | 'argon2id';
+
+export interface ScryptParams {
+  name: 'scrypt';
+  N: number; // CPU/memory cost (power of two)
+  r: number; // Block size
+  p: number; // Parallelization
+  salt: string; // Hex
+}
+
+export interface Argon2idParams {
+  name: 'argon2id';
+  m: number; // Memory cost in KiB
+  t: number; // Iterations
+  p: number; // Parallelism
+  salt: string; // Hex
+}
+
+export type VaultKdfParams = ScryptParams | Argon2idParams;
+
+export interface EncryptedVault {
+  version: typeof VAULT_VERSION;
+  cipher: typeof VAULT_CIPHER;
+  kdf: VaultKdfParams;
+  iv: string; // Hex, 96-bit GCM nonce
+  ciphertext: string; // Hex, includes the 128-bit auth tag
+  check: string; // Hex SHA-256 of the key-check half of the derived key
+}
+
+/**
+ * Thrown when a vault opens with the right password but fails authentication,
+ * i.e. the stored data was modified or corrupted. Never treated as "wrong password".
+ */
+export class VaultIntegrityError extends Error {
+  constructor(message = 'Vault integrity check failed - the encrypted data was modified or is corrupted') {
+    super(message);
+    this.name = 'VaultIntegrityError';
+  }
+}
+
+export const DEFAULT_VAULT_KDF: VaultKdfName = 'scrypt';
+
+// 🔒 Default cost parameters: scrypt ~64 MiB, Argon2id per OWASP (19 MiB, 2 passes) - both under ~1s in the browser
+const SCRYPT_DEFAULTS = { N: 2 ** 16, r: 8, p: 1 };
+const ARGON2ID_DEFAULTS = { m: 19 * 1024, t: 2, p: 1 };
+
+// Upper bounds for parameters read from a vault, so a crafted file cannot exhaust memory
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_ARGON2ID_M = 1024 * 1024;
+const MAX_ARGON2ID_T = 16;
+
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const DERIVED_KEY_SIZE = 64; // 32 bytes AES key + 32 bytes key check
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Fresh KDF parameters (new random salt) for the given KDF
+ */
+export function createKdfParams(name: VaultKdfName = DEFAULT_VAULT_KDF): VaultKdfParams {
+  const salt = bytesToHex(randomBytes(SALT_SIZE));
+  return name === 'argon2id'
+    ? { name: 'argon2id', ...ARGON2ID_DEFAULTS, salt }
+    : { name: 'scrypt', ...SCRYPT_DEFAULTS, salt };
+}
+
+function assertKdfParams(kdf: VaultKdfParams): void {
+  const isInt = (v: unknown, min: number, max: number) =>
+    typeof v === 'number' && Number.isInteger(v) && v >= min && v <= max;
+
+  if (typeof kdf.salt !== 'string' || !/^[0-9a-f]{32,128}$/i.test(kdf.salt)) {
+    throw new Error('Invalid vault salt');
+  }
+
+  if (kdf.name === 'scrypt') {
+    if (!isInt(kdf.N, 2, MAX_SCRYPT_N) || (kdf.N & (kdf.N - 1)) !== 0 || !isInt(kdf.r, 1, 32) || !isInt(kdf.p, 1, 16)) {
+      throw new Error('Unsupported scrypt parameters');
+    }
+  } else if (kdf.name === 'argon2id') {
+    if (!isInt(kdf.m, 8 * 1024, MAX_ARGON2ID_M) || !isInt(kdf.t, 1, MAX_ARGON2ID_T) || !isInt(kdf.p, 1, 16)) {
+      throw new Error('Unsupported Argon2id parameters');
+    }
+  } else {
+    throw new Error('Unsupported vault KDF');
+  }
+}
+
+async function deriveVaultKeys(password: string, kdf: VaultKdfParams): Promise<{ key: CryptoKey; check: string }> {
+  assertKdfParams(kdf);
+
+  const salt = hexToBytes(kdf.salt);
+  const derived = kdf.name === 'argon2id'
+    ? await argon2idAsync(password, salt, { m: kdf.m, t: kdf.t, p: kdf.p, dkLen: DERIVED_KEY_SIZE })
+    : await scryptAsync(password, salt, { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: DERIVED_KEY_SIZE });
+
+  try {
+    const key = await crypto.subtle.importKey('raw', new Uint8Array(derived.subarray(0, 32)), 'AES-GCM', false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    return { key, check: bytesToHex(sha256(derived.subarray(32))) };
+  } finally {
+    derived.fill(0);
+  }
+}
+
+/**
+ * Header fields bound to the ciphertext as GCM additional data
+ */
+function vaultAad(kdf: VaultKdfParams): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify({ version: VAULT_VERSION, cipher: VAULT_CIPHER, kdf }));
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Encrypt a secret under a password
+ * @param kdf - KDF to derive the key with (parameters are stored in the vault)
+ */
+export async function encryptVault(
+  plaintext: string,
+  password: string,
+  kdf: VaultKdfName = DEFAULT_VAULT_KDF
+): Promise<EncryptedVault> {
+  if (!plaintext || !password) {
+    throw new Error('Plaintext and password are required');
+  }
+
+  const kdfParams = createKdfParams(kdf);
+  const { key, check } = await deriveVaultKeys(password, kdfParams);
+  const iv = randomBytes(IV_SIZE);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: vaultAad(kdfParams) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    version: VAULT_VERSION,
+    cipher: VAULT_CIPHER,
+    kdf: kdfParams,
+    iv: bytesToHex(iv),
+    ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+    check,
+  };
+}
+
+/**
+ * Decrypt a vault
+ * @returns Plaintext, or null if the password is wrong
+ * @throws VaultIntegrityError if the password is right but the vault fails authentication
+ */
+export async function decryptVault(vault: EncryptedVault, password: string): Promise<string | null> {
+  if (!password) {
+    return null;
+  }
+
+  const { key, check } = await deriveVaultKeys(password, vault.kdf);
+  if (!constantTimeEqual(check, vault.check)) {
+    return null; // Wrong password
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(hexToBytes(vault.iv)), additionalData: vaultAad(vault.kdf) },
+      key,
+      new Uint8Array(hexToBytes(vault.ciphertext))
+    );
+    return new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+  } catch {
+    throw new VaultIntegrityError();
+  }
+}
+
+/**
+ * Serialize a vault for storage (string fields such as encryptedMnemonic hold this JSON)
+ */
+export function serializeVault(vault: EncryptedVault): string {
+  return JSON.stringify(vault);
+}
+
+/**
+ * Parse a serialized vault
+ * @returns The vault, or null if the string is not a v3 vault (e.g. legacy CryptoJS output)
+ * @throws VaultIntegrityError if it is a v3 vault with missing or malformed fields
+ */
+export function parseVault(serialized: string): EncryptedVault | null {
+  if (!isVaultFormat(serialized)) {
+    return null;
+  }
+
+  let vault: Partial<EncryptedVault>;
+  try {
+    vault = JSON.parse(serialized);
+  } catch {
+    throw new VaultIntegrityError('Vault data is not valid JSON');
+  }
+
+  if (
+    vault.version !== VAULT_VERSION ||
+    vault.cipher !== VAULT_CIPHER ||
+    !vault.kdf ||
+    typeof vault.iv !== 'string' ||
+    !/^[0-9a-f]{24}$/i.test(vault.iv) ||
+    typeof vault.ciphertext !== 'string' ||
+    !/^[0-9a-f]+$/i.test(vault.ciphertext) ||
+    vault.ciphertext.length % 2 !== 0 ||
+    typeof vault.check !== 'string'
+  ) {
+    throw new VaultIntegrityError('Vault data is malformed');
+  }
+
+  return vault as EncryptedVault;
+}
+
+/**
+ * Whether a stored ciphertext string is a v3 vault (legacy CryptoJS output is base64)
+ */
+export function isVaultFormat(serialized: string | null | undefined): boolean {
+  return typeof serialized === 'string' && serialized.trim().startsWith('{');
+}
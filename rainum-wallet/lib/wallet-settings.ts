@@ -3,6 +3,9 @@
  * Manages all configurable wallet settings with localStorage persistence
  */
 
+import type { DerivationScheme } from './hd-wallet';
+import { DEFAULT_VAULT_KDF, type VaultKdfName } from './vault';
+
 export interface WalletSettings {
   security: {
     sessionTimeout: number; // in minutes (0 = disabled)
@@ -22,7 +25,9 @@ export interface WalletSettings {
     // Future privacy settings
   };
   advanced: {
-    // Future advanced settings
+    discoveryGapLimit: number; // Consecutive empty accounts before account discovery stops
+    vaultKdf: VaultKdfName; // KDF for newly encrypted vaults (existing vaults are upgraded on unlock)
+    legacyTransactionSigning: boolean; // Sign without chain ID domain separation (replayable across networks)
   };
 }
 
@@ -44,7 +49,11 @@ const DEFAULT_SETTINGS: WalletSettings = {
     },
   },
   privacy: {},
-  advanced: {},
+  advanced: {
+    discoveryGapLimit: 20,
+    vaultKdf: DEFAULT_VAULT_KDF,
+    legacyTransactionSigning: false,
+  },
 };
 
 /**
@@ -77,6 +86,10 @@ export function getWalletSettings(): WalletSettings {
           ...settings.security?.transactionLimits,
         },
       },
+      advanced: {
+        ...DEFAULT_SETTINGS.advanced,
+        ...settings.advanced,
+      },
     };
   } catch (error) {
     console.error('Failed to parse wallet settings:', error);
@@ -109,6 +122,17 @@ export function updateSecuritySetting(
   saveWalletSettings(settings);
 }
 
+/**
+ * Update specific advanced setting
+ */
+export function updateAdvancedSetting<K extends keyof WalletSettings['advanced']>(
+  key: K,
+  value: WalletSettings['advanced'][K]
+): void {
+  const settings = getWalletSettings();
+  saveWalletSettings({ ...settings, advanced: { ...settings.advanced, [key]: value } });
+}
+
 /**
  * Reset settings to defaults
  */
@@ -150,3 +174,46 @@ export function getTransactionLimitSettings() {
   const settings = getWalletSettings();
   return settings.security.transactionLimits;
 }
+
+/**
+ * Remove the derivation scheme older versions kept here for every wallet (now stored per wallet)
+ * @returns The scheme that was stored, if any
+ */
+export function takeLegacyDerivationScheme(): DerivationScheme | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    const settings = data ? JSON.parse(data) : null;
+    const scheme: DerivationScheme | undefined = settings?.advanced?.derivationScheme;
+    if (!scheme) return null;
+
+    delete settings.advanced.derivationScheme;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    return scheme;
+  } catch (error) {
+    console.error('Failed to read legacy derivation scheme:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the account discovery gap limit
+ */
+export function getDiscoveryGapLimit(): number {
+  return getWalletSettings().advanced.discoveryGapLimit;
+}
+
+/**
+ * Get the KDF used when encrypting the wallet vault
+ */
+export function getVaultKdf(): VaultKdfName {
+  return getWalletSettings().advanced.vaultKdf;
+}
+
+/**
+ * Whether transactions are signed in the legacy (chain-independent) format
+ */
+export function isLegacySigningEnabled(): boolean {
+  return getWalletSettings().advanced.legacyTransactionSigning === true;
+}
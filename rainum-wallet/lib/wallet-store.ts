@@ -1,12 +1,131 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { deriveAccountFromMnemonic, getNextAccountIndex } from './hd-wallet';
+import {
+  deriveAccountFromMnemonic,
+  getNextAccountIndex,
+  LEGACY_DERIVATION_SCHEME,
+  validateDerivationScheme,
+  type DerivationScheme,
+} from './hd-wallet';
+import { getDiscoveryGapLimit } from './wallet-settings';
+import type { DiscoveryOptions, DiscoveryReport } from './account-discovery';
+import {
+  decryptMnemonic,
+  encryptMnemonic,
+  getStoredDerivationScheme,
+  needsVaultUpgrade,
+  saveStoredDerivationScheme,
+} from './auth-manager';
+import { hexToBytes } from './crypto';
+
+/**
+ * How an account's key is held
+ * - hd: derived from the wallet mnemonic (index = derivation index)
+ * - imported: standalone Ed25519 key, encrypted under the wallet password
+ * - watch-only: address only, can never sign
+ */
+export type WalletAccountKind = 'hd' | 'imported' | 'watch-only';
 
 export interface WalletAccount {
-  index: number;
+  index: number; // HD derivation index, or a local id >= EXTERNAL_ACCOUNT_INDEX_BASE for non-HD accounts
   name: string;
   address: string;
   createdAt: number;
+  kind?: WalletAccountKind; // Missing = 'hd' (accounts stored before account kinds existed)
+  // Imported accounts only: secret key hex encrypted with encryptMnemonic() (v3 vault; legacy AES-CBC until the next unlock)
+  encryptedKey?: string;
+  keySalt?: string;
+}
+
+// Non-HD accounts get ids above the HD derivation range (HD indices are 0-999)
+export const EXTERNAL_ACCOUNT_INDEX_BASE = 1000;
+export const MAX_ACCOUNT_ID = 9999;
+
+export function isHDAccount(account: WalletAccount): boolean {
+  return !account.kind || account.kind === 'hd';
+}
+
+export function isWatchOnlyAccount(account: WalletAccount | null | undefined): boolean {
+  return account?.kind === 'watch-only';
+}
+
+export function isImportedAccount(account: WalletAccount | null | undefined): boolean {
+  return account?.kind === 'imported';
+}
+
+/**
+ * Next free id for a non-HD account
+ */
+function getNextExternalAccountId(accounts: WalletAccount[]): number {
+  const externalIds = accounts.filter(a => a.index >= EXTERNAL_ACCOUNT_INDEX_BASE).map(a => a.index);
+  const id = externalIds.length > 0 ? Math.max(...externalIds) + 1 : EXTERNAL_ACCOUNT_INDEX_BASE;
+  if (id > MAX_ACCOUNT_ID) {
+    throw new Error('Too many imported and watch-only accounts');
+  }
+  return id;
+}
+
+/**
+ * Decrypt the keys of all imported accounts (id -> secret key hex)
+ * Accounts whose key does not decrypt with this password (or fails its integrity check) are skipped
+ */
+async function decryptImportedKeys(accounts: WalletAccount[], password: string): Promise<Record<number, string>> {
+  const keys: Record<number, string> = {};
+
+  for (const account of accounts) {
+    if (isImportedAccount(account) && account.encryptedKey && account.keySalt) {
+      try {
+        const decrypted = await decryptMnemonic(account.encryptedKey, password, account.keySalt);
+        if (decrypted) {
+          keys[account.index] = decrypted;
+        } else {
+          console.error(`Failed to decrypt imported key for ${account.name}`);
+        }
+      } catch (error) {
+        console.error(`Imported key for ${account.name} failed its integrity check:`, error);
+      }
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Re-encrypt imported keys still stored in a legacy vault format (or with an outdated KDF)
+ * Runs on unlock, when the decrypted keys and the password are both available
+ */
+async function upgradeImportedKeys(
+  accounts: WalletAccount[],
+  keys: Record<number, string>,
+  password: string
+): Promise<WalletAccount[]> {
+  return Promise.all(accounts.map(async (account) => {
+    const secretKeyHex = keys[account.index];
+    if (!isImportedAccount(account) || !secretKeyHex || !needsVaultUpgrade(account.encryptedKey)) {
+      return account;
+    }
+
+    const { encrypted, salt } = await encryptMnemonic(secretKeyHex, password);
+    return { ...account, encryptedKey: encrypted, keySalt: salt };
+  }));
+}
+
+/**
+ * Check that a mnemonic + BIP39 passphrase open the wallet the stored accounts belong to
+ * (a different passphrase derives a different, hidden wallet from the same seed)
+ * True when there are no HD accounts to compare against yet
+ * Uses the wallet's configured derivation scheme unless one is given
+ */
+export function matchesStoredAccounts(
+  accounts: WalletAccount[],
+  mnemonic: string,
+  passphrase: string = '',
+  scheme: DerivationScheme = useWalletStore.getState().derivationScheme
+): boolean {
+  const firstAccount = accounts.find(isHDAccount);
+  if (!firstAccount) return true;
+
+  return deriveAccountFromMnemonic(mnemonic, firstAccount.index, passphrase, scheme).address === firstAccount.address;
 }
 
 interface WalletState {
@@ -15,19 +134,23 @@ interface WalletState {
   mnemonic: string | null;  // Kept in memory ONLY (not persisted to localStorage for security)
   encryptedMnemonic: string | null; // Encrypted mnemonic (persisted safely)
   mnemonicSalt: string | null; // Salt for decryption
+  importedKeys: Record<number, string>; // Decrypted imported secret keys (hex) - memory ONLY, like mnemonic
+  passphrase: string | null; // BIP39 passphrase ("25th word") - memory ONLY, never persisted
+  passphraseProtected: boolean; // Whether the wallet was opened with a passphrase (persisted so unlock prompts ask for it)
   isConnected: boolean;
   balance: number;
 
   // New HD Wallet fields
   accounts: WalletAccount[];
   activeAccountIndex: number;
+  derivationScheme: DerivationScheme; // This wallet's HD derivation (also recorded on its stored vault)
 
   // Actions
-  connect: (address: string, mnemonic?: string, password?: string) => Promise<void>;
+  connect: (address: string, mnemonic?: string, password?: string, passphrase?: string) => Promise<void>;
   disconnect: () => void;
   setBalance: (balance: number) => void;
   updateBalance: () => Promise<void>;
-  unlockMnemonic: (password: string) => boolean;
+  unlockMnemonic: (password: string, passphrase?: string) => Promise<boolean>;
 
   // New HD Wallet actions
   createAccount: (name?: string) => void;
@@ -35,8 +158,20 @@ interface WalletState {
   renameAccount: (index: number, name: string) => void;
   getActiveAccount: () => WalletAccount | null;
   getPrivateKey: (accountIndex: number) => Uint8Array | null;
-  discoverAccounts: () => Promise<void>;
+  discoverAccounts: (options?: DiscoveryOptions) => Promise<DiscoveryReport | null>;
   getAccountType: () => 'HD Wallet' | 'Imported Account' | 'Watch-Only' | 'Unknown';
+
+  // Watch-only accounts
+  addWatchOnlyAccount: (address: string, name?: string) => Promise<WalletAccount>;
+  removeAccount: (index: number) => void;
+  canSign: () => boolean;
+
+  // Imported private keys
+  importPrivateKey: (secretKey: Uint8Array, password: string, name?: string) => Promise<WalletAccount>;
+  reencryptVault: (oldPassword: string, newPassword: string) => Promise<void>;
+
+  // Derivation scheme
+  setDerivationScheme: (scheme: DerivationScheme) => void;
 }
 
 export const useWalletStore = create<WalletState>()(
@@ -46,57 +181,68 @@ export const useWalletStore = create<WalletState>()(
       mnemonic: null,
       encryptedMnemonic: null,
       mnemonicSalt: null,
+      importedKeys: {},
+      passphrase: null,
+      passphraseProtected: false,
       isConnected: false,
       balance: 0,
       accounts: [],
       activeAccountIndex: 0,
+      derivationScheme: LEGACY_DERIVATION_SCHEME,
 
-      connect: async (address: string, mnemonic?: string, password?: string) => {
+      connect: async (address: string, mnemonic?: string, password?: string, passphrase?: string) => {
         const state = get();
 
         // If mnemonic is provided, validate and initialize accounts
         if (mnemonic) {
-          const derived = deriveAccountFromMnemonic(mnemonic, 0);
+          // No passphrase given = keep the one already in memory (re-authentication)
+          const activePassphrase = passphrase ?? state.passphrase ?? '';
+          const derivationScheme = getStoredDerivationScheme();
+          const derived = deriveAccountFromMnemonic(mnemonic, 0, activePassphrase, derivationScheme);
 
-          // CRITICAL SECURITY FIX: Validate that existing accounts match this mnemonic
+          // CRITICAL SECURITY FIX: Validate that existing accounts match this mnemonic + passphrase
           let validAccounts = state.accounts;
-          if (state.accounts.length > 0) {
-            // Check if first account matches - if not, clear all accounts (prevent cross-wallet contamination)
-            const firstAccount = state.accounts[0];
-            if (firstAccount.address !== derived.address) {
-              console.warn('⚠️ SECURITY: Detected accounts from different wallet - clearing stale data');
-              validAccounts = [];
-            }
+          if (!matchesStoredAccounts(state.accounts, mnemonic, activePassphrase, derivationScheme)) {
+            // First account does not match - clear all accounts (prevent cross-wallet contamination)
+            console.warn('⚠️ SECURITY: Detected accounts from different wallet - clearing stale data');
+            validAccounts = [];
           }
 
-          // Initialize first account if we have no valid accounts
-          if (validAccounts.length === 0) {
+          // Initialize first account if we have no valid HD accounts
+          if (!validAccounts.some(isHDAccount)) {
             validAccounts = [{
               index: 0,
               name: 'Account 1',
               address: derived.address,
               createdAt: Date.now()
-            }];
+            }, ...validAccounts];
           }
 
           // Encrypt mnemonic if password provided
           let encryptedData = null;
           let saltData = null;
+          let importedKeys: Record<number, string> = {};
           if (password) {
-            const { encryptMnemonic } = await import('./auth-manager');
-            const encrypted = encryptMnemonic(mnemonic, password);
+            const encrypted = await encryptMnemonic(mnemonic, password);
             encryptedData = encrypted.encrypted;
             saltData = encrypted.salt;
+
+            importedKeys = await decryptImportedKeys(validAccounts, password);
+            validAccounts = await upgradeImportedKeys(validAccounts, importedKeys, password);
           }
 
           set({
             address: derived.address,
             mnemonic,
+            passphrase: activePassphrase,
+            passphraseProtected: activePassphrase !== '',
             encryptedMnemonic: encryptedData,
             mnemonicSalt: saltData,
+            importedKeys,
             isConnected: true,
             accounts: validAccounts,
-            activeAccountIndex: 0
+            activeAccountIndex: 0,
+            derivationScheme
           });
 
           // 🔒 SECURITY: Mnemonic stored in memory AND encrypted in localStorage
@@ -133,25 +279,52 @@ export const useWalletStore = create<WalletState>()(
           mnemonic: null,
           encryptedMnemonic: null,
           mnemonicSalt: null,
+          importedKeys: {},
+          passphrase: null,
+          passphraseProtected: false,
           isConnected: false,
           balance: 0,
           accounts: [],
-          activeAccountIndex: 0
+          activeAccountIndex: 0,
+          derivationScheme: LEGACY_DERIVATION_SCHEME
         });
       },
 
-      unlockMnemonic: (password: string) => {
-        const { encryptedMnemonic, mnemonicSalt } = get();
+      unlockMnemonic: async (password: string, passphrase?: string) => {
+        const { encryptedMnemonic, mnemonicSalt, accounts } = get();
         if (!encryptedMnemonic || !mnemonicSalt) {
           console.error('No encrypted mnemonic available');
           return false;
         }
 
-        const { decryptMnemonic } = require('./auth-manager');
-        const decrypted = decryptMnemonic(encryptedMnemonic, password, mnemonicSalt);
+        // Throws VaultIntegrityError if the stored vault was tampered with
+        const decrypted = await decryptMnemonic(encryptedMnemonic, password, mnemonicSalt);
 
         if (decrypted) {
-          set({ mnemonic: decrypted });
+          // 🔒 A wrong passphrase would silently open a different wallet - refuse instead
+          const activePassphrase = passphrase ?? get().passphrase ?? '';
+          if (!matchesStoredAccounts(accounts, decrypted, activePassphrase, get().derivationScheme)) {
+            console.error('Passphrase does not match this wallet');
+            return false;
+          }
+
+          const importedKeys = await decryptImportedKeys(accounts, password);
+
+          // 🔒 MIGRATION: Move legacy AES-CBC ciphertexts to the authenticated vault format
+          let vaultUpdate = {};
+          if (needsVaultUpgrade(encryptedMnemonic)) {
+            const encrypted = await encryptMnemonic(decrypted, password);
+            vaultUpdate = { encryptedMnemonic: encrypted.encrypted, mnemonicSalt: encrypted.salt };
+            console.log('🔄 Upgraded wallet vault to the current format');
+          }
+
+          set({
+            ...vaultUpdate,
+            mnemonic: decrypted,
+            passphrase: activePassphrase,
+            importedKeys,
+            accounts: await upgradeImportedKeys(accounts, importedKeys, password),
+          });
           return true;
         }
         return false;
@@ -177,7 +350,7 @@ export const useWalletStore = create<WalletState>()(
 
       // HD Wallet actions
       createAccount: (name?: string) => {
-        const { mnemonic, accounts, encryptedMnemonic } = get();
+        const { mnemonic, passphrase, accounts, encryptedMnemonic } = get();
         if (!mnemonic && !encryptedMnemonic) {
           console.error('No mnemonic available - please re-login');
           return;
@@ -188,9 +361,10 @@ export const useWalletStore = create<WalletState>()(
           return;
         }
 
-        const nextIndex = getNextAccountIndex(accounts);
-        const derived = deriveAccountFromMnemonic(mnemonic, nextIndex);
-        const accountName = name || `Account ${accounts.length + 1}`;
+        const hdAccounts = accounts.filter(isHDAccount);
+        const nextIndex = getNextAccountIndex(hdAccounts);
+        const derived = deriveAccountFromMnemonic(mnemonic, nextIndex, passphrase || '', get().derivationScheme);
+        const accountName = name || `Account ${hdAccounts.length + 1}`;
 
         const newAccount: WalletAccount = {
           index: nextIndex,
@@ -248,11 +422,20 @@ export const useWalletStore = create<WalletState>()(
        *   securelyWipeMemory(privateKey);
        */
       getPrivateKey: (accountIndex: number) => {
-        const { mnemonic } = get();
+        const { mnemonic, passphrase, accounts, importedKeys } = get();
         if (!mnemonic) return null;
 
+        // Watch-only entries hold no key (their id is not a derivation index)
+        const account = accounts.find((a: WalletAccount) => a.index === accountIndex);
+        if (account && isWatchOnlyAccount(account)) return null;
+
+        // Imported keys are not derived - hand out a copy of the decrypted key
+        if (account && isImportedAccount(account)) {
+          return importedKeys[accountIndex] ? hexToBytes(importedKeys[accountIndex]) : null;
+        }
+
         try {
-          const derived = deriveAccountFromMnemonic(mnemonic, accountIndex);
+          const derived = deriveAccountFromMnemonic(mnemonic, accountIndex, passphrase || '', get().derivationScheme);
           // Note: Caller MUST wipe this from memory after use
           return derived.privateKey;
         } catch (error) {
@@ -263,74 +446,70 @@ export const useWalletStore = create<WalletState>()(
 
       /**
        * Auto-discover all accounts with activity on the blockchain
-       * Scans accounts 0-99 and loads any that have balance or transactions
-       * Stops after finding 20 consecutive empty accounts
+       * Scans HD indices until `gapLimit` consecutive empty accounts (wallet setting, default 20)
+       * and adds every account with activity that is not in the wallet yet.
+       * Existing accounts (including empty ones the user created) are kept.
        */
-      discoverAccounts: async () => {
-        const { mnemonic } = get();
+      discoverAccounts: async (options: DiscoveryOptions = {}) => {
+        const { mnemonic, passphrase, accounts } = get();
         if (!mnemonic) {
           console.error('No mnemonic available for account discovery');
-          return;
+          return null;
         }
 
         console.log('🔍 Starting account discovery...');
 
-        const { accountExists } = await import('./rainum-api');
-        const discoveredAccounts: WalletAccount[] = [];
-        const MAX_SCAN = 100;
-        const MAX_EMPTY_STREAK = 20;
-        let emptyStreak = 0;
-
-        for (let index = 0; index < MAX_SCAN; index++) {
-          try {
-            // Derive account address
-            const derived = deriveAccountFromMnemonic(mnemonic, index);
-
-            // Check if account exists on blockchain
-            const exists = await accountExists(derived.address);
-
-            if (exists) {
-              console.log(`✅ Found account ${index}: ${derived.address}`);
-              discoveredAccounts.push({
-                index,
-                name: `Account ${index + 1}`,
-                address: derived.address,
-                createdAt: Date.now()
-              });
-              emptyStreak = 0; // Reset streak when we find an account
-            } else {
-              emptyStreak++;
-              console.log(`⚪ Empty account ${index} (streak: ${emptyStreak}/${MAX_EMPTY_STREAK})`);
-
-              // Stop if we've found MAX_EMPTY_STREAK consecutive empty accounts
-              if (emptyStreak >= MAX_EMPTY_STREAK) {
-                console.log(`🛑 Stopping discovery after ${MAX_EMPTY_STREAK} empty accounts`);
-                break;
-              }
-            }
-          } catch (error) {
-            console.error(`Failed to check account ${index}:`, error);
-            // Continue scanning even if one check fails
-          }
-        }
+        const { runAccountDiscovery } = await import('./account-discovery');
+        const hdAccounts = accounts.filter(isHDAccount);
 
-        console.log(`✨ Discovery complete! Found ${discoveredAccounts.length} accounts`);
+        // Hidden wallets (BIP39 passphrase) have their own account tree
+        const report = await runAccountDiscovery(
+          mnemonic,
+          passphrase || '',
+          get().derivationScheme,
+          hdAccounts.map((a: WalletAccount) => a.index),
+          { gapLimit: getDiscoveryGapLimit(), ...options }
+        );
 
-        // Update store with discovered accounts
-        if (discoveredAccounts.length > 0) {
+        console.log(`✨ Discovery ${report.cancelled ? 'cancelled' : 'complete'}! Found ${report.found} accounts`);
+
+        const newAccounts: WalletAccount[] = report.entries
+          .filter((entry) => entry.added)
+          .map((entry) => ({
+            index: entry.index,
+            name: `Account ${entry.index + 1}`,
+            address: entry.address,
+            createdAt: Date.now()
+          }));
+
+        // Merge by index (HD accounts sorted, imported / watch-only entries kept after them)
+        if (newAccounts.length > 0) {
+          const current = get().accounts;
+          const mergedHD = [...current.filter(isHDAccount), ...newAccounts].sort(
+            (a: WalletAccount, b: WalletAccount) => a.index - b.index
+          );
           set({
-            accounts: discoveredAccounts,
-            activeAccountIndex: 0,
-            address: discoveredAccounts[0].address
+            accounts: [...mergedHD, ...current.filter((a: WalletAccount) => !isHDAccount(a))]
           });
         }
+
+        return report;
       },
 
       /**
        * Get wallet account type based on how it was created
        */
       getAccountType: () => {
-        const { mnemonic, encryptedMnemonic, accounts, address } = get();
+        const { mnemonic, encryptedMnemonic, address } = get();
+
+        const activeAccount = get().getActiveAccount();
+        if (isWatchOnlyAccount(activeAccount)) {
+          return 'Watch-Only';
+        }
+
+        if (isImportedAccount(activeAccount)) {
+          return 'Imported Account';
+        }
 
         // If has mnemonic (encrypted or in memory) = HD Wallet
         if (mnemonic || encryptedMnemonic) {
@@ -344,11 +523,180 @@ export const useWalletStore = create<WalletState>()(
           return 'Imported Account';
         }
 
-        // Watch-only would be addresses without private keys (future feature)
         // Hardware wallet would be detected via different mechanism (future feature)
 
         return 'Unknown';
       },
+
+      /**
+       * Add an address to monitor without any key material
+       * @throws Error if the address is invalid or already in the wallet
+       */
+      addWatchOnlyAccount: async (address: string, name?: string) => {
+        const { sanitizeAddress } = await import('./input-sanitizer');
+        const sanitized = sanitizeAddress(address);
+        if (!sanitized) {
+          throw new Error('Invalid address format');
+        }
+
+        const { accounts } = get();
+        if (accounts.some((a: WalletAccount) => a.address.toLowerCase() === sanitized.toLowerCase())) {
+          throw new Error('This address is already in your wallet');
+        }
+
+        const index = getNextExternalAccountId(accounts);
+        const watchOnlyCount = accounts.filter(isWatchOnlyAccount).length;
+
+        const account: WalletAccount = {
+          index,
+          name: name?.trim() || `Watch-Only ${watchOnlyCount + 1}`,
+          address: sanitized,
+          createdAt: Date.now(),
+          kind: 'watch-only',
+        };
+
+        set({ accounts: [...accounts, account] });
+        return account;
+      },
+
+      /**
+       * Remove a non-HD account (HD accounts are always re-derivable, so they stay)
+       */
+      removeAccount: (index: number) => {
+        const { accounts, activeAccountIndex, importedKeys } = get();
+        const account = accounts.find((a: WalletAccount) => a.index === index);
+        if (!account || isHDAccount(account)) {
+          return;
+        }
+
+        const remainingKeys = { ...importedKeys };
+        delete remainingKeys[index];
+
+        set({
+          accounts: accounts.filter((a: WalletAccount) => a.index !== index),
+          importedKeys: remainingKeys,
+        });
+
+        // Fall back to the first account if the removed one was active
+        if (activeAccountIndex === index) {
+          const fallback = get().accounts[0];
+          if (fallback) {
+            get().switchAccount(fallback.index);
+          }
+        }
+      },
+
+      /**
+       * Whether the active account holds key material (false for watch-only)
+       */
+      canSign: () => {
+        return !isWatchOnlyAccount(get().getActiveAccount());
+      },
+
+      /**
+       * Add a standalone Ed25519 key as an "Imported Account"
+       * The key is encrypted under the wallet password (same scheme as the mnemonic)
+       * @throws Error if the password is wrong or the address is already in the wallet
+       */
+      importPrivateKey: async (secretKey: Uint8Array, password: string, name?: string) => {
+        const { verifyPassword } = await import('./auth-manager');
+        const { getAddressFromSecretKey } = await import('./imported-keys');
+        const { bytesToHex } = await import('./crypto');
+
+        // 🔒 Only the wallet owner may add keys (they must decrypt with the same password)
+        if (!(await verifyPassword(password))) {
+          throw new Error('Incorrect wallet password');
+        }
+
+        const address = getAddressFromSecretKey(secretKey);
+        const { accounts, importedKeys } = get();
+        if (accounts.some((a: WalletAccount) => a.address.toLowerCase() === address.toLowerCase())) {
+          throw new Error('This account is already in your wallet');
+        }
+
+        const secretKeyHex = bytesToHex(secretKey);
+        const { encrypted, salt } = await encryptMnemonic(secretKeyHex, password);
+        const index = getNextExternalAccountId(accounts);
+        const importedCount = accounts.filter(isImportedAccount).length;
+
+        const account: WalletAccount = {
+          index,
+          name: name?.trim() || `Imported ${importedCount + 1}`,
+          address,
+          createdAt: Date.now(),
+          kind: 'imported',
+          encryptedKey: encrypted,
+          keySalt: salt,
+        };
+
+        set({
+          accounts: [...accounts, account],
+          importedKeys: { ...importedKeys, [index]: secretKeyHex },
+        });
+        return account;
+      },
+
+      /**
+       * Re-encrypt everything the store keeps under the wallet password
+       * Call after auth-manager changePassword() succeeded
+       */
+      reencryptVault: async (oldPassword: string, newPassword: string) => {
+        const { encryptedMnemonic, mnemonicSalt, accounts } = get();
+
+        let mnemonicUpdate = {};
+        if (encryptedMnemonic && mnemonicSalt) {
+          const mnemonic = await decryptMnemonic(encryptedMnemonic, oldPassword, mnemonicSalt);
+          if (mnemonic) {
+            const encrypted = await encryptMnemonic(mnemonic, newPassword);
+            mnemonicUpdate = { encryptedMnemonic: encrypted.encrypted, mnemonicSalt: encrypted.salt };
+          }
+        }
+
+        // Both formats decrypt here; every key is written back as a v3 vault
+        const keys = await decryptImportedKeys(accounts, oldPassword);
+        const updatedAccounts = await Promise.all(accounts.map(async (account: WalletAccount) => {
+          const secretKeyHex = keys[account.index];
+          if (!isImportedAccount(account) || !secretKeyHex) {
+            return account;
+          }
+
+          const encrypted = await encryptMnemonic(secretKeyHex, newPassword);
+          return { ...account, encryptedKey: encrypted.encrypted, keySalt: encrypted.salt };
+        }));
+
+        set({ ...mnemonicUpdate, accounts: updatedAccounts });
+      },
+
+      /**
+       * Switch how HD accounts are derived
+       * Re-derives every HD account at the same index under the new scheme (names are kept).
+       * Funds stay on the old addresses - use the derivation migration sweep to move them.
+       */
+      setDerivationScheme: (scheme: DerivationScheme) => {
+        const { mnemonic, passphrase, accounts, activeAccountIndex, address } = get();
+        if (!mnemonic) {
+          throw new Error('WALLET_LOCKED');
+        }
+
+        validateDerivationScheme(scheme);
+
+        const updatedAccounts = accounts.map((account: WalletAccount) => {
+          if (!isHDAccount(account)) return account;
+          const derived = deriveAccountFromMnemonic(mnemonic, account.index, passphrase || '', scheme);
+          return { ...account, address: derived.address };
+        });
+
+        saveStoredDerivationScheme(scheme);
+
+        const active = updatedAccounts.find((a: WalletAccount) => a.index === activeAccountIndex);
+        set({
+          accounts: updatedAccounts,
+          address: active ? active.address : address,
+          derivationScheme: scheme,
+        });
+
+        get().updateBalance();
+      },
     }),
     {
       name: 'rainum-wallet-storage',
@@ -359,9 +707,12 @@ export const useWalletStore = create<WalletState>()(
         // ✅ SAFE: Persist encrypted mnemonic with salt for seed phrase export
         encryptedMnemonic: state.encryptedMnemonic,
         mnemonicSalt: state.mnemonicSalt,
+        // 🔒 Only the fact that a passphrase is in use - never the passphrase itself
+        passphraseProtected: state.passphraseProtected,
         isConnected: state.isConnected,
         accounts: state.accounts,
         activeAccountIndex: state.activeAccountIndex,
+        derivationScheme: state.derivationScheme,
         // Don't persist balance - always fetch fresh
       }),
       skipHydration: false,
@@ -372,6 +723,9 @@ export const useWalletStore = create<WalletState>()(
         ...persistedState,
         // Keep in-memory mnemonic (don't overwrite with null from localStorage)
         mnemonic: currentState.mnemonic,
+        passphrase: currentState.passphrase,
+        // MIGRATION: State saved before schemes were per wallet - the stored vault knows it
+        derivationScheme: persistedState?.derivationScheme ?? getStoredDerivationScheme(),
       }),
       onRehydrateStorage: () => (state) => {
         // 🔒 SECURITY: Mnemonic NOT restored from storage